@@ -1,4 +1,4 @@
-import { exec } from "child_process";
+import { exec, execFile, spawn, ChildProcess } from "child_process";
 import { promisify } from "util";
 import { existsSync } from "fs";
 import path from "path";
@@ -6,6 +6,7 @@ import os from "os";
 import sharp from "sharp";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // XML parsing for uiautomator dump
 import { XMLParser } from "fast-xml-parser";
@@ -117,27 +118,31 @@ export async function listAndroidDevices(): Promise<AdbResult> {
 }
 
 /**
- * Get the first connected Android device ID
+ * Get the IDs of connected Android devices that are ready (not offline or unauthorized)
  */
-export async function getDefaultAndroidDevice(): Promise<string | null> {
+export async function getReadyAndroidDevices(): Promise<string[]> {
     try {
         const { stdout } = await execAsync("adb devices", { timeout: ADB_TIMEOUT });
         const lines = stdout.trim().split("\n");
         const deviceLines = lines.slice(1).filter((line) => line.trim().length > 0);
 
-        for (const line of deviceLines) {
-            const [id, status] = line.trim().split(/\s+/);
-            if (status === "device") {
-                return id;
-            }
-        }
-
-        return null;
+        return deviceLines
+            .map((line) => line.trim().split(/\s+/))
+            .filter(([, status]) => status === "device")
+            .map(([id]) => id);
     } catch {
-        return null;
+        return [];
     }
 }
 
+/**
+ * Get the first connected Android device ID
+ */
+export async function getDefaultAndroidDevice(): Promise<string | null> {
+    const devices = await getReadyAndroidDevices();
+    return devices[0] ?? null;
+}
+
 /**
  * Build device selector for ADB command
  */
@@ -1492,7 +1497,7 @@ function formatAndroidAccessibilityTree(elements: AndroidAccessibilityElement[],
 /**
  * Flatten element tree to array for searching
  */
-function flattenElements(elements: AndroidAccessibilityElement[]): AndroidAccessibilityElement[] {
+export function flattenElements(elements: AndroidAccessibilityElement[]): AndroidAccessibilityElement[] {
     const result: AndroidAccessibilityElement[] = [];
     for (const element of elements) {
         result.push(element);
@@ -1503,6 +1508,53 @@ function flattenElements(elements: AndroidAccessibilityElement[]): AndroidAccess
     return result;
 }
 
+/**
+ * The most specific (smallest) element of a flattened hierarchy whose bounds
+ * contain the point
+ */
+export function findElementAtPoint(
+    elements: AndroidAccessibilityElement[],
+    x: number,
+    y: number
+): AndroidAccessibilityElement | null {
+    // Find all elements whose bounds contain the point
+    const matchingElements = elements.filter((el) => {
+        const b = el.bounds;
+        return x >= b.left && x <= b.right && y >= b.top && y <= b.bottom;
+    });
+
+    // Sort by area (smallest first) to get the deepest element
+    matchingElements.sort((a, b) => {
+        const areaA = a.frame.width * a.frame.height;
+        const areaB = b.frame.width * b.frame.height;
+        return areaA - areaB;
+    });
+    return matchingElements[0] ?? null;
+}
+
+/**
+ * Elements of a flattened hierarchy matching tap criteria, in hierarchy order
+ * (the order androidTapElement's index refers to)
+ */
+export function filterAccessibilityElements(
+    elements: AndroidAccessibilityElement[],
+    criteria: Omit<FindElementOptions, "index">
+): AndroidAccessibilityElement[] {
+    const { text, textContains, contentDesc, contentDescContains, resourceId } = criteria;
+    return elements.filter((el) => {
+        if (text && el.text !== text) return false;
+        if (textContains && (!el.text || !el.text.toLowerCase().includes(textContains.toLowerCase()))) return false;
+        if (contentDesc && el.contentDesc !== contentDesc) return false;
+        if (contentDescContains && (!el.contentDesc || !el.contentDesc.toLowerCase().includes(contentDescContains.toLowerCase()))) return false;
+        if (resourceId) {
+            // Support both full resource-id and short form
+            if (!el.resourceId) return false;
+            if (el.resourceId !== resourceId && !el.resourceId.endsWith(`:id/${resourceId}`)) return false;
+        }
+        return true;
+    });
+}
+
 /**
  * Get the UI hierarchy from the connected Android device using uiautomator dump
  */
@@ -1594,32 +1646,14 @@ export async function androidDescribePoint(
             return result;
         }
 
-        // Flatten and find elements containing the point
-        const allElements = flattenElements(result.elements);
-
-        // Find all elements whose bounds contain the point
-        const matchingElements = allElements.filter((el) => {
-            const b = el.bounds;
-            return x >= b.left && x <= b.right && y >= b.top && y <= b.bottom;
-        });
-
-        if (matchingElements.length === 0) {
+        const element = findElementAtPoint(flattenElements(result.elements), x, y);
+        if (!element) {
             return {
                 success: true,
                 formatted: `No element found at (${x}, ${y})`
             };
         }
 
-        // Return the deepest (smallest) element that contains the point
-        // Sort by area (smallest first) to get the most specific element
-        matchingElements.sort((a, b) => {
-            const areaA = a.frame.width * a.frame.height;
-            const areaB = b.frame.width * b.frame.height;
-            return areaA - areaB;
-        });
-
-        const element = matchingElements[0];
-
         // Format detailed output
         const lines: string[] = [];
         const label = element.text || element.contentDesc;
@@ -1698,20 +1732,12 @@ export async function androidTapElement(
         }
 
         // Flatten and search
-        const allElements = flattenElements(result.elements);
-
-        // Filter elements based on search criteria
-        const matchingElements = allElements.filter((el) => {
-            if (text && el.text !== text) return false;
-            if (textContains && (!el.text || !el.text.toLowerCase().includes(textContains.toLowerCase()))) return false;
-            if (contentDesc && el.contentDesc !== contentDesc) return false;
-            if (contentDescContains && (!el.contentDesc || !el.contentDesc.toLowerCase().includes(contentDescContains.toLowerCase()))) return false;
-            if (resourceId) {
-                // Support both full resource-id and short form
-                if (!el.resourceId) return false;
-                if (el.resourceId !== resourceId && !el.resourceId.endsWith(`:id/${resourceId}`)) return false;
-            }
-            return true;
+        const matchingElements = filterAccessibilityElements(flattenElements(result.elements), {
+            text,
+            textContains,
+            contentDesc,
+            contentDescContains,
+            resourceId
         });
 
         if (matchingElements.length === 0) {
@@ -1762,3 +1788,365 @@ export async function androidTapElement(
         };
     }
 }
+
+// ============================================================================
+// Screen Recording
+// ============================================================================
+//
+// screenrecord runs on the device until it is interrupted or reaches its time
+// limit (at most 180s), and only finalizes the MP4 when it exits. Stopping
+// sends it SIGINT on the device, waits for the adb shell to return and pulls
+// the file. Frames are decoded with ffmpeg (sharp cannot read video) and
+// downscaled with sharp.
+
+// Longest recording screenrecord supports
+const SCREENRECORD_MAX_SECONDS = 180;
+
+// Longest side of extracted frames and of the frame grid
+const DEFAULT_FRAME_DIMENSION = 720;
+const MAX_GRID_DIMENSION = 2000;
+
+// Frames extracted per recording (one ffmpeg run and one image in the response each)
+export const MAX_RECORDING_FRAMES = 20;
+
+interface ActiveRecording {
+    device: string;
+    process: ChildProcess;
+    remotePath: string;
+    startedAt: Date;
+    timeLimitSec: number;
+    exited: Promise<void>;
+    stderr: string;
+}
+
+// In-progress recordings by device id
+const activeRecordings = new Map<string, ActiveRecording>();
+
+// Whether the recorder exits within a timeout
+async function waitForRecorderExit(recording: ActiveRecording, timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+        return await Promise.race([recording.exited.then(() => true), timedOut]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// A frame extracted from a recording
+export interface RecordingFrame {
+    timeSec: number;
+    data: Buffer;             // JPEG
+    width: number;
+    height: number;
+}
+
+// Result of androidStopRecording
+export interface AndroidRecordingResult {
+    success: boolean;
+    result?: string;
+    videoPath?: string;
+    durationSec?: number;
+    frames?: RecordingFrame[];
+    grid?: Buffer;            // JPEG of all frames, when requested
+    warning?: string;         // Recording saved but frames could not be extracted
+    error?: string;
+}
+
+/**
+ * Check if ffmpeg is available in PATH
+ */
+export async function isFfmpegAvailable(): Promise<boolean> {
+    try {
+        await execAsync("ffmpeg -version", { timeout: 5000 });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Devices with a recording in progress
+ */
+export function getActiveRecordings(): Array<{ device: string; startedAt: Date; timeLimitSec: number }> {
+    return Array.from(activeRecordings.values()).map(({ device, startedAt, timeLimitSec }) => ({ device, startedAt, timeLimitSec }));
+}
+
+/**
+ * Start recording the screen of an Android device with screenrecord
+ */
+export async function androidStartRecording(options: {
+    deviceId?: string;
+    timeLimitSec?: number;
+    bitRateMbps?: number;
+    size?: string;            // "720x1280"; default is the native resolution
+} = {}): Promise<AdbResult> {
+    try {
+        const adbAvailable = await isAdbAvailable();
+        if (!adbAvailable) {
+            return {
+                success: false,
+                error: "ADB is not installed or not in PATH. Install Android SDK Platform Tools."
+            };
+        }
+
+        const device = options.deviceId || (await getDefaultAndroidDevice());
+        if (!device) {
+            return {
+                success: false,
+                error: "No Android device connected. Connect a device or start an emulator."
+            };
+        }
+
+        if (activeRecordings.has(device)) {
+            return {
+                success: false,
+                error: `A recording is already in progress on ${device}. Stop it with android_stop_recording first.`
+            };
+        }
+
+        const timeLimitSec = Math.min(Math.max(Math.round(options.timeLimitSec ?? SCREENRECORD_MAX_SECONDS), 1), SCREENRECORD_MAX_SECONDS);
+        const args = ["-s", device, "shell", "screenrecord", "--time-limit", String(timeLimitSec)];
+        if (options.bitRateMbps) {
+            args.push("--bit-rate", String(Math.round(options.bitRateMbps * 1_000_000)));
+        }
+        if (options.size) {
+            if (!/^\d+x\d+$/.test(options.size)) {
+                return { success: false, error: `Invalid size "${options.size}". Use WIDTHxHEIGHT, e.g. 720x1280.` };
+            }
+            args.push("--size", options.size);
+        }
+        const remotePath = `/sdcard/rn-ai-debugger-recording-${Date.now()}.mp4`;
+        args.push(remotePath);
+
+        const child = spawn("adb", args, { stdio: ["ignore", "ignore", "pipe"] });
+        const recording: ActiveRecording = {
+            device,
+            process: child,
+            remotePath,
+            startedAt: new Date(),
+            timeLimitSec,
+            exited: new Promise((resolve) => {
+                child.on("exit", () => resolve());
+                child.on("error", () => resolve());
+            }),
+            stderr: ""
+        };
+        child.stderr?.on("data", (chunk: Buffer) => {
+            recording.stderr += chunk.toString();
+        });
+
+        // screenrecord fails right away when the device cannot record (e.g. secure display, no encoder)
+        const failedEarly = await waitForRecorderExit(recording, 1000);
+        if (failedEarly) {
+            return {
+                success: false,
+                error: `screenrecord exited immediately${recording.stderr.trim() ? `: ${recording.stderr.trim()}` : ""}`
+            };
+        }
+
+        // Kept after the time limit ends it, so the finished file can still be pulled on stop
+        activeRecordings.set(device, recording);
+
+        return {
+            success: true,
+            result: `Recording ${device} (up to ${timeLimitSec}s). Call android_stop_recording to finish and extract frames.`
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to start recording: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
+
+/**
+ * Extract frames evenly spaced over a video (first and last frame included),
+ * downscaled to maxDimension as JPEG. Requires ffmpeg.
+ */
+export async function extractVideoFrames(
+    videoPath: string,
+    options: { count?: number; maxDimension?: number; durationSec?: number } = {}
+): Promise<{ success: boolean; frames?: RecordingFrame[]; durationSec?: number; error?: string }> {
+    const { count = 6, maxDimension = DEFAULT_FRAME_DIMENSION } = options;
+    try {
+        if (!(await isFfmpegAvailable())) {
+            return { success: false, error: "ffmpeg is not installed or not in PATH (needed to extract frames from the video)" };
+        }
+
+        let durationSec = options.durationSec ?? 0;
+        try {
+            const { stdout } = await execFileAsync(
+                "ffprobe",
+                ["-v", "error", "-show_entries", "format=duration", "-of", "csv=p=0", videoPath],
+                { timeout: ADB_TIMEOUT }
+            );
+            const probed = parseFloat(stdout.trim());
+            if (Number.isFinite(probed) && probed > 0) durationSec = probed;
+        } catch {
+            // No ffprobe: use the duration passed in (wall clock time of the recording)
+        }
+
+        const frames: RecordingFrame[] = [];
+        for (let i = 0; i < count; i++) {
+            // Stay just before the end, where there is no frame left to decode
+            const end = Math.max(durationSec - 0.1, 0);
+            const timeSec = count === 1 ? end / 2 : (end * i) / (count - 1);
+            const { stdout } = await execFileAsync(
+                "ffmpeg",
+                ["-v", "error", "-ss", timeSec.toFixed(2), "-i", videoPath, "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "-"],
+                { timeout: ADB_TIMEOUT, encoding: "buffer", maxBuffer: 50 * 1024 * 1024 }
+            );
+            if (stdout.length === 0) continue;
+            const { data, info } = await sharp(stdout)
+                .resize(maxDimension, maxDimension, { fit: "inside", withoutEnlargement: true })
+                .jpeg({ quality: 80 })
+                .toBuffer({ resolveWithObject: true });
+            frames.push({ timeSec: Math.round(timeSec * 10) / 10, data, width: info.width, height: info.height });
+        }
+
+        if (frames.length === 0) {
+            return { success: false, error: "ffmpeg returned no frames (the video may be empty)" };
+        }
+        return { success: true, frames, durationSec };
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to extract frames: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
+
+/**
+ * Tile frames into a single JPEG, each labelled with its number and time
+ */
+export async function buildFrameGrid(frames: RecordingFrame[], options: { columns?: number } = {}): Promise<Buffer> {
+    // Portrait frames get more columns, so the grid stays roughly square
+    const aspect = frames[0].height / frames[0].width;
+    const columns = Math.min(options.columns ?? Math.ceil(Math.sqrt(frames.length * aspect)), frames.length);
+    const rows = Math.ceil(frames.length / columns);
+    const gap = 4;
+    const cellWidth = Math.floor(Math.min(
+        frames[0].width,
+        (MAX_GRID_DIMENSION - gap * (columns - 1)) / columns,
+        (MAX_GRID_DIMENSION - gap * (rows - 1)) / rows / aspect
+    ));
+    const cellHeight = Math.round(cellWidth * aspect);
+
+    const tiles = await Promise.all(frames.map(async (frame, i) => {
+        const label = `#${i + 1}  ${frame.timeSec.toFixed(1)}s`;
+        const labelSvg = Buffer.from(
+            `<svg width="${cellWidth}" height="28"><rect width="100%" height="100%" fill="black" fill-opacity="0.6"/>` +
+            `<text x="8" y="20" font-family="sans-serif" font-size="16" font-weight="bold" fill="white">${label}</text></svg>`
+        );
+        const input = await sharp(frame.data)
+            .resize(cellWidth, cellHeight, { fit: "contain", background: "#000000" })
+            .composite([{ input: labelSvg, top: 0, left: 0 }])
+            .toBuffer();
+        return {
+            input,
+            left: (i % columns) * (cellWidth + gap),
+            top: Math.floor(i / columns) * (cellHeight + gap)
+        };
+    }));
+
+    return sharp({
+        create: {
+            width: columns * cellWidth + gap * (columns - 1),
+            height: rows * cellHeight + gap * (rows - 1),
+            channels: 3,
+            background: "#202020"
+        }
+    })
+        .composite(tiles)
+        .jpeg({ quality: 80 })
+        .toBuffer();
+}
+
+/**
+ * Stop a screen recording, pull the MP4 and extract frames from it.
+ * frameCount 0 skips frame extraction.
+ */
+export async function androidStopRecording(options: {
+    deviceId?: string;
+    outputPath?: string;
+    frameCount?: number;
+    maxFrameDimension?: number;
+    grid?: boolean;
+} = {}): Promise<AndroidRecordingResult> {
+    const { outputPath, maxFrameDimension = DEFAULT_FRAME_DIMENSION, grid = false } = options;
+    const frameCount = Math.min(options.frameCount ?? 6, MAX_RECORDING_FRAMES);
+
+    // Without a device id, stop the only recording in progress
+    let device = options.deviceId;
+    if (!device) {
+        if (activeRecordings.size === 1) {
+            device = activeRecordings.keys().next().value;
+        } else if (activeRecordings.size > 1) {
+            return {
+                success: false,
+                error: `Recordings are in progress on ${Array.from(activeRecordings.keys()).join(", ")}. Specify deviceId.`
+            };
+        }
+    }
+    const recording = device ? activeRecordings.get(device) : undefined;
+    if (!device || !recording) {
+        return { success: false, error: "No recording in progress. Start one with android_start_recording." };
+    }
+    activeRecordings.delete(device);
+
+    try {
+        const deviceArg = buildDeviceArg(device);
+
+        // SIGINT makes screenrecord finalize the file before exiting
+        if (recording.process.exitCode === null) {
+            await execAsync(`adb ${deviceArg} shell pkill -INT screenrecord`, { timeout: ADB_TIMEOUT }).catch(() => {
+                // Already exited
+            });
+            const exited = await waitForRecorderExit(recording, 10000);
+            if (!exited) {
+                recording.process.kill();
+            }
+        }
+        const durationSec = Math.min((Date.now() - recording.startedAt.getTime()) / 1000, recording.timeLimitSec);
+
+        const timestamp = recording.startedAt.toISOString().replace(/[:.]/g, "-");
+        const videoPath = outputPath || path.join(os.tmpdir(), `android-recording-${timestamp}.mp4`);
+        await execAsync(`adb ${deviceArg} pull ${recording.remotePath} "${videoPath}"`, {
+            timeout: ADB_TIMEOUT * 2
+        });
+        await execAsync(`adb ${deviceArg} shell rm ${recording.remotePath}`, {
+            timeout: ADB_TIMEOUT
+        }).catch(() => {
+            // Ignore cleanup errors
+        });
+
+        const result: AndroidRecordingResult = {
+            success: true,
+            result: `Recording saved to ${videoPath} (${durationSec.toFixed(1)}s)`,
+            videoPath,
+            durationSec
+        };
+        if (frameCount <= 0) {
+            return result;
+        }
+
+        const extracted = await extractVideoFrames(videoPath, { count: frameCount, maxDimension: maxFrameDimension, durationSec });
+        if (!extracted.success || !extracted.frames) {
+            return { ...result, warning: extracted.error };
+        }
+        result.frames = extracted.frames;
+        result.durationSec = extracted.durationSec ?? durationSec;
+        if (grid) {
+            result.grid = await buildFrameGrid(extracted.frames);
+        }
+        return result;
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to stop recording: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
@@ -0,0 +1,342 @@
+import { AppTarget, LogLevel, NetworkRequest } from "./types.js";
+import { logBuffer, networkBuffer, testReportBuffer } from "./state.js";
+import { compileLogQuery, parseTimeBound } from "./logQuery.js";
+import { resolveTargetApp } from "./connection.js";
+import { executeInApp, findComponentOnScreen } from "./executor.js";
+import { FindElementOptions, androidFindElement, androidWaitForElement } from "./android.js";
+import { iosFindElement, iosWaitForElement } from "./ios.js";
+import { AssertionKind, AssertionResult, DEFAULT_TEST_SUITE } from "./testReport.js";
+
+// ============================================================================
+// Assertions
+// ============================================================================
+//
+// Each assertion checks the captured logs, network requests, screen or app
+// state once and records a pass or failure in the test report. Invalid
+// arguments (a bad regex or time) are returned as errors and not recorded;
+// anything that prevents the check from passing (no device, app not
+// connected) is recorded as a failure.
+
+// Options shared by all assertions
+export interface AssertionOptions {
+    name?: string;            // Test case name (defaults to a description of the check)
+    suite?: string;           // Test suite (default: "default")
+}
+
+export interface AssertResult {
+    success: boolean;         // The assertion ran (passed or failed)
+    assertion?: AssertionResult;
+    error?: string;
+}
+
+type CheckOutcome = { passed: boolean; message: string; details?: string };
+
+// Maximum offending entries listed in a failure
+const MAX_DETAIL_ENTRIES = 10;
+
+async function record(
+    kind: AssertionKind,
+    name: string,
+    options: AssertionOptions & { appKey?: string },
+    check: () => Promise<CheckOutcome>
+): Promise<AssertResult> {
+    const start = Date.now();
+    let outcome: CheckOutcome;
+    try {
+        outcome = await check();
+    } catch (error) {
+        outcome = { passed: false, message: error instanceof Error ? error.message : String(error) };
+    }
+    const assertion = testReportBuffer.add({
+        timestamp: new Date(start),
+        suite: options.suite || DEFAULT_TEST_SUITE,
+        kind,
+        name: options.name || name,
+        passed: outcome.passed,
+        message: outcome.message,
+        details: outcome.details,
+        durationMs: Date.now() - start,
+        appKey: options.appKey
+    });
+    return { success: true, assertion };
+}
+
+// "at least 1", "exactly 0", "2 to 5"
+function describeCount(min: number, max?: number): string {
+    if (max === undefined) return `at least ${min}`;
+    if (min === max) return `exactly ${min}`;
+    if (min === 0) return `at most ${max}`;
+    return `${min} to ${max}`;
+}
+
+/**
+ * Assert on captured logs: by default that at least one log matches; with
+ * noErrors, that no error was logged (optionally since a time).
+ */
+export async function assertLog(options: AssertionOptions & {
+    text?: string;
+    pattern?: string;
+    level?: LogLevel;
+    since?: string;
+    until?: string;
+    where?: string;
+    noErrors?: boolean;       // Shorthand for level "error" with maxCount 0
+    minCount?: number;
+    maxCount?: number;
+    appKey?: string;
+}): Promise<AssertResult> {
+    const { text, pattern, since, until, where, noErrors, appKey } = options;
+    const level = noErrors ? "error" : options.level;
+    const minCount = options.minCount ?? (noErrors ? 0 : 1);
+    const maxCount = noErrors ? 0 : options.maxCount;
+
+    if (!noErrors && !text && !pattern && !where && !options.level) {
+        return { success: false, error: "Provide text, pattern, where or level, or set noErrors" };
+    }
+    if (maxCount !== undefined && maxCount < minCount) {
+        return { success: false, error: `maxCount (${maxCount}) is less than minCount (${minCount})` };
+    }
+
+    const query = compileLogQuery({ level, text, pattern, since, until, where, appKey });
+    if (!query.success || !query.matches) {
+        return { success: false, error: query.error };
+    }
+
+    const range = since ? ` since ${since}` : "";
+    const name = noErrors
+        ? `no errors${range}`
+        : `${describeCount(minCount, maxCount)} ${level ? `${level} ` : ""}log(s)${text ? ` containing "${text}"` : ""}${pattern ? ` matching /${pattern}/` : ""}${where ? ` where ${where}` : ""}${range}`;
+
+    return record("log", name, { ...options, appKey }, async () => {
+        const matches = logBuffer.getAll().filter(query.matches!);
+        const passed = matches.length >= minCount && (maxCount === undefined || matches.length <= maxCount);
+        const message = noErrors
+            ? (passed ? `No errors logged${range}` : `${matches.length} error(s) logged${range}`)
+            : `${matches.length} matching log(s), expected ${describeCount(minCount, maxCount)}`;
+        // Listing matches only helps when there were too many
+        const details = !passed && matches.length > 0
+            ? matches.slice(-MAX_DETAIL_ENTRIES).map((entry) =>
+                `${entry.timestamp.toISOString()} [${entry.level.toUpperCase()}] ${entry.message.slice(0, 300)}`
+            ).join("\n")
+            : undefined;
+        return { passed, message, details };
+    });
+}
+
+// Status matches a code (404) or a class ("2xx")
+function statusMatches(request: NetworkRequest, expected: number | string): boolean {
+    if (request.status === undefined) return false;
+    const pattern = String(expected).toLowerCase();
+    if (/^[1-5]xx$/.test(pattern)) {
+        return Math.floor(request.status / 100) === Number(pattern[0]);
+    }
+    return request.status === Number(pattern);
+}
+
+function describeRequest(request: NetworkRequest): string {
+    const duration = request.timing?.duration !== undefined ? ` ${request.timing.duration}ms` : "";
+    return `${request.method} ${request.url} -> ${request.error ?? request.status ?? "pending"}${duration}`;
+}
+
+/**
+ * Assert on completed network requests matching a URL: how many there were,
+ * that all returned the expected status, and that none exceeded a latency.
+ */
+export async function assertNetwork(options: AssertionOptions & {
+    url?: string;             // URL substring
+    method?: string;
+    status?: number | string; // Status code or class ("2xx")
+    minCount?: number;
+    maxCount?: number;
+    maxLatencyMs?: number;
+    since?: string;
+    appKey?: string;
+}): Promise<AssertResult> {
+    const { url, method, status, maxLatencyMs, since, appKey } = options;
+    const minCount = options.minCount ?? 1;
+    const maxCount = options.maxCount;
+
+    if (status !== undefined && !/^([1-5]\d\d|[1-5]xx)$/i.test(String(status))) {
+        return { success: false, error: `Invalid status "${status}". Use a status code (200) or class (2xx).` };
+    }
+    if (maxCount !== undefined && maxCount < minCount) {
+        return { success: false, error: `maxCount (${maxCount}) is less than minCount (${minCount})` };
+    }
+    let sinceDate: Date | null = null;
+    if (since) {
+        sinceDate = parseTimeBound(since);
+        if (!sinceDate) {
+            return {
+                success: false,
+                error: `Invalid since value "${since}". Use an ISO timestamp, a time like "14:32:05", or a relative time like "last 30s".`
+            };
+        }
+    }
+
+    const parts = [`${describeCount(minCount, maxCount)} ${method ? `${method.toUpperCase()} ` : ""}request(s)${url ? ` to "${url}"` : ""}`];
+    if (status !== undefined) parts.push(`status ${status}`);
+    if (maxLatencyMs !== undefined) parts.push(`under ${maxLatencyMs}ms`);
+    if (since) parts.push(`since ${since}`);
+
+    return record("network", parts.join(", "), { ...options, appKey }, async () => {
+        const requests = networkBuffer
+            .getAll({ urlPattern: url, method, appKey })
+            .filter((request) => (request.completed || request.error) && (!sinceDate || request.timestamp >= sinceDate));
+
+        const failures: string[] = [];
+        if (requests.length < minCount || (maxCount !== undefined && requests.length > maxCount)) {
+            failures.push(`${requests.length} completed request(s), expected ${describeCount(minCount, maxCount)}`);
+        }
+        const wrongStatus = status !== undefined ? requests.filter((request) => !statusMatches(request, status)) : [];
+        if (wrongStatus.length > 0) {
+            failures.push(`${wrongStatus.length} request(s) did not return ${status}`);
+        }
+        const slow = maxLatencyMs !== undefined
+            ? requests.filter((request) => (request.timing?.duration ?? 0) > maxLatencyMs)
+            : [];
+        if (slow.length > 0) {
+            const slowest = Math.max(...slow.map((request) => request.timing?.duration ?? 0));
+            failures.push(`${slow.length} request(s) took longer than ${maxLatencyMs}ms (slowest ${slowest}ms)`);
+        }
+
+        if (failures.length === 0) {
+            const latencies = requests.map((request) => request.timing?.duration).filter((ms): ms is number => ms !== undefined);
+            const latency = latencies.length > 0 ? `, max ${Math.max(...latencies)}ms` : "";
+            return { passed: true, message: `${requests.length} matching request(s)${latency}` };
+        }
+        const offending = [...new Set([...wrongStatus, ...slow])];
+        const listed = offending.length > 0 ? offending : requests;
+        return {
+            passed: false,
+            message: failures.join("; "),
+            details: listed.length > 0
+                ? listed.slice(-MAX_DETAIL_ENTRIES).map(describeRequest).join("\n")
+                : undefined
+        };
+    });
+}
+
+/**
+ * Assert that an element is visible on screen: by testID through the React
+ * tree, otherwise through the device accessibility tree (adb or idb).
+ * With timeoutMs, waits for the element to appear.
+ */
+export async function assertElementVisible(options: AssertionOptions & FindElementOptions & {
+    testID?: string;
+    timeoutMs?: number;
+    platform?: "ios" | "android";
+    deviceId?: string;        // adb device id or simulator UDID
+    target?: AppTarget;
+}): Promise<AssertResult> {
+    const { testID, text, textContains, contentDesc, contentDescContains, resourceId, index, timeoutMs = 0, platform = "android", deviceId, target = {} } = options;
+    const selector: FindElementOptions = { text, textContains, contentDesc, contentDescContains, resourceId, index };
+
+    if (!testID && !text && !textContains && !contentDesc && !contentDescContains && !resourceId) {
+        return { success: false, error: "Provide testID, text, textContains, contentDesc, contentDescContains or resourceId" };
+    }
+    if (!testID && platform === "ios" && (contentDesc || contentDescContains || resourceId)) {
+        return { success: false, error: "On iOS, match by text, textContains or testID" };
+    }
+
+    const described = testID
+        ? `testID "${testID}"`
+        : Object.entries(selector).filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(", ");
+    const appKey = testID ? resolveTargetApp(target).appKey ?? undefined : undefined;
+
+    return record("element", `${described} is visible`, { ...options, appKey }, async () => {
+        if (testID) {
+            const deadline = Date.now() + timeoutMs;
+            for (;;) {
+                const found = await findComponentOnScreen({ testID, index, target });
+                if (!found.success) {
+                    return { passed: false, message: found.error ?? "Lookup failed" };
+                }
+                const parsed = JSON.parse(found.result || "{}");
+                if (!parsed.error) {
+                    const { x, y, width, height } = parsed.frame;
+                    return {
+                        passed: true,
+                        message: `${parsed.component} at (${Math.round(x)}, ${Math.round(y)}) ${Math.round(width)}x${Math.round(height)}`
+                    };
+                }
+                if (Date.now() >= deadline) {
+                    return { passed: false, message: `Not visible: ${parsed.error}` };
+                }
+                await new Promise((resolve) => setTimeout(resolve, 250));
+            }
+        }
+
+        if (platform === "ios") {
+            const iosSelector = { label: text, labelContains: textContains, index };
+            const result = timeoutMs > 0
+                ? await iosWaitForElement({ ...iosSelector, timeoutMs }, deviceId)
+                : await iosFindElement(iosSelector, deviceId);
+            if (!result.success) {
+                return { passed: false, message: result.error ?? "Lookup failed" };
+            }
+            if (!result.found || !result.element) {
+                return { passed: false, message: `No visible element with ${described}${timeoutMs > 0 ? ` within ${timeoutMs}ms` : ""}` };
+            }
+            const { label, type, center } = result.element;
+            return { passed: true, message: `${label || type} at (${center.x}, ${center.y})` };
+        }
+
+        const result = timeoutMs > 0
+            ? await androidWaitForElement({ ...selector, timeoutMs }, deviceId)
+            : await androidFindElement(selector, deviceId);
+        if (!result.success) {
+            return { passed: false, message: result.error ?? "Lookup failed" };
+        }
+        if (!result.found || !result.element) {
+            return { passed: false, message: `No visible element with ${described}${timeoutMs > 0 ? ` within ${timeoutMs}ms` : ""}` };
+        }
+        const element = result.element;
+        return {
+            passed: true,
+            message: `${element.text || element.contentDesc || element.resourceId || element.className} at (${element.center.x}, ${element.center.y})`
+        };
+    });
+}
+
+// Result of executeInApp as a value: JSON when it parses, the raw string otherwise
+function toValue(output: string | undefined): unknown {
+    if (output === undefined || output === "undefined") return undefined;
+    try {
+        return JSON.parse(output);
+    } catch {
+        return output;
+    }
+}
+
+/**
+ * Assert on a JavaScript expression evaluated in the app: equal to expect
+ * (compared as JSON), or truthy when no expectation is given.
+ */
+export async function assertExpression(options: AssertionOptions & {
+    expression: string;
+    expect?: unknown;
+    awaitPromise?: boolean;
+    target?: AppTarget;
+}): Promise<AssertResult> {
+    const { expression, expect, awaitPromise = true, target = {} } = options;
+    const { appKey } = resolveTargetApp(target);
+    const name = expect !== undefined ? `${expression} == ${JSON.stringify(expect)}` : `${expression} is truthy`;
+
+    return record("expression", name, { ...options, appKey: appKey ?? undefined }, async () => {
+        const result = await executeInApp(expression, awaitPromise, { target });
+        if (!result.success) {
+            return { passed: false, message: result.error ?? "Execution failed" };
+        }
+        const output = result.result ?? "undefined";
+        // Strings are returned as-is, so a string expectation compares the raw output
+        const actual = typeof expect === "string" ? output : toValue(output);
+        const passed = expect !== undefined ? JSON.stringify(actual) === JSON.stringify(expect) : Boolean(actual);
+        const shown = output.slice(0, 300);
+        return {
+            passed,
+            message: passed
+                ? `Got ${shown}`
+                : expect !== undefined ? `Expected ${JSON.stringify(expect)}, got ${shown}` : `Expected a truthy value, got ${shown}`
+        };
+    });
+}
@@ -25,6 +25,7 @@ export class BundleErrorBuffer {
     private errors: BundleError[] = [];
     private maxSize: number;
     private lastStatus: BundleStatus = { isBuilding: false, hasError: false };
+    private listeners: Array<(error: BundleError) => void> = [];
 
     constructor(maxSize: number = 100) {
         this.maxSize = maxSize;
@@ -36,6 +37,14 @@ export class BundleErrorBuffer {
             this.errors.shift();
         }
         this.lastStatus.hasError = true;
+        for (const listener of this.listeners) {
+            listener(error);
+        }
+    }
+
+    // Register a callback invoked for every added error
+    subscribe(listener: (error: BundleError) => void): void {
+        this.listeners.push(listener);
     }
 
     get(count?: number): BundleError[] {
@@ -1,9 +1,14 @@
 import WebSocket from "ws";
-import { DeviceInfo, RemoteObject, ExceptionDetails, ConnectedApp, NetworkRequest, ConnectOptions, ReconnectionConfig, EnsureConnectionResult, ExecutionResult } from "./types.js";
-import { connectedApps, pendingExecutions, getNextMessageId, logBuffer, networkBuffer, setActiveSimulatorUdid, clearActiveSimulatorIfSource } from "./state.js";
+import { AppTarget, DeviceInfo, RemoteObject, ExceptionDetails, LogEntry, CDPStackTrace, StackFrame, ConnectedApp, NetworkRequest, ConnectOptions, ReconnectionConfig, EnsureConnectionResult, ExecutionResult, CDPCommandResponse, CDPCommandResult } from "./types.js";
+import { connectedApps, pendingExecutions, pendingCommands, debuggerPauses, getNextMessageId, logBuffer, networkBuffer, exceptionBuffer, getSelectedAppKey, setActiveSimulatorUdid, clearActiveSimulatorIfSource } from "./state.js";
 import { mapConsoleType } from "./logs.js";
+import { getResponseBodyCaptureConfig, isCapturableMimeType } from "./network.js";
+import { recordSessionGap } from "./session.js";
+import { fromCDPCallFrames, parseStackFrames, isBundleFrame, symbolicateFrames, formatStackFrames } from "./symbolicate.js";
+import { RUNTIME_EVENT_BINDING, RUNTIME_EVENT_MARKER, dispatchRuntimeEvent, notifyContextCreated, registerRuntimeEventHandler, addContextCreatedListener } from "./runtimeEvents.js";
+import { ExceptionSource, EXCEPTION_EVENT, ERROR_HANDLER_HOOK_SCRIPT, parseUnhandledRejectionWarning } from "./exceptions.js";
 import { findSimulatorByName } from "./ios.js";
-import { fetchDevices, selectMainDevice, scanMetroPorts } from "./metro.js";
+import { fetchDevices, selectMainDevice, selectReconnectDevice, scanMetroPorts } from "./metro.js";
 import {
     DEFAULT_RECONNECTION_CONFIG,
     MIN_STABLE_CONNECTION_MS,
@@ -14,6 +19,7 @@ import {
     closeConnectionGap,
     saveConnectionMetadata,
     getConnectionMetadata,
+    getAllConnectionMetadata,
     saveReconnectionTimer,
     cancelReconnectionTimer,
     calculateBackoffDelay,
@@ -80,6 +86,37 @@ export function formatRemoteObject(result: RemoteObject): string {
     return `[${result.type}${result.subtype ? ` ${result.subtype}` : ""}]`;
 }
 
+// CDP object preview (Runtime.ObjectPreview / PropertyPreview subset)
+interface ObjectPreview {
+    subtype?: string;
+    properties?: Array<{ name: string; type?: string; subtype?: string; value?: string; valuePreview?: ObjectPreview }>;
+}
+
+// Rebuild a plain value from an object preview so console args can be queried structurally.
+// Primitive properties are typed; nested objects without a preview keep their description.
+function previewToValue(preview: ObjectPreview): unknown {
+    const properties = preview.properties ?? [];
+    const result: Record<string, unknown> | unknown[] = preview.subtype === "array" ? [] : {};
+
+    for (const prop of properties) {
+        let value: unknown = prop.value;
+        if (prop.valuePreview) {
+            value = previewToValue(prop.valuePreview);
+        } else if (prop.type === "number") {
+            value = Number(prop.value);
+        } else if (prop.type === "boolean") {
+            value = prop.value === "true";
+        } else if (prop.subtype === "null") {
+            value = null;
+        } else if (prop.type === "undefined") {
+            value = undefined;
+        }
+        (result as Record<string, unknown>)[prop.name] = value;
+    }
+
+    return result;
+}
+
 /**
  * Extract a clean, informative error message from CDP exception details
  * Handles various error formats from Hermes and other JS engines
@@ -147,10 +184,280 @@ function extractExceptionMessage(exceptionDetails: ExceptionDetails): string {
     return parts.join(' ');
 }
 
+/**
+ * Send a raw CDP command to an app and resolve with the protocol result.
+ * Unlike executeInApp, this does not wrap or format anything - use it for
+ * domains other than Runtime.evaluate (Network, Profiler, Debugger, ...).
+ */
+export function sendCDPCommand<T = Record<string, unknown>>(
+    app: ConnectedApp,
+    method: string,
+    params: Record<string, unknown> = {},
+    timeoutMs: number = 10000
+): Promise<CDPCommandResult<T>> {
+    if (app.ws.readyState !== WebSocket.OPEN) {
+        return Promise.resolve({ success: false, error: "WebSocket connection is not open." });
+    }
+
+    const messageId = getNextMessageId();
+
+    return new Promise((resolve) => {
+        const timeoutId = setTimeout(() => {
+            pendingCommands.delete(messageId);
+            resolve({ success: false, error: `Timeout: ${method} did not respond within ${timeoutMs}ms` });
+        }, timeoutMs);
+
+        pendingCommands.set(messageId, {
+            resolve: (response: CDPCommandResponse) => {
+                if (response.error) {
+                    const parts: string[] = [];
+                    if (response.error.message) parts.push(response.error.message);
+                    if (response.error.code !== undefined) parts.push(`(code: ${response.error.code})`);
+                    if (response.error.data) parts.push(`- ${response.error.data}`);
+                    resolve({ success: false, error: parts.length > 0 ? parts.join(" ") : `${method} failed` });
+                    return;
+                }
+                resolve({ success: true, result: (response.result ?? {}) as T });
+            },
+            timeoutId
+        });
+
+        try {
+            app.ws.send(JSON.stringify({ id: messageId, method, params }));
+        } catch (error) {
+            clearTimeout(timeoutId);
+            pendingCommands.delete(messageId);
+            resolve({
+                success: false,
+                error: `Failed to send: ${error instanceof Error ? error.message : String(error)}`
+            });
+        }
+    });
+}
+
+// Subscribers to raw CDP events, by method (e.g. HeapProfiler.addHeapSnapshotChunk)
+export type CDPEventListener = (params: Record<string, unknown>, appKey: string) => void;
+const cdpEventListeners: Map<string, Set<CDPEventListener>> = new Map();
+
+/**
+ * Subscribe to a CDP event from any connected app. Returns an unsubscribe function.
+ * Listeners receive the app key so they can ignore events from other apps.
+ */
+export function addCDPEventListener(method: string, listener: CDPEventListener): () => void {
+    const listeners = cdpEventListeners.get(method) ?? new Set();
+    listeners.add(listener);
+    cdpEventListeners.set(method, listeners);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            cdpEventListeners.delete(method);
+        }
+    };
+}
+
+// Cut a body to its first maxBytes bytes (decoded bytes for base64 bodies),
+// dropping a UTF-8 character split at the cut
+function truncateBody(body: string, encoding: "utf8" | "base64", maxBytes: number): string {
+    const head = Buffer.from(body, encoding).subarray(0, maxBytes);
+    return encoding === "base64" ? head.toString("base64") : head.toString("utf8").replace(/\uFFFD$/, "");
+}
+
+/**
+ * Fetch and store the response body for a finished request.
+ * Respects the mime-type allowlist and size cap from the capture config.
+ */
+async function captureResponseBody(requestId: string, device: DeviceInfo): Promise<void> {
+    const config = getResponseBodyCaptureConfig();
+    if (!config.enabled) return;
+
+    const appKey = findAppKeyForDevice(device);
+    const request = networkBuffer.get(requestId, appKey ?? undefined);
+    if (!request) return;
+
+    if (!isCapturableMimeType(request.mimeType)) {
+        request.responseBodySkipped = `mime type ${request.mimeType || "unknown"} not in capture allowlist`;
+        return;
+    }
+
+    if (request.contentLength !== undefined && request.contentLength > config.maxBodySize) {
+        request.responseBodySkipped = `${request.contentLength} bytes exceeds capture cap of ${config.maxBodySize}`;
+        return;
+    }
+
+    const app = appKey ? connectedApps.get(appKey) : undefined;
+    if (!app) return;
+
+    const response = await sendCDPCommand<{ body?: string; base64Encoded?: boolean }>(
+        app,
+        "Network.getResponseBody",
+        { requestId },
+        5000
+    );
+
+    // Request may have been evicted from the buffer while we waited
+    const current = networkBuffer.get(requestId, appKey ?? undefined);
+    if (!current) return;
+
+    if (!response.success || response.result?.body === undefined) {
+        current.responseBodySkipped = response.error || "no body returned";
+        return;
+    }
+
+    const body = response.result.body;
+    current.responseBodyBase64 = response.result.base64Encoded === true;
+    const encoding = current.responseBodyBase64 ? "base64" : "utf8";
+    if (Buffer.byteLength(body, encoding) > config.maxBodySize) {
+        current.responseBody = truncateBody(body, encoding, config.maxBodySize);
+        current.responseBodyTruncated = true;
+    } else {
+        current.responseBody = body;
+    }
+
+    // Store again so buffer subscribers (session recorder) see the captured body
+    networkBuffer.set(requestId, current);
+}
+
+// Pick the frames worth symbolicating: those in an error stack embedded in the
+// text (where the error was created) or else the call site reported by CDP
+function selectBundleFrames(text: string | undefined, stackTrace: CDPStackTrace | undefined): StackFrame[] {
+    const fromText = text ? parseStackFrames(text).filter(isBundleFrame) : [];
+    if (fromText.length > 0) {
+        return fromText;
+    }
+    return stackTrace ? fromCDPCallFrames(stackTrace.callFrames).filter(isBundleFrame) : [];
+}
+
+// Resolve the Metro port serving a device's bundle
+function findPortForDevice(device: DeviceInfo): number | null {
+    const appKey = findAppKeyForDevice(device);
+    const app = appKey ? connectedApps.get(appKey) : undefined;
+    return app ? app.port : null;
+}
+
+// Attach a source-mapped stack to an error/warning log entry (best effort, async)
+async function symbolicateLogEntry(entry: LogEntry, stackTrace: CDPStackTrace | undefined, device: DeviceInfo): Promise<void> {
+    const frames = selectBundleFrames(entry.message, stackTrace);
+    const port = findPortForDevice(device);
+    if (frames.length === 0 || port === null) return;
+
+    const result = await symbolicateFrames(port, frames);
+    if (result.success && result.frames.some((frame) => frame.symbolicated)) {
+        entry.stack = result.frames;
+        logBuffer.update(entry);
+    }
+}
+
+// Append a source-mapped stack (and code frame) to an execution error message
+async function withSymbolicatedStack(message: string, details: ExceptionDetails, device: DeviceInfo): Promise<string> {
+    const frames = selectBundleFrames(details.exception?.description, details.stackTrace);
+    const port = findPortForDevice(device);
+    if (frames.length === 0 || port === null) return message;
+
+    const result = await symbolicateFrames(port, frames);
+    if (!result.success || !result.frames.some((frame) => frame.symbolicated)) return message;
+
+    let output = `${message}\n${formatStackFrames(result.frames)}`;
+    if (result.codeFrame) {
+        output += `\n\n${result.codeFrame}`;
+    }
+    return output;
+}
+
+// The same error can be reported by the ErrorUtils hook and Runtime.exceptionThrown
+const EXCEPTION_DEDUP_WINDOW_MS = 1000;
+
+// Record an exception and attach source-mapped frames once symbolication completes (best effort, async)
+function recordException(
+    device: DeviceInfo,
+    exception: { message: string; stack?: string; stackTrace?: CDPStackTrace; isFatal: boolean; source: ExceptionSource }
+): void {
+    const appKey = findAppKeyForDevice(device) ?? undefined;
+    const latest = exceptionBuffer.getLatest();
+    if (
+        latest &&
+        latest.appKey === appKey &&
+        latest.message === exception.message &&
+        Date.now() - latest.timestamp.getTime() < EXCEPTION_DEDUP_WINDOW_MS
+    ) {
+        // Keep the more precise fatal flag reported by RN's global handler
+        if (exception.source === "error-handler") {
+            latest.isFatal = exception.isFatal;
+            latest.source = exception.source;
+        }
+        return;
+    }
+
+    const parsed = exception.stack ? parseStackFrames(exception.stack) : [];
+    const frames = parsed.length > 0
+        ? parsed
+        : exception.stackTrace ? fromCDPCallFrames(exception.stackTrace.callFrames) : [];
+
+    const entry = exceptionBuffer.add({
+        timestamp: new Date(),
+        message: exception.message,
+        stack: exception.stack,
+        frames: frames.length > 0 ? frames : undefined,
+        isFatal: exception.isFatal,
+        source: exception.source,
+        appKey,
+        deviceName: device.deviceName
+    });
+
+    const port = findPortForDevice(device);
+    if (!entry.frames || !entry.frames.some(isBundleFrame) || port === null) return;
+
+    symbolicateFrames(port, entry.frames)
+        .then((result) => {
+            if (result.success && result.frames.some((frame) => frame.symbolicated)) {
+                entry.frames = result.frames;
+                entry.codeFrame = result.codeFrame;
+            }
+        })
+        .catch(() => {});
+}
+
+// Errors reported by RN's global handler (ErrorUtils hook)
+registerRuntimeEventHandler(EXCEPTION_EVENT, (payload: unknown, device: DeviceInfo) => {
+    const event = payload as { message?: string; stack?: string; isFatal?: boolean };
+    if (typeof event?.message !== "string") {
+        return;
+    }
+    recordException(device, {
+        message: event.message,
+        stack: event.stack,
+        isFatal: event.isFatal === true,
+        source: "error-handler"
+    });
+});
+
+// Chain into ErrorUtils in every new JS context
+addContextCreatedListener((appKey) => {
+    const app = connectedApps.get(appKey);
+    if (!app) return;
+    sendCDPCommand(app, "Runtime.evaluate", { expression: ERROR_HANDLER_HOOK_SCRIPT, returnByValue: true })
+        .then((result) => {
+            if (!result.success) {
+                console.error(`[rn-ai-debugger] Failed to install error handler hook: ${result.error}`);
+            }
+        });
+});
+
 // Handle CDP messages
 export function handleCDPMessage(message: Record<string, unknown>, _device: DeviceInfo): void {
     // Handle responses to our requests (e.g., Runtime.evaluate)
     if (typeof message.id === "number") {
+        // Raw CDP commands (sendCDPCommand) resolve with the unformatted protocol response
+        const command = pendingCommands.get(message.id);
+        if (command) {
+            clearTimeout(command.timeoutId);
+            pendingCommands.delete(message.id);
+            command.resolve({
+                result: message.result as Record<string, unknown> | undefined,
+                error: message.error as CDPCommandResponse["error"]
+            });
+            return;
+        }
+
         const pending = pendingExecutions.get(message.id);
         if (pending) {
             clearTimeout(pending.timeoutId);
@@ -178,8 +485,11 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
                 | undefined;
 
             if (result?.exceptionDetails) {
-                const errorMessage = extractExceptionMessage(result.exceptionDetails);
-                pending.resolve({ success: false, error: errorMessage });
+                const details = result.exceptionDetails;
+                const errorMessage = extractExceptionMessage(details);
+                withSymbolicatedStack(errorMessage, details, _device)
+                    .catch(() => errorMessage)
+                    .then((error) => pending.resolve({ success: false, error }));
                 return;
             }
 
@@ -195,6 +505,25 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
     }
 
     const method = message.method as string;
+    const appKey = findAppKeyForDevice(_device);
+
+    // Raw event subscribers (see addCDPEventListener)
+    const listeners = cdpEventListeners.get(method);
+    if (listeners && appKey) {
+        const params = (message.params ?? {}) as Record<string, unknown>;
+        for (const listener of listeners) {
+            listener(params, appKey);
+        }
+    }
+
+    // Handle events reported by injected helpers through the CDP binding
+    if (method === "Runtime.bindingCalled") {
+        const params = message.params as { name?: string; payload?: string };
+        if (params.name === RUNTIME_EVENT_BINDING && typeof params.payload === "string") {
+            dispatchRuntimeEvent(params.payload, _device);
+        }
+        return;
+    }
 
     // Handle Runtime.consoleAPICalled
     if (method === "Runtime.consoleAPICalled") {
@@ -204,15 +533,24 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
                 type?: string;
                 value?: unknown;
                 description?: string;
-                preview?: { properties?: Array<{ name: string; value: string }> };
+                preview?: ObjectPreview;
             }>;
             timestamp?: number;
+            stackTrace?: CDPStackTrace;
         };
 
         const type = params.type || "log";
         const level = mapConsoleType(type);
         const args = params.args || [];
 
+        // Runtime events sent through the console fallback are not app logs
+        if (args[0]?.value === RUNTIME_EVENT_MARKER) {
+            if (typeof args[1]?.value === "string") {
+                dispatchRuntimeEvent(args[1].value, _device);
+            }
+            return;
+        }
+
         const messageText = args
             .map((arg) => {
                 if (arg.type === "string" || arg.type === "number" || arg.type === "boolean") {
@@ -233,13 +571,42 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             .join(" ");
 
         if (messageText.trim()) {
-            logBuffer.add({
+            const entry: LogEntry = {
                 timestamp: new Date(),
                 level,
                 message: messageText,
-                args: args.map((a) => a.value)
+                args: args.map((a) => (a.value === undefined && a.preview ? previewToValue(a.preview) : a.value)),
+                appKey: appKey ?? undefined,
+                deviceName: _device.deviceName
+            };
+            logBuffer.add(entry);
+
+            if (level === "error" || level === "warn") {
+                symbolicateLogEntry(entry, params.stackTrace, _device).catch(() => {});
+
+                const rejection = parseUnhandledRejectionWarning(messageText);
+                if (rejection) {
+                    recordException(_device, { ...rejection, isFatal: false, source: "unhandled-rejection" });
+                }
+            }
+        }
+    }
+
+    // Handle Runtime.exceptionThrown (exceptions not caught by any JS handler)
+    if (method === "Runtime.exceptionThrown") {
+        const params = message.params as { exceptionDetails?: ExceptionDetails };
+        const details = params.exceptionDetails;
+        if (details) {
+            const isRejection = /in promise/i.test(details.text);
+            recordException(_device, {
+                message: extractExceptionMessage(details),
+                stack: details.exception?.description,
+                stackTrace: details.stackTrace,
+                isFatal: !isRejection,
+                source: isRejection ? "unhandled-rejection" : "uncaught"
             });
         }
+        return;
     }
 
     // Handle Log.entryAdded
@@ -257,7 +624,9 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             logBuffer.add({
                 timestamp: new Date(),
                 level,
-                message: params.entry.text || ""
+                message: params.entry.text || "",
+                appKey: appKey ?? undefined,
+                deviceName: _device.deviceName
             });
         }
     }
@@ -285,7 +654,9 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             timing: {
                 requestTime: params.timestamp
             },
-            completed: false
+            completed: false,
+            appKey: appKey ?? undefined,
+            deviceName: _device.deviceName
         };
 
         networkBuffer.set(params.requestId, request);
@@ -305,7 +676,7 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             timestamp?: number;
         };
 
-        const existing = networkBuffer.get(params.requestId);
+        const existing = networkBuffer.get(params.requestId, appKey ?? undefined);
         if (existing) {
             existing.status = params.response.status;
             existing.statusText = params.response.statusText;
@@ -328,7 +699,7 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             encodedDataLength?: number;
         };
 
-        const existing = networkBuffer.get(params.requestId);
+        const existing = networkBuffer.get(params.requestId, appKey ?? undefined);
         if (existing) {
             existing.completed = true;
             existing.contentLength = params.encodedDataLength;
@@ -338,6 +709,11 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             }
 
             networkBuffer.set(params.requestId, existing);
+
+            // Body is only available after loading finished
+            captureResponseBody(params.requestId, _device).catch(() => {
+                // Body capture is best-effort
+            });
         }
     }
 
@@ -349,7 +725,7 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
             canceled?: boolean;
         };
 
-        const existing = networkBuffer.get(params.requestId);
+        const existing = networkBuffer.get(params.requestId, appKey ?? undefined);
         if (existing) {
             existing.completed = true;
             existing.error = params.canceled ? "Canceled" : (params.errorText || "Request failed");
@@ -359,13 +735,13 @@ export function handleCDPMessage(message: Record<string, unknown>, _device: Devi
     }
 
     // Handle Runtime context lifecycle events for health tracking
-    const appKey = findAppKeyForDevice(_device);
     if (appKey) {
         // Handle Runtime.executionContextCreated
         if (method === "Runtime.executionContextCreated") {
             const params = message.params as { context: { id: number; name?: string } };
             markContextHealthy(appKey, params.context.id);
             console.error(`[rn-ai-debugger] Context created: ${params.context.id}`);
+            notifyContextCreated(appKey, params.context.id);
         }
 
         // Handle Runtime.executionContextDestroyed
@@ -435,7 +811,10 @@ export async function connectToDevice(
                 // Note: We do NOT reset reconnectionAttempts here - that happens
                 // only when connection has been stable for MIN_STABLE_CONNECTION_MS
                 if (isReconnection) {
-                    closeConnectionGap(appKey);
+                    const closedGap = closeConnectionGap(appKey);
+                    if (closedGap) {
+                        recordSessionGap(appKey, closedGap);
+                    }
                     updateConnectionState(appKey, {
                         status: "connected",
                         lastConnectedTime: new Date()
@@ -450,6 +829,16 @@ export async function connectToDevice(
                     console.error(`[rn-ai-debugger] Connected to ${device.title}`);
                 }
 
+                // Install the binding injected helpers use to report events
+                // (must precede Runtime.enable so it exists in the initial context)
+                ws.send(
+                    JSON.stringify({
+                        id: getNextMessageId(),
+                        method: "Runtime.addBinding",
+                        params: { name: RUNTIME_EVENT_BINDING }
+                    })
+                );
+
                 // Enable Runtime domain to receive console messages
                 ws.send(
                     JSON.stringify({
@@ -501,6 +890,8 @@ export async function connectToDevice(
                 connectionLocks.delete(appKey);
 
                 connectedApps.delete(appKey);
+                // A closed connection cannot be paused in the debugger anymore
+                debuggerPauses.delete(appKey);
                 // Clear active simulator UDID if this connection set it
                 clearActiveSimulatorIfSource(appKey);
 
@@ -518,7 +909,10 @@ export async function connectToDevice(
                 }
 
                 // Record the gap and trigger reconnection
-                recordConnectionGap(appKey, "Connection closed");
+                const gap = recordConnectionGap(appKey, "Connection closed");
+                if (gap) {
+                    recordSessionGap(appKey, gap);
+                }
                 updateConnectionState(appKey, {
                     status: "disconnected",
                     lastDisconnectTime: new Date()
@@ -540,6 +934,8 @@ export async function connectToDevice(
                 cancelReconnectionTimer(appKey);
 
                 connectedApps.delete(appKey);
+                // A closed connection cannot be paused in the debugger anymore
+                debuggerPauses.delete(appKey);
                 // Clear active simulator UDID if this connection set it
                 clearActiveSimulatorIfSource(appKey);
 
@@ -625,9 +1021,8 @@ async function attemptReconnection(
         // Re-fetch devices to get fresh WebSocket URL (may have changed)
         const devices = await fetchDevices(metadata.port);
 
-        // Try to find the same device first, otherwise select main device
-        const device = devices.find(d => d.id === metadata.deviceInfo.id)
-            || selectMainDevice(devices);
+        // Try to find the same target first, then the same physical device, otherwise select main device
+        const device = selectReconnectDevice(devices, metadata.deviceInfo);
 
         if (!device) {
             console.error(`[rn-ai-debugger] Device no longer available for ${appKey}`);
@@ -673,6 +1068,94 @@ export function getFirstConnectedApp(): ConnectedApp | null {
     return null;
 }
 
+// Result of resolving which app a runtime tool should act on
+export interface TargetAppResolution {
+    app: ConnectedApp | null;
+    appKey: string | null;
+    error?: string;
+}
+
+// List connection keys and device names for target errors
+function describeConnectedApps(): string {
+    const apps = Array.from(connectedApps.entries()).map(([key, app]) => `${key} (${app.deviceInfo.deviceName})`);
+    return apps.length > 0
+        ? `Connected apps: ${apps.join(", ")}`
+        : "No apps connected. Run 'scan_metro' first.";
+}
+
+/**
+ * Resolve the app a runtime tool should act on.
+ * An explicit appKey or device wins; otherwise the app chosen with select_app
+ * (while it is still known), else the first connected app.
+ */
+export function resolveTargetApp(target: AppTarget = {}): TargetAppResolution {
+    if (target.appKey) {
+        const app = connectedApps.get(target.appKey);
+        if (!app) {
+            return { app: null, appKey: null, error: `No app with key '${target.appKey}'. ${describeConnectedApps()}` };
+        }
+        return { app, appKey: target.appKey };
+    }
+
+    if (target.device) {
+        const needle = target.device.toLowerCase();
+        const matches = Array.from(connectedApps.entries()).filter(([, app]) =>
+            [app.deviceInfo.deviceName, app.deviceInfo.title, app.deviceInfo.id].some(
+                (value) => value?.toLowerCase().includes(needle)
+            )
+        );
+        // Prefer open connections when a stale entry matches too
+        const open = matches.filter(([, app]) => app.ws.readyState === WebSocket.OPEN);
+        const candidates = open.length > 0 ? open : matches;
+
+        if (candidates.length === 0) {
+            return { app: null, appKey: null, error: `No app matches device '${target.device}'. ${describeConnectedApps()}` };
+        }
+        if (candidates.length > 1) {
+            return {
+                app: null,
+                appKey: null,
+                error: `Device '${target.device}' matches ${candidates.length} apps: ${candidates.map(([key]) => key).join(", ")}. Use appKey to pick one.`
+            };
+        }
+        return { app: candidates[0][1], appKey: candidates[0][0] };
+    }
+
+    const selectedKey = getSelectedAppKey();
+    const selected = selectedKey ? connectedApps.get(selectedKey) : undefined;
+    if (selectedKey && selected) {
+        return { app: selected, appKey: selectedKey };
+    }
+
+    const app = getFirstConnectedApp();
+    return { app, appKey: app ? `${app.port}-${app.deviceInfo.id}` : null };
+}
+
+/**
+ * Key of the app a target refers to, including apps that are no longer
+ * connected (e.g. after a crash): an explicit appKey, a device matched against
+ * every app seen, the app chosen with select_app, else the only app seen.
+ * Null when the target matches no app or several.
+ */
+export function resolveKnownAppKey(target: AppTarget = {}): string | null {
+    if (target.appKey) {
+        return target.appKey;
+    }
+
+    const known = Array.from(getAllConnectionMetadata());
+    if (target.device) {
+        const needle = target.device.toLowerCase();
+        const matches = known.filter(([, metadata]) =>
+            [metadata.deviceInfo.deviceName, metadata.deviceInfo.title, metadata.deviceInfo.id].some(
+                (value) => value?.toLowerCase().includes(needle)
+            )
+        );
+        return matches.length === 1 ? matches[0][0] : null;
+    }
+
+    return getSelectedAppKey() ?? (known.length === 1 ? known[0][0] : null);
+}
+
 // Check if any app is connected with an OPEN WebSocket
 export function hasConnectedApp(): boolean {
     for (const [, app] of connectedApps.entries()) {
@@ -689,6 +1172,12 @@ export function hasConnectedApp(): boolean {
  */
 export async function runQuickHealthCheck(app: ConnectedApp): Promise<boolean> {
     const HEALTH_CHECK_TIMEOUT = 2000;
+
+    // A runtime paused in the debugger cannot evaluate, but the connection is healthy
+    const pausedKey = findAppKeyForDevice(app.deviceInfo);
+    if (pausedKey && debuggerPauses.has(pausedKey)) {
+        return true;
+    }
     const messageId = getNextMessageId();
 
     return new Promise((resolve) => {
@@ -749,14 +1238,32 @@ export async function ensureConnection(options: {
     port?: number;
     healthCheck?: boolean;
     forceRefresh?: boolean;
+    target?: AppTarget;
 } = {}): Promise<EnsureConnectionResult> {
-    const { port, healthCheck = true, forceRefresh = false } = options;
+    const { port, healthCheck = true, forceRefresh = false, target = {} } = options;
+
+    const resolved = resolveTargetApp(target);
+    if (resolved.error && (target.appKey || target.device)) {
+        return {
+            connected: false,
+            wasReconnected: false,
+            healthCheckPassed: false,
+            connectionInfo: null,
+            error: resolved.error,
+        };
+    }
 
-    let app = getFirstConnectedApp();
+    let app = resolved.app;
     let wasReconnected = false;
 
+    // Device to reconnect to after a forced refresh
+    let previousDevice: DeviceInfo | null = null;
+    let previousPort: number | null = null;
+
     // Force refresh if requested - close existing connection
     if (forceRefresh && app) {
+        previousDevice = app.deviceInfo;
+        previousPort = app.port;
         const appKey = `${app.port}-${app.deviceInfo.id}`;
         cancelReconnectionTimer(appKey);
         try {
@@ -770,7 +1277,7 @@ export async function ensureConnection(options: {
 
     // Attempt connection if not connected
     if (!app) {
-        const targetPort = port ?? await findFirstMetroPort();
+        const targetPort = port ?? previousPort ?? await findFirstMetroPort();
         if (!targetPort) {
             return {
                 connected: false,
@@ -782,7 +1289,7 @@ export async function ensureConnection(options: {
         }
 
         const devices = await fetchDevices(targetPort);
-        const mainDevice = selectMainDevice(devices);
+        const mainDevice = previousDevice ? selectReconnectDevice(devices, previousDevice) : selectMainDevice(devices);
         if (!mainDevice) {
             return {
                 connected: false,
@@ -795,7 +1302,7 @@ export async function ensureConnection(options: {
 
         try {
             await connectToDevice(mainDevice, targetPort);
-            app = getFirstConnectedApp();
+            app = connectedApps.get(`${targetPort}-${mainDevice.id}`) ?? null;
             wasReconnected = true;
         } catch (error) {
             // Ensure we always have a meaningful error message
@@ -839,6 +1346,7 @@ export async function ensureConnection(options: {
             // Close and reconnect
             const appKey = `${app.port}-${app.deviceInfo.id}`;
             const targetPort = app.port;
+            const previousDevice = app.deviceInfo;
             cancelReconnectionTimer(appKey);
             try {
                 app.ws.close();
@@ -849,11 +1357,11 @@ export async function ensureConnection(options: {
 
             // Re-fetch devices and reconnect
             const devices = await fetchDevices(targetPort);
-            const mainDevice = selectMainDevice(devices);
+            const mainDevice = selectReconnectDevice(devices, previousDevice);
             if (mainDevice) {
                 try {
                     await connectToDevice(mainDevice, targetPort);
-                    app = getFirstConnectedApp();
+                    app = connectedApps.get(`${targetPort}-${mainDevice.id}`) ?? null;
                     wasReconnected = true;
 
                     // Re-run health check after reconnection
@@ -883,8 +1391,10 @@ export async function ensureConnection(options: {
         connected: app !== null && app.ws.readyState === WebSocket.OPEN,
         wasReconnected,
         healthCheckPassed,
-        connectionInfo: app ? {
+        connectionInfo: app && appKey ? {
+            appKey,
             deviceTitle: app.deviceInfo.title,
+            deviceName: app.deviceInfo.deviceName,
             port: app.port,
             uptime,
             contextId: contextHealth?.contextId ?? null,
@@ -4,7 +4,9 @@ import {
     ConnectionMetadata,
     ReconnectionConfig,
     ContextHealth,
+    AppCrash,
 } from "./types.js";
+import { formatCrashReason } from "./crashDetector.js";
 
 // Default reconnection configuration
 export const DEFAULT_RECONNECTION_CONFIG: ReconnectionConfig = {
@@ -73,7 +75,7 @@ export function getAllConnectionStates(): Map<string, ConnectionState> {
 /**
  * Record the start of a connection gap
  */
-export function recordConnectionGap(appKey: string, reason: string): void {
+export function recordConnectionGap(appKey: string, reason: string): ConnectionGap | null {
     const state = connectionStates.get(appKey);
     if (state) {
         const gap: ConnectionGap = {
@@ -82,19 +84,27 @@ export function recordConnectionGap(appKey: string, reason: string): void {
             durationMs: null,
             reason,
         };
+        // The crash report may be read before the socket closes
+        const crash = findCrashForGap(appKey, state, gap);
+        if (crash) {
+            attachCrash(gap, crash);
+        }
         state.connectionGaps.push(gap);
         // Keep only last 10 gaps to prevent memory bloat
         if (state.connectionGaps.length > 10) {
             state.connectionGaps.shift();
         }
         connectionStates.set(appKey, state);
+        return gap;
     }
+    return null;
 }
 
 /**
- * Close the most recent connection gap when reconnected
+ * Close the most recent connection gap when reconnected.
+ * Returns the gap that was closed, if any.
  */
-export function closeConnectionGap(appKey: string): void {
+export function closeConnectionGap(appKey: string): ConnectionGap | null {
     const state = connectionStates.get(appKey);
     if (state && state.connectionGaps.length > 0) {
         const lastGap = state.connectionGaps[state.connectionGaps.length - 1];
@@ -102,9 +112,12 @@ export function closeConnectionGap(appKey: string): void {
             lastGap.reconnectedAt = new Date();
             lastGap.durationMs =
                 lastGap.reconnectedAt.getTime() - lastGap.disconnectedAt.getTime();
+            connectionStates.set(appKey, state);
+            return lastGap;
         }
         connectionStates.set(appKey, state);
     }
+    return null;
 }
 
 /**
@@ -227,6 +240,7 @@ export function clearAllConnectionState(): void {
     cancelAllReconnectionTimers();
     connectionMetadata.clear();
     connectionStates.clear();
+    appCrashes.length = 0;
 }
 
 /**
@@ -253,6 +267,74 @@ export function formatDuration(ms: number): string {
     return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
 }
 
+// ========== App Crash Tracking ==========
+
+// A crash and a disconnect this far apart are considered related
+const CRASH_GAP_WINDOW_MS = 15000;
+
+// Recent crashes and ANRs, oldest first
+const appCrashes: AppCrash[] = [];
+
+function isNearGap(crash: AppCrash, gap: ConnectionGap): boolean {
+    return Math.abs(crash.detectedAt.getTime() - gap.disconnectedAt.getTime()) <= CRASH_GAP_WINDOW_MS;
+}
+
+function attachCrash(gap: ConnectionGap, crash: AppCrash): void {
+    gap.crash = crash;
+    gap.reason = formatCrashReason(crash);
+}
+
+// Latest crash of the app's package near a new gap, not yet attached to one of its gaps
+function findCrashForGap(appKey: string, state: ConnectionState, gap: ConnectionGap): AppCrash | null {
+    const packageName = connectionMetadata.get(appKey)?.deviceInfo.appId;
+    if (!packageName) return null;
+    for (let i = appCrashes.length - 1; i >= 0; i--) {
+        const crash = appCrashes[i];
+        if (
+            crash.packageName === packageName &&
+            isNearGap(crash, gap) &&
+            !state.connectionGaps.some((existing) => existing.crash === crash)
+        ) {
+            return crash;
+        }
+    }
+    return null;
+}
+
+/**
+ * Record a crash or ANR detected from logcat. It is attached to the open
+ * connection gap of each of its apps that disconnected around the same time,
+ * or to the gap recorded when they disconnect shortly after.
+ * Returns the app keys whose gap now carries the crash.
+ */
+export function recordAppCrash(crash: AppCrash): string[] {
+    appCrashes.push(crash);
+    // Keep only the last 10 crashes, like connection gaps
+    if (appCrashes.length > 10) {
+        appCrashes.shift();
+    }
+
+    const attached: string[] = [];
+    for (const appKey of crash.appKeys) {
+        const lastGap = connectionStates.get(appKey)?.connectionGaps.slice(-1)[0];
+        if (lastGap && !lastGap.reconnectedAt && !lastGap.crash && isNearGap(crash, lastGap)) {
+            attachCrash(lastGap, crash);
+            attached.push(appKey);
+        }
+    }
+    return attached;
+}
+
+/**
+ * Crashes and ANRs within a time window, newest first, optionally of one app
+ */
+export function getRecentAppCrashes(maxAgeMs: number, appKey?: string): AppCrash[] {
+    const now = Date.now();
+    return appCrashes
+        .filter((crash) => now - crash.detectedAt.getTime() <= maxAgeMs && (!appKey || crash.appKeys.includes(appKey)))
+        .reverse();
+}
+
 // ========== Context Health Tracking ==========
 
 // Store context health per connection
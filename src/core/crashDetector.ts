@@ -0,0 +1,209 @@
+import { AppCrash, AppCrashKind } from "./types.js";
+import { LogcatLine } from "./logcat.js";
+
+// ============================================================================
+// Crash Detection (logcat)
+// ============================================================================
+//
+// When an Android app dies, the CDP socket just closes. Logcat says why, in a
+// multi-line report whose lines share a tag and PID:
+//   - "E AndroidRuntime: FATAL EXCEPTION: main" from the app's process, with
+//     the Java/Kotlin exception and stack
+//   - "E ActivityManager: ANR in com.example.app" from system_server, with the
+//     reason and CPU load
+//   - "F libc: Fatal signal 11 (SIGSEGV)" from the app's process, followed by
+//     the tombstone ("F DEBUG: pid: 4242, ... >>> com.example.app <<<") from
+//     crash_dump
+// A report is complete once no more of its lines arrive for a moment.
+
+// A crash report before it is attributed to connections
+export type DetectedCrash = Pick<AppCrash, "kind" | "timestamp" | "pid" | "summary" | "nativeStack">;
+
+// Time without new report lines after which a report is complete
+const CRASH_SETTLE_MS = 1000;
+
+// Report lines kept per crash (tombstones list every thread)
+const MAX_STACK_LINES = 100;
+
+interface PendingCrash {
+    kind: AppCrashKind;
+    timestamp: Date;
+    pid: number;
+    reporterPid: number;      // Process logging the report (the app, system_server or crash_dump)
+    matched: boolean;         // Known to be the app's (a FATAL EXCEPTION may come from another process)
+    lines: string[];
+    detectedAt: Date;
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Finds crash, ANR and tombstone reports of one package in a logcat stream
+ */
+export class CrashDetector {
+    private pending: PendingCrash | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private anrPattern: RegExp;
+    private processPattern: RegExp;
+    private tombstonePattern: RegExp;
+
+    constructor(
+        packageName: string,
+        private onCrash: (crash: DetectedCrash, detectedAt: Date) => void,
+        private settleMs: number = CRASH_SETTLE_MS
+    ) {
+        const escaped = escapeRegex(packageName);
+        // "ANR in com.example.app (com.example.app/.MainActivity)"
+        this.anrPattern = new RegExp(`^ANR in ${escaped}(?:[\\s(:]|$)`);
+        // "Process: com.example.app, PID: 4242"
+        this.processPattern = new RegExp(`^Process: ${escaped}, PID: \\d+`);
+        // "pid: 4242, tid: 4300, name: mqt_js  >>> com.example.app <<<"
+        this.tombstonePattern = new RegExp(`>>> ${escaped}(?::\\S+)? <<<`);
+    }
+
+    /**
+     * Feed a logcat line (any process). appPids are the app's known processes.
+     */
+    process(line: LogcatLine, appPids: number[]): void {
+        if (this.pending && this.continues(this.pending, line)) {
+            this.append(this.pending, line);
+            return;
+        }
+
+        const started = this.start(line, appPids);
+        if (started) {
+            this.flush();
+            this.pending = started;
+            this.append(started, line);
+        }
+    }
+
+    /**
+     * Report the pending crash now (e.g. when the stream ends)
+     */
+    flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const pending = this.pending;
+        this.pending = null;
+        if (pending?.matched) {
+            this.onCrash({
+                kind: pending.kind,
+                timestamp: pending.timestamp,
+                pid: pending.pid,
+                summary: summarize(pending),
+                nativeStack: pending.lines
+            }, pending.detectedAt);
+        }
+    }
+
+    private start(line: LogcatLine, appPids: number[]): PendingCrash | null {
+        const base = { timestamp: line.timestamp, pid: line.pid, reporterPid: line.pid, lines: [], detectedAt: new Date() };
+
+        if (line.tag === "AndroidRuntime" && line.message.startsWith("FATAL EXCEPTION")) {
+            return { ...base, kind: "crash", matched: appPids.includes(line.pid) };
+        }
+        if (line.tag === "ActivityManager" && this.anrPattern.test(line.message)) {
+            // The app's PID follows on a "PID: 4242" line
+            return { ...base, kind: "anr", pid: 0, matched: true };
+        }
+        if (line.tag === "libc" && line.message.startsWith("Fatal signal") && appPids.includes(line.pid)) {
+            return { ...base, kind: "native-crash", matched: true };
+        }
+        if (line.tag === "DEBUG" && this.tombstonePattern.test(line.message)) {
+            const pid = line.message.match(/pid: (\d+)/);
+            return { ...base, kind: "native-crash", pid: pid ? parseInt(pid[1], 10) : 0, matched: true };
+        }
+        return null;
+    }
+
+    private continues(pending: PendingCrash, line: LogcatLine): boolean {
+        if (pending.lines.length >= MAX_STACK_LINES) {
+            return false;
+        }
+        switch (pending.kind) {
+            case "crash":
+                return line.tag === "AndroidRuntime" && line.pid === pending.reporterPid && !line.message.startsWith("FATAL EXCEPTION");
+            case "anr":
+                return line.tag === "ActivityManager" && line.pid === pending.reporterPid && !line.message.startsWith("ANR in ");
+            case "native-crash":
+                // The tombstone is logged by crash_dump, a separate process
+                return line.tag === "DEBUG" || (line.tag === "libc" && line.pid === pending.pid);
+        }
+    }
+
+    private append(pending: PendingCrash, line: LogcatLine): void {
+        pending.lines.push(line.message);
+        if (pending.kind === "crash" && this.processPattern.test(line.message)) {
+            pending.matched = true;
+        }
+        if (pending.kind === "anr" && pending.pid === 0) {
+            const pid = line.message.match(/^PID: (\d+)/);
+            if (pid) pending.pid = parseInt(pid[1], 10);
+        }
+
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), this.settleMs);
+        this.timer.unref();
+    }
+}
+
+// The exception, ANR reason or signal of a report
+function summarize(pending: PendingCrash): string {
+    const lines = pending.lines.map((line) => line.trim());
+    switch (pending.kind) {
+        case "crash":
+            return lines.find((line) => line && !line.startsWith("FATAL EXCEPTION") && !line.startsWith("Process:") && !line.startsWith("at ")) ?? lines[0];
+        case "anr":
+            return lines.find((line) => line.startsWith("Reason:"))?.slice("Reason:".length).trim() ?? lines[0];
+        case "native-crash":
+            return lines.find((line) => /^(Fatal signal|signal) \d+/.test(line)) ?? lines[0];
+    }
+}
+
+const CRASH_LABELS: Record<AppCrashKind, string> = {
+    "crash": "App crashed",
+    "anr": "App not responding (ANR)",
+    "native-crash": "App crashed (native)"
+};
+
+/**
+ * One-line description, used as the connection gap reason
+ */
+export function formatCrashReason(crash: Pick<AppCrash, "kind" | "summary">): string {
+    return `${CRASH_LABELS[crash.kind]}: ${crash.summary}`;
+}
+
+/**
+ * Crash with the start of its logcat report and the last JS logs before it
+ */
+export function formatAppCrash(crash: AppCrash, options: { maxStackLines?: number; maxJsLogs?: number } = {}): string {
+    const { maxStackLines = 20, maxJsLogs = 10 } = options;
+    const lines = [
+        `${CRASH_LABELS[crash.kind].toUpperCase()} at ${crash.timestamp.toLocaleTimeString()} (${crash.packageName}, pid ${crash.pid}, ${crash.deviceId})`,
+        `  ${crash.summary}`
+    ];
+
+    if (maxStackLines > 0 && crash.nativeStack.length > 0) {
+        lines.push("  Native stack (logcat):");
+        lines.push(...crash.nativeStack.slice(0, maxStackLines).map((line) => `    ${line}`));
+        if (crash.nativeStack.length > maxStackLines) {
+            lines.push(`    ... ${crash.nativeStack.length - maxStackLines} more lines (get_native_logs with priority="E")`);
+        }
+    }
+
+    if (maxJsLogs > 0) {
+        const jsLogs = crash.jsLogs.slice(-maxJsLogs);
+        if (jsLogs.length === 0) {
+            lines.push("  Last JS logs: none");
+        } else {
+            lines.push("  Last JS logs:");
+            lines.push(...jsLogs.map((entry) => `    ${entry.timestamp.toLocaleTimeString()} [${entry.level.toUpperCase()}] ${entry.message.split("\n")[0]}`));
+        }
+    }
+    return lines.join("\n");
+}
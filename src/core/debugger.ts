@@ -0,0 +1,572 @@
+import WebSocket from "ws";
+import { AppTarget, CDPPausedCallFrame, ConnectedApp, DebuggerPause, ExceptionDetails, RemoteObject, StackFrame } from "./types.js";
+import { connectedApps, debuggerPauses } from "./state.js";
+import { addCDPEventListener, formatRemoteObject, resolveTargetApp, sendCDPCommand } from "./connection.js";
+import { addContextCreatedListener, addAppKeyChangedListener } from "./runtimeEvents.js";
+import { formatStackFrame, symbolicateFrames } from "./symbolicate.js";
+import { bundleUrlToSourceMapUrl, loadSourceMap, lookupGeneratedPosition } from "./sourceMaps.js";
+import { buildLogpointCondition } from "./trace.js";
+import { installTraceHelper } from "./tracer.js";
+
+// ============================================================================
+// Debugger (breakpoints, pausing, call-frame evaluation)
+// ============================================================================
+//
+// The Debugger domain is enabled lazily, the first time a breakpoint is set or
+// execution is paused. Breakpoints are set by original file and line: the
+// position is mapped into the bundle through its source map and set with
+// Debugger.setBreakpointByUrl. They are kept per app and re-applied when the
+// connection is re-established.
+//
+// Logpoints are breakpoints whose condition records an expression into the
+// trace buffer and then evaluates to false, so the app never pauses.
+
+// How long debugger_step waits for the next pause
+const STEP_WAIT_MS = 3000;
+
+// Max characters of a scope variable value
+const MAX_VALUE_LENGTH = 200;
+
+// Script reported by Debugger.scriptParsed
+interface ParsedScript {
+    scriptId: string;
+    url: string;
+    sourceMapURL?: string;
+}
+
+// Breakpoint set by original source position
+export interface Breakpoint {
+    id: string;                      // Stable id ("bp-1"), kept across reconnects
+    appKey: string;
+    file: string;                    // As requested
+    line: number;                    // As requested (1-based)
+    condition?: string;
+    logExpression?: string;          // Logpoint: recorded into the trace buffer instead of pausing
+    resolvedSource?: string;         // Source path from the source map
+    resolvedLine?: number;           // Line the breakpoint actually landed on
+    cdpBreakpointId?: string;        // Id in the current connection
+    createdAt: Date;
+    error?: string;                  // Last failure to (re)apply
+}
+
+// Scope variables of a paused call frame
+export interface ScopeVariables {
+    type: string;
+    name?: string;
+    variables: Array<{ name: string; value: string }>;
+    truncated: number;
+}
+
+// Result of debugger operations
+export interface DebuggerResult {
+    success: boolean;
+    appKey?: string;
+    breakpoint?: Breakpoint;
+    pause?: DebuggerPause;
+    scopes?: ScopeVariables[];
+    result?: string;
+    error?: string;
+}
+
+export type DebuggerStepAction = "resume" | "stepOver" | "stepInto" | "stepOut" | "pause";
+
+const STEP_METHODS: Record<DebuggerStepAction, string> = {
+    resume: "Debugger.resume",
+    stepOver: "Debugger.stepOver",
+    stepInto: "Debugger.stepInto",
+    stepOut: "Debugger.stepOut",
+    pause: "Debugger.pause"
+};
+
+// Scripts per app (appKey -> scriptId -> script)
+const scripts: Map<string, Map<string, ParsedScript>> = new Map();
+
+// Sockets with the Debugger domain enabled (a reconnect creates a new socket)
+const enabledSockets: WeakSet<WebSocket> = new WeakSet();
+
+const breakpoints: Map<string, Breakpoint> = new Map();
+let nextBreakpointId = 1;
+
+// Callbacks waiting for the next pause of an app (debugger_step)
+const pauseWaiters: Map<string, Array<(pause: DebuggerPause) => void>> = new Map();
+
+addCDPEventListener("Debugger.scriptParsed", (params, appKey) => {
+    const script = params as unknown as ParsedScript;
+    if (!script.scriptId || !script.url) return;
+    const appScripts = scripts.get(appKey) ?? new Map();
+    appScripts.set(script.scriptId, { scriptId: script.scriptId, url: script.url, sourceMapURL: script.sourceMapURL || undefined });
+    scripts.set(appKey, appScripts);
+});
+
+addCDPEventListener("Debugger.paused", (params, appKey) => {
+    const { callFrames = [], reason = "other", hitBreakpoints = [] } = params as {
+        callFrames?: CDPPausedCallFrame[];
+        reason?: string;
+        hitBreakpoints?: string[];
+    };
+
+    const appScripts = scripts.get(appKey);
+    const frames: StackFrame[] = callFrames.map((frame) => ({
+        functionName: frame.functionName || "<anonymous>",
+        file: frame.url || appScripts?.get(frame.location.scriptId)?.url || "",
+        lineNumber: frame.location.lineNumber + 1,
+        column: (frame.location.columnNumber ?? 0) + 1
+    }));
+
+    // Report our breakpoint ids rather than the CDP ones
+    const hit = hitBreakpoints.map(
+        (cdpId) => Array.from(breakpoints.values()).find((bp) => bp.appKey === appKey && bp.cdpBreakpointId === cdpId)?.id ?? cdpId
+    );
+
+    const pause: DebuggerPause = { pausedAt: new Date(), reason, hitBreakpoints: hit, callFrames, frames };
+    debuggerPauses.set(appKey, pause);
+    console.error(`[rn-ai-debugger] Debugger paused (${reason})`);
+
+    const notify = () => {
+        const waiters = pauseWaiters.get(appKey) ?? [];
+        pauseWaiters.delete(appKey);
+        waiters.forEach((resolve) => resolve(pause));
+    };
+
+    const port = connectedApps.get(appKey)?.port;
+    if (port === undefined || frames.length === 0) {
+        notify();
+        return;
+    }
+    symbolicateFrames(port, frames)
+        .then((result) => {
+            if (result.success) pause.frames = result.frames;
+        })
+        .catch(() => {})
+        .finally(notify);
+});
+
+addCDPEventListener("Debugger.resumed", (_params, appKey) => {
+    debuggerPauses.delete(appKey);
+});
+
+addCDPEventListener("Runtime.executionContextsCleared", (_params, appKey) => {
+    debuggerPauses.delete(appKey);
+});
+
+// Keep breakpoints when a reload gives the app a new key (scripts and pauses belong to the old runtime)
+addAppKeyChangedListener((previousKey, appKey) => {
+    for (const breakpoint of breakpoints.values()) {
+        if (breakpoint.appKey === previousKey) {
+            breakpoint.appKey = appKey;
+        }
+    }
+    scripts.delete(previousKey);
+    debuggerPauses.delete(previousKey);
+    pauseWaiters.delete(previousKey);
+});
+
+// Re-apply breakpoints when an app reconnects (the new socket has no Debugger domain yet)
+addContextCreatedListener((appKey) => {
+    // Logpoints report through the trace helper, which a reload removes
+    if (listBreakpoints(appKey).some((bp) => bp.logExpression !== undefined)) {
+        installTraceHelper({ appKey }).then((result) => {
+            if (!result.success) {
+                console.error(`[rn-ai-debugger] Failed to reinstall the trace helper for logpoints: ${result.error}`);
+            }
+        });
+    }
+
+    const app = connectedApps.get(appKey);
+    if (!app || enabledSockets.has(app.ws) || !listBreakpoints(appKey).length) return;
+    ensureDebuggerEnabled(app, appKey).then((result) => {
+        if (!result.success) {
+            console.error(`[rn-ai-debugger] Failed to re-apply breakpoints: ${result.error}`);
+        }
+    });
+});
+
+/**
+ * Enable the Debugger domain on the app's current connection and re-apply its breakpoints
+ */
+async function ensureDebuggerEnabled(app: ConnectedApp, appKey: string): Promise<{ success: boolean; error?: string }> {
+    if (enabledSockets.has(app.ws)) {
+        return { success: true };
+    }
+
+    // scriptParsed events for loaded scripts arrive before the enable response
+    scripts.set(appKey, new Map());
+    debuggerPauses.delete(appKey);
+
+    const result = await sendCDPCommand(app, "Debugger.enable");
+    if (!result.success) {
+        return { success: false, error: `Debugger.enable failed: ${result.error}` };
+    }
+    enabledSockets.add(app.ws);
+
+    for (const breakpoint of breakpoints.values()) {
+        if (breakpoint.appKey === appKey) {
+            breakpoint.cdpBreakpointId = undefined;
+            await applyBreakpoint(app, breakpoint);
+        }
+    }
+
+    return { success: true };
+}
+
+// Bundles that can contain the breakpoint (served by Metro, with a source map)
+function bundleScripts(appKey: string): Array<{ url: string; sourceMapURL: string }> {
+    const result: Array<{ url: string; sourceMapURL: string }> = [];
+    for (const script of scripts.get(appKey)?.values() ?? []) {
+        const sourceMapURL = script.sourceMapURL || bundleUrlToSourceMapUrl(script.url);
+        if (sourceMapURL && /^https?:\/\//.test(script.url)) {
+            result.push({ url: script.url, sourceMapURL });
+        }
+    }
+    return result;
+}
+
+/**
+ * Resolve a breakpoint's original position through the source map and set it in the runtime
+ */
+async function applyBreakpoint(app: ConnectedApp, breakpoint: Breakpoint): Promise<boolean> {
+    const bundles = bundleScripts(breakpoint.appKey);
+    if (bundles.length === 0) {
+        breakpoint.error = "No Metro bundle reported by the debugger yet. Try again after the app has loaded.";
+        return false;
+    }
+
+    const errors: string[] = [];
+    for (const bundle of bundles) {
+        let lookup;
+        try {
+            const index = await loadSourceMap(bundle.sourceMapURL, app.port);
+            lookup = lookupGeneratedPosition(index, breakpoint.file, breakpoint.line);
+        } catch (error) {
+            errors.push(`Failed to load source map: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+        if (!lookup.success || !lookup.position) {
+            errors.push(lookup.error ?? "Position not found");
+            continue;
+        }
+
+        const condition = breakpoint.logExpression !== undefined
+            ? buildLogpointCondition(`${breakpoint.id} ${breakpoint.file}:${breakpoint.line}`, breakpoint.logExpression, breakpoint.condition)
+            : breakpoint.condition;
+        const result = await sendCDPCommand<{ breakpointId: string }>(app, "Debugger.setBreakpointByUrl", {
+            url: bundle.url,
+            lineNumber: lookup.position.lineNumber,
+            columnNumber: lookup.position.columnNumber,
+            ...(condition ? { condition } : {})
+        });
+        if (!result.success || !result.result) {
+            errors.push(`Debugger.setBreakpointByUrl failed: ${result.error}`);
+            continue;
+        }
+
+        breakpoint.cdpBreakpointId = result.result.breakpointId;
+        breakpoint.resolvedSource = lookup.source;
+        breakpoint.resolvedLine = lookup.line;
+        breakpoint.error = undefined;
+        return true;
+    }
+
+    breakpoint.error = errors.join("; ");
+    return false;
+}
+
+function resolveApp(target: AppTarget): { app: ConnectedApp | null; appKey: string | null; error?: string } {
+    const { app, appKey, error } = resolveTargetApp(target);
+    if (!app || !appKey) {
+        return { app: null, appKey: null, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+    return { app, appKey };
+}
+
+/**
+ * Set a breakpoint at an original source file and line (1-based).
+ * With logExpression it becomes a logpoint: the expression's values are recorded and the app keeps running.
+ */
+export async function setBreakpoint(
+    target: AppTarget,
+    options: { file: string; line: number; condition?: string; logExpression?: string }
+): Promise<DebuggerResult> {
+    const { app, appKey, error } = resolveApp(target);
+    if (!app || !appKey) {
+        return { success: false, error };
+    }
+
+    if (options.logExpression !== undefined) {
+        const helper = await installTraceHelper({ appKey });
+        if (!helper.success) {
+            return { success: false, appKey, error: `Failed to install the trace helper: ${helper.error}` };
+        }
+    }
+
+    const enabled = await ensureDebuggerEnabled(app, appKey);
+    if (!enabled.success) {
+        return { success: false, appKey, error: enabled.error };
+    }
+
+    const breakpoint: Breakpoint = {
+        id: `bp-${nextBreakpointId++}`,
+        appKey,
+        file: options.file,
+        line: options.line,
+        condition: options.condition,
+        logExpression: options.logExpression,
+        createdAt: new Date()
+    };
+
+    if (!(await applyBreakpoint(app, breakpoint))) {
+        return { success: false, appKey, error: breakpoint.error };
+    }
+
+    breakpoints.set(breakpoint.id, breakpoint);
+    return { success: true, appKey, breakpoint };
+}
+
+/**
+ * Remove a breakpoint by id
+ */
+export async function removeBreakpoint(breakpointId: string): Promise<DebuggerResult> {
+    const breakpoint = breakpoints.get(breakpointId);
+    if (!breakpoint) {
+        return { success: false, error: `Breakpoint ${breakpointId} not found. Use list_breakpoints to see ids.` };
+    }
+
+    breakpoints.delete(breakpointId);
+    const app = connectedApps.get(breakpoint.appKey);
+    if (app && breakpoint.cdpBreakpointId && enabledSockets.has(app.ws)) {
+        const result = await sendCDPCommand(app, "Debugger.removeBreakpoint", { breakpointId: breakpoint.cdpBreakpointId });
+        if (!result.success) {
+            return { success: false, appKey: breakpoint.appKey, breakpoint, error: `Debugger.removeBreakpoint failed: ${result.error}` };
+        }
+    }
+
+    return { success: true, appKey: breakpoint.appKey, breakpoint };
+}
+
+/**
+ * List breakpoints, optionally for one app
+ */
+export function listBreakpoints(appKey?: string): Breakpoint[] {
+    return Array.from(breakpoints.values()).filter((bp) => !appKey || bp.appKey === appKey);
+}
+
+/**
+ * Get the current pause of an app, if any
+ */
+export function getDebuggerPause(appKey: string): DebuggerPause | null {
+    return debuggerPauses.get(appKey) ?? null;
+}
+
+// Compact one-line value for scope listings
+function describeValue(value: RemoteObject | undefined): string {
+    if (!value) return "undefined";
+    const text = value.type === "string" ? JSON.stringify(value.value) : formatRemoteObject(value).replace(/\s*\n\s*/g, " ");
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}...` : text;
+}
+
+/**
+ * Get the pause state of an app with scope variables of one call frame
+ */
+export async function getPauseState(
+    target: AppTarget = {},
+    options: { frameIndex?: number; includeScopes?: boolean; maxVariables?: number } = {}
+): Promise<DebuggerResult> {
+    const { frameIndex = 0, includeScopes = true, maxVariables = 30 } = options;
+    const { app, appKey, error } = resolveApp(target);
+    if (!app || !appKey) {
+        return { success: false, error };
+    }
+
+    const pause = debuggerPauses.get(appKey);
+    if (!pause) {
+        return { success: true, appKey };
+    }
+    if (!includeScopes) {
+        return { success: true, appKey, pause };
+    }
+
+    const frame = pause.callFrames[frameIndex];
+    if (!frame) {
+        return { success: false, appKey, pause, error: `Frame ${frameIndex} does not exist (${pause.callFrames.length} frames)` };
+    }
+
+    // Global scope is huge and rarely interesting
+    const scopes: ScopeVariables[] = [];
+    for (const scope of frame.scopeChain.filter((s) => s.type !== "global" && s.object.objectId)) {
+        const result = await sendCDPCommand<{ result?: Array<{ name: string; value?: RemoteObject }> }>(
+            app,
+            "Runtime.getProperties",
+            { objectId: scope.object.objectId, ownProperties: true, generatePreview: true }
+        );
+        const properties = result.success ? result.result?.result ?? [] : [];
+        scopes.push({
+            type: scope.type,
+            name: scope.name,
+            variables: properties.slice(0, maxVariables).map((property) => ({
+                name: property.name,
+                value: describeValue(property.value)
+            })),
+            truncated: Math.max(0, properties.length - maxVariables)
+        });
+    }
+
+    return { success: true, appKey, pause, scopes };
+}
+
+/**
+ * Evaluate an expression in the scope of a paused call frame
+ */
+export async function evaluateOnCallFrame(
+    target: AppTarget,
+    expression: string,
+    frameIndex: number = 0
+): Promise<DebuggerResult> {
+    const { app, appKey, error } = resolveApp(target);
+    if (!app || !appKey) {
+        return { success: false, error };
+    }
+
+    const pause = debuggerPauses.get(appKey);
+    if (!pause) {
+        return { success: false, appKey, error: "App is not paused. Set a breakpoint with set_breakpoint or use debugger_step with action='pause'." };
+    }
+    const frame = pause.callFrames[frameIndex];
+    if (!frame) {
+        return { success: false, appKey, error: `Frame ${frameIndex} does not exist (${pause.callFrames.length} frames)` };
+    }
+
+    const result = await sendCDPCommand<{ result?: RemoteObject; exceptionDetails?: ExceptionDetails }>(
+        app,
+        "Debugger.evaluateOnCallFrame",
+        { callFrameId: frame.callFrameId, expression, returnByValue: true, generatePreview: true }
+    );
+    if (!result.success || !result.result) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    const { exceptionDetails } = result.result;
+    if (exceptionDetails) {
+        return {
+            success: false,
+            appKey,
+            error: exceptionDetails.exception?.description ?? exceptionDetails.text ?? "Evaluation threw an exception"
+        };
+    }
+
+    return { success: true, appKey, result: result.result.result ? formatRemoteObject(result.result.result) : "undefined" };
+}
+
+/**
+ * Resume, step or pause execution. Steps and pause wait briefly for the next pause.
+ */
+export async function debuggerStep(target: AppTarget, action: DebuggerStepAction): Promise<DebuggerResult> {
+    const { app, appKey, error } = resolveApp(target);
+    if (!app || !appKey) {
+        return { success: false, error };
+    }
+
+    const enabled = await ensureDebuggerEnabled(app, appKey);
+    if (!enabled.success) {
+        return { success: false, appKey, error: enabled.error };
+    }
+
+    const paused = debuggerPauses.has(appKey);
+    if (action === "pause" && paused) {
+        return { success: true, appKey, pause: debuggerPauses.get(appKey) };
+    }
+    if (action !== "pause" && !paused) {
+        return { success: false, appKey, error: "App is not paused." };
+    }
+
+    // Register before sending: the next pause can arrive before the command response
+    const nextPause =
+        action === "resume"
+            ? null
+            : new Promise<DebuggerPause | null>((resolve) => {
+                  const timeoutId = setTimeout(() => resolve(null), STEP_WAIT_MS);
+                  const waiters = pauseWaiters.get(appKey) ?? [];
+                  waiters.push((pause) => {
+                      clearTimeout(timeoutId);
+                      resolve(pause);
+                  });
+                  pauseWaiters.set(appKey, waiters);
+              });
+
+    const result = await sendCDPCommand(app, STEP_METHODS[action]);
+    if (!result.success) {
+        return { success: false, appKey, error: `${STEP_METHODS[action]} failed: ${result.error}` };
+    }
+
+    if (!nextPause) {
+        debuggerPauses.delete(appKey);
+        return { success: true, appKey };
+    }
+
+    const pause = await nextPause;
+    return { success: true, appKey, pause: pause ?? undefined };
+}
+
+/**
+ * Format a pause: reason, breakpoints hit and the source-mapped call stack
+ */
+export function formatDebuggerPause(pause: DebuggerPause, options: { maxFrames?: number } = {}): string {
+    const { maxFrames = 10 } = options;
+    const lines: string[] = [];
+    const hit = pause.hitBreakpoints.length > 0 ? ` ${pause.hitBreakpoints.join(", ")}` : "";
+    lines.push(`Paused (${pause.reason}${hit}) since ${pause.pausedAt.toLocaleTimeString()}`);
+
+    pause.frames.slice(0, maxFrames).forEach((frame, index) => {
+        const marker = frame.collapse ? " [framework]" : "";
+        lines.push(`  #${index} ${formatStackFrame(frame)}${marker}`);
+    });
+    if (pause.frames.length > maxFrames) {
+        lines.push(`  ... ${pause.frames.length - maxFrames} more frame(s)`);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Format scope variables of a call frame
+ */
+export function formatScopes(scopes: ScopeVariables[], frameIndex: number = 0): string {
+    if (scopes.length === 0) {
+        return `No scope variables for frame #${frameIndex}.`;
+    }
+
+    const lines: string[] = [];
+    for (const scope of scopes) {
+        lines.push(`Scope #${frameIndex} ${scope.type}${scope.name ? ` (${scope.name})` : ""}:`);
+        if (scope.variables.length === 0) {
+            lines.push("  (empty)");
+        }
+        for (const variable of scope.variables) {
+            lines.push(`  ${variable.name} = ${variable.value}`);
+        }
+        if (scope.truncated > 0) {
+            lines.push(`  ... ${scope.truncated} more`);
+        }
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Format breakpoints for text output
+ */
+export function formatBreakpoints(list: Breakpoint[]): string {
+    if (list.length === 0) {
+        return "No breakpoints set.";
+    }
+
+    return list
+        .map((bp) => {
+            const location = bp.resolvedLine !== undefined && bp.resolvedLine !== bp.line
+                ? `${bp.file}:${bp.line} (moved to line ${bp.resolvedLine})`
+                : `${bp.file}:${bp.line}`;
+            const logpoint = bp.logExpression !== undefined ? ` log ${bp.logExpression}` : "";
+            const condition = bp.condition ? ` if ${bp.condition}` : "";
+            const status = bp.error ? ` [not set: ${bp.error}]` : "";
+            return `${bp.id} ${location}${logpoint}${condition} [${bp.appKey}]${status}`;
+        })
+        .join("\n");
+}
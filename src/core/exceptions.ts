@@ -0,0 +1,213 @@
+import { StackFrame } from "./types.js";
+import { RUNTIME_EMIT_SNIPPET } from "./runtimeEvents.js";
+import { parseTimeBound } from "./logQuery.js";
+import { formatStackFrames } from "./symbolicate.js";
+
+// Where an exception was observed
+// - uncaught: Runtime.exceptionThrown (escaped all JS handlers)
+// - error-handler: React Native's global ErrorUtils handler (isFatal reported by RN)
+// - unhandled-rejection: promise rejection reported by RN's rejection tracking
+export type ExceptionSource = "uncaught" | "error-handler" | "unhandled-rejection";
+
+// Exception entry
+export interface ExceptionEntry {
+    id: number;
+    timestamp: Date;
+    message: string;
+    stack?: string;          // Raw stack text as reported by the runtime
+    frames?: StackFrame[];   // Parsed frames, source-mapped once symbolication completes
+    codeFrame?: string;      // Source excerpt at the top application frame
+    isFatal: boolean;
+    source: ExceptionSource;
+    appKey?: string;         // Connection that reported the exception
+    deviceName?: string;
+}
+
+// Event name used by the injected ErrorUtils hook
+export const EXCEPTION_EVENT = "exception";
+
+// Circular buffer for exceptions
+export class ExceptionBuffer {
+    private exceptions: ExceptionEntry[] = [];
+    private maxSize: number;
+    private nextId = 1;
+    private listeners: Array<(entry: ExceptionEntry) => void> = [];
+
+    constructor(maxSize: number = 100) {
+        this.maxSize = maxSize;
+    }
+
+    add(entry: Omit<ExceptionEntry, "id">): ExceptionEntry {
+        const stored: ExceptionEntry = { ...entry, id: this.nextId++ };
+        this.exceptions.push(stored);
+        if (this.exceptions.length > this.maxSize) {
+            this.exceptions.shift();
+        }
+        for (const listener of this.listeners) {
+            listener(stored);
+        }
+        return stored;
+    }
+
+    // Register a callback invoked for every added exception
+    subscribe(listener: (entry: ExceptionEntry) => void): void {
+        this.listeners.push(listener);
+    }
+
+    getAll(): ExceptionEntry[] {
+        return [...this.exceptions];
+    }
+
+    getLatest(): ExceptionEntry | null {
+        return this.exceptions.length > 0 ? this.exceptions[this.exceptions.length - 1] : null;
+    }
+
+    // Counts for status displays
+    getCounts(): { total: number; fatal: number } {
+        return {
+            total: this.exceptions.length,
+            fatal: this.exceptions.filter((entry) => entry.isFatal).length
+        };
+    }
+
+    clear(): number {
+        const count = this.exceptions.length;
+        this.exceptions = [];
+        return count;
+    }
+
+    get size(): number {
+        return this.exceptions.length;
+    }
+}
+
+/**
+ * Script that chains into React Native's global error handler (ErrorUtils) so
+ * handled-by-RN errors are reported with their isFatal flag. Idempotent per JS context.
+ */
+export const ERROR_HANDLER_HOOK_SCRIPT = `(function() {
+    ${RUNTIME_EMIT_SNIPPET}
+    var errorUtils = globalThis.ErrorUtils;
+    if (!errorUtils || typeof errorUtils.setGlobalHandler !== 'function') return false;
+    if (errorUtils.__rnAiDebuggerHooked) return true;
+    var previous = typeof errorUtils.getGlobalHandler === 'function' ? errorUtils.getGlobalHandler() : null;
+    errorUtils.setGlobalHandler(function(error, isFatal) {
+        try {
+            var message = error && error.message !== undefined
+                ? (error.name ? error.name + ': ' : '') + error.message
+                : String(error);
+            __rnAiDebuggerEmit('${EXCEPTION_EVENT}', {
+                message: message,
+                stack: error && error.stack ? String(error.stack) : undefined,
+                isFatal: !!isFatal
+            });
+        } catch (e) {}
+        if (typeof previous === 'function') {
+            return previous(error, isFatal);
+        }
+    });
+    errorUtils.__rnAiDebuggerHooked = true;
+    return true;
+})()`;
+
+/**
+ * Split an RN "Possible Unhandled Promise Rejection" warning into message and stack.
+ * Returns null if the text is not such a warning.
+ */
+export function parseUnhandledRejectionWarning(text: string): { message: string; stack?: string } | null {
+    if (!/^Possible unhandled promise rejection/i.test(text)) {
+        return null;
+    }
+
+    const lines = text.split("\n");
+    const message = lines.slice(1).find((line) => line.trim() && !/^\s*at /.test(line))?.trim() ?? lines[0];
+    const stack = lines.slice(1).join("\n").trim();
+    return { message, stack: stack || undefined };
+}
+
+// Format a single exception for text output
+export function formatException(entry: ExceptionEntry, options: { maxFrames?: number } = {}): string {
+    const { maxFrames = 8 } = options;
+    const time = entry.timestamp.toLocaleTimeString();
+    const label = entry.source === "unhandled-rejection" ? "UNHANDLED REJECTION" : entry.isFatal ? "FATAL" : "NON-FATAL";
+
+    const lines: string[] = [];
+    const device = entry.deviceName ? ` [${entry.deviceName}]` : "";
+    lines.push(`[#${entry.id}] ${time} ${label} (${entry.source})${device}`);
+    lines.push(entry.message);
+
+    if (entry.frames && entry.frames.length > 0) {
+        lines.push(formatStackFrames(entry.frames, maxFrames));
+    } else if (entry.stack) {
+        lines.push(entry.stack.split("\n").slice(0, maxFrames).join("\n"));
+    }
+
+    if (entry.codeFrame) {
+        lines.push("", entry.codeFrame);
+    }
+
+    return lines.join("\n");
+}
+
+// Format exceptions for text output
+export function formatExceptions(entries: ExceptionEntry[], options: { maxFrames?: number } = {}): string {
+    if (entries.length === 0) {
+        return "No exceptions captured.";
+    }
+
+    return entries.map((entry) => formatException(entry, options)).join("\n\n---\n\n");
+}
+
+// Get exceptions with filtering and formatting
+export function getExceptions(
+    buffer: ExceptionBuffer,
+    options: {
+        maxExceptions?: number;
+        fatalOnly?: boolean;
+        source?: ExceptionSource | "all";
+        since?: string;
+        text?: string;
+        maxFrames?: number;
+        appKey?: string;
+    } = {}
+): { exceptions: ExceptionEntry[]; formatted: string; error?: string } {
+    const { maxExceptions = 10, fatalOnly = false, source = "all", since, text, maxFrames, appKey } = options;
+
+    let exceptions = buffer.getAll();
+
+    if (appKey) {
+        exceptions = exceptions.filter((entry) => entry.appKey === appKey);
+    }
+
+    if (fatalOnly) {
+        exceptions = exceptions.filter((entry) => entry.isFatal);
+    }
+
+    if (source !== "all") {
+        exceptions = exceptions.filter((entry) => entry.source === source);
+    }
+
+    if (since) {
+        const bound = parseTimeBound(since);
+        if (!bound) {
+            return { exceptions: [], formatted: "", error: `Invalid since value "${since}"` };
+        }
+        exceptions = exceptions.filter((entry) => entry.timestamp.getTime() >= bound.getTime());
+    }
+
+    if (text) {
+        const needle = text.toLowerCase();
+        exceptions = exceptions.filter(
+            (entry) => entry.message.toLowerCase().includes(needle) || entry.stack?.toLowerCase().includes(needle)
+        );
+    }
+
+    if (maxExceptions > 0) {
+        exceptions = exceptions.slice(-maxExceptions);
+    }
+
+    return {
+        exceptions,
+        formatted: formatExceptions(exceptions, { maxFrames })
+    };
+}
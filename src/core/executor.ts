@@ -1,9 +1,10 @@
 import WebSocket from "ws";
-import { ExecutionResult, ExecuteOptions } from "./types.js";
-import { pendingExecutions, getNextMessageId, connectedApps } from "./state.js";
-import { getFirstConnectedApp, connectToDevice } from "./connection.js";
-import { fetchDevices, selectMainDevice, scanMetroPorts } from "./metro.js";
+import { AppTarget, ConnectedApp, DeviceInfo, ExecutionResult, ExecuteOptions } from "./types.js";
+import { pendingExecutions, getNextMessageId, connectedApps, debuggerPauses, getSelectedAppKey, setSelectedAppKey } from "./state.js";
+import { resolveTargetApp, connectToDevice } from "./connection.js";
+import { fetchDevices, selectMainDevice, selectReconnectDevice, scanMetroPorts } from "./metro.js";
 import { DEFAULT_RECONNECTION_CONFIG, cancelReconnectionTimer } from "./connectionState.js";
+import { METRO_MODULES_SNIPPET, notifyAppKeyChanged, toAsciiJson } from "./runtimeEvents.js";
 
 // Hermes runtime compatibility: polyfill for 'global' which doesn't exist in Hermes
 // In Hermes, globalThis is the standard way to access global scope
@@ -109,9 +110,121 @@ function validateAndPreprocessExpression(expression: string): ExpressionValidati
     };
 }
 
+// Keywords after which "/" starts a regular expression rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+    "return", "typeof", "instanceof", "in", "of", "new", "delete", "void", "throw", "case", "do", "else", "yield", "await"
+]);
+
+// Position after a string or template literal starting at start (templates are skipped whole, ${} included)
+function skipQuoted(expr: string, start: number): number {
+    const quote = expr[start];
+    for (let i = start + 1; i < expr.length; i++) {
+        const ch = expr[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === quote) {
+            return i + 1;
+        } else if (ch === '\n' && quote !== '`') {
+            return i;
+        }
+    }
+    return expr.length;
+}
+
+// Position after a regex literal starting at start, flags included
+function skipRegex(expr: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < expr.length; i++) {
+        const ch = expr[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '\n') {
+            return start + 1;
+        } else if (inClass) {
+            inClass = ch !== ']';
+        } else if (ch === '[') {
+            inClass = true;
+        } else if (ch === '/') {
+            const flags = /[a-z]*/y;
+            flags.lastIndex = i + 1;
+            flags.exec(expr);
+            return flags.lastIndex;
+        }
+    }
+    return expr.length;
+}
+
+/**
+ * Scan an expression for its top-level structure, skipping string, template
+ * and regex literals and comments. Returns the positions of semicolons that
+ * are not nested in parentheses, brackets or braces, and the position after
+ * the last character that is not whitespace, a comment or a trailing semicolon.
+ */
+function scanExpression(expr: string): { semicolons: number[]; end: number } {
+    const semicolons: number[] = [];
+    const identifier = /[\w$]+/y;
+    let depth = 0;
+    let end = 0;
+    let previous = "";      // Last significant character
+    let word = "";          // Identifier or keyword ending at previous
+
+    let i = 0;
+    while (i < expr.length) {
+        const ch = expr[i];
+        const next = expr[i + 1];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '/' && next === '/') {
+            const newline = expr.indexOf('\n', i);
+            i = newline === -1 ? expr.length : newline;
+            continue;
+        }
+        if (ch === '/' && next === '*') {
+            const close = expr.indexOf('*/', i + 2);
+            i = close === -1 ? expr.length : close + 2;
+            continue;
+        }
+
+        const previousWord = word;
+        word = "";
+        identifier.lastIndex = i;
+        if (ch === "'" || ch === '"' || ch === '`') {
+            i = skipQuoted(expr, i);
+        } else if (ch === '/' && (previous === "" || "(,=:[!&|?{};+-*%<>~^".includes(previous) || REGEX_PRECEDING_KEYWORDS.has(previousWord))) {
+            i = skipRegex(expr, i);
+        } else if (identifier.test(expr)) {
+            word = expr.slice(i, identifier.lastIndex);
+            i = identifier.lastIndex;
+        } else {
+            if (ch === '(' || ch === '[' || ch === '{') {
+                depth++;
+            } else if (ch === ')' || ch === ']' || ch === '}') {
+                depth--;
+            } else if (ch === ';' && depth <= 0) {
+                semicolons.push(i);
+                previous = ch;
+                i++;
+                continue;
+            }
+            i++;
+        }
+        previous = expr[i - 1];
+        end = i;
+    }
+
+    return { semicolons, end };
+}
+
 /**
  * Detect if an expression contains multiple statements or declarations.
  * These cannot be wrapped with `return (expr)` — they need block wrapping.
+ * Only semicolons at the top level separate statements: those nested in a
+ * function body or callback (an IIFE such as the scripts injected by the
+ * inspection, mocking and storage tools) belong to a single expression, and
+ * those in strings, regex literals, comments or at the end are ignored.
  *
  * Examples:
  * - "console.log('x'); 'result'"  → multi-statement (semicolon between statements)
@@ -119,6 +232,9 @@ function validateAndPreprocessExpression(expression: string): ExpressionValidati
  * - "var x = 1"                    → declaration
  * - "JSON.stringify(obj)"          → single expression (NOT multi-statement)
  * - "JSON.stringify({a: 'x;y'})"  → single expression with semicolon in string
+ * - "(function() { var a = 1; return a; })()" → single expression (semicolons nested in the body)
+ * - "(function() {})(); (function() {})()"   → multi-statement
+ * - "store.getState(); // check"  → single expression (trailing semicolon and comment)
  */
 function isMultiStatementExpression(expr: string): boolean {
     const trimmed = expr.trim();
@@ -128,43 +244,16 @@ function isMultiStatementExpression(expr: string): boolean {
         return true;
     }
 
-    // Check for semicolons that separate statements (not trailing, not inside strings)
-    // Remove the trailing semicolon and whitespace first
-    const withoutTrailing = trimmed.replace(/;\s*$/, '');
-
-    // Simple heuristic: check if there's a semicolon that's likely between statements
-    // Skip semicolons inside string literals by tracking quote state
-    let inSingle = false;
-    let inDouble = false;
-    let inTemplate = false;
-    let escaped = false;
-
-    for (let i = 0; i < withoutTrailing.length; i++) {
-        const ch = withoutTrailing[i];
-
-        if (escaped) {
-            escaped = false;
-            continue;
-        }
-
-        if (ch === '\\') {
-            escaped = true;
-            continue;
-        }
-
-        if (ch === "'" && !inDouble && !inTemplate) {
-            inSingle = !inSingle;
-        } else if (ch === '"' && !inSingle && !inTemplate) {
-            inDouble = !inDouble;
-        } else if (ch === '`' && !inSingle && !inDouble) {
-            inTemplate = !inTemplate;
-        } else if (ch === ';' && !inSingle && !inDouble && !inTemplate) {
-            // Found a semicolon outside of strings — multi-statement
-            return true;
-        }
-    }
+    const { semicolons, end } = scanExpression(trimmed);
+    return semicolons.some((position) => position < end);
+}
 
-    return false;
+/**
+ * An expression without its trailing semicolons and comments, so that it can
+ * be wrapped in parentheses
+ */
+export function trimExpressionEnd(expr: string): string {
+    return expr.slice(0, scanExpression(expr).end);
 }
 
 // Error patterns that indicate a stale/destroyed context
@@ -198,7 +287,7 @@ function delay(ms: number): Promise<void> {
 /**
  * Attempt quick reconnection to Metro
  */
-async function attemptQuickReconnect(preferredPort?: number): Promise<boolean> {
+async function attemptQuickReconnect(preferredPort?: number, previousDevice?: DeviceInfo): Promise<boolean> {
     try {
         const ports = await scanMetroPorts();
         const targetPort = preferredPort && ports.includes(preferredPort) ? preferredPort : ports[0];
@@ -206,7 +295,7 @@ async function attemptQuickReconnect(preferredPort?: number): Promise<boolean> {
         if (!targetPort) return false;
 
         const devices = await fetchDevices(targetPort);
-        const mainDevice = selectMainDevice(devices);
+        const mainDevice = previousDevice ? selectReconnectDevice(devices, previousDevice) : selectMainDevice(devices);
         if (!mainDevice) return false;
 
         await connectToDevice(mainDevice, targetPort);
@@ -220,16 +309,11 @@ async function attemptQuickReconnect(preferredPort?: number): Promise<boolean> {
  * Execute expression on a connected app (core implementation without retry)
  */
 async function executeExpressionCore(
+    app: ConnectedApp,
     expression: string,
     awaitPromise: boolean,
     timeoutMs: number = 10000
 ): Promise<ExecutionResult> {
-    const app = getFirstConnectedApp();
-
-    if (!app) {
-        return { success: false, error: "No apps connected. Run 'scan_metro' first." };
-    }
-
     if (app.ws.readyState !== WebSocket.OPEN) {
         return { success: false, error: "WebSocket connection is not open." };
     }
@@ -249,7 +333,7 @@ async function executeExpressionCore(
     // because declarations and semicolons are invalid inside parenthesized expressions
     const wrappedExpression = isMultiStatementExpression(cleanedExpression)
         ? `(function() { ${GLOBAL_POLYFILL} ${cleanedExpression} })()`
-        : `(function() { ${GLOBAL_POLYFILL} return (${cleanedExpression}); })()`;
+        : `(function() { ${GLOBAL_POLYFILL} return (${trimExpressionEnd(cleanedExpression)}); })()`;
 
     return new Promise((resolve) => {
         const timeoutId = setTimeout(() => {
@@ -290,25 +374,38 @@ export async function executeInApp(
     awaitPromise: boolean = true,
     options: ExecuteOptions = {}
 ): Promise<ExecutionResult> {
-    const { maxRetries = 2, retryDelayMs = 1000, autoReconnect = true, timeoutMs = 10000 } = options;
+    const { maxRetries = 2, retryDelayMs = 1000, autoReconnect = true, timeoutMs = 10000, target = {} } = options;
 
     let lastError: string | undefined;
     let preferredPort: number | undefined;
 
     // Get preferred port from current connection if available
-    const currentApp = getFirstConnectedApp();
-    if (currentApp) {
-        preferredPort = currentApp.port;
+    const current = resolveTargetApp(target);
+    if (current.error) {
+        return { success: false, error: current.error };
+    }
+    if (current.appKey && debuggerPauses.has(current.appKey)) {
+        return {
+            success: false,
+            error: "App is paused in the debugger. Use evaluate_on_frame to evaluate in the paused frame, or debugger_step with action='resume' to continue."
+        };
+    }
+    if (current.app) {
+        preferredPort = current.app.port;
     }
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        const app = getFirstConnectedApp();
+        // Keep targeting the same app across reconnects (its target ID may change after a reload)
+        let app = current.appKey ? connectedApps.get(current.appKey) ?? null : null;
+        if (!app) {
+            app = resolveTargetApp(current.app ? { device: current.app.deviceInfo.deviceName } : target).app;
+        }
 
         // No connection - try to reconnect if enabled
         if (!app) {
             if (autoReconnect && attempt < maxRetries) {
                 console.error(`[rn-ai-debugger] No connection, attempting reconnect (attempt ${attempt + 1}/${maxRetries})...`);
-                const reconnected = await attemptQuickReconnect(preferredPort);
+                const reconnected = await attemptQuickReconnect(preferredPort, current.app?.deviceInfo);
                 if (reconnected) {
                     await delay(retryDelayMs);
                     continue;
@@ -327,7 +424,7 @@ export async function executeInApp(
                 try { app.ws.close(); } catch { /* ignore */ }
                 connectedApps.delete(appKey);
 
-                const reconnected = await attemptQuickReconnect(app.port);
+                const reconnected = await attemptQuickReconnect(app.port, app.deviceInfo);
                 if (reconnected) {
                     await delay(retryDelayMs);
                     continue;
@@ -337,7 +434,7 @@ export async function executeInApp(
         }
 
         // Execute the expression
-        const result = await executeExpressionCore(expression, awaitPromise, timeoutMs);
+        const result = await executeExpressionCore(app, expression, awaitPromise, timeoutMs);
 
         // Success - return result
         if (result.success) {
@@ -357,7 +454,7 @@ export async function executeInApp(
                 try { app.ws.close(); } catch { /* ignore */ }
                 connectedApps.delete(appKey);
 
-                const reconnected = await attemptQuickReconnect(app.port);
+                const reconnected = await attemptQuickReconnect(app.port, app.deviceInfo);
                 if (reconnected) {
                     await delay(retryDelayMs);
                     continue;
@@ -376,7 +473,7 @@ export async function executeInApp(
 }
 
 // List globally available debugging objects in the app
-export async function listDebugGlobals(): Promise<ExecutionResult> {
+export async function listDebugGlobals(target: AppTarget = {}): Promise<ExecutionResult> {
     const expression = `
         (function() {
             const globals = Object.keys(globalThis);
@@ -393,11 +490,11 @@ export async function listDebugGlobals(): Promise<ExecutionResult> {
         })()
     `;
 
-    return executeInApp(expression, false);
+    return executeInApp(expression, false, { target });
 }
 
 // Inspect a global object to see its properties and types
-export async function inspectGlobal(objectName: string): Promise<ExecutionResult> {
+export async function inspectGlobal(objectName: string, target: AppTarget = {}): Promise<ExecutionResult> {
     const expression = `
         (function() {
             const obj = ${objectName};
@@ -418,15 +515,19 @@ export async function inspectGlobal(objectName: string): Promise<ExecutionResult
         })()
     `;
 
-    return executeInApp(expression, false);
+    return executeInApp(expression, false, { target });
 }
 
 // Reload the React Native app using __ReactRefresh (Page.reload is not supported by Hermes)
 // Uses fire-and-forget: sends the reload command without waiting for a response,
 // since the JS context is destroyed during reload and would always timeout.
-export async function reloadApp(): Promise<ExecutionResult> {
+export async function reloadApp(target: AppTarget = {}): Promise<ExecutionResult> {
     // Get current connection info before reload
-    let app = getFirstConnectedApp();
+    const resolved = resolveTargetApp(target);
+    if (resolved.error) {
+        return { success: false, error: resolved.error };
+    }
+    let app = resolved.app;
 
     // Auto-connect if no connection exists
     if (!app) {
@@ -449,7 +550,7 @@ export async function reloadApp(): Promise<ExecutionResult> {
                 try {
                     await connectToDevice(mainDevice, port);
                     console.error(`[rn-ai-debugger] Auto-connected to ${mainDevice.title} on port ${port}`);
-                    app = getFirstConnectedApp();
+                    app = connectedApps.get(`${port}-${mainDevice.id}`) ?? null;
                     break;
                 } catch (error) {
                     console.error(`[rn-ai-debugger] Failed to connect to port ${port}: ${error}`);
@@ -467,6 +568,8 @@ export async function reloadApp(): Promise<ExecutionResult> {
     }
 
     const port = app.port;
+    const previousDevice = app.deviceInfo;
+    const previousKey = `${port}-${previousDevice.id}`;
 
     // Fire-and-forget: send reload command via CDP without waiting for response.
     // The JS context is destroyed during reload, so Runtime.evaluate would always timeout.
@@ -513,10 +616,11 @@ export async function reloadApp(): Promise<ExecutionResult> {
         // Wait for app to reload (give it time to restart JS context)
         await delay(2000);
 
-        // Close existing connections to this port and cancel any pending auto-reconnections
-        // This prevents the dual-reconnection bug where both auto-reconnect and manual reconnect compete
+        // Close existing connections to the reloaded app and cancel any pending auto-reconnections
+        // This prevents the dual-reconnection bug where both auto-reconnect and manual reconnect compete.
+        // Other apps sharing this Metro port (e.g. a second platform) are left connected.
         for (const [key, connectedApp] of connectedApps.entries()) {
-            if (connectedApp.port === port) {
+            if (connectedApp.port === port && connectedApp.deviceInfo.deviceName === previousDevice.deviceName) {
                 // Cancel any pending reconnection timer BEFORE closing
                 cancelReconnectionTimer(key);
                 try {
@@ -535,13 +639,25 @@ export async function reloadApp(): Promise<ExecutionResult> {
         // We're doing a manual reconnection here, so we don't want the auto-reconnect
         // system to also try reconnecting and compete with us
         const devices = await fetchDevices(port);
-        const mainDevice = selectMainDevice(devices);
+        const mainDevice = selectReconnectDevice(devices, previousDevice);
 
         if (mainDevice) {
+            // A new target ID gives the app a new key: move select_app and per-app
+            // state (watches, hooks, breakpoints) to it before connecting, so the
+            // new context's listeners find them
+            const appKey = `${port}-${mainDevice.id}`;
+            if (appKey !== previousKey) {
+                if (getSelectedAppKey() === previousKey) {
+                    setSelectedAppKey(appKey);
+                }
+                notifyAppKeyChanged(previousKey, appKey);
+            }
+
             await connectToDevice(mainDevice, port, {
                 isReconnection: false,
                 reconnectionConfig: { ...DEFAULT_RECONNECTION_CONFIG, enabled: false }
             });
+
             return {
                 success: true,
                 result: `App reloaded and reconnected to ${mainDevice.title}`
@@ -682,8 +798,9 @@ export async function getComponentTree(options: {
     format?: 'json' | 'tonl';
     structureOnly?: boolean;
     focusedOnly?: boolean;
+    target?: AppTarget;
 } = {}): Promise<ExecutionResult> {
-    const { includeProps = false, includeStyles = false, hideInternals = true, format = 'tonl', structureOnly = false, focusedOnly = false } = options;
+    const { includeProps = false, includeStyles = false, hideInternals = true, format = 'tonl', structureOnly = false, focusedOnly = false, target } = options;
     // Use lower default depth for structureOnly to keep output compact (~2-5KB)
     // Full mode uses higher depth since TONL format handles it better
     // focusedOnly mode uses moderate depth since we're already filtering to active screen
@@ -884,7 +1001,7 @@ export async function getComponentTree(options: {
     `;
 
     // Use a longer timeout for component tree traversal — large apps can exceed 10s
-    const result = await executeInApp(expression, false, { timeoutMs: 30000 });
+    const result = await executeInApp(expression, false, { timeoutMs: 30000, target });
 
     // Apply formatting if requested
     if (result.success && result.result) {
@@ -922,8 +1039,9 @@ export async function getScreenLayout(options: {
     shortPath?: boolean;
     summary?: boolean;
     format?: 'json' | 'tonl';
+    target?: AppTarget;
 } = {}): Promise<ExecutionResult> {
-    const { maxDepth = 65, componentsOnly = false, shortPath = true, summary = false, format = 'tonl' } = options;
+    const { maxDepth = 65, componentsOnly = false, shortPath = true, summary = false, format = 'tonl', target } = options;
 
     const expression = `
         (function() {
@@ -1079,7 +1197,7 @@ export async function getScreenLayout(options: {
     `;
 
     // Use a longer timeout for layout traversal — large component trees can exceed 10s
-    const result = await executeInApp(expression, false, { timeoutMs: 30000 });
+    const result = await executeInApp(expression, false, { timeoutMs: 30000, target });
 
     // Apply TONL formatting if requested
     if (format === 'tonl' && result.success && result.result) {
@@ -1112,8 +1230,9 @@ export async function inspectComponent(componentName: string, options: {
     childrenDepth?: number;
     shortPath?: boolean;
     simplifyHooks?: boolean;
+    target?: AppTarget;
 } = {}): Promise<ExecutionResult> {
-    const { index = 0, includeState = true, includeChildren = false, childrenDepth = 1, shortPath = true, simplifyHooks = true } = options;
+    const { index = 0, includeState = true, includeChildren = false, childrenDepth = 1, shortPath = true, simplifyHooks = true, target } = options;
     const escapedName = componentName.replace(/'/g, "\\'");
 
     const expression = `
@@ -1321,7 +1440,7 @@ export async function inspectComponent(componentName: string, options: {
         })()
     `;
 
-    return executeInApp(expression, false);
+    return executeInApp(expression, false, { target });
 }
 
 /**
@@ -1333,8 +1452,9 @@ export async function findComponents(pattern: string, options: {
     shortPath?: boolean;
     summary?: boolean;
     format?: 'json' | 'tonl';
+    target?: AppTarget;
 } = {}): Promise<ExecutionResult> {
-    const { maxResults = 20, includeLayout = false, shortPath = true, summary = false, format = 'tonl' } = options;
+    const { maxResults = 20, includeLayout = false, shortPath = true, summary = false, format = 'tonl', target } = options;
     const escapedPattern = pattern.replace(/'/g, "\\'").replace(/\\/g, "\\\\");
 
     const expression = `
@@ -1451,7 +1571,7 @@ export async function findComponents(pattern: string, options: {
         })()
     `;
 
-    const result = await executeInApp(expression, false);
+    const result = await executeInApp(expression, false, { target });
 
     // Apply TONL formatting if requested
     if (format === 'tonl' && result.success && result.result) {
@@ -1480,11 +1600,15 @@ export async function findComponents(pattern: string, options: {
 // Coordinate-Based Element Inspection (via DevTools Inspector API)
 // ============================================================================
 
+// RN primitives and internal components to skip when surfacing the "element" name.
+// We want the nearest *custom* component, not a library wrapper.
+const RN_PRIMITIVES = /^(View|Text|Image|ScrollView|FlatList|SectionList|TextInput|TouchableOpacity|TouchableHighlight|TouchableNativeFeedback|TouchableWithoutFeedback|Pressable|Button|Switch|ActivityIndicator|Modal|SafeAreaView|KeyboardAvoidingView|Animated\(.*|withAnimated.*|ForwardRef.*|memo\(.*|Context\.Consumer|Context\.Provider|VirtualizedList.*|CellRenderer.*|FrameSizeProvider|MaybeScreenContainer|RCT.*|RNS.*|Navigation.*|Screen$|ScreenStack|ScreenContainer|ScreenContentWrapper|SceneView|DelayedFreeze|Freeze|Suspender|DebugContainer|StaticContainer)$/;
+
 /**
  * Toggle the Element Inspector via DevSettings native module.
  * This enables the inspector overlay programmatically.
  */
-export async function toggleElementInspector(): Promise<ExecutionResult> {
+export async function toggleElementInspector(target: AppTarget = {}): Promise<ExecutionResult> {
     const expression = `
         (function() {
             const ds = globalThis.nativeModuleProxy?.DevSettings;
@@ -1504,13 +1628,13 @@ export async function toggleElementInspector(): Promise<ExecutionResult> {
         })()
     `;
 
-    return executeInApp(expression, false);
+    return executeInApp(expression, false, { target });
 }
 
 /**
  * Check if the Element Inspector overlay is currently active.
  */
-export async function isInspectorActive(): Promise<boolean> {
+export async function isInspectorActive(target: AppTarget = {}): Promise<boolean> {
     const expression = `
         (function() {
             const hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
@@ -1542,7 +1666,7 @@ export async function isInspectorActive(): Promise<boolean> {
         })()
     `;
 
-    const result = await executeInApp(expression, false);
+    const result = await executeInApp(expression, false, { target });
     if (result.success && result.result) {
         return result.result === 'true';
     }
@@ -1554,7 +1678,7 @@ export async function isInspectorActive(): Promise<boolean> {
  * This reads the InspectorPanel component's props to get the hierarchy, frame, and style.
  * Requires the Element Inspector to be enabled and an element to be selected.
  */
-export async function getInspectorSelection(): Promise<ExecutionResult> {
+export async function getInspectorSelection(target: AppTarget = {}): Promise<ExecutionResult> {
     const expression = `
         (function() {
             const hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
@@ -1628,28 +1752,15 @@ export async function getInspectorSelection(): Promise<ExecutionResult> {
         })()
     `;
 
-    return executeInApp(expression, false);
+    return executeInApp(expression, false, { target });
 }
 
 /**
- * Inspect the React component at a specific (x, y) coordinate.
- *
- * Works on both Paper and Fabric (New Architecture). Uses a two-step approach
- * because measureInWindow callbacks fire in a future native event loop tick
- * (not microtasks), so awaitPromise cannot be used to collect them:
- *
- * Step 1 — dispatch: walk the fiber tree, call measureInWindow on each host
- *   component, store fiber refs and results in app globals.
- * Step 2 — resolve (after 300ms): read the globals, hit-test against target
- *   coordinates, return the innermost matching React component.
+ * Walk the fiber tree and call measureInWindow on each host component, storing
+ * fiber refs and results in app globals (__inspectFibers, __inspectMeasurements).
+ * Resolves once the native callbacks have had time to fire.
  */
-export async function inspectAtPoint(x: number, y: number, options: {
-    includeProps?: boolean;
-    includeFrame?: boolean;
-} = {}): Promise<ExecutionResult> {
-    const { includeProps = true, includeFrame = true } = options;
-
-    // --- Step 1: walk fiber tree + dispatch measureInWindow calls ---
+async function measureHostComponents(target?: AppTarget): Promise<ExecutionResult> {
     const dispatchExpression = `
         (function() {
             var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
@@ -1711,7 +1822,7 @@ export async function inspectAtPoint(x: number, y: number, options: {
         })()
     `;
 
-    const dispatchResult = await executeInApp(dispatchExpression, false);
+    const dispatchResult = await executeInApp(dispatchExpression, false, { target });
     if (!dispatchResult.success) return dispatchResult;
 
     try {
@@ -1721,6 +1832,31 @@ export async function inspectAtPoint(x: number, y: number, options: {
 
     // Wait for native measureInWindow callbacks to fire
     await delay(300);
+    return dispatchResult;
+}
+
+/**
+ * Inspect the React component at a specific (x, y) coordinate.
+ *
+ * Works on both Paper and Fabric (New Architecture). Uses a two-step approach
+ * because measureInWindow callbacks fire in a future native event loop tick
+ * (not microtasks), so awaitPromise cannot be used to collect them:
+ *
+ * Step 1 — dispatch: walk the fiber tree, call measureInWindow on each host
+ *   component, store fiber refs and results in app globals.
+ * Step 2 — resolve (after 300ms): read the globals, hit-test against target
+ *   coordinates, return the innermost matching React component.
+ */
+export async function inspectAtPoint(x: number, y: number, options: {
+    includeProps?: boolean;
+    includeFrame?: boolean;
+    target?: AppTarget;
+} = {}): Promise<ExecutionResult> {
+    const { includeProps = true, includeFrame = true, target } = options;
+
+    // --- Step 1: walk fiber tree + dispatch measureInWindow calls ---
+    const measured = await measureHostComponents(target);
+    if (!measured.success) return measured;
 
     // --- Step 2: read measurements, hit-test, return result ---
     const resolveExpression = `
@@ -1753,9 +1889,7 @@ export async function inspectAtPoint(x: number, y: number, options: {
             hits.sort(function(a, b) { return (a.width * a.height) - (b.width * b.height); });
             var best = hits[0];
 
-            // RN primitives and internal components to skip when surfacing the "element" name.
-            // We want the nearest *custom* component, not a library wrapper.
-            var RN_PRIMITIVES = /^(View|Text|Image|ScrollView|FlatList|SectionList|TextInput|TouchableOpacity|TouchableHighlight|TouchableNativeFeedback|TouchableWithoutFeedback|Pressable|Button|Switch|ActivityIndicator|Modal|SafeAreaView|KeyboardAvoidingView|Animated\(.*|withAnimated.*|ForwardRef.*|memo\(.*|Context\.Consumer|Context\.Provider|VirtualizedList.*|CellRenderer.*|FrameSizeProvider|MaybeScreenContainer|RCT.*|RNS.*|Navigation.*|Screen$|ScreenStack|ScreenContainer|ScreenContentWrapper|SceneView|DelayedFreeze|Freeze|Suspender|DebugContainer|StaticContainer)$/;
+            var RN_PRIMITIVES = /${RN_PRIMITIVES.source}/;
 
             function getNearestNamed(fiber, skipPrimitives) {
                 var cur = fiber;
@@ -1846,5 +1980,502 @@ export async function inspectAtPoint(x: number, y: number, options: {
         })()
     `;
 
-    return executeInApp(resolveExpression, false);
+    return executeInApp(resolveExpression, false, { target });
+}
+
+/**
+ * Find a mounted component by name, testID or text and measure it on screen.
+ *
+ * Uses the same two-step measureInWindow approach as inspectAtPoint, but only
+ * for the matching components: each match is measured through its first host
+ * descendant, and matches that are not visible in the window (screens kept
+ * mounted behind the focused one, collapsed or off-screen views) are skipped.
+ * The frame is in window points (dp on Android).
+ */
+export async function findComponentOnScreen(options: {
+    componentName?: string;
+    testID?: string;
+    text?: string;
+    index?: number;
+    target?: AppTarget;
+}): Promise<ExecutionResult> {
+    const { componentName, testID, text, index = 0, target } = options;
+    if (!componentName && !testID && !text) {
+        return { success: false, error: "One of componentName, testID or text is required" };
+    }
+
+    // --- Step 1: find matching fibers + dispatch measureInWindow calls ---
+    const dispatchExpression = `
+        (function() {
+            var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+            if (!hook) return { error: 'React DevTools hook not available. Make sure you are running a development build.' };
+
+            var roots = [];
+            if (hook.getFiberRoots) {
+                try { roots = Array.from(hook.getFiberRoots(1) || []); } catch(e) {}
+            }
+            if (roots.length === 0 && hook.renderers) {
+                for (var entry of hook.renderers) {
+                    try {
+                        var r = Array.from(hook.getFiberRoots ? (hook.getFiberRoots(entry[0]) || []) : []);
+                        if (r.length > 0) { roots = r; break; }
+                    } catch(e) {}
+                }
+            }
+            if (roots.length === 0) return { error: 'No fiber roots found. The app may not have rendered yet.' };
+
+            var componentName = ${toAsciiJson(componentName ?? null)};
+            var testID = ${toAsciiJson(testID ?? null)};
+            var text = ${toAsciiJson(text ? text.toLowerCase() : null)};
+
+            function getMeasurable(fiber) {
+                var sn = fiber.stateNode;
+                if (!sn) return null;
+                if (typeof sn.measureInWindow === 'function') return sn;
+                if (sn.canonical && sn.canonical.publicInstance &&
+                    typeof sn.canonical.publicInstance.measureInWindow === 'function') {
+                    return sn.canonical.publicInstance;
+                }
+                return null;
+            }
+
+            function firstHost(fiber) {
+                if (typeof fiber.type === 'string' && getMeasurable(fiber)) return fiber;
+                for (var child = fiber.child; child; child = child.sibling) {
+                    var host = firstHost(child);
+                    if (host) return host;
+                }
+                return null;
+            }
+
+            function getName(fiber) {
+                if (!fiber.type) return null;
+                return typeof fiber.type === 'string' ? fiber.type : (fiber.type.displayName || fiber.type.name || null);
+            }
+
+            // Text of a host text node, including nested text children
+            function getText(fiber) {
+                var children = fiber.memoizedProps && fiber.memoizedProps.children;
+                var parts = [];
+                (function collect(value) {
+                    if (typeof value === 'string' || typeof value === 'number') parts.push(String(value));
+                    else if (Array.isArray(value)) value.forEach(collect);
+                    else if (value && value.props) collect(value.props.children);
+                })(children);
+                return parts.join('');
+            }
+
+            function matches(fiber) {
+                var props = fiber.memoizedProps;
+                if (componentName && getName(fiber) !== componentName) return false;
+                if (testID && !(props && props.testID === testID)) return false;
+                if (text) {
+                    if (typeof fiber.type !== 'string' || !/Text$/.test(fiber.type)) return false;
+                    if (getText(fiber).toLowerCase().indexOf(text) === -1) return false;
+                }
+                return true;
+            }
+
+            var found = [];
+            function walk(fiber, depth) {
+                var cur = fiber;
+                while (cur) {
+                    if (found.length >= 50) return;
+                    if (matches(cur)) {
+                        var host = firstHost(cur);
+                        if (host) found.push({ fiber: cur, host: host });
+                        // Nested matches (a testID forwarded to a child) are the same element
+                        cur = cur.sibling;
+                        continue;
+                    }
+                    if (cur.child && depth < 250) walk(cur.child, depth + 1);
+                    cur = cur.sibling;
+                }
+            }
+            for (var root of roots) { walk(root.current, 0); }
+
+            if (found.length === 0) return { error: 'No mounted component matches.' };
+
+            var windowHost = firstHost(roots[0].current);
+            globalThis.__tapCandidates = found;
+            globalThis.__tapMeasurements = new Array(found.length).fill(null);
+            globalThis.__tapWindow = null;
+
+            found.forEach(function(candidate, i) {
+                try {
+                    getMeasurable(candidate.host).measureInWindow(function(fx, fy, fw, fh) {
+                        globalThis.__tapMeasurements[i] = { x: fx, y: fy, width: fw, height: fh };
+                    });
+                } catch(e) {}
+            });
+            if (windowHost) {
+                try {
+                    getMeasurable(windowHost).measureInWindow(function(fx, fy, fw, fh) {
+                        globalThis.__tapWindow = { x: fx, y: fy, width: fw, height: fh };
+                    });
+                } catch(e) {}
+            }
+
+            return { count: found.length };
+        })()
+    `;
+
+    const dispatchResult = await executeInApp(dispatchExpression, false, { target });
+    if (!dispatchResult.success) return dispatchResult;
+    try {
+        const parsed = JSON.parse(dispatchResult.result || '{}');
+        if (parsed.error) return { success: false, error: parsed.error };
+    } catch { /* ignore parse errors */ }
+
+    // Wait for native measureInWindow callbacks to fire
+    await delay(300);
+
+    // --- Step 2: keep visible matches, pick one, describe it ---
+    const resolveExpression = `
+        (function() {
+            var candidates = globalThis.__tapCandidates;
+            var measurements = globalThis.__tapMeasurements;
+            var windowFrame = globalThis.__tapWindow;
+            globalThis.__tapCandidates = null;
+            globalThis.__tapMeasurements = null;
+            globalThis.__tapWindow = null;
+
+            if (!candidates || !measurements) return { error: 'No measurement data available. Try again.' };
+
+            var visible = [];
+            for (var i = 0; i < candidates.length; i++) {
+                var m = measurements[i];
+                if (!m || !(m.width > 0) || !(m.height > 0)) continue;
+                var cx = m.x + m.width / 2;
+                var cy = m.y + m.height / 2;
+                if (windowFrame && windowFrame.width > 0 &&
+                    (cx < windowFrame.x || cx > windowFrame.x + windowFrame.width ||
+                     cy < windowFrame.y || cy > windowFrame.y + windowFrame.height)) continue;
+                visible.push({ candidate: candidates[i], frame: m });
+            }
+
+            var requestedIndex = ${index};
+            if (visible.length === 0) {
+                return { error: candidates.length + ' matching component(s) are mounted but none is visible on screen.' };
+            }
+            if (requestedIndex >= visible.length) {
+                return { error: 'Index ' + requestedIndex + ' out of range. Found ' + visible.length + ' visible match(es).' };
+            }
+
+            var chosen = visible[requestedIndex];
+            var fiber = chosen.candidate.fiber;
+            var props = fiber.memoizedProps || {};
+
+            function getName(f) {
+                if (!f.type) return null;
+                return typeof f.type === 'string' ? f.type : (f.type.displayName || f.type.name || null);
+            }
+
+            var path = [];
+            for (var cur = fiber; cur; cur = cur.return) {
+                var n = getName(cur);
+                if (n) path.unshift(n);
+            }
+
+            function getText(f) {
+                var parts = [];
+                (function collect(value) {
+                    if (typeof value === 'string' || typeof value === 'number') parts.push(String(value));
+                    else if (Array.isArray(value)) value.forEach(collect);
+                    else if (value && value.props) collect(value.props.children);
+                })(f.memoizedProps && f.memoizedProps.children);
+                return parts.join('');
+            }
+
+            // Text shown inside the element, to report what was tapped
+            var texts = [];
+            (function collect(f, depth) {
+                if (typeof f.type === 'string' && /Text$/.test(f.type)) {
+                    var t = getText(f);
+                    if (t) texts.push(t);
+                    return;
+                }
+                for (var child = f.child; child && texts.length < 5; child = child.sibling) {
+                    if (depth < 30) collect(child, depth + 1);
+                }
+            })(fiber, 0);
+
+            ${METRO_MODULES_SNIPPET}
+            var platform = null;
+            var entries = __rnAiDebuggerModules() || [];
+            for (var e = 0; e < entries.length && !platform; e++) {
+                var match = entries[e] && /Utilities\\/Platform\\.(ios|android)\\.js$/.exec(entries[e].verboseName || '');
+                if (match) platform = match[1];
+            }
+
+            return {
+                component: getName(fiber),
+                nativeElement: chosen.candidate.host.type,
+                testID: props.testID,
+                text: texts.length > 0 ? texts.join(' ').slice(0, 100) : undefined,
+                path: path.slice(-6).join(' > '),
+                frame: chosen.frame,
+                matches: candidates.length,
+                visibleMatches: visible.length,
+                platform: platform
+            };
+        })()
+    `;
+
+    return executeInApp(resolveExpression, false, { target });
+}
+
+// ============================================================================
+// Component State Overrides (via DevTools renderer interface)
+// ============================================================================
+
+/**
+ * Override a prop or a state value of a mounted component, the same way the
+ * React DevTools editor does. The component is found by name (and instance
+ * index) or by the nearest custom component at an (x, y) point.
+ *
+ * - props: renderer.overrideProps(fiber, path, value). Lasts until the parent
+ *   re-renders the component with fresh props.
+ * - state of function components: renderer.overrideHookState(fiber, hookIndex,
+ *   path, value) on a useState/useReducer hook.
+ * - state of class components: setState with the value set at the path.
+ *
+ * overrideProps/overrideHookState are injected by development builds only.
+ */
+export async function updateComponentState(options: {
+    componentName?: string;
+    index?: number;
+    x?: number;
+    y?: number;
+    kind: "props" | "state";
+    hookIndex?: number;
+    path?: string;
+    value: unknown;
+    target?: AppTarget;
+}): Promise<ExecutionResult> {
+    const { componentName, index = 0, x, y, kind, hookIndex, path = "", value, target } = options;
+
+    const byPoint = x !== undefined && y !== undefined;
+    if (!componentName && !byPoint) {
+        return { success: false, error: "Provide componentName (with optional index) or x and y." };
+    }
+    const pathSegments = path.split(".").map((segment) => segment.trim()).filter(Boolean);
+    if (kind === "props" && pathSegments.length === 0) {
+        return { success: false, error: "path is required for props (e.g. 'items' or 'user.name')." };
+    }
+
+    if (byPoint) {
+        const measured = await measureHostComponents(target);
+        if (!measured.success) return measured;
+    }
+
+    const expression = `
+        (function() {
+            var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+            if (!hook) return { error: 'React DevTools hook not available. Make sure you are running a development build.' };
+
+            var kind = '${kind}';
+            var hookIndex = ${hookIndex ?? "null"};
+            var path = ${toAsciiJson(pathSegments)};
+            var value = ${toAsciiJson(value ?? null)};
+
+            var renderer = null;
+            if (hook.renderers) {
+                for (var entry of hook.renderers) {
+                    if (entry[1] && typeof entry[1].overrideProps === 'function') { renderer = entry[1]; break; }
+                }
+            }
+
+            function getName(fiber) {
+                if (!fiber || !fiber.type || typeof fiber.type === 'string') return null;
+                return fiber.type.displayName || fiber.type.name || null;
+            }
+
+            function buildPath(fiber) {
+                var names = [];
+                for (var cur = fiber; cur; cur = cur.return) {
+                    var n = typeof cur.type === 'string' ? cur.type : getName(cur);
+                    if (n) names.unshift(n);
+                }
+                return names.slice(-8).join(' > ');
+            }
+
+            function serialize(val, depth) {
+                depth = depth || 0;
+                if (val === undefined) return '[undefined]';
+                if (val === null || typeof val !== 'object') return typeof val === 'function' ? '[Function]' : val;
+                if (depth > 2) return Array.isArray(val) ? '[Array(' + val.length + ')]' : '[Object]';
+                if (Array.isArray(val)) {
+                    if (val.length > 10) return '[Array(' + val.length + ')]';
+                    return val.map(function(v) { return serialize(v, depth + 1); });
+                }
+                var keys = Object.keys(val);
+                if (keys.length > 20) return '[Object(' + keys.length + ' keys)]';
+                var out = {};
+                for (var i = 0; i < keys.length; i++) out[keys[i]] = serialize(val[keys[i]], depth + 1);
+                return out;
+            }
+
+            function getIn(obj, keys) {
+                for (var i = 0; i < keys.length; i++) {
+                    if (obj === null || typeof obj !== 'object') return undefined;
+                    obj = obj[keys[i]];
+                }
+                return obj;
+            }
+
+            function copyWithSet(obj, keys, val) {
+                if (keys.length === 0) return val;
+                var copy = Array.isArray(obj) ? obj.slice() : Object.assign({}, obj);
+                copy[keys[0]] = copyWithSet(obj ? obj[keys[0]] : undefined, keys.slice(1), val);
+                return copy;
+            }
+
+            var roots = [];
+            if (hook.getFiberRoots) {
+                try { roots = Array.from(hook.getFiberRoots(1) || []); } catch(e) {}
+            }
+            if (roots.length === 0 && hook.renderers) {
+                for (var rootsEntry of hook.renderers) {
+                    try {
+                        var r = Array.from(hook.getFiberRoots ? (hook.getFiberRoots(rootsEntry[0]) || []) : []);
+                        if (r.length > 0) { roots = r; break; }
+                    } catch(e) {}
+                }
+            }
+            if (roots.length === 0) return { error: 'No fiber roots found. The app may not have rendered yet.' };
+
+            // Fibers of the committed tree in tree order (overrides must target these,
+            // not their stale alternates, or the next render discards them)
+            function walkCurrent(visit) {
+                var stack = [roots[0].current];
+                while (stack.length > 0) {
+                    var node = stack.pop();
+                    if (visit(node)) return node;
+                    var children = [];
+                    for (var child = node.child; child; child = child.sibling) children.push(child);
+                    for (var c = children.length - 1; c >= 0; c--) stack.push(children[c]);
+                }
+                return null;
+            }
+
+            var fiber = null;
+            var instancesFound = 0;
+
+            if (${byPoint}) {
+                var fibers = globalThis.__inspectFibers;
+                var measurements = globalThis.__inspectMeasurements;
+                globalThis.__inspectFibers = null;
+                globalThis.__inspectMeasurements = null;
+                if (!fibers || !measurements) return { error: 'No measurement data available. Run update_component_state again.' };
+
+                var targetX = ${x ?? 0};
+                var targetY = ${y ?? 0};
+                var best = null;
+                for (var i = 0; i < measurements.length; i++) {
+                    var m = measurements[i];
+                    if (m && m.width > 0 && m.height > 0 &&
+                        targetX >= m.x && targetX <= m.x + m.width &&
+                        targetY >= m.y && targetY <= m.y + m.height &&
+                        (!best || m.width * m.height < best.area)) {
+                        best = { fiber: fibers[i], area: m.width * m.height };
+                    }
+                }
+                if (!best) return { error: 'No component found at (' + targetX + ', ' + targetY + ').' };
+
+                var RN_PRIMITIVES = /${RN_PRIMITIVES.source}/;
+                var fallback = null;
+                for (var cur = best.fiber.return; cur; cur = cur.return) {
+                    var curName = getName(cur);
+                    if (!curName) continue;
+                    if (!fallback) fallback = cur;
+                    if (!RN_PRIMITIVES.test(curName)) { fiber = cur; break; }
+                }
+                var hit = fiber || fallback;
+                if (!hit) return { error: 'No React component found at (' + targetX + ', ' + targetY + ').' };
+                // Return pointers may lead to the alternate of a component that did not re-render
+                fiber = walkCurrent(function(node) { return node === hit || node === hit.alternate; });
+                if (!fiber) return { error: 'Component "' + getName(hit) + '" at (' + targetX + ', ' + targetY + ') is no longer mounted.' };
+                instancesFound = 1;
+            } else {
+                var targetName = ${toAsciiJson(componentName ?? "")};
+                var matches = [];
+                walkCurrent(function(node) {
+                    if (getName(node) === targetName) matches.push(node);
+                    return false;
+                });
+                if (matches.length === 0) return { error: 'Component "' + targetName + '" not found in the component tree.' };
+                if (${index} >= matches.length) {
+                    return { error: 'Component "' + targetName + '" found ' + matches.length + ' times, but index ${index} requested.' };
+                }
+                fiber = matches[${index}];
+                instancesFound = matches.length;
+            }
+
+            var result = {
+                component: getName(fiber),
+                path: buildPath(fiber),
+                instancesFound: instancesFound
+            };
+
+            if (kind === 'props') {
+                if (!renderer) return { error: 'The React renderer does not expose overrideProps. Make sure you are running a development build.' };
+                result.updated = 'props.' + path.join('.');
+                result.previous = serialize(getIn(fiber.memoizedProps, path));
+                renderer.overrideProps(fiber, path, value);
+            } else if (fiber.tag === 1) {
+                var instance = fiber.stateNode;
+                if (!instance || typeof instance.setState !== 'function') return { error: 'Class component instance not available.' };
+                if (path.length === 0 && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+                    return { error: 'Class state is an object: provide a path (e.g. "count") or an object value to merge.' };
+                }
+                result.updated = path.length > 0 ? 'state.' + path.join('.') : 'state';
+                result.previous = serialize(path.length > 0 ? getIn(instance.state, path) : instance.state);
+                instance.setState(function(state) {
+                    if (path.length === 0) return value;
+                    var partial = {};
+                    partial[path[0]] = copyWithSet(state ? state[path[0]] : undefined, path.slice(1), value);
+                    return partial;
+                });
+            } else {
+                // Stateful hooks (useState/useReducer) have an update queue with a dispatch
+                var stateful = [];
+                var stateHook = null;
+                var hookState = fiber.memoizedState;
+                for (var h = 0; hookState && h < 100; h++) {
+                    if (hookState.queue && typeof hookState.queue.dispatch === 'function') {
+                        stateful.push(h);
+                        if (h === hookIndex) stateHook = hookState;
+                    }
+                    hookState = hookState.next;
+                }
+                if (stateful.length === 0) return { error: 'Component "' + result.component + '" has no useState/useReducer hooks.' };
+                if (hookIndex === null) {
+                    return { error: 'hookIndex is required for function components. useState/useReducer hooks: ' + stateful.join(', ') + ' (see inspect_component).' };
+                }
+                if (!stateHook) {
+                    return { error: 'Hook #' + hookIndex + ' is not a useState/useReducer hook. useState/useReducer hooks: ' + stateful.join(', ') + '.' };
+                }
+                if (!renderer || typeof renderer.overrideHookState !== 'function') {
+                    return { error: 'The React renderer does not expose overrideHookState. Make sure you are running a development build.' };
+                }
+                result.updated = 'hook #' + hookIndex + (path.length > 0 ? '.' + path.join('.') : '');
+                result.previous = serialize(getIn(stateHook.memoizedState, path));
+                renderer.overrideHookState(fiber, hookIndex, path, value);
+            }
+
+            result.value = serialize(value);
+            return result;
+        })()
+    `;
+
+    const result = await executeInApp(expression, false, { target });
+    if (!result.success) return result;
+
+    try {
+        const parsed = JSON.parse(result.result || "{}");
+        if (parsed.error) return { success: false, error: parsed.error };
+    } catch { /* return the raw result */ }
+
+    return result;
 }
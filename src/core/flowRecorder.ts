@@ -0,0 +1,235 @@
+import {
+    ANDROID_KEY_EVENTS,
+    AndroidAccessibilityElement,
+    FindElementOptions,
+    androidDescribeAll,
+    flattenElements,
+    findElementAtPoint,
+    filterAccessibilityElements,
+    androidTap,
+    androidSwipe,
+    androidInputText,
+    androidKeyEvent
+} from "./android.js";
+import { Flow, FlowStep, formatFlowAsYaml } from "./flows.js";
+
+// ============================================================================
+// Flow Recording
+// ============================================================================
+//
+// Actions executed from the tap verifier are recorded as flow steps while a
+// recording is active. Taps are resolved to the element under the point (via
+// the accessibility tree) before they are sent, so the exported flow finds
+// elements by resource ID or text and survives layout changes. A selector
+// that matches several elements on screen (the third "Add" button of a list)
+// gets the element's index among them; coordinates are only kept when the
+// element has nothing to identify it by.
+
+// A recorded action
+export interface RecordedAction {
+    id: number;
+    timestamp: Date;
+    step: FlowStep;
+    element?: string;                 // Element resolved at the tap point, for display
+}
+
+export interface FlowRecording {
+    name: string;
+    deviceId?: string;
+    startedAt: Date;
+    stoppedAt?: Date;
+    actions: RecordedAction[];
+}
+
+// Result of an executed (and possibly recorded) action
+export interface RecorderActionResult {
+    success: boolean;
+    result?: string;
+    recorded?: RecordedAction;
+    error?: string;
+}
+
+let recording: FlowRecording | null = null;
+let nextActionId = 1;
+
+/**
+ * Start a new recording, replacing the previous one
+ */
+export function startFlowRecording(options: { name?: string; deviceId?: string } = {}): FlowRecording {
+    recording = {
+        name: options.name || `recorded-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}`,
+        deviceId: options.deviceId,
+        startedAt: new Date(),
+        actions: []
+    };
+    return recording;
+}
+
+/**
+ * Stop recording; the recorded actions stay available for export
+ */
+export function stopFlowRecording(): FlowRecording | null {
+    if (recording && !recording.stoppedAt) {
+        recording.stoppedAt = new Date();
+    }
+    return recording;
+}
+
+/**
+ * Current (or last) recording
+ */
+export function getFlowRecording(): FlowRecording | null {
+    return recording;
+}
+
+export function isFlowRecordingActive(): boolean {
+    return recording !== null && !recording.stoppedAt;
+}
+
+/**
+ * Remove a recorded action (e.g. a mis-tap)
+ */
+export function removeRecordedAction(id: number): boolean {
+    if (!recording) return false;
+    const index = recording.actions.findIndex((action) => action.id === id);
+    if (index === -1) return false;
+    recording.actions.splice(index, 1);
+    return true;
+}
+
+function record(step: FlowStep, element?: string): RecordedAction | undefined {
+    if (!isFlowRecordingActive()) return undefined;
+    const action: RecordedAction = { id: nextActionId++, timestamp: new Date(), step, element };
+    recording!.actions.push(action);
+    return action;
+}
+
+// Tap step for an element of a (flattened) hierarchy: the first of resource ID,
+// text and content description that matches only this element, or else the
+// first one with the element's index among its matches
+function stepForElement(element: AndroidAccessibilityElement, elements: AndroidAccessibilityElement[]): FlowStep | null {
+    const selectors: FindElementOptions[] = [];
+    if (element.resourceId) {
+        // "com.example:id/login_button" -> "login_button"; React Native testIDs have no package prefix
+        selectors.push({ resourceId: element.resourceId.replace(/^.*:id\//, "") });
+    }
+    if (element.text) {
+        selectors.push({ text: element.text });
+    }
+    if (element.contentDesc) {
+        selectors.push({ contentDesc: element.contentDesc });
+    }
+    if (selectors.length === 0) {
+        return null;
+    }
+
+    for (const selector of selectors) {
+        if (filterAccessibilityElements(elements, selector).length === 1) {
+            return { tap: selector };
+        }
+    }
+    const index = filterAccessibilityElements(elements, selectors[0]).indexOf(element);
+    return index >= 0 ? { tap: { ...selectors[0], index } } : null;
+}
+
+/**
+ * Tap at device pixel coordinates; while recording, the element under the
+ * point is resolved first and recorded instead of the coordinates
+ */
+export async function recorderTap(x: number, y: number, deviceId?: string): Promise<RecorderActionResult> {
+    let step: FlowStep = { tap: { x: Math.round(x), y: Math.round(y) } };
+    let element: string | undefined;
+
+    if (isFlowRecordingActive()) {
+        // One hierarchy dump for the element under the point and for how many elements its selector matches
+        const described = await androidDescribeAll(deviceId);
+        const elements = described.success && described.elements ? flattenElements(described.elements) : [];
+        const resolved = findElementAtPoint(elements, x, y);
+        if (resolved) {
+            step = stepForElement(resolved, elements) ?? step;
+            const label = resolved.text || resolved.contentDesc;
+            element = `[${resolved.class}]${label ? ` "${label}"` : ""} tap=(${resolved.tap.x}, ${resolved.tap.y})`;
+        }
+    }
+
+    const result = await androidTap(x, y, deviceId);
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+    return { success: true, result: result.result, recorded: record(step, element) };
+}
+
+/**
+ * Swipe between device pixel coordinates
+ */
+export async function recorderSwipe(
+    swipe: { startX: number; startY: number; endX: number; endY: number; durationMs?: number },
+    deviceId?: string
+): Promise<RecorderActionResult> {
+    const { startX, startY, endX, endY, durationMs = 300 } = swipe;
+    const result = await androidSwipe(startX, startY, endX, endY, durationMs, deviceId);
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+    const step: FlowStep = {
+        swipe: { startX: Math.round(startX), startY: Math.round(startY), endX: Math.round(endX), endY: Math.round(endY), durationMs }
+    };
+    return { success: true, result: result.result, recorded: record(step) };
+}
+
+/**
+ * Type text into the focused input
+ */
+export async function recorderInputText(text: string, deviceId?: string): Promise<RecorderActionResult> {
+    const result = await androidInputText(text, deviceId);
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+    return { success: true, result: result.result, recorded: record({ inputText: text }) };
+}
+
+/**
+ * Send a key event by name (BACK, ENTER, ...)
+ */
+export async function recorderKeyEvent(key: string, deviceId?: string): Promise<RecorderActionResult> {
+    const name = key.toUpperCase();
+    if (!(name in ANDROID_KEY_EVENTS)) {
+        return { success: false, error: `Unknown key "${key}" (${Object.keys(ANDROID_KEY_EVENTS).join(", ")})` };
+    }
+    const result = await androidKeyEvent(name as keyof typeof ANDROID_KEY_EVENTS, deviceId);
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+    return { success: true, result: result.result, recorded: record({ pressKey: name }) };
+}
+
+/**
+ * Build a replayable flow from a recording. With waitForElements, each
+ * element tap is preceded by a wait for the element, so replays do not race
+ * screen transitions.
+ */
+export function recordingToFlow(source: FlowRecording, options: { waitForElements?: boolean } = {}): Flow {
+    const { waitForElements = true } = options;
+    const steps: FlowStep[] = [];
+    for (const action of source.actions) {
+        if (waitForElements && "tap" in action.step && typeof action.step.tap === "object") {
+            const { x, y, ...selector } = action.step.tap;
+            if (x === undefined && y === undefined) {
+                steps.push({ waitForElement: selector });
+            }
+        }
+        steps.push(action.step);
+    }
+    return { name: source.name, steps };
+}
+
+/**
+ * Export a recording as a flow file (YAML or JSON)
+ */
+export function exportFlowRecording(
+    source: FlowRecording,
+    options: { format?: "yaml" | "json"; waitForElements?: boolean } = {}
+): string {
+    const flow = recordingToFlow(source, options);
+    return options.format === "json" ? JSON.stringify(flow, null, 2) + "\n" : formatFlowAsYaml(flow);
+}
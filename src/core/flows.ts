@@ -0,0 +1,509 @@
+import { mkdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { AppTarget } from "./types.js";
+import { logBuffer, networkBuffer } from "./state.js";
+import { executeInApp, findComponentOnScreen } from "./executor.js";
+import { resolveTargetApp } from "./connection.js";
+import { tapComponent, formatTappedComponent } from "./tapComponent.js";
+import {
+    ANDROID_KEY_EVENTS,
+    FindElementOptions,
+    androidTap,
+    androidTapElement,
+    androidSwipe,
+    androidInputText,
+    androidKeyEvent,
+    androidFindElement,
+    androidWaitForElement,
+    androidGetScreenSize,
+    androidScreenshot
+} from "./android.js";
+
+// ============================================================================
+// UI Flows
+// ============================================================================
+//
+// A flow is a list of steps, each an object with a single action key:
+//
+//   - tap: { text: "Sign in" }
+//   - inputText: "hello@example.com"
+//   - waitForNetwork: { url: "/api/login", status: 200 }
+//   - assertVisible: "Welcome"
+//
+// Device steps use the Android helpers (adb), runtime steps the connected app.
+// Flows stop at the first failing step; a screenshot of the screen at that
+// point is saved with the report.
+
+export const FLOWS_DIR = path.join(homedir(), ".rn-ai-debugger", "flows");
+
+// Default timeout of wait steps
+const DEFAULT_WAIT_TIMEOUT_MS = 10000;
+
+// Poll interval of waitForLog / waitForNetwork
+const POLL_INTERVAL_MS = 250;
+
+// Element selector of tap / waitForElement / assertVisible (Android accessibility tree)
+interface ElementSelector extends FindElementOptions {
+    testID?: string;          // assertVisible only: resolved through the React tree
+}
+
+// Step actions and their arguments
+export interface FlowStepActions {
+    tap: string | (ElementSelector & { x?: number; y?: number });
+    tapComponent: string | { testID?: string; componentName?: string; text?: string; index?: number };
+    swipe: "up" | "down" | "left" | "right" | { startX: number; startY: number; endX: number; endY: number; durationMs?: number };
+    inputText: string;
+    pressKey: string | number;
+    wait: number;
+    waitForElement: string | (ElementSelector & { timeoutMs?: number });
+    waitForLog: string | { text: string; level?: string; timeoutMs?: number };
+    waitForNetwork: string | { url: string; method?: string; status?: number; timeoutMs?: number };
+    assertVisible: string | ElementSelector;
+    executeJs: string | { expression: string; expect?: unknown; awaitPromise?: boolean };
+    screenshot: string | null;
+}
+
+export type FlowAction = keyof FlowStepActions;
+
+export const FLOW_ACTIONS: FlowAction[] = [
+    "tap",
+    "tapComponent",
+    "swipe",
+    "inputText",
+    "pressKey",
+    "wait",
+    "waitForElement",
+    "waitForLog",
+    "waitForNetwork",
+    "assertVisible",
+    "executeJs",
+    "screenshot"
+];
+
+// A flow step: { <action>: <args> }
+export type FlowStep = { [A in FlowAction]: { [K in A]: FlowStepActions[A] } }[FlowAction];
+
+export interface Flow {
+    name?: string;
+    steps: FlowStep[];
+}
+
+// Outcome of one step
+export interface FlowStepReport {
+    index: number;            // 1-based
+    action: FlowAction;
+    description: string;      // Step as written, compact
+    status: "passed" | "failed" | "skipped";
+    durationMs: number;
+    detail?: string;          // What happened (tapped element, matched log, JS result)
+    error?: string;
+    screenshotPath?: string;
+}
+
+// Outcome of a flow
+export interface FlowReport {
+    name: string;
+    success: boolean;
+    startedAt: Date;
+    durationMs: number;
+    steps: FlowStepReport[];
+    outputDir: string;
+    failureScreenshot?: Buffer;   // JPEG of the screen when the flow failed
+}
+
+/**
+ * Parse a flow from YAML or JSON: either a list of steps or { name, steps }
+ */
+export function parseFlow(source: string): { flow?: Flow; error?: string } {
+    let parsed: unknown;
+    try {
+        const trimmed = source.trim();
+        parsed = trimmed.startsWith("{") || trimmed.startsWith("[") ? JSON.parse(trimmed) : parseYaml(trimmed);
+    } catch (error) {
+        return { error: `Invalid flow: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const container = Array.isArray(parsed) ? { steps: parsed } : (parsed as { name?: unknown; steps?: unknown } | null);
+    if (!container || !Array.isArray(container.steps)) {
+        return { error: "A flow must be a list of steps or an object with a steps list" };
+    }
+    if (container.steps.length === 0) {
+        return { error: "The flow has no steps" };
+    }
+
+    for (let i = 0; i < container.steps.length; i++) {
+        const step = container.steps[i];
+        const keys = step && typeof step === "object" && !Array.isArray(step) ? Object.keys(step) : [];
+        if (keys.length !== 1 || !FLOW_ACTIONS.includes(keys[0] as FlowAction)) {
+            return {
+                error: `Step ${i + 1} must be an object with one action (${FLOW_ACTIONS.join(", ")}), got: ${JSON.stringify(step)}`
+            };
+        }
+    }
+
+    return {
+        flow: {
+            name: typeof container.name === "string" ? container.name : undefined,
+            steps: container.steps as FlowStep[]
+        }
+    };
+}
+
+// Scalar as YAML: plain when it reads back as the same string, JSON-quoted otherwise.
+// Plain values are limited to characters that are also safe inside { }.
+function toYamlScalar(value: unknown): string {
+    if (typeof value !== "string") {
+        return JSON.stringify(value);
+    }
+    if (/^[\w/.@-][\w/.@ -]*$/.test(value) && !/\s$/.test(value)) {
+        try {
+            if (parseYaml(value) === value) return value;
+        } catch {
+            // Not valid as a plain scalar ("@home")
+        }
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Write a flow as YAML, one line per step ({ key: value } for step options)
+ */
+export function formatFlowAsYaml(flow: Flow): string {
+    const lines: string[] = [];
+    if (flow.name) {
+        lines.push(`name: ${toYamlScalar(flow.name)}`);
+    }
+    lines.push("steps:");
+    for (const step of flow.steps) {
+        const [action, args] = Object.entries(step)[0];
+        const value = args && typeof args === "object"
+            ? `{ ${Object.entries(args).map(([key, item]) => `${key}: ${toYamlScalar(item)}`).join(", ")} }`
+            : toYamlScalar(args);
+        lines.push(`  - ${action}: ${value}`);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Read and parse a flow file (.yaml, .yml or .json)
+ */
+export async function loadFlowFile(filePath: string): Promise<{ flow?: Flow; error?: string }> {
+    let source: string;
+    try {
+        source = await readFile(filePath, "utf8");
+    } catch (error) {
+        return { error: `Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    const result = parseFlow(source);
+    if (result.flow && !result.flow.name) {
+        result.flow.name = path.basename(filePath).replace(/\.(ya?ml|json)$/i, "");
+    }
+    return result;
+}
+
+function describeStep(step: FlowStep): string {
+    const [action, args] = Object.entries(step)[0];
+    const text = typeof args === "string" ? `"${args}"` : JSON.stringify(args);
+    return `${action} ${text ?? ""}`.trim();
+}
+
+// Selector from a string shorthand (text) or an object
+function toSelector(args: string | ElementSelector): ElementSelector {
+    return typeof args === "string" ? { text: args } : args;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Result of a single step: detail on success, error on failure
+type StepOutcome = { ok: true; detail?: string; screenshotPath?: string } | { ok: false; error: string };
+
+interface StepContext {
+    deviceId?: string;
+    target: AppTarget;
+    outputDir: string;
+    stepIndex: number;
+    since: Date;              // Logs and requests at or after this time satisfy wait steps
+}
+
+async function runStep(step: FlowStep, context: StepContext): Promise<StepOutcome> {
+    const { deviceId, target } = context;
+    const [action, args] = Object.entries(step)[0] as [FlowAction, unknown];
+
+    switch (action) {
+        case "tap": {
+            const options = toSelector(args as FlowStepActions["tap"]) as ElementSelector & { x?: number; y?: number };
+            if (typeof options.x === "number" && typeof options.y === "number") {
+                const result = await androidTap(options.x, options.y, deviceId);
+                return result.success ? { ok: true, detail: result.result } : { ok: false, error: result.error ?? "Tap failed" };
+            }
+            const result = await androidTapElement({ ...options, deviceId });
+            return result.success ? { ok: true, detail: result.result } : { ok: false, error: result.error ?? "Tap failed" };
+        }
+
+        case "tapComponent": {
+            const value = args as FlowStepActions["tapComponent"];
+            const options = typeof value === "string" ? { testID: value } : value;
+            const result = await tapComponent({ ...options, deviceId, platform: "android", target });
+            return result.success
+                ? { ok: true, detail: formatTappedComponent(result).split("\n")[0] }
+                : { ok: false, error: result.error ?? "Tap failed" };
+        }
+
+        case "swipe": {
+            const value = args as FlowStepActions["swipe"];
+            let swipe: { startX: number; startY: number; endX: number; endY: number; durationMs?: number };
+            if (typeof value === "string") {
+                const size = await androidGetScreenSize(deviceId);
+                if (!size.success || !size.width || !size.height) {
+                    return { ok: false, error: size.error ?? "Could not read the screen size" };
+                }
+                const { width, height } = size;
+                const swipes: Record<string, typeof swipe> = {
+                    up: { startX: width / 2, startY: height * 0.7, endX: width / 2, endY: height * 0.3 },
+                    down: { startX: width / 2, startY: height * 0.3, endX: width / 2, endY: height * 0.7 },
+                    left: { startX: width * 0.8, startY: height / 2, endX: width * 0.2, endY: height / 2 },
+                    right: { startX: width * 0.2, startY: height / 2, endX: width * 0.8, endY: height / 2 }
+                };
+                if (!swipes[value]) {
+                    return { ok: false, error: `Unknown swipe direction "${value}" (up, down, left, right)` };
+                }
+                swipe = swipes[value];
+            } else {
+                swipe = value;
+            }
+            const result = await androidSwipe(swipe.startX, swipe.startY, swipe.endX, swipe.endY, swipe.durationMs, deviceId);
+            return result.success ? { ok: true, detail: result.result } : { ok: false, error: result.error ?? "Swipe failed" };
+        }
+
+        case "inputText": {
+            const result = await androidInputText(String(args), deviceId);
+            return result.success ? { ok: true, detail: result.result } : { ok: false, error: result.error ?? "Input failed" };
+        }
+
+        case "pressKey": {
+            const key = args as FlowStepActions["pressKey"];
+            if (typeof key === "string" && !(key.toUpperCase() in ANDROID_KEY_EVENTS)) {
+                return { ok: false, error: `Unknown key "${key}" (${Object.keys(ANDROID_KEY_EVENTS).join(", ")})` };
+            }
+            const keyCode = typeof key === "string" ? (key.toUpperCase() as keyof typeof ANDROID_KEY_EVENTS) : key;
+            const result = await androidKeyEvent(keyCode, deviceId);
+            return result.success ? { ok: true, detail: result.result } : { ok: false, error: result.error ?? "Key event failed" };
+        }
+
+        case "wait": {
+            const ms = Number(args);
+            if (!Number.isFinite(ms) || ms < 0) {
+                return { ok: false, error: `wait expects milliseconds, got ${JSON.stringify(args)}` };
+            }
+            await delay(ms);
+            return { ok: true };
+        }
+
+        case "waitForElement": {
+            const value = args as FlowStepActions["waitForElement"];
+            const options = typeof value === "string" ? { text: value } : value;
+            const result = await androidWaitForElement({ timeoutMs: DEFAULT_WAIT_TIMEOUT_MS, ...options }, deviceId);
+            if (!result.success || !result.found) {
+                return { ok: false, error: result.error ?? `Element not found within ${options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS}ms` };
+            }
+            return { ok: true, detail: `Found after ${result.elapsedMs}ms` };
+        }
+
+        case "waitForLog": {
+            const value = args as FlowStepActions["waitForLog"];
+            const { text, level, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS } = typeof value === "string" ? { text: value } as { text: string; level?: string; timeoutMs?: number } : value;
+            const { appKey } = resolveTargetApp(target);
+            const needle = text.toLowerCase();
+            const deadline = Date.now() + timeoutMs;
+            for (;;) {
+                const match = logBuffer.getAll().find((entry) =>
+                    entry.timestamp >= context.since &&
+                    (!appKey || entry.appKey === appKey) &&
+                    (!level || entry.level === level) &&
+                    entry.message.toLowerCase().includes(needle)
+                );
+                if (match) {
+                    return { ok: true, detail: `[${match.level.toUpperCase()}] ${match.message.slice(0, 150)}` };
+                }
+                if (Date.now() >= deadline) {
+                    return { ok: false, error: `No log containing "${text}"${level ? ` at level ${level}` : ""} within ${timeoutMs}ms` };
+                }
+                await delay(POLL_INTERVAL_MS);
+            }
+        }
+
+        case "waitForNetwork": {
+            const value = args as FlowStepActions["waitForNetwork"];
+            const { url, method, status, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS } = typeof value === "string" ? { url: value } as { url: string; method?: string; status?: number; timeoutMs?: number } : value;
+            const appKey = resolveTargetApp(target).appKey ?? undefined;
+            const deadline = Date.now() + timeoutMs;
+            for (;;) {
+                const requests = networkBuffer.getAll({ urlPattern: url, method, appKey }).filter((request) => request.timestamp >= context.since);
+                const completed = requests.find((request) => request.completed || request.error);
+                if (completed) {
+                    if (status !== undefined && completed.status !== status) {
+                        return { ok: false, error: `${completed.method} ${completed.url} returned ${completed.error ?? completed.status}, expected ${status}` };
+                    }
+                    return { ok: true, detail: `${completed.method} ${completed.url} -> ${completed.error ?? completed.status}` };
+                }
+                if (Date.now() >= deadline) {
+                    const pending = requests.length > 0 ? " (a matching request is still pending)" : "";
+                    return { ok: false, error: `No completed request matching "${url}" within ${timeoutMs}ms${pending}` };
+                }
+                await delay(POLL_INTERVAL_MS);
+            }
+        }
+
+        case "assertVisible": {
+            const selector = toSelector(args as FlowStepActions["assertVisible"]);
+            if (selector.testID) {
+                const found = await findComponentOnScreen({ testID: selector.testID, target });
+                if (!found.success) {
+                    return { ok: false, error: found.error ?? "Lookup failed" };
+                }
+                try {
+                    const parsed = JSON.parse(found.result || "{}");
+                    if (parsed.error) {
+                        return { ok: false, error: `testID "${selector.testID}" is not visible: ${parsed.error}` };
+                    }
+                    return { ok: true, detail: `${parsed.component} at (${Math.round(parsed.frame.x)}, ${Math.round(parsed.frame.y)})` };
+                } catch {
+                    return { ok: false, error: `Unexpected response: ${found.result}` };
+                }
+            }
+            const result = await androidFindElement(selector, deviceId);
+            if (!result.success || !result.found || !result.element) {
+                return { ok: false, error: result.error ?? `Not visible: ${JSON.stringify(selector)}` };
+            }
+            const element = result.element;
+            return { ok: true, detail: `${element.text || element.contentDesc || element.resourceId || element.className} at (${element.center.x}, ${element.center.y})` };
+        }
+
+        case "executeJs": {
+            const value = args as FlowStepActions["executeJs"];
+            const { expression, expect, awaitPromise = true } = typeof value === "string" ? { expression: value } as { expression: string; expect?: unknown; awaitPromise?: boolean } : value;
+            const result = await executeInApp(expression, awaitPromise, { target });
+            if (!result.success) {
+                return { ok: false, error: result.error ?? "Execution failed" };
+            }
+            const output = result.result ?? "undefined";
+            if (expect !== undefined) {
+                // Strings are returned as-is, other values as JSON
+                let actual: unknown = output;
+                if (typeof expect !== "string") {
+                    try {
+                        actual = JSON.parse(output);
+                    } catch {
+                        // Not JSON: compared as a string
+                    }
+                }
+                if (JSON.stringify(actual) !== JSON.stringify(expect)) {
+                    return { ok: false, error: `Expected ${JSON.stringify(expect)}, got ${output.slice(0, 300)}` };
+                }
+            }
+            return { ok: true, detail: output.slice(0, 300) };
+        }
+
+        case "screenshot": {
+            const name = typeof args === "string" && args ? args.replace(/[^\w.-]+/g, "_") : `step-${context.stepIndex}`;
+            const screenshotPath = path.join(context.outputDir, `${name}.png`);
+            const result = await androidScreenshot(screenshotPath, deviceId);
+            return result.success
+                ? { ok: true, detail: `Saved ${screenshotPath}`, screenshotPath }
+                : { ok: false, error: result.error ?? "Screenshot failed" };
+        }
+    }
+}
+
+/**
+ * Run a flow step by step, stopping at the first failure. Screenshots (from
+ * screenshot steps and of the failure) are saved under FLOWS_DIR.
+ */
+export async function runFlow(
+    flow: Flow,
+    options: { deviceId?: string; target?: AppTarget; screenshotOnFailure?: boolean } = {}
+): Promise<FlowReport> {
+    const { deviceId, target = {}, screenshotOnFailure = true } = options;
+    const startedAt = new Date();
+    const name = flow.name || "flow";
+    const outputDir = path.join(FLOWS_DIR, `${name.replace(/[^\w.-]+/g, "_")}-${startedAt.toISOString().replace(/[:.]/g, "-")}`);
+    await mkdir(outputDir, { recursive: true });
+
+    const report: FlowReport = { name, success: true, startedAt, durationMs: 0, steps: [], outputDir };
+    let since = startedAt;
+
+    for (let i = 0; i < flow.steps.length; i++) {
+        const step = flow.steps[i];
+        const action = Object.keys(step)[0] as FlowAction;
+        const stepReport: FlowStepReport = {
+            index: i + 1,
+            action,
+            description: describeStep(step),
+            status: "passed",
+            durationMs: 0
+        };
+        report.steps.push(stepReport);
+
+        if (!report.success) {
+            stepReport.status = "skipped";
+            continue;
+        }
+
+        // Waits accept entries from the previous step on, so "tap" then "waitForLog" sees what the tap caused
+        const stepStart = new Date();
+        let outcome: StepOutcome;
+        try {
+            outcome = await runStep(step, { deviceId, target, outputDir, stepIndex: i + 1, since });
+        } catch (error) {
+            outcome = { ok: false, error: error instanceof Error ? error.message : String(error) };
+        }
+        since = stepStart;
+        stepReport.durationMs = Date.now() - stepStart.getTime();
+
+        if (outcome.ok) {
+            stepReport.detail = outcome.detail;
+            stepReport.screenshotPath = outcome.screenshotPath;
+            continue;
+        }
+
+        stepReport.status = "failed";
+        stepReport.error = outcome.error;
+        report.success = false;
+        if (screenshotOnFailure) {
+            const screenshotPath = path.join(outputDir, `failure-step-${i + 1}.png`);
+            const screenshot = await androidScreenshot(screenshotPath, deviceId);
+            if (screenshot.success) {
+                stepReport.screenshotPath = screenshotPath;
+                report.failureScreenshot = screenshot.data;
+            }
+        }
+    }
+
+    report.durationMs = Date.now() - startedAt.getTime();
+    return report;
+}
+
+/**
+ * Format a flow report, one line per step
+ */
+export function formatFlowReport(report: FlowReport): string {
+    const passed = report.steps.filter((step) => step.status === "passed").length;
+    const lines = [
+        `Flow "${report.name}": ${report.success ? "PASSED" : "FAILED"} (${passed}/${report.steps.length} steps, ${(report.durationMs / 1000).toFixed(1)}s)`,
+        ""
+    ];
+    const marks = { passed: "✓", failed: "✗", skipped: "-" };
+    for (const step of report.steps) {
+        const duration = step.status === "skipped" ? "" : ` (${step.durationMs}ms)`;
+        lines.push(`${marks[step.status]} ${step.index}. ${step.description}${duration}`);
+        if (step.detail) lines.push(`    ${step.detail.replace(/\n/g, " ")}`);
+        if (step.error) lines.push(`    Error: ${step.error}`);
+        if (step.screenshotPath) lines.push(`    Screenshot: ${step.screenshotPath}`);
+    }
+    lines.push("", `Output: ${report.outputDir}`);
+    return lines.join("\n");
+}
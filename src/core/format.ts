@@ -1,6 +1,10 @@
 import { encodeTONL } from "tonl";
 import { LogEntry } from "./types.js";
 import { NetworkRequest } from "./types.js";
+import { formatStackFrame, getTopFrame } from "./symbolicate.js";
+import { CpuProfileSummary } from "./profiler.js";
+import { TraceEntry } from "./trace.js";
+import { ReduxActionEntry } from "./reduxActions.js";
 
 // Output format type
 export type OutputFormat = "text" | "tonl";
@@ -23,26 +27,108 @@ export function formatLogsAsTonl(
 ): string {
     const { maxMessageLength = 500 } = options;
 
-    const data = logs.map((log) => ({
-        time: log.timestamp.toLocaleTimeString(),
-        level: log.level.toUpperCase(),
-        msg: truncateMessage(log.message, maxMessageLength)
-    }));
+    // Device column only when logs from several apps are mixed
+    const showApp = new Set(logs.map((log) => log.appKey)).size > 1;
+
+    const data = logs.map((log) => {
+        const topFrame = getTopFrame(log.stack);
+        return {
+            time: log.timestamp.toLocaleTimeString(),
+            app: showApp ? log.deviceName : undefined,
+            level: log.level.toUpperCase(),
+            msg: truncateMessage(log.message, maxMessageLength),
+            at: topFrame ? formatStackFrame(topFrame) : undefined
+        };
+    });
 
     return TONL_HINT + encodeTONL({ logs: data });
 }
 
 // Format network requests as TONL (compact list view)
 export function formatNetworkAsTonl(requests: NetworkRequest[]): string {
+    // Device column only when requests from several apps are mixed
+    const showApp = new Set(requests.map((req) => req.appKey)).size > 1;
+
     const data = requests.map((req) => ({
         id: req.requestId,
         time: req.timestamp.toLocaleTimeString(),
+        app: showApp ? req.deviceName : undefined,
         method: req.method,
         status: req.status ?? "pending",
         duration: req.timing?.duration ? `${req.timing.duration}ms` : "-",
         url: req.url,
+        mock: req.mockRuleId || undefined,
         error: req.error || undefined
     }));
 
     return TONL_HINT + encodeTONL({ requests: data });
 }
+
+// Format a CPU profile summary as TONL
+export function formatCpuProfileAsTonl(summary: CpuProfileSummary): string {
+    const data = {
+        profile: {
+            durationMs: summary.durationMs,
+            samples: summary.sampleCount,
+            idleMs: summary.idleMs,
+            gcMs: summary.gcMs,
+            sourceMapped: summary.symbolicated
+        },
+        functions: summary.topFunctions.map((fn) => ({
+            fn: fn.functionName,
+            selfMs: fn.selfMs,
+            selfPct: fn.selfPercent,
+            totalMs: fn.totalMs,
+            totalPct: fn.totalPercent,
+            at: fn.location
+        })),
+        paths: summary.hotPaths.map((hotPath) => ({
+            selfMs: hotPath.selfMs,
+            selfPct: hotPath.selfPercent,
+            path: hotPath.frames.join(" > ")
+        }))
+    };
+
+    return TONL_HINT + encodeTONL(data);
+}
+
+// Format trace entries as TONL
+export function formatTracesAsTonl(
+    traces: TraceEntry[],
+    options: { maxMessageLength?: number } = {}
+): string {
+    const { maxMessageLength = 500 } = options;
+
+    // Device column only when traces from several apps are mixed
+    const showApp = new Set(traces.map((entry) => entry.appKey)).size > 1;
+
+    const data = traces.map((entry) => ({
+        id: entry.id,
+        time: entry.timestamp.toLocaleTimeString(),
+        app: showApp ? entry.deviceName : undefined,
+        kind: entry.kind,
+        name: entry.name,
+        ms: entry.durationMs,
+        error: entry.error,
+        msg: truncateMessage(entry.message, maxMessageLength)
+    }));
+
+    return TONL_HINT + encodeTONL({ traces: data });
+}
+
+// Format Redux actions as TONL (one row per action, changed paths joined)
+export function formatReduxActionsAsTonl(actions: ReduxActionEntry[]): string {
+    const showApp = new Set(actions.map((entry) => entry.appKey)).size > 1;
+
+    const data = actions.map((entry) => ({
+        id: entry.id,
+        time: entry.timestamp.toLocaleTimeString(),
+        app: showApp ? entry.deviceName : undefined,
+        type: entry.type,
+        size: entry.payloadSize,
+        ms: entry.durationMs,
+        changed: entry.changes.slice(0, 10).map((change) => change.path).join(", ") + (entry.changes.length > 10 || entry.changesTruncated ? ", ..." : "")
+    }));
+
+    return TONL_HINT + encodeTONL({ actions: data });
+}
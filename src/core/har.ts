@@ -0,0 +1,329 @@
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import os from "os";
+import { NetworkRequest } from "./types.js";
+import { NetworkBuffer } from "./network.js";
+import { getServerVersion } from "./telemetry.js";
+import { withoutSessionRecording } from "./session.js";
+
+// ============================================================================
+// HAR 1.2 types (subset we read and write)
+// http://www.softwareishard.com/blog/har-12-spec/
+// ============================================================================
+
+interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+interface HarRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: {
+        mimeType: string;
+        text: string;
+    };
+    headersSize: number;
+    bodySize: number;
+}
+
+interface HarResponse {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: {
+        size: number;
+        mimeType: string;
+        text?: string;
+        encoding?: string;
+        comment?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+}
+
+interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: HarRequest;
+    response: HarResponse;
+    cache: Record<string, never>;
+    timings: {
+        blocked?: number;
+        dns?: number;
+        connect?: number;
+        send: number;
+        wait: number;
+        receive: number;
+        ssl?: number;
+    };
+    // Custom fields (HAR allows underscore-prefixed extensions)
+    _requestId?: string;
+    _error?: string;
+}
+
+export interface Har {
+    log: {
+        version: string;
+        creator: { name: string; version: string };
+        pages?: unknown[];
+        entries: HarEntry[];
+    };
+}
+
+// Result of HAR export/import
+export interface HarResult {
+    success: boolean;
+    path?: string;
+    count?: number;
+    skipped?: number;
+    error?: string;
+}
+
+// ============================================================================
+// Conversion helpers
+// ============================================================================
+
+function toNameValueList(headers: Record<string, string> | undefined): HarNameValue[] {
+    if (!headers) return [];
+    return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function fromNameValueList(list: HarNameValue[] | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!Array.isArray(list)) return result;
+    for (const item of list as unknown[]) {
+        // Some exporters leave null or non-object entries in these arrays
+        if (!item || typeof item !== "object") continue;
+        const { name, value } = item as Partial<HarNameValue>;
+        if (typeof name === "string") {
+            result[name] = String(value ?? "");
+        }
+    }
+    return result;
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+    try {
+        return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+        return [];
+    }
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) return undefined;
+    const lower = name.toLowerCase();
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === lower) return value;
+    }
+    return undefined;
+}
+
+// Convert a captured request into a HAR entry
+function toHarEntry(request: NetworkRequest): HarEntry {
+    const duration = request.timing?.duration ?? 0;
+
+    const entry: HarEntry = {
+        startedDateTime: request.timestamp.toISOString(),
+        time: duration,
+        request: {
+            method: request.method,
+            url: request.url,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: toNameValueList(request.headers),
+            queryString: parseQueryString(request.url),
+            headersSize: -1,
+            bodySize: request.postData ? Buffer.byteLength(request.postData) : 0
+        },
+        response: {
+            status: request.status ?? 0,
+            statusText: request.statusText ?? "",
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: toNameValueList(request.responseHeaders),
+            content: {
+                size: request.contentLength ?? -1,
+                mimeType: request.mimeType ?? ""
+            },
+            redirectURL: findHeader(request.responseHeaders, "location") ?? "",
+            headersSize: -1,
+            bodySize: request.contentLength ?? -1
+        },
+        cache: {},
+        // Only total duration is tracked, so attribute it all to waiting
+        timings: {
+            blocked: -1,
+            dns: -1,
+            connect: -1,
+            send: 0,
+            wait: duration,
+            receive: 0,
+            ssl: -1
+        },
+        _requestId: request.requestId
+    };
+
+    if (request.postData) {
+        entry.request.postData = {
+            mimeType: findHeader(request.headers, "content-type") ?? "",
+            text: request.postData
+        };
+    }
+
+    if (request.responseBody !== undefined) {
+        entry.response.content.text = request.responseBody;
+        if (request.responseBodyBase64) {
+            entry.response.content.encoding = "base64";
+        }
+        if (request.responseBodyTruncated) {
+            entry.response.content.comment = "Body truncated at capture size cap";
+        }
+    }
+
+    if (request.error) {
+        entry._error = request.error;
+    }
+
+    return entry;
+}
+
+// Convert a HAR entry back into a NetworkRequest
+function fromHarEntry(entry: HarEntry, fallbackId: string): NetworkRequest | null {
+    if (!entry?.request?.url || !entry.request.method) {
+        return null;
+    }
+
+    const timestamp = new Date(entry.startedDateTime);
+    const response = entry.response;
+    const content = response?.content;
+    const status = response && response.status > 0 ? response.status : undefined;
+
+    const request: NetworkRequest = {
+        requestId: entry._requestId || fallbackId,
+        timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        method: entry.request.method,
+        url: entry.request.url,
+        headers: fromNameValueList(entry.request.headers),
+        postData: entry.request.postData?.text,
+        status,
+        statusText: response?.statusText || undefined,
+        responseHeaders: response ? fromNameValueList(response.headers) : undefined,
+        mimeType: content?.mimeType || undefined,
+        contentLength: content && content.size >= 0 ? content.size : undefined,
+        timing: {
+            duration: typeof entry.time === "number" && entry.time >= 0 ? Math.round(entry.time) : undefined
+        },
+        error: entry._error,
+        completed: true
+    };
+
+    if (content?.text !== undefined) {
+        request.responseBody = content.text;
+        request.responseBodyBase64 = content.encoding === "base64";
+    }
+
+    return request;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a HAR 1.2 document from captured requests
+ */
+export function buildHar(requests: NetworkRequest[]): Har {
+    return {
+        log: {
+            version: "1.2",
+            creator: {
+                name: "react-native-ai-debugger",
+                version: getServerVersion()
+            },
+            pages: [],
+            entries: requests.map(toHarEntry)
+        }
+    };
+}
+
+/**
+ * Export the network buffer to a HAR file
+ */
+export async function exportNetworkHar(
+    networkBuffer: NetworkBuffer,
+    options: { outputPath?: string; urlPattern?: string } = {}
+): Promise<HarResult> {
+    try {
+        const requests = networkBuffer.getAll({ urlPattern: options.urlPattern });
+        const har = buildHar(requests);
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const finalOutputPath = options.outputPath || path.join(os.tmpdir(), `rn-network-${timestamp}.har`);
+
+        await writeFile(finalOutputPath, JSON.stringify(har, null, 2), "utf-8");
+
+        return {
+            success: true,
+            path: finalOutputPath,
+            count: requests.length
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to export HAR: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
+
+/**
+ * Load a HAR file into the network buffer so existing network tools can query it
+ */
+export async function importNetworkHar(
+    networkBuffer: NetworkBuffer,
+    filePath: string,
+    options: { clearExisting?: boolean } = {}
+): Promise<HarResult> {
+    let har: Har;
+    try {
+        har = JSON.parse(await readFile(filePath, "utf-8")) as Har;
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to read HAR file: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+
+    if (!har?.log || !Array.isArray(har.log.entries)) {
+        return { success: false, error: "Invalid HAR file: missing log.entries" };
+    }
+
+    if (options.clearExisting) {
+        networkBuffer.clear();
+    }
+
+    // Imported traffic is not the app's: keep it out of a session being recorded
+    let count = 0;
+    let skipped = 0;
+    withoutSessionRecording(() => {
+        har.log.entries.forEach((entry, index) => {
+            const request = fromHarEntry(entry, `har-${index + 1}`);
+            if (request) {
+                networkBuffer.set(request.requestId, request);
+                count++;
+            } else {
+                skipped++;
+            }
+        });
+    });
+
+    return { success: true, path: filePath, count, skipped };
+}
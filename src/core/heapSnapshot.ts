@@ -0,0 +1,634 @@
+import { createWriteStream } from "fs";
+import { mkdir, readdir, readFile, stat } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { AppTarget } from "./types.js";
+import { addCDPEventListener, resolveTargetApp, sendCDPCommand } from "./connection.js";
+
+// ============================================================================
+// Heap Snapshots
+// ============================================================================
+//
+// Captures heap snapshots via HeapProfiler.takeHeapSnapshot. The runtime sends
+// the snapshot as HeapProfiler.addHeapSnapshotChunk events before answering the
+// command; chunks are streamed straight to a .heapsnapshot file (loadable in
+// Chrome DevTools > Memory). Summaries group objects by constructor and use a
+// dominator tree for retained sizes; diffs use the stable node ids to find
+// objects allocated between two snapshots.
+
+export const HEAP_SNAPSHOTS_DIR = path.join(homedir(), ".rn-ai-debugger", "heap");
+
+// Large apps can take a while to serialize their heap
+const HEAP_SNAPSHOT_TIMEOUT_MS = 300000;
+
+// Raw .heapsnapshot JSON (only the parts used here)
+interface HeapSnapshotJson {
+    snapshot: {
+        meta: {
+            node_fields: string[];
+            node_types: Array<string[] | string>;
+            edge_fields: string[];
+            edge_types: Array<string[] | string>;
+        };
+    };
+    nodes: number[];
+    edges: number[];
+    strings: string[];
+}
+
+// Objects grouped by constructor
+export interface HeapConstructorStats {
+    name: string;
+    count: number;
+    selfSize: number;
+    retainedSize: number;
+}
+
+// Snapshot summary
+export interface HeapSnapshotSummary {
+    nodeCount: number;
+    totalSize: number;
+    unreachableCount: number;
+    constructors: HeapConstructorStats[];   // Sorted by retained size
+}
+
+// Per-constructor change between two snapshots
+export interface HeapConstructorDiff {
+    name: string;
+    countDelta: number;
+    selfSizeDelta: number;
+    retainedSizeDelta: number;
+    added: number;          // Objects allocated after the baseline (by node id)
+    addedSize: number;
+    removed: number;        // Baseline objects that were collected
+    removedSize: number;
+}
+
+// Diff between two snapshots
+export interface HeapSnapshotDiff {
+    baseline: string;
+    current: string;
+    nodeCountDelta: number;
+    totalSizeDelta: number;
+    constructors: HeapConstructorDiff[];    // Sorted by growth in retained size, then self size
+}
+
+// Saved snapshot (list_heap_snapshots)
+export interface HeapSnapshotInfo {
+    id: string;
+    path: string;
+    createdAt: Date;
+    sizeBytes: number;
+}
+
+// Result of snapshot operations
+export interface HeapSnapshotResult {
+    success: boolean;
+    id?: string;
+    path?: string;
+    sizeBytes?: number;
+    summary?: HeapSnapshotSummary;
+    diff?: HeapSnapshotDiff;
+    error?: string;
+}
+
+// Parsed graph with everything needed for summaries and diffs
+interface HeapGraph {
+    nodeCount: number;
+    ids: Float64Array;
+    selfSizes: Float64Array;
+    classIndex: Uint32Array;        // Index into classNames
+    classNames: string[];
+    retainedSizes: Float64Array;
+    reachable: Uint8Array;
+    classRetained: Float64Array;    // Retained size per class, counting nested instances once
+}
+
+/**
+ * Take a heap snapshot of the target app and stream it to disk
+ */
+export async function takeHeapSnapshot(
+    target: AppTarget = {},
+    options: { label?: string; collectGarbage?: boolean; topN?: number } = {}
+): Promise<HeapSnapshotResult> {
+    const { app, appKey, error } = resolveTargetApp(target);
+    if (!app || !appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const { label, collectGarbage = true, topN = 20 } = options;
+
+    const enabled = await sendCDPCommand(app, "HeapProfiler.enable");
+    if (!enabled.success) {
+        return { success: false, error: `HeapProfiler.enable failed: ${enabled.error}` };
+    }
+
+    if (collectGarbage) {
+        // Drop garbage first so the snapshot only shows live objects
+        await sendCDPCommand(app, "HeapProfiler.collectGarbage", {}, 30000);
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const suffix = label ? `-${label.replace(/[^a-zA-Z0-9_-]/g, "_")}` : "";
+    const id = `heap-${timestamp}${suffix}`;
+    const filePath = path.join(HEAP_SNAPSHOTS_DIR, `${id}.heapsnapshot`);
+
+    try {
+        await mkdir(HEAP_SNAPSHOTS_DIR, { recursive: true });
+    } catch (err) {
+        return { success: false, error: `Failed to create ${HEAP_SNAPSHOTS_DIR}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+
+    const stream = createWriteStream(filePath, { encoding: "utf8" });
+    let writeError: Error | null = null;
+    stream.on("error", (err) => {
+        writeError = err;
+    });
+
+    const unsubscribe = addCDPEventListener("HeapProfiler.addHeapSnapshotChunk", (params, eventAppKey) => {
+        if (eventAppKey === appKey && typeof params.chunk === "string") {
+            stream.write(params.chunk);
+        }
+    });
+
+    const taken = await sendCDPCommand(app, "HeapProfiler.takeHeapSnapshot", { reportProgress: false }, HEAP_SNAPSHOT_TIMEOUT_MS);
+    unsubscribe();
+    await new Promise<void>((resolve) => stream.end(resolve));
+
+    if (!taken.success) {
+        return { success: false, error: `HeapProfiler.takeHeapSnapshot failed: ${taken.error}` };
+    }
+    if (writeError) {
+        return { success: false, error: `Failed to write snapshot: ${(writeError as Error).message}` };
+    }
+
+    const sizeBytes = (await stat(filePath)).size;
+    if (sizeBytes === 0) {
+        return { success: false, error: "The runtime sent an empty heap snapshot." };
+    }
+
+    try {
+        const graph = buildHeapGraph(await readSnapshotFile(filePath));
+        return { success: true, id, path: filePath, sizeBytes, summary: summarizeHeapGraph(graph, topN) };
+    } catch (err) {
+        return {
+            success: false,
+            id,
+            path: filePath,
+            error: `Snapshot saved but could not be analyzed: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
+
+/**
+ * List saved heap snapshots, newest first
+ */
+export async function listHeapSnapshots(): Promise<HeapSnapshotInfo[]> {
+    let files: string[];
+    try {
+        files = await readdir(HEAP_SNAPSHOTS_DIR);
+    } catch {
+        return [];
+    }
+
+    const snapshots: HeapSnapshotInfo[] = [];
+    for (const file of files.filter((name) => name.endsWith(".heapsnapshot"))) {
+        const filePath = path.join(HEAP_SNAPSHOTS_DIR, file);
+        try {
+            const info = await stat(filePath);
+            snapshots.push({
+                id: file.replace(/\.heapsnapshot$/, ""),
+                path: filePath,
+                createdAt: info.mtime,
+                sizeBytes: info.size
+            });
+        } catch {
+            // File removed while listing
+        }
+    }
+
+    return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// Resolve a snapshot id (or path) to a file path
+function resolveSnapshotPath(idOrPath: string): string {
+    if (idOrPath.endsWith(".heapsnapshot")) {
+        return idOrPath;
+    }
+    return path.join(HEAP_SNAPSHOTS_DIR, `${idOrPath}.heapsnapshot`);
+}
+
+async function readSnapshotFile(filePath: string): Promise<HeapSnapshotJson> {
+    const data = JSON.parse(await readFile(filePath, "utf8")) as HeapSnapshotJson;
+    if (!data.snapshot?.meta || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+        throw new Error("Not a heap snapshot file");
+    }
+    return data;
+}
+
+/**
+ * Summarize a saved snapshot
+ */
+export async function summarizeHeapSnapshot(idOrPath: string, topN: number = 20): Promise<HeapSnapshotResult> {
+    const filePath = resolveSnapshotPath(idOrPath);
+    try {
+        const graph = buildHeapGraph(await readSnapshotFile(filePath));
+        return { success: true, path: filePath, summary: summarizeHeapGraph(graph, topN) };
+    } catch (err) {
+        return { success: false, path: filePath, error: `Failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+}
+
+/**
+ * Compare two saved snapshots. Objects are matched by heap node id, which is
+ * stable across snapshots of the same JS runtime (not across reloads).
+ */
+export async function compareHeapSnapshots(
+    baseline: string,
+    current: string,
+    topN: number = 20
+): Promise<HeapSnapshotResult> {
+    const baselinePath = resolveSnapshotPath(baseline);
+    const currentPath = resolveSnapshotPath(current);
+
+    // Parse one snapshot at a time to keep memory bounded
+    let before: HeapGraph;
+    let after: HeapGraph;
+    try {
+        before = buildHeapGraph(await readSnapshotFile(baselinePath));
+    } catch (err) {
+        return { success: false, error: `Failed to read ${baselinePath}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+    try {
+        after = buildHeapGraph(await readSnapshotFile(currentPath));
+    } catch (err) {
+        return { success: false, error: `Failed to read ${currentPath}: ${err instanceof Error ? err.message : String(err)}` };
+    }
+
+    return { success: true, diff: diffHeapGraphs(before, after, baseline, current, topN) };
+}
+
+// Constructor name shown for a node, following Chrome DevTools' grouping
+function nodeClassName(type: string, name: string): string {
+    switch (type) {
+        case "object":
+        case "native":
+            return name || `(${type})`;
+        case "hidden":
+            return "(system)";
+        case "code":
+            return "(compiled code)";
+        default:
+            return `(${type})`;
+    }
+}
+
+/**
+ * Build the object graph and compute retained sizes from the dominator tree
+ * (Cooper, Harvey & Kennedy, "A Simple, Fast Dominance Algorithm").
+ */
+function buildHeapGraph(data: HeapSnapshotJson): HeapGraph {
+    const meta = data.snapshot.meta;
+    const nodeFieldCount = meta.node_fields.length;
+    const typeOffset = meta.node_fields.indexOf("type");
+    const nameOffset = meta.node_fields.indexOf("name");
+    const idOffset = meta.node_fields.indexOf("id");
+    const sizeOffset = meta.node_fields.indexOf("self_size");
+    const edgeCountOffset = meta.node_fields.indexOf("edge_count");
+    const edgeFieldCount = meta.edge_fields.length;
+    const edgeTypeOffset = meta.edge_fields.indexOf("type");
+    const toNodeOffset = meta.edge_fields.indexOf("to_node");
+    if ([typeOffset, nameOffset, idOffset, sizeOffset, edgeCountOffset, edgeTypeOffset, toNodeOffset].includes(-1)) {
+        throw new Error("Unsupported heap snapshot format");
+    }
+
+    const nodeTypes = meta.node_types[typeOffset] as string[];
+    const edgeTypes = meta.edge_types[edgeTypeOffset] as string[];
+    const weakEdgeType = edgeTypes.indexOf("weak");
+    const { nodes, edges, strings } = data;
+    const nodeCount = nodes.length / nodeFieldCount;
+
+    // Node attributes and class grouping
+    const ids = new Float64Array(nodeCount);
+    const selfSizes = new Float64Array(nodeCount);
+    const classIndex = new Uint32Array(nodeCount);
+    const classNames: string[] = [];
+    const classLookup: Map<string, number> = new Map();
+    const firstEdge = new Uint32Array(nodeCount + 1);
+    for (let i = 0, edgeIndex = 0; i < nodeCount; i++) {
+        const base = i * nodeFieldCount;
+        ids[i] = nodes[base + idOffset];
+        selfSizes[i] = nodes[base + sizeOffset];
+        const className = nodeClassName(nodeTypes[nodes[base + typeOffset]] ?? "", strings[nodes[base + nameOffset]] ?? "");
+        let index = classLookup.get(className);
+        if (index === undefined) {
+            index = classNames.length;
+            classNames.push(className);
+            classLookup.set(className, index);
+        }
+        classIndex[i] = index;
+        firstEdge[i] = edgeIndex;
+        edgeIndex += nodes[base + edgeCountOffset] * edgeFieldCount;
+        firstEdge[i + 1] = edgeIndex;
+    }
+
+    const isStrongEdge = (edge: number) => edges[edge + edgeTypeOffset] !== weakEdgeType;
+    const edgeTarget = (edge: number) => edges[edge + toNodeOffset] / nodeFieldCount;
+
+    // Post-order DFS from the root (node 0) over strong edges
+    const postOrder = new Uint32Array(nodeCount);     // node -> post-order number
+    const nodeAtPost = new Uint32Array(nodeCount);    // post-order number -> node
+    const reachable = new Uint8Array(nodeCount);
+    const stackNodes = new Uint32Array(nodeCount);
+    const stackEdges = new Uint32Array(nodeCount);
+    let reachableCount = 0;
+    if (nodeCount > 0) {
+        let top = 0;
+        stackNodes[0] = 0;
+        stackEdges[0] = firstEdge[0];
+        reachable[0] = 1;
+        while (top >= 0) {
+            const node = stackNodes[top];
+            const edge = stackEdges[top];
+            if (edge < firstEdge[node + 1]) {
+                stackEdges[top] = edge + edgeFieldCount;
+                if (!isStrongEdge(edge)) continue;
+                const child = edgeTarget(edge);
+                if (!reachable[child]) {
+                    reachable[child] = 1;
+                    top++;
+                    stackNodes[top] = child;
+                    stackEdges[top] = firstEdge[child];
+                }
+            } else {
+                postOrder[node] = reachableCount;
+                nodeAtPost[reachableCount] = node;
+                reachableCount++;
+                top--;
+            }
+        }
+    }
+
+    // Predecessors of reachable nodes (CSR, indexed by post-order number)
+    const predecessorStart = new Uint32Array(reachableCount + 1);
+    for (let node = 0; node < nodeCount; node++) {
+        if (!reachable[node]) continue;
+        for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += edgeFieldCount) {
+            if (isStrongEdge(edge)) predecessorStart[postOrder[edgeTarget(edge)] + 1]++;
+        }
+    }
+    for (let i = 0; i < reachableCount; i++) predecessorStart[i + 1] += predecessorStart[i];
+    const predecessors = new Uint32Array(predecessorStart[reachableCount]);
+    const fill = predecessorStart.slice(0, reachableCount);
+    for (let node = 0; node < nodeCount; node++) {
+        if (!reachable[node]) continue;
+        for (let edge = firstEdge[node]; edge < firstEdge[node + 1]; edge += edgeFieldCount) {
+            if (isStrongEdge(edge)) predecessors[fill[postOrder[edgeTarget(edge)]]++] = postOrder[node];
+        }
+    }
+
+    // Iterate dominators in reverse post-order until stable (root has the highest number)
+    const UNDEFINED = 0xffffffff;
+    const dominators = new Uint32Array(reachableCount).fill(UNDEFINED);
+    const root = reachableCount - 1;
+    if (reachableCount > 0) dominators[root] = root;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let b = root - 1; b >= 0; b--) {
+            let newDominator = UNDEFINED;
+            for (let p = predecessorStart[b]; p < predecessorStart[b + 1]; p++) {
+                let pred = predecessors[p];
+                if (dominators[pred] === UNDEFINED) continue;
+                if (newDominator === UNDEFINED) {
+                    newDominator = pred;
+                    continue;
+                }
+                let other = newDominator;
+                while (pred !== other) {
+                    while (pred < other) pred = dominators[pred];
+                    while (other < pred) other = dominators[other];
+                }
+                newDominator = pred;
+            }
+            if (newDominator !== UNDEFINED && dominators[b] !== newDominator) {
+                dominators[b] = newDominator;
+                changed = true;
+            }
+        }
+    }
+
+    // Retained size: a dominator always has a higher post-order number than the nodes it dominates
+    const retainedSizes = new Float64Array(nodeCount);
+    for (let i = 0; i < nodeCount; i++) retainedSizes[i] = selfSizes[i];
+    for (let b = 0; b < root; b++) {
+        if (dominators[b] === UNDEFINED) continue;
+        retainedSizes[nodeAtPost[dominators[b]]] += retainedSizes[nodeAtPost[b]];
+    }
+
+    // Retained size per class: walk the dominator tree and only count the
+    // outermost instance of a class, so nested instances are not counted twice
+    const childStart = new Uint32Array(reachableCount + 1);
+    for (let b = 0; b < root; b++) {
+        if (dominators[b] !== UNDEFINED) childStart[dominators[b] + 1]++;
+    }
+    for (let i = 0; i < reachableCount; i++) childStart[i + 1] += childStart[i];
+    const children = new Uint32Array(childStart[reachableCount]);
+    const childFill = childStart.slice(0, reachableCount);
+    for (let b = 0; b < root; b++) {
+        if (dominators[b] !== UNDEFINED) children[childFill[dominators[b]]++] = b;
+    }
+
+    const classRetained = new Float64Array(classNames.length);
+    const classDepth = new Uint32Array(classNames.length);
+    if (reachableCount > 0) {
+        const walkNodes = new Uint32Array(reachableCount);
+        const walkChild = new Uint32Array(reachableCount);
+        let top = 0;
+        walkNodes[0] = root;
+        walkChild[0] = childStart[root];
+        classDepth[classIndex[nodeAtPost[root]]]++;
+        while (top >= 0) {
+            const b = walkNodes[top];
+            if (walkChild[top] < childStart[b + 1]) {
+                const child = children[walkChild[top]++];
+                const node = nodeAtPost[child];
+                const cls = classIndex[node];
+                if (classDepth[cls] === 0) classRetained[cls] += retainedSizes[node];
+                classDepth[cls]++;
+                top++;
+                walkNodes[top] = child;
+                walkChild[top] = childStart[child];
+            } else {
+                classDepth[classIndex[nodeAtPost[b]]]--;
+                top--;
+            }
+        }
+    }
+
+    return { nodeCount, ids, selfSizes, classIndex, classNames, retainedSizes, reachable, classRetained };
+}
+
+// Per-class counts and sizes of reachable objects (root excluded)
+function classStats(graph: HeapGraph): Map<string, HeapConstructorStats> {
+    const stats: Map<string, HeapConstructorStats> = new Map();
+    for (let node = 1; node < graph.nodeCount; node++) {
+        if (!graph.reachable[node]) continue;
+        const cls = graph.classIndex[node];
+        const name = graph.classNames[cls];
+        const entry = stats.get(name) ?? { name, count: 0, selfSize: 0, retainedSize: graph.classRetained[cls] };
+        entry.count++;
+        entry.selfSize += graph.selfSizes[node];
+        stats.set(name, entry);
+    }
+    return stats;
+}
+
+function summarizeHeapGraph(graph: HeapGraph, topN: number): HeapSnapshotSummary {
+    const stats = classStats(graph);
+    let nodeCount = 0;
+    let totalSize = 0;
+    for (const entry of stats.values()) {
+        nodeCount += entry.count;
+        totalSize += entry.selfSize;
+    }
+
+    return {
+        nodeCount,
+        totalSize,
+        unreachableCount: graph.nodeCount - 1 - nodeCount,
+        constructors: Array.from(stats.values())
+            .sort((a, b) => b.retainedSize - a.retainedSize)
+            .slice(0, topN)
+    };
+}
+
+function diffHeapGraphs(
+    before: HeapGraph,
+    after: HeapGraph,
+    baseline: string,
+    current: string,
+    topN: number
+): HeapSnapshotDiff {
+    const beforeStats = classStats(before);
+    const afterStats = classStats(after);
+
+    const beforeIds: Set<number> = new Set();
+    for (let node = 1; node < before.nodeCount; node++) {
+        if (before.reachable[node]) beforeIds.add(before.ids[node]);
+    }
+    const afterIds: Set<number> = new Set();
+    for (let node = 1; node < after.nodeCount; node++) {
+        if (after.reachable[node]) afterIds.add(after.ids[node]);
+    }
+
+    const diffs: Map<string, HeapConstructorDiff> = new Map();
+    const entry = (name: string): HeapConstructorDiff => {
+        let diff = diffs.get(name);
+        if (!diff) {
+            const b = beforeStats.get(name);
+            const a = afterStats.get(name);
+            diff = {
+                name,
+                countDelta: (a?.count ?? 0) - (b?.count ?? 0),
+                selfSizeDelta: (a?.selfSize ?? 0) - (b?.selfSize ?? 0),
+                retainedSizeDelta: (a?.retainedSize ?? 0) - (b?.retainedSize ?? 0),
+                added: 0,
+                addedSize: 0,
+                removed: 0,
+                removedSize: 0
+            };
+            diffs.set(name, diff);
+        }
+        return diff;
+    };
+
+    for (let node = 1; node < after.nodeCount; node++) {
+        if (after.reachable[node] && !beforeIds.has(after.ids[node])) {
+            const diff = entry(after.classNames[after.classIndex[node]]);
+            diff.added++;
+            diff.addedSize += after.selfSizes[node];
+        }
+    }
+    for (let node = 1; node < before.nodeCount; node++) {
+        if (before.reachable[node] && !afterIds.has(before.ids[node])) {
+            const diff = entry(before.classNames[before.classIndex[node]]);
+            diff.removed++;
+            diff.removedSize += before.selfSizes[node];
+        }
+    }
+    for (const name of new Set([...beforeStats.keys(), ...afterStats.keys()])) {
+        entry(name);
+    }
+
+    let beforeCount = 0, beforeSize = 0, afterCount = 0, afterSize = 0;
+    for (const stats of beforeStats.values()) {
+        beforeCount += stats.count;
+        beforeSize += stats.selfSize;
+    }
+    for (const stats of afterStats.values()) {
+        afterCount += stats.count;
+        afterSize += stats.selfSize;
+    }
+
+    return {
+        baseline,
+        current,
+        nodeCountDelta: afterCount - beforeCount,
+        totalSizeDelta: afterSize - beforeSize,
+        constructors: Array.from(diffs.values())
+            .filter((diff) => diff.countDelta !== 0 || diff.selfSizeDelta !== 0 || diff.retainedSizeDelta !== 0 || diff.added > 0 || diff.removed > 0)
+            .sort((a, b) => b.retainedSizeDelta - a.retainedSizeDelta || b.selfSizeDelta - a.selfSizeDelta || b.added - a.added)
+            .slice(0, topN)
+    };
+}
+
+// Human-readable byte size
+export function formatBytes(bytes: number): string {
+    const sign = bytes < 0 ? "-" : "";
+    const value = Math.abs(bytes);
+    if (value < 1024) return `${sign}${value} B`;
+    if (value < 1024 * 1024) return `${sign}${(value / 1024).toFixed(1)} KB`;
+    return `${sign}${(value / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a snapshot summary for text output
+ */
+export function formatHeapSnapshotSummary(summary: HeapSnapshotSummary): string {
+    const lines: string[] = [];
+    lines.push(`Objects: ${summary.nodeCount} (${formatBytes(summary.totalSize)})`);
+    if (summary.unreachableCount > 0) {
+        lines.push(`Unreachable (excluded): ${summary.unreachableCount}`);
+    }
+    lines.push("", "Top constructors by retained size:");
+    summary.constructors.forEach((stats, index) => {
+        lines.push(
+            `${index + 1}. ${stats.name} - ${stats.count} objects, self ${formatBytes(stats.selfSize)}, retained ${formatBytes(stats.retainedSize)}`
+        );
+    });
+    return lines.join("\n");
+}
+
+/**
+ * Format a snapshot diff for text output
+ */
+export function formatHeapSnapshotDiff(diff: HeapSnapshotDiff): string {
+    const sign = (value: number) => (value > 0 ? `+${value}` : String(value));
+    const signBytes = (value: number) => (value > 0 ? `+${formatBytes(value)}` : formatBytes(value));
+
+    const lines: string[] = [];
+    lines.push(`Baseline: ${diff.baseline}`);
+    lines.push(`Current: ${diff.current}`);
+    lines.push(`Objects: ${sign(diff.nodeCountDelta)} (${signBytes(diff.totalSizeDelta)})`);
+    lines.push("", "Constructors by retained size growth:");
+    if (diff.constructors.length === 0) {
+        lines.push("  (no changes)");
+    }
+    diff.constructors.forEach((change, index) => {
+        lines.push(
+            `${index + 1}. ${change.name} - count ${sign(change.countDelta)}, self ${signBytes(change.selfSizeDelta)}, retained ${signBytes(change.retainedSizeDelta)} (new ${change.added}, freed ${change.removed})`
+        );
+    });
+    return lines.join("\n");
+}
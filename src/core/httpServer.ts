@@ -1,10 +1,15 @@
 import { createServer, IncomingMessage, ServerResponse, Server } from "http";
-import { logBuffer, networkBuffer, bundleErrorBuffer, connectedApps } from "./state.js";
+import { logBuffer, networkBuffer, bundleErrorBuffer, exceptionBuffer, traceBuffer, reduxActionBuffer, routeChangeBuffer, testReportBuffer, nativeLogBuffer, connectedApps, getSelectedAppKey } from "./state.js";
+import { formatStateChange, getReduxActions } from "./reduxActions.js";
+import { getScreenVisits } from "./navigationTimeline.js";
+import { renderTestReport } from "./testReport.js";
+import { NativeLogPriority, NATIVE_LOG_PRIORITIES, REACT_NATIVE_JS_TAG } from "./logcat.js";
+import { getNativeLogs, getNativeLogStreams } from "./nativeLogs.js";
+import { listStorages, getStorageItem, setStorageItem, removeStorageItem, exportStorage } from "./storage.js";
 import {
     listAndroidDevices,
     androidScreenshot,
-    androidGetScreenSize,
-    androidTap
+    androidGetScreenSize
 } from "./android.js";
 import {
     listIOSSimulators,
@@ -12,6 +17,20 @@ import {
     iosTap
 } from "./ios.js";
 import { recognizeText, inferIOSDevicePixelRatio } from "./ocr.js";
+import {
+    startFlowRecording,
+    stopFlowRecording,
+    getFlowRecording,
+    removeRecordedAction,
+    recorderTap,
+    recorderSwipe,
+    recorderInputText,
+    recorderKeyEvent,
+    exportFlowRecording
+} from "./flowRecorder.js";
+import { buildHar } from "./har.js";
+import { compileLogQuery } from "./logQuery.js";
+import { LogLevel } from "./types.js";
 import {
     getAllConnectionStates,
     getContextHealth
@@ -124,6 +143,8 @@ function htmlTemplate(title: string, content: string, refreshInterval = 3000): s
         .log-entry.warn { color: #d29922; background: #d299221a; }
         .log-entry.error { color: #f85149; background: #f851491a; }
         .log-entry.debug { color: #8b949e; }
+        .log-stack { display: block; color: #8b949e; font-size: 12px; margin-top: 4px; }
+        .log-stack .frame-file { color: #58a6ff; }
         .log-time { color: #6e7681; margin-right: 12px; }
         .log-level {
             display: inline-block;
@@ -164,6 +185,7 @@ function htmlTemplate(title: string, content: string, refreshInterval = 3000): s
         .status.s3xx { color: #58a6ff; }
         .status.s4xx { color: #d29922; }
         .status.s5xx { color: #f85149; }
+        .mock-badge { font-size: 10px; font-weight: 600; color: #d29922; border: 1px solid #d29922; border-radius: 4px; padding: 0 4px; margin-right: 6px; }
         .url { color: #c9d1d9; word-break: break-all; font-family: monospace; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
         .duration { color: #8b949e; text-align: right; }
         .expand-icon { color: #6e7681; text-align: center; transition: transform 0.2s; }
@@ -218,10 +240,13 @@ function htmlTemplate(title: string, content: string, refreshInterval = 3000): s
         <a href="/logs" ${title === 'Logs' ? 'class="active"' : ''}>Logs</a>
         <a href="/network" ${title === 'Network' ? 'class="active"' : ''}>Network</a>
         <a href="/bundle-errors" ${title === 'Bundle Errors' ? 'class="active"' : ''}>Errors</a>
+        <a href="/exceptions" ${title === 'Exceptions' ? 'class="active"' : ''}>Exceptions</a>
+        <a href="/redux" ${title === 'Redux' ? 'class="active"' : ''}>Redux</a>
         <a href="/apps" ${title === 'Apps' ? 'class="active"' : ''}>Apps</a>
         <a href="/repl" ${title === 'REPL' ? 'class="active"' : ''}>REPL</a>
         <a href="/component-tree" ${title === 'Component Tree' ? 'class="active"' : ''}>Components</a>
         <a href="/globals" ${title === 'Globals' ? 'class="active"' : ''}>Globals</a>
+        <a href="/storage" ${title === 'Storage' ? 'class="active"' : ''}>Storage</a>
         <a href="/tap-verifier" ${title === 'Tap Verifier' ? 'class="active"' : ''}>Tap Verifier</a>
     </nav>
     <div id="content">${content}</div>
@@ -285,6 +310,7 @@ function renderDashboard(): string {
     const logs = logBuffer.size;
     const network = networkBuffer.size;
     const errors = bundleErrorBuffer.get().length;
+    const exceptions = exceptionBuffer.size;
     const apps = connectedApps.size;
     const status = bundleErrorBuffer.getStatus();
 
@@ -303,6 +329,10 @@ function renderDashboard(): string {
                 <div class="stat-value">${errors}</div>
                 <div class="stat-label">Bundle Errors</div>
             </div>
+            <div class="stat">
+                <div class="stat-value">${exceptions}</div>
+                <div class="stat-label">Exceptions</div>
+            </div>
             <div class="stat">
                 <div class="stat-value">${apps}</div>
                 <div class="stat-label">Connected Apps</div>
@@ -323,10 +353,17 @@ function renderLogs(): string {
     const logsHtml = logs.map(log => {
         const time = formatTime(log.timestamp);
         const message = escapeHtml(log.message);
+        const stack = log.stack
+            ? `<span class="log-stack">${log.stack
+                .filter(frame => !frame.collapse)
+                .slice(0, 8)
+                .map(frame => `    at ${escapeHtml(frame.functionName)} <span class="frame-file">${escapeHtml(frame.file)}:${frame.lineNumber}:${frame.column}</span>`)
+                .join('\n')}</span>`
+            : '';
         return `<div class="log-entry ${log.level}">
             <span class="log-time">${time}</span>
             <span class="log-level">${log.level}</span>
-            ${message}
+            ${message}${stack}
         </div>`;
     }).join('');
 
@@ -473,6 +510,35 @@ function renderNetwork(): string {
             `);
         }
 
+        // Response Body
+        if (req.responseBody !== undefined) {
+            let formattedBody = escapeHtml(req.responseBody);
+            if (!req.responseBodyBase64) {
+                try {
+                    const parsed = JSON.parse(req.responseBody);
+                    formattedBody = `<code class="language-json">${escapeHtml(JSON.stringify(parsed, null, 2))}</code>`;
+                } catch {
+                    // Not JSON (or truncated), use as-is
+                }
+            }
+            const notes = [];
+            if (req.responseBodyBase64) notes.push('base64');
+            if (req.responseBodyTruncated) notes.push('truncated');
+            details.push(`
+                <div class="detail-section">
+                    <div class="detail-label">Response Body${notes.length > 0 ? ` (${notes.join(', ')})` : ''}</div>
+                    <pre style="margin: 0; padding: 8px; font-size: 11px; max-height: 400px; overflow: auto;">${formattedBody}</pre>
+                </div>
+            `);
+        } else if (req.responseBodySkipped) {
+            details.push(`
+                <div class="detail-section">
+                    <div class="detail-label">Response Body</div>
+                    <div class="detail-value" style="color: #6e7681;">Not captured: ${escapeHtml(req.responseBodySkipped)}</div>
+                </div>
+            `);
+        }
+
         // Response info
         if (req.mimeType || req.contentLength) {
             const info = [];
@@ -496,6 +562,10 @@ function renderNetwork(): string {
             `);
         }
 
+        const mockBadge = req.mocked
+            ? `<span class="mock-badge" title="Served by network mock ${escapeHtml(req.mockRuleId || '')}">MOCK</span>`
+            : '';
+
         // Build operation info line for compact view
         let operationInfo = '';
         if (parsedBody) {
@@ -512,7 +582,7 @@ function renderNetwork(): string {
                 <span class="method ${req.method}">${req.method}</span>
                 <span class="status ${statusClass}">${req.status || '-'}</span>
                 <div class="url-cell">
-                    <span class="url" title="${url}">${url}</span>
+                    <span class="url" title="${url}">${mockBadge}${url}</span>
                     ${operationInfo}
                 </div>
                 <span class="duration">${duration}</span>
@@ -657,6 +727,123 @@ function renderBundleErrors(): string {
     return htmlTemplate('Bundle Errors', content);
 }
 
+function renderExceptions(): string {
+    const exceptions = exceptionBuffer.getAll().reverse();
+    const { total, fatal } = exceptionBuffer.getCounts();
+    const rejections = exceptions.filter(entry => entry.source === 'unhandled-rejection').length;
+
+    let content = `
+        <h1>Exceptions</h1>
+        <div class="stats">
+            <div class="stat">
+                <div class="stat-value">${total}</div>
+                <div class="stat-label">Captured</div>
+            </div>
+            <div class="stat">
+                <div class="stat-value" style="color: ${fatal > 0 ? '#f85149' : '#3fb950'};">${fatal}</div>
+                <div class="stat-label">Fatal</div>
+            </div>
+            <div class="stat">
+                <div class="stat-value">${rejections}</div>
+                <div class="stat-label">Unhandled Rejections</div>
+            </div>
+        </div>
+    `;
+
+    if (exceptions.length === 0) {
+        content += '<div class="empty" style="margin-top: 20px;">No exceptions captured. Uncaught errors and unhandled promise rejections will appear here.</div>';
+    } else {
+        const exceptionsHtml = exceptions.map(entry => {
+            const color = entry.isFatal ? '#f85149' : '#d29922';
+            const label = entry.source === 'unhandled-rejection' ? 'Unhandled Rejection' : entry.isFatal ? 'Fatal' : 'Non-fatal';
+            const stack = entry.frames
+                ? entry.frames
+                    .filter(frame => !frame.collapse)
+                    .slice(0, 10)
+                    .map(frame => `    at ${escapeHtml(frame.functionName)} <span class="frame-file">${escapeHtml(frame.file)}:${frame.lineNumber}:${frame.column}</span>`)
+                    .join('\n')
+                : escapeHtml((entry.stack || '').split('\n').slice(1, 11).join('\n'));
+            return `
+                <div class="error-card" style="background: #161b22; border: 1px solid ${color}; border-radius: 8px; padding: 16px; margin-bottom: 12px;">
+                    <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 8px;">
+                        <strong style="color: ${color};">#${entry.id} ${label}</strong>
+                        <span style="color: #8b949e; font-size: 12px;">${formatTime(entry.timestamp)} &middot; ${entry.source}</span>
+                    </div>
+                    <pre style="margin: 0; padding: 12px; background: #0d1117; border-radius: 4px; overflow-x: auto; white-space: pre-wrap;"><code style="color: ${color};">${escapeHtml(entry.message)}</code>${stack ? `<span class="log-stack">${stack}</span>` : ''}</pre>
+                    ${entry.codeFrame ? `
+                        <div style="margin-top: 12px;">
+                            <div style="color: #8b949e; font-size: 11px; margin-bottom: 4px;">Code Frame:</div>
+                            <pre style="margin: 0; padding: 12px; background: #0d1117; border-radius: 4px; overflow-x: auto;"><code class="language-javascript">${escapeHtml(entry.codeFrame)}</code></pre>
+                        </div>
+                    ` : ''}
+                </div>
+            `;
+        }).join('');
+
+        content += `<div style="margin-top: 20px;">${exceptionsHtml}</div>`;
+    }
+
+    return htmlTemplate('Exceptions', content);
+}
+
+function renderRedux(): string {
+    const actions = reduxActionBuffer.getAll().reverse();
+    const types = new Set(actions.map(entry => entry.type)).size;
+    const unattributed = actions.filter(entry => entry.source === 'middleware').length;
+
+    let content = `
+        <h1>Redux Actions</h1>
+        <div class="stats">
+            <div class="stat">
+                <div class="stat-value">${actions.length}</div>
+                <div class="stat-label">Actions</div>
+            </div>
+            <div class="stat">
+                <div class="stat-value">${types}</div>
+                <div class="stat-label">Action Types</div>
+            </div>
+            <div class="stat">
+                <div class="stat-value">${unattributed}</div>
+                <div class="stat-label">Inside Middleware</div>
+            </div>
+        </div>
+    `;
+
+    if (actions.length === 0) {
+        content += '<div class="empty" style="margin-top: 20px;">No Redux actions captured. Run start_redux_tracking, then interact with the app.</div>';
+    } else {
+        const actionsHtml = actions.map(entry => {
+            const color = entry.source === 'middleware' ? '#8b949e' : '#d2a8ff';
+            const changes = entry.changes
+                .slice(0, 20)
+                .map(change => {
+                    const changeColor = change.op === 'added' ? '#3fb950' : change.op === 'removed' ? '#f85149' : '#d29922';
+                    return `<span style="color: ${changeColor};">${escapeHtml(formatStateChange(change))}</span>`;
+                })
+                .join('\n');
+            const more = entry.changes.length > 20 || entry.changesTruncated ? '\n<span style="color: #8b949e;">... more changes</span>' : '';
+            const action = entry.action !== undefined ? escapeHtml(JSON.stringify(entry.action, null, 2)) : '';
+            return `
+                <div class="network-item" data-id="redux-${entry.id}">
+                    <div style="display: flex; gap: 12px; align-items: center; padding: 10px 16px; cursor: pointer;" onclick="toggleNetworkItem(this)">
+                        <span style="color: #8b949e; font-size: 12px; min-width: 70px;">${formatTime(entry.timestamp)}</span>
+                        <strong style="color: ${color};">${escapeHtml(entry.type)}</strong>
+                        <span style="color: #8b949e; font-size: 12px; margin-left: auto;">${entry.changes.length}${entry.changesTruncated ? '+' : ''} change(s)${entry.durationMs !== undefined ? ` &middot; ${entry.durationMs}ms` : ''}${entry.deviceName ? ` &middot; ${escapeHtml(entry.deviceName)}` : ''}</span>
+                    </div>
+                    <div class="network-details">
+                        <pre style="margin: 0 0 8px; white-space: pre-wrap;">${changes || '<span style="color: #8b949e;">No state change</span>'}${more}</pre>
+                        ${action ? `<pre><code class="language-json">${action}</code></pre>` : ''}
+                    </div>
+                </div>
+            `;
+        }).join('');
+
+        content += `<div style="margin-top: 20px;">${actionsHtml}</div>`;
+    }
+
+    return htmlTemplate('Redux', content);
+}
+
 function renderRepl(): string {
     return `<!DOCTYPE html>
 <html lang="en">
@@ -822,10 +1009,13 @@ function renderRepl(): string {
         <a href="/logs">Logs</a>
         <a href="/network">Network</a>
         <a href="/bundle-errors">Errors</a>
+        <a href="/exceptions">Exceptions</a>
+        <a href="/redux">Redux</a>
         <a href="/apps">Apps</a>
         <a href="/repl" class="active">REPL</a>
         <a href="/component-tree">Components</a>
         <a href="/globals">Globals</a>
+        <a href="/storage">Storage</a>
         <a href="/tap-verifier">Tap Verifier</a>
     </nav>
     <h1>JavaScript REPL</h1>
@@ -1087,10 +1277,13 @@ function renderComponentTree(): string {
         <a href="/logs">Logs</a>
         <a href="/network">Network</a>
         <a href="/bundle-errors">Errors</a>
+        <a href="/exceptions">Exceptions</a>
+        <a href="/redux">Redux</a>
         <a href="/apps">Apps</a>
         <a href="/repl">REPL</a>
         <a href="/component-tree" class="active">Components</a>
         <a href="/globals">Globals</a>
+        <a href="/storage">Storage</a>
         <a href="/tap-verifier">Tap Verifier</a>
     </nav>
     <h1>React Component Tree</h1>
@@ -1400,10 +1593,13 @@ function renderGlobals(): string {
         <a href="/logs">Logs</a>
         <a href="/network">Network</a>
         <a href="/bundle-errors">Errors</a>
+        <a href="/exceptions">Exceptions</a>
+        <a href="/redux">Redux</a>
         <a href="/apps">Apps</a>
         <a href="/repl">REPL</a>
         <a href="/component-tree">Components</a>
         <a href="/globals" class="active">Globals</a>
+        <a href="/storage">Storage</a>
         <a href="/tap-verifier">Tap Verifier</a>
     </nav>
     <h1>Debug Globals Explorer</h1>
@@ -1546,133 +1742,542 @@ function renderGlobals(): string {
 </html>`;
 }
 
-function renderTapVerifier(): string {
+function renderStorage(): string {
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Tap Test Page - RN Debugger</title>
+    <title>Storage - RN Debugger</title>
     <style>
         * { box-sizing: border-box; margin: 0; padding: 0; }
         body {
             font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            background: #1a1a2e;
-            color: #eee;
-            min-height: 100vh;
+            background: #0d1117;
+            color: #c9d1d9;
+            padding: 20px;
+            line-height: 1.5;
         }
-        .page-container {
-            position: relative;
-            width: 100%;
-            min-height: 100vh;
+        nav {
+            background: #161b22;
+            padding: 12px 20px;
+            margin: -20px -20px 20px -20px;
+            border-bottom: 1px solid #30363d;
+            display: flex;
+            gap: 20px;
+            align-items: center;
         }
-
-        /* Sample UI Elements for Testing */
-        .header {
-            background: #16213e;
-            padding: 20px;
-            text-align: center;
-            border-bottom: 2px solid #0f3460;
+        nav a {
+            color: #58a6ff;
+            text-decoration: none;
+            padding: 6px 12px;
+            border-radius: 6px;
+            transition: background 0.2s;
         }
-        .header h1 { font-size: 24px; margin-bottom: 8px; }
-        .header p { color: #888; font-size: 14px; }
-
-        .button-grid {
-            display: grid;
-            grid-template-columns: repeat(3, 1fr);
-            gap: 16px;
-            padding: 20px;
-            max-width: 400px;
-            margin: 0 auto;
+        nav a:hover { background: #21262d; }
+        nav a.active { background: #388bfd; color: white; }
+        .logo { font-weight: 600; color: #f0f6fc; margin-right: auto; }
+        h1 { margin-bottom: 16px; font-size: 1.5em; }
+        .controls {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-bottom: 16px;
         }
-        .test-btn {
-            padding: 20px;
+        .controls input {
+            padding: 8px 12px;
+            background: #0d1117;
+            border: 1px solid #30363d;
+            border-radius: 6px;
+            color: #c9d1d9;
+            font-size: 14px;
+            width: 280px;
+        }
+        .btn {
+            padding: 8px 16px;
             border: none;
-            border-radius: 12px;
+            border-radius: 6px;
             font-size: 14px;
-            font-weight: 600;
+            font-weight: 500;
             cursor: pointer;
-            transition: transform 0.1s;
+            transition: background 0.2s;
         }
-        .test-btn:active { transform: scale(0.95); }
-        .btn-red { background: #e94560; color: white; }
-        .btn-blue { background: #0f3460; color: white; }
-        .btn-green { background: #1eb980; color: white; }
-        .btn-yellow { background: #f39c12; color: #333; }
-        .btn-purple { background: #9b59b6; color: white; }
-        .btn-cyan { background: #00cec9; color: #333; }
-
-        /* Grid Overlay */
-        .grid-overlay {
-            position: fixed;
-            top: 0;
-            left: 0;
-            width: 100%;
-            height: 100%;
-            pointer-events: none;
-            z-index: 9998;
-            display: none;
+        .btn-primary {
+            background: #238636;
+            color: white;
         }
-        .grid-overlay.visible { display: block; }
-        .grid-line-v {
-            position: absolute;
-            top: 0;
-            bottom: 0;
-            width: 1px;
-            background: rgba(255, 255, 0, 0.6);
+        .btn-primary:hover { background: #2ea043; }
+        .btn-primary:disabled { background: #21262d; color: #6e7681; cursor: not-allowed; }
+        .storage {
+            background: #161b22;
+            border: 1px solid #30363d;
+            border-radius: 8px;
+            margin-bottom: 16px;
+            overflow: hidden;
         }
-        .grid-line-h {
-            position: absolute;
-            left: 0;
-            right: 0;
-            height: 1px;
-            background: rgba(255, 255, 0, 0.6);
+        .storage-header {
+            padding: 12px 16px;
+            background: #21262d;
+            display: flex;
+            gap: 12px;
+            align-items: center;
         }
-        .grid-label {
-            position: absolute;
-            background: rgba(0, 0, 0, 0.8);
-            color: #ffff00;
-            font-size: 10px;
-            font-family: monospace;
-            padding: 2px 4px;
-            border-radius: 2px;
+        .storage-title {
+            font-weight: 600;
+            color: #58a6ff;
+            font-family: 'SF Mono', Consolas, monospace;
         }
-        .grid-toggle {
-            position: fixed;
-            top: 10px;
-            left: 10px;
-            background: #ffff00;
-            color: #000;
+        .storage-meta {
+            color: #8b949e;
+            font-size: 13px;
+            margin-right: auto;
+        }
+        .storage-header a { color: #58a6ff; font-size: 13px; text-decoration: none; }
+        .storage-header a:hover { text-decoration: underline; }
+        .storage-content { padding: 12px 16px; }
+        .key-item {
+            padding: 8px 12px;
+            margin: 4px 0;
+            background: #0d1117;
+            border-radius: 4px;
+            font-family: 'SF Mono', Consolas, monospace;
+            font-size: 13px;
+            display: flex;
+            gap: 12px;
+            align-items: center;
+        }
+        .key-item:hover { background: #21262d; }
+        .key-name { color: #7ee787; margin-right: auto; word-break: break-all; }
+        .key-size { color: #8b949e; font-size: 12px; white-space: nowrap; }
+        .item-btn {
+            padding: 4px 8px;
+            background: #388bfd;
+            color: white;
             border: none;
-            padding: 6px 10px;
             border-radius: 4px;
             font-size: 11px;
-            font-weight: bold;
             cursor: pointer;
-            z-index: 10001;
-            opacity: 0.8;
         }
-
-        .nav-bar {
-            display: flex;
-            justify-content: space-around;
-            background: #16213e;
-            padding: 16px;
+        .item-btn:hover { background: #58a6ff; }
+        .item-btn.danger { background: #da3633; }
+        .item-btn.danger:hover { background: #f85149; }
+        .loading { color: #8b949e; text-align: center; padding: 40px; }
+        .error { color: #f85149; padding: 20px; }
+        .modal {
+            display: none;
             position: fixed;
-            bottom: 0;
+            top: 0;
             left: 0;
             right: 0;
-            border-top: 2px solid #0f3460;
+            bottom: 0;
+            background: rgba(0, 0, 0, 0.8);
+            z-index: 1000;
+            padding: 40px;
+            overflow: auto;
         }
-        .nav-item {
-            display: flex;
-            flex-direction: column;
-            align-items: center;
-            color: #888;
-            font-size: 12px;
-            padding: 8px 16px;
+        .modal.visible { display: block; }
+        .modal-content {
+            max-width: 800px;
+            margin: 0 auto;
+            background: #161b22;
+            border: 1px solid #30363d;
             border-radius: 8px;
-            cursor: pointer;
+            overflow: hidden;
+        }
+        .modal-header {
+            padding: 12px 16px;
+            background: #21262d;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        .modal-title {
+            font-weight: 600;
+            color: #58a6ff;
+            font-family: monospace;
+        }
+        .close-btn {
+            background: none;
+            border: none;
+            color: #8b949e;
+            font-size: 24px;
+            cursor: pointer;
+        }
+        .close-btn:hover { color: #f85149; }
+        .modal-body { padding: 16px; }
+        .modal-body textarea {
+            width: 100%;
+            min-height: 320px;
+            padding: 12px;
+            background: #0d1117;
+            border: 1px solid #30363d;
+            border-radius: 4px;
+            color: #79c0ff;
+            font-family: 'SF Mono', Consolas, monospace;
+            font-size: 12px;
+            resize: vertical;
+        }
+        .modal-footer {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            margin-top: 12px;
+        }
+        .modal-status { color: #8b949e; font-size: 13px; }
+    </style>
+</head>
+<body>
+    <nav>
+        <span class="logo">RN Debugger</span>
+        <a href="/">Dashboard</a>
+        <a href="/logs">Logs</a>
+        <a href="/network">Network</a>
+        <a href="/bundle-errors">Errors</a>
+        <a href="/exceptions">Exceptions</a>
+        <a href="/redux">Redux</a>
+        <a href="/apps">Apps</a>
+        <a href="/repl">REPL</a>
+        <a href="/component-tree">Components</a>
+        <a href="/globals">Globals</a>
+        <a href="/storage" class="active">Storage</a>
+        <a href="/tap-verifier">Tap Verifier</a>
+    </nav>
+    <h1>Storage Inspector</h1>
+    <div class="controls">
+        <button class="btn btn-primary" id="refreshBtn" onclick="loadStorage()">Refresh</button>
+        <input type="text" id="keyFilter" placeholder="Filter keys..." oninput="renderStorages()">
+    </div>
+    <div id="content">
+        <div class="loading">Click "Refresh" to find AsyncStorage and MMKV instances...</div>
+    </div>
+
+    <div class="modal" id="valueModal" onclick="closeModal(event)">
+        <div class="modal-content" onclick="event.stopPropagation()">
+            <div class="modal-header">
+                <span class="modal-title" id="modalTitle">Key</span>
+                <button class="close-btn" onclick="closeModal()">&times;</button>
+            </div>
+            <div class="modal-body">
+                <textarea id="valueEditor" spellcheck="false"></textarea>
+                <div class="modal-footer">
+                    <button class="btn btn-primary" id="saveBtn" onclick="saveValue()">Save</button>
+                    <span class="modal-status" id="modalStatus"></span>
+                </div>
+            </div>
+        </div>
+    </div>
+
+    <script>
+        let storages = [];
+        let editing = null;
+
+        async function loadStorage() {
+            const content = document.getElementById('content');
+            const btn = document.getElementById('refreshBtn');
+
+            btn.disabled = true;
+            btn.textContent = 'Loading...';
+            content.innerHTML = '<div class="loading">Scanning the app for storages...</div>';
+
+            try {
+                const res = await fetch('/api/storage');
+                const data = await res.json();
+
+                if (data.success) {
+                    storages = data.storages || [];
+                    renderStorages();
+                } else {
+                    content.innerHTML = '<div class="error">Error: ' + escapeHtml(data.error || 'Unknown error') + '</div>';
+                }
+            } catch (err) {
+                content.innerHTML = '<div class="error">Request failed: ' + escapeHtml(err.message) + '</div>';
+            } finally {
+                btn.disabled = false;
+                btn.textContent = 'Refresh';
+            }
+        }
+
+        function formatSize(bytes) {
+            if (bytes < 1024) return bytes + ' B';
+            if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+            return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+        }
+
+        function renderStorages() {
+            const content = document.getElementById('content');
+            const filter = document.getElementById('keyFilter').value.toLowerCase();
+
+            if (storages.length === 0) {
+                content.innerHTML = '<div class="loading">No AsyncStorage or MMKV instance found. The storage module may not be loaded yet.</div>';
+                return;
+            }
+
+            content.innerHTML = storages.map((storage, storageIndex) => {
+                const keys = storage.keys.filter(info => !filter || info.key.toLowerCase().includes(filter));
+                const keysHtml = storage.error
+                    ? '<div class="error">' + escapeHtml(storage.error) + '</div>'
+                    : keys.map(info =>
+                        '<div class="key-item">' +
+                            '<span class="key-name">' + escapeHtml(info.key) + '</span>' +
+                            '<span class="key-size">' + formatSize(info.size) + (info.type !== 'string' ? ' ' + escapeHtml(info.type) : '') + '</span>' +
+                            '<button class="item-btn" data-action="view" data-storage="' + storageIndex + '" data-key="' + escapeHtml(info.key) + '">View</button>' +
+                            '<button class="item-btn danger" data-action="delete" data-storage="' + storageIndex + '" data-key="' + escapeHtml(info.key) + '">Delete</button>' +
+                        '</div>'
+                    ).join('');
+                const more = storage.keys.length < storage.matchingKeyCount
+                    ? '<div class="key-size">' + (storage.matchingKeyCount - storage.keys.length) + ' more key(s) not listed</div>'
+                    : '';
+                return '<div class="storage">' +
+                    '<div class="storage-header">' +
+                        '<span class="storage-title">' + escapeHtml(storage.id) + '</span>' +
+                        '<span class="storage-meta">' + escapeHtml(storage.source) + ' - ' + storage.keyCount + ' key(s), ' + formatSize(storage.totalSize) + '</span>' +
+                        '<a href="/api/storage/export?storage=' + encodeURIComponent(storage.id) + '" download="' + escapeHtml(storage.id.replace(/[^a-zA-Z0-9.-]/g, '_')) + '.json">Export JSON</a>' +
+                    '</div>' +
+                    '<div class="storage-content">' + (keysHtml || '<div class="key-size">No keys</div>') + more + '</div>' +
+                '</div>';
+            }).join('');
+        }
+
+        document.getElementById('content').addEventListener('click', (e) => {
+            const btn = e.target.closest('button[data-action]');
+            if (!btn) return;
+            const storage = storages[parseInt(btn.dataset.storage, 10)];
+            const info = storage.keys.find(item => item.key === btn.dataset.key);
+            if (btn.dataset.action === 'view') viewValue(storage, info);
+            if (btn.dataset.action === 'delete') deleteKey(storage, info.key);
+        });
+
+        async function viewValue(storage, info) {
+            const editor = document.getElementById('valueEditor');
+            const status = document.getElementById('modalStatus');
+            editing = { storage: storage.id, key: info.key, type: info.type };
+
+            document.getElementById('modalTitle').textContent = storage.id + ' / ' + info.key;
+            editor.value = '';
+            editor.disabled = true;
+            status.textContent = 'Loading...';
+            document.getElementById('valueModal').classList.add('visible');
+
+            try {
+                const res = await fetch('/api/storage/item?storage=' + encodeURIComponent(storage.id) + '&key=' + encodeURIComponent(info.key));
+                const data = await res.json();
+                if (!data.success) {
+                    status.textContent = 'Error: ' + (data.error || 'Unknown error');
+                    return;
+                }
+                let value = data.value === null || data.value === undefined ? '' : String(data.value);
+                try {
+                    if (typeof data.value === 'string') value = JSON.stringify(JSON.parse(data.value), null, 2);
+                } catch (err) {
+                    // Not JSON, shown as is
+                }
+                editor.value = value;
+                editor.disabled = data.type === 'buffer';
+                status.textContent = data.type === 'buffer' ? 'Binary value (read-only)' : data.type;
+            } catch (err) {
+                status.textContent = 'Request failed: ' + err.message;
+            }
+        }
+
+        async function saveValue() {
+            if (!editing) return;
+            const status = document.getElementById('modalStatus');
+            let value = document.getElementById('valueEditor').value;
+            // Pretty-printed JSON is stored compact again
+            try {
+                if (editing.type === 'string') value = JSON.stringify(JSON.parse(value));
+            } catch (err) {
+                // Not JSON, stored as is
+            }
+            status.textContent = 'Saving...';
+            try {
+                const res = await fetch('/api/storage/item', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        storage: editing.storage,
+                        key: editing.key,
+                        value,
+                        valueType: editing.type === 'number' || editing.type === 'boolean' ? editing.type : 'string'
+                    })
+                });
+                const data = await res.json();
+                status.textContent = data.success ? 'Saved' : 'Error: ' + (data.error || 'Unknown error');
+                if (data.success) loadStorage();
+            } catch (err) {
+                status.textContent = 'Request failed: ' + err.message;
+            }
+        }
+
+        async function deleteKey(storage, key) {
+            if (!confirm('Delete "' + key + '" from ' + storage.id + '?')) return;
+            try {
+                const res = await fetch('/api/storage/remove', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ storage: storage.id, key })
+                });
+                const data = await res.json();
+                if (!data.success) alert('Error: ' + (data.error || 'Unknown error'));
+                loadStorage();
+            } catch (err) {
+                alert('Request failed: ' + err.message);
+            }
+        }
+
+        function closeModal(event) {
+            if (!event || event.target === document.getElementById('valueModal')) {
+                document.getElementById('valueModal').classList.remove('visible');
+                editing = null;
+            }
+        }
+
+        function escapeHtml(str) {
+            return String(str)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        // Close modal on Escape key
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') closeModal();
+        });
+
+        loadStorage();
+    </script>
+</body>
+</html>`;
+}
+
+function renderTapVerifier(): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Tap Test Page - RN Debugger</title>
+    <style>
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background: #1a1a2e;
+            color: #eee;
+            min-height: 100vh;
+        }
+        .page-container {
+            position: relative;
+            width: 100%;
+            min-height: 100vh;
+        }
+
+        /* Sample UI Elements for Testing */
+        .header {
+            background: #16213e;
+            padding: 20px;
+            text-align: center;
+            border-bottom: 2px solid #0f3460;
+        }
+        .header h1 { font-size: 24px; margin-bottom: 8px; }
+        .header p { color: #888; font-size: 14px; }
+
+        .button-grid {
+            display: grid;
+            grid-template-columns: repeat(3, 1fr);
+            gap: 16px;
+            padding: 20px;
+            max-width: 400px;
+            margin: 0 auto;
+        }
+        .test-btn {
+            padding: 20px;
+            border: none;
+            border-radius: 12px;
+            font-size: 14px;
+            font-weight: 600;
+            cursor: pointer;
+            transition: transform 0.1s;
+        }
+        .test-btn:active { transform: scale(0.95); }
+        .btn-red { background: #e94560; color: white; }
+        .btn-blue { background: #0f3460; color: white; }
+        .btn-green { background: #1eb980; color: white; }
+        .btn-yellow { background: #f39c12; color: #333; }
+        .btn-purple { background: #9b59b6; color: white; }
+        .btn-cyan { background: #00cec9; color: #333; }
+
+        /* Grid Overlay */
+        .grid-overlay {
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            pointer-events: none;
+            z-index: 9998;
+            display: none;
+        }
+        .grid-overlay.visible { display: block; }
+        .grid-line-v {
+            position: absolute;
+            top: 0;
+            bottom: 0;
+            width: 1px;
+            background: rgba(255, 255, 0, 0.6);
+        }
+        .grid-line-h {
+            position: absolute;
+            left: 0;
+            right: 0;
+            height: 1px;
+            background: rgba(255, 255, 0, 0.6);
+        }
+        .grid-label {
+            position: absolute;
+            background: rgba(0, 0, 0, 0.8);
+            color: #ffff00;
+            font-size: 10px;
+            font-family: monospace;
+            padding: 2px 4px;
+            border-radius: 2px;
+        }
+        .grid-toggle {
+            position: fixed;
+            top: 10px;
+            left: 10px;
+            background: #ffff00;
+            color: #000;
+            border: none;
+            padding: 6px 10px;
+            border-radius: 4px;
+            font-size: 11px;
+            font-weight: bold;
+            cursor: pointer;
+            z-index: 10001;
+            opacity: 0.8;
+        }
+
+        .nav-bar {
+            display: flex;
+            justify-content: space-around;
+            background: #16213e;
+            padding: 16px;
+            position: fixed;
+            bottom: 0;
+            left: 0;
+            right: 0;
+            border-top: 2px solid #0f3460;
+        }
+        .nav-item {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            color: #888;
+            font-size: 12px;
+            padding: 8px 16px;
+            border-radius: 8px;
+            cursor: pointer;
         }
         .nav-item:hover { background: #0f3460; color: #fff; }
         .nav-icon { font-size: 24px; margin-bottom: 4px; }
@@ -1748,6 +2353,91 @@ function renderTapVerifier(): string {
             cursor: pointer;
             font-size: 12px;
         }
+
+        /* Flow recorder */
+        .recorder-toggle {
+            position: fixed;
+            top: 10px;
+            left: 64px;
+            background: #e94560;
+            color: #fff;
+            border: none;
+            padding: 6px 10px;
+            border-radius: 4px;
+            font-size: 11px;
+            font-weight: bold;
+            cursor: pointer;
+            z-index: 10001;
+            opacity: 0.9;
+        }
+        .recorder-panel {
+            position: fixed;
+            top: 44px;
+            left: 10px;
+            width: 360px;
+            max-height: calc(100vh - 54px);
+            overflow-y: auto;
+            background: rgba(0,0,0,0.92);
+            border: 1px solid #0f3460;
+            border-radius: 8px;
+            padding: 12px;
+            font-size: 12px;
+            z-index: 10002;
+        }
+        .recorder-panel h3 { color: #e94560; margin-bottom: 8px; font-size: 14px; }
+        .recorder-row { display: flex; gap: 6px; margin-bottom: 8px; align-items: center; }
+        .recorder-row input, .recorder-row select {
+            flex: 1;
+            min-width: 0;
+            padding: 6px;
+            background: #16213e;
+            border: 1px solid #0f3460;
+            border-radius: 4px;
+            color: #fff;
+            font-size: 12px;
+        }
+        .recorder-row button, .recorder-row a {
+            padding: 6px 10px;
+            background: #0f3460;
+            border: none;
+            border-radius: 4px;
+            color: #fff;
+            cursor: pointer;
+            font-size: 12px;
+            text-decoration: none;
+            white-space: nowrap;
+        }
+        .recorder-row button.recording { background: #e94560; }
+        .device-screen { position: relative; margin-bottom: 8px; text-align: center; }
+        .device-screen img {
+            max-width: 100%;
+            max-height: 520px;
+            border: 1px solid #0f3460;
+            border-radius: 6px;
+            cursor: crosshair;
+            user-select: none;
+        }
+        .recorder-hint { color: #888; font-size: 11px; margin-top: 4px; }
+        .recorder-status { color: #f39c12; min-height: 16px; margin-bottom: 6px; }
+        .recorder-steps { margin-bottom: 8px; }
+        .recorded-step {
+            display: flex;
+            justify-content: space-between;
+            gap: 6px;
+            padding: 4px 0;
+            border-bottom: 1px solid #222;
+            font-family: monospace;
+            color: #ccc;
+            word-break: break-all;
+        }
+        .recorded-step .element { color: #888; font-size: 11px; }
+        .recorded-step button {
+            background: none;
+            border: none;
+            color: #e94560;
+            cursor: pointer;
+            font-size: 12px;
+        }
     </style>
 </head>
 <body>
@@ -1812,6 +2502,40 @@ function renderTapVerifier(): string {
     <!-- Transparent canvas overlay for markers -->
     <canvas id="markerCanvas"></canvas>
 
+    <!-- Flow recorder: drive an Android device and record the actions as a run_flow file -->
+    <button class="recorder-toggle" onclick="toggleRecorder()">Recorder</button>
+    <div class="recorder-panel" id="recorderPanel" style="display: none;">
+        <h3>Flow Recorder (Android)</h3>
+        <div class="recorder-row">
+            <select id="recDevice"></select>
+            <button onclick="loadDevices()">Refresh</button>
+        </div>
+        <div class="recorder-row">
+            <input id="recName" placeholder="Flow name (optional)">
+            <button id="recToggle" onclick="toggleRecording()">Record</button>
+        </div>
+        <div class="device-screen">
+            <img id="recScreen" alt="Load a screenshot" draggable="false">
+            <div class="recorder-hint">Click to tap, drag to swipe</div>
+        </div>
+        <div class="recorder-row">
+            <button onclick="refreshScreen()">Screenshot</button>
+            <button onclick="sendKey('BACK')">Back</button>
+            <button onclick="sendKey('HOME')">Home</button>
+            <button onclick="sendKey('ENTER')">Enter</button>
+        </div>
+        <div class="recorder-row">
+            <input id="recText" placeholder="Text to type into the focused field">
+            <button onclick="sendText()">Type</button>
+        </div>
+        <div class="recorder-status" id="recStatus"></div>
+        <div class="recorder-steps" id="recSteps"></div>
+        <div class="recorder-row">
+            <a href="/api/tap-verifier/recording/export?format=yaml">Export YAML</a>
+            <a href="/api/tap-verifier/recording/export?format=json">Export JSON</a>
+        </div>
+    </div>
+
     <!-- Marker info panel -->
     <div class="marker-panel" id="markerPanel" style="display: none;">
         <h3>Agent Markers</h3>
@@ -2053,6 +2777,152 @@ function renderTapVerifier(): string {
             if (gridVisible) createGrid();
         });
 
+        // Flow recorder
+        const recorderPanel = document.getElementById('recorderPanel');
+        const recScreen = document.getElementById('recScreen');
+        const recStatus = document.getElementById('recStatus');
+        let screenSize = null;
+        let dragStart = null;
+        let isRecording = false;
+
+        function escapeHtml(str) {
+            return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        function toggleRecorder() {
+            const visible = recorderPanel.style.display !== 'none';
+            recorderPanel.style.display = visible ? 'none' : 'block';
+            if (!visible) {
+                loadDevices();
+                loadRecording();
+            }
+        }
+
+        function deviceId() {
+            return document.getElementById('recDevice').value || undefined;
+        }
+
+        async function loadDevices() {
+            const select = document.getElementById('recDevice');
+            const res = await fetch('/api/tap-verifier/devices?platform=android');
+            const data = await res.json();
+            select.innerHTML = (data.devices || []).map(d =>
+                '<option value="' + escapeHtml(d.id) + '">' + escapeHtml(d.name) + '</option>'
+            ).join('');
+            if (data.error) recStatus.textContent = data.error;
+        }
+
+        async function refreshScreen() {
+            recStatus.textContent = 'Loading screenshot...';
+            const id = deviceId();
+            const res = await fetch('/api/tap-verifier/screenshot?platform=android' + (id ? '&deviceId=' + encodeURIComponent(id) : ''));
+            const data = await res.json();
+            if (!data.success) {
+                recStatus.textContent = data.error || 'Failed to take screenshot';
+                return;
+            }
+            recScreen.src = 'data:image/jpeg;base64,' + data.image;
+            screenSize = data.width && data.height ? { width: data.width, height: data.height } : null;
+            recStatus.textContent = '';
+        }
+
+        // Image position -> device pixels
+        function toDevice(e) {
+            const rect = recScreen.getBoundingClientRect();
+            const width = screenSize ? screenSize.width : recScreen.naturalWidth;
+            const height = screenSize ? screenSize.height : recScreen.naturalHeight;
+            return {
+                x: Math.round((e.clientX - rect.left) / rect.width * width),
+                y: Math.round((e.clientY - rect.top) / rect.height * height)
+            };
+        }
+
+        async function sendAction(path, body, label) {
+            recStatus.textContent = label + '...';
+            const res = await fetch(path, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(Object.assign({ platform: 'android', deviceId: deviceId() }, body))
+            });
+            const data = await res.json();
+            recStatus.textContent = data.success ? label + ' done' : (data.error || label + ' failed');
+            loadRecording();
+            setTimeout(refreshScreen, 800);
+        }
+
+        recScreen.addEventListener('mousedown', (e) => {
+            if (!recScreen.src) return;
+            dragStart = toDevice(e);
+        });
+        recScreen.addEventListener('mouseup', (e) => {
+            if (!dragStart) return;
+            const end = toDevice(e);
+            const start = dragStart;
+            dragStart = null;
+            const distance = Math.hypot(end.x - start.x, end.y - start.y);
+            if (distance < 20) {
+                sendAction('/api/tap-verifier/execute', { x: start.x, y: start.y }, 'Tap (' + start.x + ', ' + start.y + ')');
+            } else {
+                sendAction('/api/tap-verifier/swipe', { startX: start.x, startY: start.y, endX: end.x, endY: end.y }, 'Swipe');
+            }
+        });
+
+        function sendKey(key) {
+            sendAction('/api/tap-verifier/key', { key }, key);
+        }
+
+        function sendText() {
+            const input = document.getElementById('recText');
+            if (!input.value) return;
+            sendAction('/api/tap-verifier/text', { text: input.value }, 'Type');
+            input.value = '';
+        }
+
+        async function toggleRecording() {
+            const path = isRecording ? '/api/tap-verifier/recording/stop' : '/api/tap-verifier/recording/start';
+            await fetch(path, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: document.getElementById('recName').value, deviceId: deviceId() })
+            });
+            loadRecording();
+        }
+
+        async function loadRecording() {
+            const res = await fetch('/api/tap-verifier/recording');
+            const data = await res.json();
+            const recording = data.recording;
+            isRecording = !!recording && !recording.stoppedAt;
+            const button = document.getElementById('recToggle');
+            button.textContent = isRecording ? 'Stop' : 'Record';
+            button.classList.toggle('recording', isRecording);
+
+            const steps = document.getElementById('recSteps');
+            if (!recording || recording.actions.length === 0) {
+                steps.innerHTML = '<div class="recorder-hint">' + (isRecording ? 'Recording: tap, swipe, type or press keys' : 'Not recording') + '</div>';
+                return;
+            }
+            steps.innerHTML = recording.actions.map((action, i) => {
+                const name = Object.keys(action.step)[0];
+                const value = action.step[name];
+                const text = name + ': ' + (typeof value === 'object' ? JSON.stringify(value) : value);
+                return '<div class="recorded-step"><div>' + (i + 1) + '. ' + escapeHtml(text) +
+                    (action.element ? '<div class="element">' + escapeHtml(action.element) + '</div>' : '') +
+                    '</div><button data-remove="' + action.id + '" title="Remove">x</button></div>';
+            }).join('');
+        }
+
+        document.getElementById('recSteps').addEventListener('click', async (e) => {
+            const id = e.target.getAttribute && e.target.getAttribute('data-remove');
+            if (!id) return;
+            await fetch('/api/tap-verifier/recording/remove', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: Number(id) })
+            });
+            loadRecording();
+        });
+
         // Start polling
         setInterval(pollMarkers, 500);
         pollMarkers();
@@ -2111,6 +2981,16 @@ function createRequestHandler() {
                 res.end(renderBundleErrors());
                 return;
             }
+            if (url === "/exceptions") {
+                res.setHeader("Content-Type", "text/html");
+                res.end(renderExceptions());
+                return;
+            }
+            if (url === "/redux") {
+                res.setHeader("Content-Type", "text/html");
+                res.end(renderRedux());
+                return;
+            }
             if (url === "/repl") {
                 res.setHeader("Content-Type", "text/html");
                 res.end(renderRepl());
@@ -2126,33 +3006,185 @@ function createRequestHandler() {
                 res.end(renderGlobals());
                 return;
             }
+            if (url === "/storage") {
+                res.setHeader("Content-Type", "text/html");
+                res.end(renderStorage());
+                return;
+            }
 
             // JSON API endpoints
             res.setHeader("Content-Type", "application/json");
 
             if (url === "/api/logs" || url === "/api/logs/") {
-                const logs = logBuffer.getAll();
+                const query = compileLogQuery({
+                    level: (params.get('level') || undefined) as LogLevel | undefined,
+                    text: params.get('text') || undefined,
+                    pattern: params.get('pattern') || undefined,
+                    exclude: params.get('exclude') || undefined,
+                    since: params.get('since') || undefined,
+                    until: params.get('until') || undefined,
+                    where: params.get('where') || undefined,
+                    appKey: params.get('appKey') || undefined
+                });
+                if (!query.matches) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: query.error }));
+                    return;
+                }
+                let logs = logBuffer.getAll().filter(query.matches);
+                const limit = parseInt(params.get('limit') || '0', 10);
+                if (limit > 0) {
+                    logs = logs.slice(-limit);
+                }
                 res.end(JSON.stringify({ count: logs.length, logs }, null, 2));
+            } else if (url === "/api/native-logs" || url === "/api/native-logs/") {
+                const priority = (params.get('priority') || '').toUpperCase();
+                const merged = params.get('merged') === 'true';
+                const result = getNativeLogs({
+                    tag: params.get('tag') || undefined,
+                    priority: (NATIVE_LOG_PRIORITIES as readonly string[]).includes(priority) ? priority as NativeLogPriority : undefined,
+                    text: params.get('text') || undefined,
+                    pattern: params.get('pattern') || undefined,
+                    since: params.get('since') || undefined,
+                    deviceId: params.get('deviceId') || undefined,
+                    appKey: params.get('appKey') || undefined,
+                    maxLogs: 0,
+                    includeJs: merged
+                });
+                if (result.error) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: result.error }));
+                    return;
+                }
+                const limit = parseInt(params.get('limit') || '0', 10);
+                let entries: Array<Record<string, unknown>> = result.entries.map(entry => ({ source: 'native', ...entry }));
+                if (merged) {
+                    // ReactNativeJS entries repeat the JS console logs
+                    entries = entries
+                        .filter(entry => entry.tag !== REACT_NATIVE_JS_TAG)
+                        .concat((result.jsEntries ?? []).map(entry => ({ source: 'js', ...entry })))
+                        .sort((a, b) => (a.timestamp as Date).getTime() - (b.timestamp as Date).getTime());
+                }
+                if (limit > 0) {
+                    entries = entries.slice(-limit);
+                }
+                res.end(JSON.stringify({ count: entries.length, streams: getNativeLogStreams(), entries }, null, 2));
             } else if (url === "/api/network" || url === "/api/network/") {
-                const requests = networkBuffer.getAll({});
+                const requests = networkBuffer.getAll({ appKey: params.get('appKey') || undefined });
                 res.end(JSON.stringify({ count: requests.length, requests }, null, 2));
+            } else if (url === "/api/network.har") {
+                const requests = networkBuffer.getAll({
+                    appKey: params.get('appKey') || undefined,
+                    urlPattern: params.get('urlPattern') || undefined
+                });
+                res.setHeader("Content-Disposition", 'attachment; filename="network.har"');
+                res.end(JSON.stringify(buildHar(requests), null, 2));
             } else if (url === "/api/bundle-errors" || url === "/api/bundle-errors/") {
                 const errors = bundleErrorBuffer.get();
                 const status = bundleErrorBuffer.getStatus();
                 res.end(JSON.stringify({ status, count: errors.length, errors }, null, 2));
+            } else if (url === "/api/exceptions" || url === "/api/exceptions/") {
+                let exceptions = exceptionBuffer.getAll();
+                const exceptionAppKey = params.get('appKey');
+                if (exceptionAppKey) {
+                    exceptions = exceptions.filter(entry => entry.appKey === exceptionAppKey);
+                }
+                if (params.get('fatal') === 'true') {
+                    exceptions = exceptions.filter(entry => entry.isFatal);
+                }
+                const counts = exceptionBuffer.getCounts();
+                res.end(JSON.stringify({ ...counts, count: exceptions.length, exceptions }, null, 2));
+            } else if (url === "/api/traces" || url === "/api/traces/") {
+                const query = compileLogQuery({
+                    text: params.get('text') || undefined,
+                    pattern: params.get('pattern') || undefined,
+                    exclude: params.get('exclude') || undefined,
+                    since: params.get('since') || undefined,
+                    until: params.get('until') || undefined,
+                    where: params.get('where') || undefined,
+                    appKey: params.get('appKey') || undefined
+                });
+                if (!query.matches) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: query.error }));
+                    return;
+                }
+                let traces = traceBuffer.getAll().filter(query.matches);
+                const traceKind = params.get('kind');
+                if (traceKind) {
+                    traces = traces.filter(entry => entry.kind === traceKind);
+                }
+                const limit = parseInt(params.get('limit') || '0', 10);
+                if (limit > 0) {
+                    traces = traces.slice(-limit);
+                }
+                res.end(JSON.stringify({ count: traces.length, traces }, null, 2));
+            } else if (url === "/api/redux-actions" || url === "/api/redux-actions/") {
+                const { actions, error } = getReduxActions(reduxActionBuffer, {
+                    maxActions: parseInt(params.get('limit') || '0', 10),
+                    type: params.get('type') || undefined,
+                    path: params.get('path') || undefined,
+                    since: params.get('since') || undefined,
+                    until: params.get('until') || undefined,
+                    appKey: params.get('appKey') || undefined
+                });
+                if (error) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error }));
+                    return;
+                }
+                res.end(JSON.stringify({ count: actions.length, actions }, null, 2));
+            } else if (url === "/api/route-timeline" || url === "/api/route-timeline/") {
+                const { visits, error } = getScreenVisits(routeChangeBuffer, logBuffer.getAll(), networkBuffer.getAll(), {
+                    appKey: params.get('appKey') || undefined,
+                    screen: params.get('screen') || undefined,
+                    since: params.get('since') || undefined,
+                    maxVisits: parseInt(params.get('limit') || '0', 10)
+                });
+                if (error) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error }));
+                    return;
+                }
+                const timeline = visits.map(visit => ({
+                    ...visit.change,
+                    endedAt: visit.endedAt,
+                    logs: visit.logs.length,
+                    errors: visit.logs.filter(log => log.level === 'error').length,
+                    requestIds: visit.requests.map(request => request.requestId)
+                }));
+                res.end(JSON.stringify({ count: timeline.length, visits: timeline }, null, 2));
+            } else if (url === "/api/test-report" || url === "/api/test-report/" || url === "/api/test-report.xml") {
+                const format = url === "/api/test-report.xml" || params.get('format') === 'junit' ? 'junit' : 'json';
+                const suite = params.get('suite') || undefined;
+                if (format === 'junit') {
+                    res.setHeader("Content-Type", "application/xml; charset=utf-8");
+                }
+                if (params.get('download') === 'true') {
+                    res.setHeader("Content-Disposition", `attachment; filename="test-report.${format === 'junit' ? 'xml' : 'json'}"`);
+                }
+                res.end(renderTestReport(testReportBuffer, { format, suite }));
             } else if (url === "/api/apps" || url === "/api/apps/") {
+                const selectedAppKey = getSelectedAppKey();
                 const apps = Array.from(connectedApps.entries()).map(([id, app]) => ({
                     id,
                     deviceInfo: app.deviceInfo,
                     port: app.port,
-                    connected: app.ws.readyState === 1 // WebSocket.OPEN
+                    connected: app.ws.readyState === 1, // WebSocket.OPEN
+                    selected: id === selectedAppKey
                 }));
-                res.end(JSON.stringify({ count: apps.length, apps }, null, 2));
+                res.end(JSON.stringify({ count: apps.length, selectedAppKey, apps }, null, 2));
             } else if (url === "/api/status" || url === "/api/status/") {
                 const status = {
                     logs: logBuffer.size,
                     networkRequests: networkBuffer.size,
                     bundleErrors: bundleErrorBuffer.get().length,
+                    exceptions: exceptionBuffer.size,
+                    traces: traceBuffer.size,
+                    reduxActions: reduxActionBuffer.size,
+                    routeChanges: routeChangeBuffer.size,
+                    nativeLogs: nativeLogBuffer.size,
+                    assertions: testReportBuffer.size,
                     connectedApps: connectedApps.size,
                     bundleStatus: bundleErrorBuffer.getStatus()
                 };
@@ -2175,12 +3207,12 @@ function createRequestHandler() {
                 req.on('end', async () => {
                     try {
                         const data = JSON.parse(body);
-                        const { expression, awaitPromise = true } = data;
+                        const { expression, awaitPromise = true, appKey, device } = data;
                         if (!expression || typeof expression !== 'string') {
                             res.end(JSON.stringify({ success: false, error: 'expression is required' }));
                             return;
                         }
-                        const result = await executeInApp(expression, awaitPromise);
+                        const result = await executeInApp(expression, awaitPromise, { target: { appKey, device } });
                         res.end(JSON.stringify(result, null, 2));
                     } catch (err) {
                         res.end(JSON.stringify({ success: false, error: String(err) }));
@@ -2225,6 +3257,68 @@ function createRequestHandler() {
                         res.end(JSON.stringify({ success: false, error: String(err) }));
                     }
                 }
+            } else if (url === "/api/storage" || url === "/api/storage/") {
+                // Storages and their keys
+                const result = await listStorages({}, {
+                    storage: params.get('storage') || undefined,
+                    keyPattern: params.get('keyPattern') || undefined,
+                    maxKeys: parseInt(params.get('maxKeys') || '1000', 10)
+                });
+                res.end(JSON.stringify(result, null, 2));
+            } else if (url === "/api/storage/item" && req.method === "POST") {
+                // Write a storage key
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', async () => {
+                    try {
+                        const { storage, key, value, valueType } = JSON.parse(body);
+                        if (typeof key !== 'string' || typeof value !== 'string') {
+                            res.end(JSON.stringify({ success: false, error: 'key and value are required' }));
+                            return;
+                        }
+                        const result = await setStorageItem({}, key, value, { storage, valueType });
+                        res.end(JSON.stringify(result, null, 2));
+                    } catch (err) {
+                        res.end(JSON.stringify({ success: false, error: String(err) }));
+                    }
+                });
+                return;
+            } else if (url === "/api/storage/item") {
+                // Read a storage key
+                const key = params.get('key');
+                if (!key) {
+                    res.end(JSON.stringify({ success: false, error: 'key is required' }));
+                } else {
+                    const result = await getStorageItem({}, key, { storage: params.get('storage') || undefined });
+                    res.end(JSON.stringify(result, null, 2));
+                }
+            } else if (url === "/api/storage/remove" && req.method === "POST") {
+                // Delete a storage key
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', async () => {
+                    try {
+                        const { storage, key } = JSON.parse(body);
+                        if (typeof key !== 'string') {
+                            res.end(JSON.stringify({ success: false, error: 'key is required' }));
+                            return;
+                        }
+                        const result = await removeStorageItem({}, key, { storage });
+                        res.end(JSON.stringify(result, null, 2));
+                    } catch (err) {
+                        res.end(JSON.stringify({ success: false, error: String(err) }));
+                    }
+                });
+                return;
+            } else if (url === "/api/storage/export") {
+                // Whole storage as a key -> value JSON object
+                const result = await exportStorage({}, { storage: params.get('storage') || undefined });
+                if (!result.success) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify(result, null, 2));
+                } else {
+                    res.end(JSON.stringify(result.data, null, 2));
+                }
             } else if (url === "/api/tap-verifier/devices") {
                 const platform = params.get('platform') || 'android';
                 try {
@@ -2280,10 +3374,11 @@ function createRequestHandler() {
                 const deviceId = params.get('deviceId') || undefined;
                 try {
                     if (platform === 'android') {
-                        const result = await androidScreenshot(deviceId);
+                        const result = await androidScreenshot(undefined, deviceId);
                         if (result.success && result.data) {
                             const base64 = result.data.toString('base64');
-                            res.end(JSON.stringify({ success: true, image: base64 }));
+                            // Android taps use screenshot pixels
+                            res.end(JSON.stringify({ success: true, image: base64, width: result.originalWidth, height: result.originalHeight }));
                         } else {
                             res.end(JSON.stringify({ success: false, error: result.error || 'Failed to take screenshot' }));
                         }
@@ -2291,7 +3386,16 @@ function createRequestHandler() {
                         const result = await iosScreenshot(undefined, deviceId);
                         if (result.success && result.data) {
                             const base64 = result.data.toString('base64');
-                            res.end(JSON.stringify({ success: true, image: base64 }));
+                            // iOS taps use points
+                            const ratio = result.originalWidth && result.originalHeight
+                                ? inferIOSDevicePixelRatio(result.originalWidth, result.originalHeight)
+                                : 1;
+                            res.end(JSON.stringify({
+                                success: true,
+                                image: base64,
+                                width: result.originalWidth ? Math.round(result.originalWidth / ratio) : undefined,
+                                height: result.originalHeight ? Math.round(result.originalHeight / ratio) : undefined
+                            }));
                         } else {
                             res.end(JSON.stringify({ success: false, error: result.error || 'Failed to take screenshot' }));
                         }
@@ -2314,8 +3418,9 @@ function createRequestHandler() {
                         }
 
                         if (platform === 'android') {
-                            const result = await androidTap(x, y, deviceId);
-                            res.end(JSON.stringify({ success: result.success, error: result.error }));
+                            // Recorded as a flow step while a recording is active
+                            const result = await recorderTap(x, y, deviceId);
+                            res.end(JSON.stringify({ success: result.success, error: result.error, recorded: result.recorded }));
                         } else {
                             const result = await iosTap(x, y, { udid: deviceId });
                             res.end(JSON.stringify({ success: result.success, error: result.error }));
@@ -2325,6 +3430,82 @@ function createRequestHandler() {
                     }
                 });
                 return; // Important: return here since we're handling the response asynchronously
+            } else if ((url === "/api/tap-verifier/swipe" || url === "/api/tap-verifier/text" || url === "/api/tap-verifier/key") && req.method === "POST") {
+                // Android actions, recorded as flow steps while a recording is active
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', async () => {
+                    try {
+                        const data = JSON.parse(body);
+                        const { platform = 'android', deviceId } = data;
+                        if (platform !== 'android') {
+                            res.end(JSON.stringify({ success: false, error: 'Swipe, text and key actions are only supported on Android here' }));
+                            return;
+                        }
+
+                        let result;
+                        if (url === "/api/tap-verifier/swipe") {
+                            const { startX, startY, endX, endY, durationMs } = data;
+                            if ([startX, startY, endX, endY].some(value => typeof value !== 'number')) {
+                                res.end(JSON.stringify({ success: false, error: 'startX, startY, endX and endY must be numbers' }));
+                                return;
+                            }
+                            result = await recorderSwipe({ startX, startY, endX, endY, durationMs }, deviceId);
+                        } else if (url === "/api/tap-verifier/text") {
+                            if (typeof data.text !== 'string' || data.text === '') {
+                                res.end(JSON.stringify({ success: false, error: 'text is required' }));
+                                return;
+                            }
+                            result = await recorderInputText(data.text, deviceId);
+                        } else {
+                            if (typeof data.key !== 'string') {
+                                res.end(JSON.stringify({ success: false, error: 'key is required' }));
+                                return;
+                            }
+                            result = await recorderKeyEvent(data.key, deviceId);
+                        }
+                        res.end(JSON.stringify(result));
+                    } catch (err) {
+                        res.end(JSON.stringify({ success: false, error: String(err) }));
+                    }
+                });
+                return;
+            } else if (url === "/api/tap-verifier/recording") {
+                res.end(JSON.stringify({ recording: getFlowRecording() }, null, 2));
+            } else if ((url === "/api/tap-verifier/recording/start" || url === "/api/tap-verifier/recording/stop" || url === "/api/tap-verifier/recording/remove") && req.method === "POST") {
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => {
+                    try {
+                        const data = body ? JSON.parse(body) : {};
+                        if (url === "/api/tap-verifier/recording/start") {
+                            const recording = startFlowRecording({ name: data.name || undefined, deviceId: data.deviceId || undefined });
+                            res.end(JSON.stringify({ success: true, recording }));
+                        } else if (url === "/api/tap-verifier/recording/stop") {
+                            const recording = stopFlowRecording();
+                            res.end(JSON.stringify({ success: recording !== null, recording, error: recording ? undefined : 'Nothing is being recorded' }));
+                        } else {
+                            const removed = removeRecordedAction(Number(data.id));
+                            res.end(JSON.stringify({ success: removed, recording: getFlowRecording(), error: removed ? undefined : 'No such recorded action' }));
+                        }
+                    } catch (err) {
+                        res.end(JSON.stringify({ success: false, error: String(err) }));
+                    }
+                });
+                return;
+            } else if (url === "/api/tap-verifier/recording/export") {
+                const recording = getFlowRecording();
+                if (!recording || recording.actions.length === 0) {
+                    res.statusCode = 404;
+                    res.end(JSON.stringify({ error: 'No recorded actions to export' }));
+                    return;
+                }
+                const format = params.get('format') === 'json' ? 'json' : 'yaml';
+                const flow = exportFlowRecording(recording, { format, waitForElements: params.get('waits') !== 'false' });
+                const fileName = recording.name.replace(/[^\w.-]+/g, '_') + (format === 'json' ? '.json' : '.yaml');
+                res.setHeader("Content-Type", format === 'json' ? "application/json" : "text/yaml; charset=utf-8");
+                res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+                res.end(flow);
             } else if (url === "/api/tap-verifier/mark" && req.method === "POST") {
                 // Add a marker to the tap verifier (agent can mark calculated coordinates)
                 let body = '';
@@ -2430,27 +3611,49 @@ function createRequestHandler() {
                         "/logs": "Console logs (colored)",
                         "/network": "Network requests",
                         "/bundle-errors": "Bundle/compilation errors",
+                        "/exceptions": "Uncaught JS exceptions and unhandled promise rejections",
+                        "/redux": "Redux action timeline with state diffs",
                         "/apps": "Connected apps with connection health",
                         "/repl": "JavaScript REPL for code execution",
                         "/component-tree": "React component tree viewer",
                         "/globals": "Debug globals explorer",
+                        "/storage": "AsyncStorage / MMKV inspector",
                         "/tap-verifier": "Tap coordinate verification tool"
                     },
                     api: {
                         "/api/status": "Overall server status and buffer sizes",
-                        "/api/logs": "All captured console logs (JSON)",
-                        "/api/network": "All captured network requests (JSON)",
+                        "/api/logs": "Captured console logs (JSON). Query: level, text, pattern, exclude, since, until, where, appKey, limit",
+                        "/api/native-logs": "Android logcat entries of the app (JSON). Query: tag, priority (V/D/I/W/E/F), text, pattern, since, deviceId, limit, merged=true (interleave JS logs), appKey",
+                        "/api/network": "All captured network requests (JSON). Query: appKey",
+                        "/api/network.har": "Captured network requests as a HAR 1.2 download. Query: appKey, urlPattern",
                         "/api/bundle-errors": "Metro bundle/compilation errors (JSON)",
-                        "/api/apps": "Connected React Native apps (JSON)",
+                        "/api/exceptions": "Captured JS exceptions with source-mapped frames (JSON). Query: fatal=true, appKey",
+                        "/api/redux-actions": "Recorded Redux actions with state diffs (JSON). Query: type, path, since, until, appKey, limit",
+                        "/api/route-timeline": "Screen visits with attributed log counts and network request ids (JSON). Query: screen, since, appKey, limit",
+                        "/api/test-report": "Assertion results as a test report (JSON, or JUnit XML with format=junit or /api/test-report.xml). Query: suite, download=true",
+                        "/api/traces": "Traced function calls and logpoint hits (JSON). Query: kind, text, pattern, exclude, since, until, where, appKey, limit",
+                        "/api/apps": "Connected React Native apps and the selected default target (JSON)",
                         "/api/connection-status": "Connection states and context health for all apps",
-                        "/api/execute": "Execute JavaScript in the app (POST: expression, awaitPromise?)",
+                        "/api/execute": "Execute JavaScript in the app (POST: expression, awaitPromise?, appKey?, device?)",
                         "/api/component-tree": "Get React component tree (query: maxDepth, focusedOnly, structureOnly, includeProps)",
                         "/api/globals": "List available debug globals",
                         "/api/globals/:name": "Inspect a specific global object",
+                        "/api/storage": "AsyncStorage / MMKV instances with keys and value sizes (JSON). Query: storage, keyPattern, maxKeys",
+                        "/api/storage/item": "Read a key (GET, query: storage, key) or write one (POST {storage, key, value, valueType})",
+                        "/api/storage/remove": "Delete a key (POST {storage, key})",
+                        "/api/storage/export": "Export a storage as a key -> value JSON object. Query: storage",
                         "/api/tap-verifier/devices": "List available devices (query: platform=android|ios)",
                         "/api/tap-verifier/screen-size": "Get device screen size (query: platform, deviceId)",
                         "/api/tap-verifier/screenshot": "Get device screenshot as base64 (query: platform, deviceId)",
-                        "/api/tap-verifier/execute": "Execute tap at coordinates (POST: platform, x, y, deviceId)",
+                        "/api/tap-verifier/execute": "Execute tap at coordinates (POST: platform, x, y, deviceId). Recorded while a flow recording is active",
+                        "/api/tap-verifier/swipe": "Execute an Android swipe (POST: startX, startY, endX, endY, durationMs?, deviceId?)",
+                        "/api/tap-verifier/text": "Type text on Android (POST: text, deviceId?)",
+                        "/api/tap-verifier/key": "Send an Android key event (POST: key, deviceId?)",
+                        "/api/tap-verifier/recording": "Current flow recording with its actions (GET)",
+                        "/api/tap-verifier/recording/start": "Start recording executed actions as flow steps (POST: name?, deviceId?)",
+                        "/api/tap-verifier/recording/stop": "Stop the flow recording (POST)",
+                        "/api/tap-verifier/recording/remove": "Remove a recorded action (POST: id)",
+                        "/api/tap-verifier/recording/export": "Download the recording as a run_flow file (query: format=yaml|json, waits=false to skip waitForElement steps)",
                         "/api/tap-verifier/mark": "Add a marker to visualize agent-calculated coordinates (POST: x, y, label?, color?)",
                         "/api/tap-verifier/markers": "Get all agent-added markers (GET)",
                         "/api/tap-verifier/clear-markers": "Clear all agent-added markers (POST)",
@@ -31,14 +31,26 @@ export {
     markContextHealthy,
     clearContextHealth,
     getAllContextHealth,
+    // App crash tracking
+    recordAppCrash,
+    getRecentAppCrashes,
 } from "./connectionState.js";
 
 // State
-export { logBuffer, networkBuffer, bundleErrorBuffer, connectedApps, pendingExecutions, getNextMessageId, getActiveSimulatorUdid } from "./state.js";
+export { logBuffer, networkBuffer, bundleErrorBuffer, exceptionBuffer, traceBuffer, reduxActionBuffer, routeChangeBuffer, testReportBuffer, nativeLogBuffer, connectedApps, pendingExecutions, debuggerPauses, getNextMessageId, getActiveSimulatorUdid, getSelectedAppKey, setSelectedAppKey } from "./state.js";
 
 // Logs
 export { LogBuffer, mapConsoleType, formatLogs, getLogs, searchLogs, getLogSummary } from "./logs.js";
 
+// Log queries
+export {
+    parseTimeBound,
+    parseArgsPredicates,
+    compileLogQuery,
+    describeLogQuery
+} from "./logQuery.js";
+export type { LogQuery, CompiledLogQuery, ArgsPredicate } from "./logQuery.js";
+
 // Network
 export {
     NetworkBuffer,
@@ -47,9 +59,67 @@ export {
     formatRequestDetails,
     getNetworkRequests,
     searchNetworkRequests,
-    getNetworkStats
+    getNetworkStats,
+    DEFAULT_RESPONSE_BODY_CONFIG,
+    getResponseBodyCaptureConfig,
+    updateResponseBodyCaptureConfig,
+    isCapturableMimeType
 } from "./network.js";
 
+// HAR (network export/import)
+export { buildHar, exportNetworkHar, importNetworkHar } from "./har.js";
+export type { Har, HarResult } from "./har.js";
+
+// Network mocking
+export {
+    addNetworkMock,
+    listNetworkMocks,
+    removeNetworkMock,
+    syncNetworkMocks,
+    formatNetworkMock
+} from "./mocks.js";
+export type { AddNetworkMockOptions, NetworkMockResult } from "./mocks.js";
+
+// Session recording
+export {
+    SESSIONS_DIR,
+    isSessionRecording,
+    getActiveSessionId,
+    startSessionRecording,
+    stopSessionRecording,
+    initSessionRecorder,
+    recordSessionGap,
+    listSessions,
+    loadSession
+} from "./session.js";
+export type { SessionInfo, SessionResult } from "./session.js";
+
+// Runtime event channel (injected helpers -> server)
+export {
+    RUNTIME_EVENT_BINDING,
+    RUNTIME_EVENT_MARKER,
+    RUNTIME_EMIT_SNIPPET,
+    registerRuntimeEventHandler,
+    dispatchRuntimeEvent,
+    addContextCreatedListener,
+    notifyContextCreated,
+    addAppKeyChangedListener,
+    notifyAppKeyChanged
+} from "./runtimeEvents.js";
+
+// Source map symbolication
+export {
+    fromCDPCallFrames,
+    parseStackFrames,
+    isBundleFrame,
+    symbolicateFrames,
+    formatFrameLocation,
+    formatStackFrame,
+    formatStackFrames,
+    getTopFrame
+} from "./symbolicate.js";
+export type { SymbolicationResult } from "./symbolicate.js";
+
 // Metro
 export {
     COMMON_PORTS,
@@ -57,6 +127,8 @@ export {
     scanMetroPorts,
     fetchDevices,
     selectMainDevice,
+    selectMainDevices,
+    selectReconnectDevice,
     discoverMetroDevices,
     checkMetroState
 } from "./metro.js";
@@ -66,6 +138,8 @@ export type { MetroState } from "./metro.js";
 // Connection
 export {
     formatRemoteObject,
+    sendCDPCommand,
+    addCDPEventListener,
     handleCDPMessage,
     connectToDevice,
     getConnectedApps,
@@ -73,8 +147,12 @@ export {
     hasConnectedApp,
     runQuickHealthCheck,
     ensureConnection,
+    resolveTargetApp,
+    resolveKnownAppKey,
 } from "./connection.js";
 
+export type { TargetAppResolution, CDPEventListener } from "./connection.js";
+
 // Executor
 export {
     executeInApp,
@@ -90,14 +168,80 @@ export {
     inspectAtPoint,
     toggleElementInspector,
     isInspectorActive,
-    getInspectorSelection
+    getInspectorSelection,
+    // Component state overrides
+    updateComponentState,
+    // Tap by component
+    findComponentOnScreen
 } from "./executor.js";
+export { tapComponent, formatTappedComponent } from "./tapComponent.js";
+export type { TappedComponent, TapComponentResult } from "./tapComponent.js";
+
+// UI flows
+export { FLOWS_DIR, FLOW_ACTIONS, parseFlow, loadFlowFile, runFlow, formatFlowReport, formatFlowAsYaml } from "./flows.js";
+export type { Flow, FlowStep, FlowAction, FlowStepActions, FlowStepReport, FlowReport } from "./flows.js";
+
+// Flow recording
+export {
+    startFlowRecording,
+    stopFlowRecording,
+    getFlowRecording,
+    isFlowRecordingActive,
+    removeRecordedAction,
+    recorderTap,
+    recorderSwipe,
+    recorderInputText,
+    recorderKeyEvent,
+    recordingToFlow,
+    exportFlowRecording
+} from "./flowRecorder.js";
+export type { RecordedAction, FlowRecording, RecorderActionResult } from "./flowRecorder.js";
+
+// Native logs (Android logcat)
+export {
+    NATIVE_LOG_PRIORITIES,
+    REACT_NATIVE_JS_TAG,
+    NativeLogBuffer,
+    parseLogcatLine,
+    formatNativeLogs,
+    formatMergedLogs
+} from "./logcat.js";
+export type { NativeLogPriority, LogcatLine, NativeLogEntry, NativeLogQuery } from "./logcat.js";
+export {
+    startNativeLogs,
+    stopNativeLogs,
+    getNativeLogStreams,
+    formatNativeLogStreams,
+    getCrashDetectionStatus,
+    getNativeLogs
+} from "./nativeLogs.js";
+export type { NativeLogStream } from "./nativeLogs.js";
+
+// Crash detection (logcat)
+export { CrashDetector, formatCrashReason, formatAppCrash } from "./crashDetector.js";
+export type { DetectedCrash } from "./crashDetector.js";
+
+// Assertions and test report
+export { assertLog, assertNetwork, assertElementVisible, assertExpression } from "./assertions.js";
+export type { AssertionOptions, AssertResult } from "./assertions.js";
+export {
+    TestReportBuffer,
+    DEFAULT_TEST_SUITE,
+    buildTestReport,
+    formatTestReport,
+    formatJUnitReport,
+    formatAssertionResult,
+    renderTestReport,
+    exportTestReport
+} from "./testReport.js";
+export type { AssertionKind, AssertionResult, TestSuiteSummary, TestReport, TestReportFormat } from "./testReport.js";
 
 // Android (ADB)
 export {
     isAdbAvailable,
     listAndroidDevices,
     getDefaultAndroidDevice,
+    getReadyAndroidDevices,
     androidScreenshot,
     androidInstallApp,
     androidLaunchApp,
@@ -115,11 +259,21 @@ export {
     // Accessibility (UI Hierarchy)
     androidDescribeAll,
     androidDescribePoint,
+    findElementAtPoint,
+    filterAccessibilityElements,
     androidTapElement,
     // UI Accessibility (Element Finding)
     androidGetUITree,
     androidFindElement,
-    androidWaitForElement
+    androidWaitForElement,
+    // Screen recording
+    isFfmpegAvailable,
+    androidStartRecording,
+    androidStopRecording,
+    MAX_RECORDING_FRAMES,
+    getActiveRecordings,
+    extractVideoFrames,
+    buildFrameGrid
 } from "./android.js";
 
 // Android types
@@ -129,7 +283,9 @@ export type {
     AndroidUIElement,
     FindElementResult,
     WaitForElementResult,
-    FindElementOptions
+    FindElementOptions,
+    RecordingFrame,
+    AndroidRecordingResult
 } from "./android.js";
 
 // iOS (simctl + IDB)
@@ -189,6 +345,161 @@ export {
     getBundleStatusWithErrors
 } from "./bundle.js";
 
+// Exceptions (uncaught JS exceptions and unhandled rejections)
+export {
+    ExceptionBuffer,
+    ERROR_HANDLER_HOOK_SCRIPT,
+    parseUnhandledRejectionWarning,
+    formatException,
+    formatExceptions,
+    getExceptions
+} from "./exceptions.js";
+export type { ExceptionEntry, ExceptionSource } from "./exceptions.js";
+
+// Debugger (breakpoints, pausing, call-frame evaluation)
+export {
+    setBreakpoint,
+    removeBreakpoint,
+    listBreakpoints,
+    getDebuggerPause,
+    getPauseState,
+    evaluateOnCallFrame,
+    debuggerStep,
+    formatDebuggerPause,
+    formatScopes,
+    formatBreakpoints
+} from "./debugger.js";
+export type { Breakpoint, ScopeVariables, DebuggerResult, DebuggerStepAction } from "./debugger.js";
+
+// Function tracing and logpoints (trace buffer)
+export {
+    TraceBuffer,
+    TRACE_HELPER_SCRIPT,
+    buildLogpointCondition,
+    describeTrace,
+    formatTraces,
+    getTraces
+} from "./trace.js";
+export type { TraceEntry, TraceKind } from "./trace.js";
+export {
+    installTraceHelper,
+    traceFunction,
+    untraceFunction,
+    listTracedFunctions,
+    formatTracedFunctions
+} from "./tracer.js";
+export type { TracedFunction, TraceResult } from "./tracer.js";
+
+// Watch expressions
+export {
+    addWatch,
+    removeWatch,
+    refreshWatch,
+    listWatches,
+    getWatch,
+    formatWatch,
+    formatWatches,
+    formatWatchHistory
+} from "./watches.js";
+export type { Watch, WatchChange, WatchTrigger, WatchResult } from "./watches.js";
+
+// Redux action tracking
+export {
+    ReduxActionBuffer,
+    REDUX_UNHOOK_SCRIPT,
+    buildReduxHookScript,
+    formatStateChange,
+    formatReduxActions,
+    getReduxActions
+} from "./reduxActions.js";
+export type { ReduxActionEntry, ReduxActionSource, ReduxStateChange } from "./reduxActions.js";
+export { startReduxTracking, stopReduxTracking, getReduxTracking } from "./redux.js";
+export type { ReduxTracking, ReduxTrackingResult } from "./redux.js";
+
+// Navigation state and route timeline
+export {
+    RouteChangeBuffer,
+    getScreenVisits,
+    formatScreenVisits,
+    formatNavigationState
+} from "./navigationTimeline.js";
+export type { RouteChange, ScreenVisit, NavigationStateInfo } from "./navigationTimeline.js";
+export {
+    getNavigationState,
+    listRoutes,
+    navigateTo,
+    resetNavigation,
+    goBack,
+    startNavigationTracking,
+    stopNavigationTracking,
+    getNavigationTracking
+} from "./navigation.js";
+export type { NavigationTracking, NavigationResult, NavigationRoutes } from "./navigation.js";
+
+// Persisted storage (AsyncStorage / MMKV)
+export {
+    listStorages,
+    getStorageItem,
+    setStorageItem,
+    removeStorageItem,
+    exportStorage,
+    importStorage,
+    formatStorages
+} from "./storage.js";
+export type { StorageKind, StorageKeyInfo, StorageInfo, StorageResult } from "./storage.js";
+
+// Source map lookup (original -> generated)
+export {
+    indexSourceMap,
+    bundleUrlToSourceMapUrl,
+    loadSourceMap,
+    clearSourceMapCache,
+    findSources,
+    lookupGeneratedPosition
+} from "./sourceMaps.js";
+export type { GeneratedPosition, SourceMapIndex, OriginalPositionLookup } from "./sourceMaps.js";
+
+// CPU Profiling
+export {
+    PROFILES_DIR,
+    isCpuProfiling,
+    getCpuProfileStartTime,
+    startCpuProfile,
+    stopCpuProfile,
+    summarizeCpuProfile,
+    formatCpuProfileSummary
+} from "./profiler.js";
+export type { CDPProfile, CpuProfileFunction, CpuProfilePath, CpuProfileSummary, CpuProfileResult } from "./profiler.js";
+
+// React Render Profiling
+export {
+    getRenderProfileStartTime,
+    startRenderProfile,
+    stopRenderProfile,
+    formatRenderProfileReport
+} from "./renderProfiler.js";
+export type { ComponentRenderStats, RenderProfileReport, RenderProfileResult } from "./renderProfiler.js";
+
+// Heap Snapshots
+export {
+    HEAP_SNAPSHOTS_DIR,
+    takeHeapSnapshot,
+    listHeapSnapshots,
+    summarizeHeapSnapshot,
+    compareHeapSnapshots,
+    formatBytes,
+    formatHeapSnapshotSummary,
+    formatHeapSnapshotDiff
+} from "./heapSnapshot.js";
+export type {
+    HeapConstructorStats,
+    HeapSnapshotSummary,
+    HeapConstructorDiff,
+    HeapSnapshotDiff,
+    HeapSnapshotInfo,
+    HeapSnapshotResult
+} from "./heapSnapshot.js";
+
 // Debug HTTP Server
 export { startDebugHttpServer, getDebugServerPort } from "./httpServer.js";
 
@@ -213,5 +524,5 @@ export { parseErrorScreenText, formatParsedError } from "./errorScreenParser.js"
 export type { ParsedErrorScreen } from "./errorScreenParser.js";
 
 // Format utilities (TONL)
-export { formatLogsAsTonl, formatNetworkAsTonl } from "./format.js";
+export { formatLogsAsTonl, formatNetworkAsTonl, formatCpuProfileAsTonl, formatTracesAsTonl, formatReduxActionsAsTonl } from "./format.js";
 export type { OutputFormat } from "./format.js";
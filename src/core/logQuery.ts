@@ -0,0 +1,322 @@
+import { LogEntry, LogLevel } from "./types.js";
+
+// ============================================================================
+// Structured Log Queries
+// ============================================================================
+//
+// Shared query language for get_logs, search_logs and /api/logs:
+//   since / until  - ISO timestamp, epoch ms, local time ("14:32:05"),
+//                    or relative ("30s", "last 5m", "2h ago")
+//   pattern        - regex the message must match
+//   exclude        - regex; matching messages are dropped
+//   where          - predicates over console arguments, joined with &&
+//                    e.g. args[0].userId == 42 && args[1] contains "cart"
+
+export interface LogQuery {
+    level?: LogLevel;
+    text?: string;       // Case-insensitive substring
+    pattern?: string;    // Regex (case-insensitive unless it uses /.../flags form)
+    exclude?: string;    // Regex, same syntax as pattern
+    since?: string;
+    until?: string;
+    where?: string;
+    appKey?: string;     // Only entries from this connection
+}
+
+// Fields a query can match on (log entries and trace entries)
+export type QueryableEntry = Pick<LogEntry, "timestamp" | "message" | "args" | "appKey"> & { level: string };
+
+export interface CompiledLogQuery {
+    success: boolean;
+    matches?: (entry: QueryableEntry) => boolean;
+    error?: string;
+}
+
+type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "matches" | "exists";
+
+export interface ArgsPredicate {
+    path: Array<string | number>;
+    operator: ComparisonOperator;
+    value?: unknown;
+    regex?: RegExp;
+}
+
+const RELATIVE_TIME_PATTERN =
+    /^(?:last\s+|-)?(\d+(?:\.\d+)?)\s*(ms|s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|d|days?)(?:\s+ago)?$/i;
+
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse a time bound: ISO timestamp, epoch milliseconds, local time of day
+ * ("14:32" / "14:32:05"), or a relative duration ("30s", "last 5m", "2h ago").
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date | null {
+    const trimmed = value.trim();
+
+    const relative = trimmed.match(RELATIVE_TIME_PATTERN);
+    if (relative) {
+        const unit = relative[2].toLowerCase();
+        const unitMs = unit === "ms" ? UNIT_MS.ms : UNIT_MS[unit[0]];
+        return new Date(now.getTime() - parseFloat(relative[1]) * unitMs);
+    }
+
+    if (/^\d{10,}$/.test(trimmed)) {
+        return new Date(parseInt(trimmed, 10));
+    }
+
+    const timeOfDay = trimmed.match(/^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/);
+    if (timeOfDay) {
+        const date = new Date(now);
+        date.setHours(
+            parseInt(timeOfDay[1], 10),
+            parseInt(timeOfDay[2], 10),
+            timeOfDay[3] ? parseInt(timeOfDay[3], 10) : 0,
+            timeOfDay[4] ? parseInt(timeOfDay[4].padEnd(3, "0"), 10) : 0
+        );
+        return date;
+    }
+
+    const parsed = Date.parse(trimmed);
+    return isNaN(parsed) ? null : new Date(parsed);
+}
+
+// Compile "text" or "/text/flags" into a RegExp (case-insensitive by default)
+export function compileRegex(source: string): RegExp {
+    const literal = source.match(/^\/(.+)\/([gimsuy]*)$/);
+    if (literal) {
+        return new RegExp(literal[1], literal[2].replace("g", ""));
+    }
+    return new RegExp(source, "i");
+}
+
+// Parse "args[0].user.id" or "args[1][2]" into a property path
+function parsePath(raw: string): Array<string | number> | null {
+    if (!raw.startsWith("args")) {
+        return null;
+    }
+
+    const path: Array<string | number> = [];
+    const tokenPattern = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[(["'])(.*?)\3\]/y;
+    let index = 4;
+    while (index < raw.length) {
+        tokenPattern.lastIndex = index;
+        const token = tokenPattern.exec(raw);
+        if (!token) {
+            return null;
+        }
+        if (token[1] !== undefined) path.push(token[1]);
+        else if (token[2] !== undefined) path.push(parseInt(token[2], 10));
+        else path.push(token[4]);
+        index = tokenPattern.lastIndex;
+    }
+    return path;
+}
+
+// Parse a literal: number, quoted string, true/false/null, or a bare word (string)
+function parseLiteral(raw: string): unknown {
+    const trimmed = raw.trim();
+    const quoted = trimmed.match(/^(["'])(.*)\1$/);
+    if (quoted) return quoted[2];
+    if (trimmed === "true") return true;
+    if (trimmed === "false") return false;
+    if (trimmed === "null") return null;
+    if (trimmed !== "" && !isNaN(Number(trimmed))) return Number(trimmed);
+    return trimmed;
+}
+
+// Split on && outside of quotes
+function splitClauses(expression: string): string[] {
+    const clauses: string[] = [];
+    let quote: string | null = null;
+    let current = "";
+
+    for (let i = 0; i < expression.length; i++) {
+        const char = expression[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === "&" && expression[i + 1] === "&") {
+            clauses.push(current);
+            current = "";
+            i++;
+            continue;
+        }
+        current += char;
+    }
+    clauses.push(current);
+    return clauses.map((clause) => clause.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a `where` expression into predicates over LogEntry.args.
+ * Supported operators: == != > >= < <= contains matches (or a bare path to test existence).
+ */
+export function parseArgsPredicates(expression: string): { predicates?: ArgsPredicate[]; error?: string } {
+    const predicates: ArgsPredicate[] = [];
+
+    for (const clause of splitClauses(expression)) {
+        const match = clause.match(/^(\S+?)\s*(==|!=|>=|<=|>|<|\s+contains\s+|\s+matches\s+)\s*(.+)$/);
+        const rawPath = match ? match[1] : clause;
+        const path = parsePath(rawPath);
+        if (!path) {
+            return { error: `Invalid path "${rawPath}" in where clause "${clause}". Paths must start with args, e.g. args[0].userId` };
+        }
+
+        if (!match) {
+            predicates.push({ path, operator: "exists" });
+            continue;
+        }
+
+        const operator = match[2].trim() as ComparisonOperator;
+        const value = parseLiteral(match[3]);
+
+        if (operator === "matches") {
+            try {
+                predicates.push({ path, operator, regex: compileRegex(String(value)) });
+            } catch (error) {
+                return { error: `Invalid regex in where clause "${clause}": ${error instanceof Error ? error.message : String(error)}` };
+            }
+            continue;
+        }
+
+        predicates.push({ path, operator, value });
+    }
+
+    if (predicates.length === 0) {
+        return { error: "Empty where expression" };
+    }
+    return { predicates };
+}
+
+function resolvePath(args: unknown[] | undefined, path: Array<string | number>): unknown {
+    let current: unknown = args;
+    for (const key of path) {
+        if (current === null || current === undefined) {
+            return undefined;
+        }
+        if (key === "length" && (Array.isArray(current) || typeof current === "string")) {
+            current = current.length;
+            continue;
+        }
+        current = (current as Record<string | number, unknown>)[key];
+    }
+    return current;
+}
+
+function evaluatePredicate(predicate: ArgsPredicate, args: unknown[] | undefined): boolean {
+    const actual = resolvePath(args, predicate.path);
+    const expected = predicate.value;
+
+    switch (predicate.operator) {
+        case "exists":
+            return actual !== undefined && actual !== null;
+        case "==":
+            // Loose comparison so args[0].id == 42 matches "42" captured from previews
+            return actual === expected || (actual !== undefined && actual !== null && String(actual) === String(expected));
+        case "!=":
+            return !(actual === expected || (actual !== undefined && actual !== null && String(actual) === String(expected)));
+        case ">":
+            return Number(actual) > Number(expected);
+        case ">=":
+            return Number(actual) >= Number(expected);
+        case "<":
+            return Number(actual) < Number(expected);
+        case "<=":
+            return Number(actual) <= Number(expected);
+        case "contains":
+            if (Array.isArray(actual)) {
+                return actual.some((item) => String(item) === String(expected));
+            }
+            if (actual === undefined || actual === null) return false;
+            return (typeof actual === "object" ? JSON.stringify(actual) : String(actual))
+                .toLowerCase()
+                .includes(String(expected).toLowerCase());
+        case "matches":
+            if (actual === undefined || actual === null) return false;
+            return predicate.regex!.test(typeof actual === "object" ? JSON.stringify(actual) : String(actual));
+    }
+}
+
+/**
+ * Compile a log query into a matcher, validating regexes, time bounds and predicates
+ */
+export function compileLogQuery(query: LogQuery, now: Date = new Date()): CompiledLogQuery {
+    const checks: Array<(entry: QueryableEntry) => boolean> = [];
+
+    if (query.level && query.level !== "all") {
+        const level = query.level;
+        checks.push((entry) => entry.level === level);
+    }
+
+    if (query.appKey) {
+        const appKey = query.appKey;
+        checks.push((entry) => entry.appKey === appKey);
+    }
+
+    if (query.text) {
+        const text = query.text.toLowerCase();
+        checks.push((entry) => entry.message.toLowerCase().includes(text));
+    }
+
+    for (const [name, source, include] of [
+        ["pattern", query.pattern, true],
+        ["exclude", query.exclude, false]
+    ] as const) {
+        if (!source) continue;
+        let regex: RegExp;
+        try {
+            regex = compileRegex(source);
+        } catch (error) {
+            return {
+                success: false,
+                error: `Invalid ${name} regex: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+        checks.push((entry) => regex.test(entry.message) === include);
+    }
+
+    for (const [name, value] of [
+        ["since", query.since],
+        ["until", query.until]
+    ] as const) {
+        if (!value) continue;
+        const bound = parseTimeBound(value, now);
+        if (!bound) {
+            return {
+                success: false,
+                error: `Invalid ${name} value "${value}". Use an ISO timestamp, a time like "14:32:05", or a relative time like "last 30s".`
+            };
+        }
+        const boundMs = bound.getTime();
+        checks.push(name === "since"
+            ? (entry) => entry.timestamp.getTime() >= boundMs
+            : (entry) => entry.timestamp.getTime() <= boundMs);
+    }
+
+    if (query.where) {
+        const { predicates, error } = parseArgsPredicates(query.where);
+        if (!predicates) {
+            return { success: false, error };
+        }
+        checks.push((entry) => predicates.every((predicate) => evaluatePredicate(predicate, entry.args)));
+    }
+
+    return {
+        success: true,
+        matches: (entry) => checks.every((check) => check(entry))
+    };
+}
+
+/**
+ * Describe the active filters of a query for tool output headers
+ */
+export function describeLogQuery(query: LogQuery): string {
+    const parts: string[] = [];
+    if (query.since) parts.push(`since ${query.since}`);
+    if (query.until) parts.push(`until ${query.until}`);
+    if (query.pattern) parts.push(`pattern ${query.pattern}`);
+    if (query.exclude) parts.push(`exclude ${query.exclude}`);
+    if (query.where) parts.push(`where ${query.where}`);
+    return parts.join(", ");
+}
@@ -0,0 +1,213 @@
+import { LogEntry } from "./types.js";
+import { compileRegex, parseTimeBound } from "./logQuery.js";
+
+// ============================================================================
+// Native Logs (logcat)
+// ============================================================================
+//
+// Entries from `adb logcat -v epoch`, kept for the app's processes only (see
+// nativeLogs.ts for the streams). Epoch timestamps, shifted onto the host
+// clock by the stream, let native entries be interleaved with JS console
+// logs, which only reach the log buffer through CDP and so never include
+// native warnings or crashes.
+
+// Logcat priorities, lowest first
+export const NATIVE_LOG_PRIORITIES = ["V", "D", "I", "W", "E", "F"] as const;
+export type NativeLogPriority = (typeof NATIVE_LOG_PRIORITIES)[number];
+
+// A parsed logcat line (any process)
+export interface LogcatLine {
+    timestamp: Date;
+    pid: number;
+    tid: number;
+    priority: NativeLogPriority;
+    tag: string;
+    message: string;
+}
+
+// A native log entry of the app
+export interface NativeLogEntry extends LogcatLine {
+    id: number;
+    deviceId: string;
+    packageName: string;
+}
+
+// "1697712345.123  1234  1256 E AndroidRuntime: FATAL EXCEPTION: main"
+const EPOCH_LINE_PATTERN = /^\s*(\d+\.\d+)\s+(\d+)\s+(\d+)\s+([VDIWEFA])\s+(.*?)\s*:(?: (.*))?$/;
+
+/**
+ * Parse a line of `logcat -v epoch` output. Returns null for
+ * "--------- beginning of main" separators and anything else unparseable.
+ */
+export function parseLogcatLine(line: string): LogcatLine | null {
+    const match = line.match(EPOCH_LINE_PATTERN);
+    if (!match) {
+        return null;
+    }
+    // "A" (assert) is logged by wtf() and treated as fatal
+    const priority = (match[4] === "A" ? "F" : match[4]) as NativeLogPriority;
+    return {
+        timestamp: new Date(Math.round(parseFloat(match[1]) * 1000)),
+        pid: parseInt(match[2], 10),
+        tid: parseInt(match[3], 10),
+        priority,
+        tag: match[5],
+        message: match[6] ?? ""
+    };
+}
+
+// Filters of get_native_logs and /api/native-logs
+export interface NativeLogQuery {
+    tag?: string;                 // Tag, or comma-separated tags (case-insensitive)
+    priority?: NativeLogPriority; // Minimum priority
+    text?: string;                // Case-insensitive substring of the message
+    pattern?: string;             // Regex the message must match
+    since?: string;
+    deviceId?: string;
+}
+
+/**
+ * Circular buffer of native log entries
+ */
+export class NativeLogBuffer {
+    private entries: NativeLogEntry[] = [];
+    private maxSize: number;
+    private nextId = 1;
+    private listeners: Array<(entry: NativeLogEntry) => void> = [];
+
+    constructor(maxSize: number = 2000) {
+        this.maxSize = maxSize;
+    }
+
+    add(entry: Omit<NativeLogEntry, "id">): NativeLogEntry {
+        const stored: NativeLogEntry = { ...entry, id: this.nextId++ };
+        this.entries.push(stored);
+        if (this.entries.length > this.maxSize) {
+            this.entries.shift();
+        }
+        for (const listener of this.listeners) {
+            listener(stored);
+        }
+        return stored;
+    }
+
+    // Register a callback invoked for every added entry
+    subscribe(listener: (entry: NativeLogEntry) => void): void {
+        this.listeners.push(listener);
+    }
+
+    getAll(): NativeLogEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Entries matching a query, oldest first
+     */
+    query(query: NativeLogQuery): { entries: NativeLogEntry[]; error?: string } {
+        const checks: Array<(entry: NativeLogEntry) => boolean> = [];
+
+        if (query.deviceId) {
+            const deviceId = query.deviceId;
+            checks.push((entry) => entry.deviceId === deviceId);
+        }
+        if (query.tag) {
+            const tags = query.tag.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+            checks.push((entry) => tags.includes(entry.tag.toLowerCase()));
+        }
+        if (query.priority) {
+            const minimum = NATIVE_LOG_PRIORITIES.indexOf(query.priority);
+            checks.push((entry) => NATIVE_LOG_PRIORITIES.indexOf(entry.priority) >= minimum);
+        }
+        if (query.text) {
+            const text = query.text.toLowerCase();
+            checks.push((entry) => entry.message.toLowerCase().includes(text));
+        }
+        if (query.pattern) {
+            let regex: RegExp;
+            try {
+                regex = compileRegex(query.pattern);
+            } catch (error) {
+                return { entries: [], error: `Invalid pattern regex: ${error instanceof Error ? error.message : String(error)}` };
+            }
+            checks.push((entry) => regex.test(entry.message));
+        }
+        if (query.since) {
+            const since = parseTimeBound(query.since);
+            if (!since) {
+                return {
+                    entries: [],
+                    error: `Invalid since value "${query.since}". Use an ISO timestamp, a time like "14:32:05", or a relative time like "last 30s".`
+                };
+            }
+            checks.push((entry) => entry.timestamp >= since);
+        }
+
+        return { entries: this.entries.filter((entry) => checks.every((check) => check(entry))) };
+    }
+
+    clear(): number {
+        const count = this.entries.length;
+        this.entries = [];
+        return count;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+}
+
+// Local time with milliseconds, so native and JS entries can be told apart in order
+function formatTime(date: Date): string {
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, "0");
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+function truncate(message: string, maxLength: number): string {
+    return maxLength > 0 && message.length > maxLength
+        ? message.slice(0, maxLength) + `... [truncated: ${message.length} chars]`
+        : message;
+}
+
+/**
+ * Native log entries in logcat's brief style: "10:41:07.201 E/AndroidRuntime(1234): ..."
+ */
+export function formatNativeLogs(entries: NativeLogEntry[], options: { maxMessageLength?: number } = {}): string {
+    const { maxMessageLength = 500 } = options;
+    return entries
+        .map((entry) => `${formatTime(entry.timestamp)} ${entry.priority}/${entry.tag}(${entry.pid}): ${truncate(entry.message, maxMessageLength)}`)
+        .join("\n");
+}
+
+// Tag React Native uses to mirror console output to logcat
+export const REACT_NATIVE_JS_TAG = "ReactNativeJS";
+
+/**
+ * Native and JS entries interleaved by timestamp (both on the host clock).
+ * Native ReactNativeJS entries are dropped, since they repeat the JS console
+ * logs.
+ */
+export function formatMergedLogs(
+    nativeEntries: NativeLogEntry[],
+    jsEntries: LogEntry[],
+    options: { maxEntries?: number; maxMessageLength?: number } = {}
+): string {
+    const { maxEntries = 100, maxMessageLength = 500 } = options;
+    const lines: Array<{ time: number; order: number; text: string }> = [];
+
+    nativeEntries
+        .filter((entry) => entry.tag !== REACT_NATIVE_JS_TAG)
+        .forEach((entry, order) => lines.push({
+            time: entry.timestamp.getTime(),
+            order,
+            text: `${formatTime(entry.timestamp)} [NATIVE] ${entry.priority}/${entry.tag}(${entry.pid}): ${truncate(entry.message, maxMessageLength)}`
+        }));
+    jsEntries.forEach((entry, order) => lines.push({
+        time: entry.timestamp.getTime(),
+        order,
+        text: `${formatTime(entry.timestamp)} [JS ${entry.level.toUpperCase()}] ${truncate(entry.message, maxMessageLength)}`
+    }));
+
+    // Stable within each source when timestamps tie
+    lines.sort((a, b) => a.time - b.time || a.order - b.order);
+    return lines.slice(-maxEntries).map((line) => line.text).join("\n");
+}
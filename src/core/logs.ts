@@ -1,9 +1,12 @@
 import { LogEntry, LogLevel } from "./types.js";
+import { LogQuery, compileLogQuery } from "./logQuery.js";
+import { formatStackFrames } from "./symbolicate.js";
 
 // Circular buffer for storing logs
 export class LogBuffer {
     private logs: LogEntry[] = [];
     private maxSize: number;
+    private listeners: Array<(entry: LogEntry) => void> = [];
 
     constructor(maxSize: number = 1000) {
         this.maxSize = maxSize;
@@ -14,6 +17,21 @@ export class LogBuffer {
         if (this.logs.length > this.maxSize) {
             this.logs.shift();
         }
+        for (const listener of this.listeners) {
+            listener(entry);
+        }
+    }
+
+    // Register a callback invoked for every added entry, and again when it is updated
+    subscribe(listener: (entry: LogEntry) => void): void {
+        this.listeners.push(listener);
+    }
+
+    // Notify subscribers that an added entry changed (e.g. its stack was symbolicated)
+    update(entry: LogEntry): void {
+        for (const listener of this.listeners) {
+            listener(entry);
+        }
     }
 
     get(count?: number, level?: string, startFromText?: string): LogEntry[] {
@@ -103,10 +121,14 @@ export function formatLogs(
 
     const { maxMessageLength = 500, verbose = false } = options;
 
+    // Label each entry with its device when logs from several apps are mixed
+    const showApp = new Set(logs.map((log) => log.appKey)).size > 1;
+
     return logs
         .map((log) => {
             const time = log.timestamp.toLocaleTimeString();
             const levelTag = `[${log.level.toUpperCase()}]`;
+            const appTag = showApp && log.deviceName ? ` [${log.deviceName}]` : "";
             let message = log.message;
 
             // Apply truncation unless verbose or unlimited
@@ -114,7 +136,10 @@ export function formatLogs(
                 message = message.slice(0, maxMessageLength) + `... [truncated: ${log.message.length} chars]`;
             }
 
-            return `${time} ${levelTag} ${message}`;
+            // Source-mapped call site for errors and warnings
+            const stack = log.stack ? `\n${formatStackFrames(log.stack, 3)}` : "";
+
+            return `${time}${appTag} ${levelTag} ${message}${stack}`;
         })
         .join("\n");
 }
@@ -128,10 +153,19 @@ export function getLogs(
         startFromText?: string;
         maxMessageLength?: number;
         verbose?: boolean;
-    } = {}
-): { logs: LogEntry[]; count: number; formatted: string } {
-    const { maxLogs = 50, level = "all", startFromText, maxMessageLength, verbose } = options;
-    const logs = logBuffer.get(maxLogs, level, startFromText);
+    } & Omit<LogQuery, "level" | "text"> = {}
+): { logs: LogEntry[]; count: number; formatted: string; error?: string } {
+    const { maxLogs = 50, level = "all", startFromText, maxMessageLength, verbose, ...query } = options;
+
+    const compiled = compileLogQuery(query);
+    if (!compiled.matches) {
+        return { logs: [], count: 0, formatted: "", error: compiled.error };
+    }
+
+    let logs = logBuffer.get(undefined, level, startFromText).filter(compiled.matches);
+    if (maxLogs > 0) {
+        logs = logs.slice(0, maxLogs);
+    }
     return {
         logs,
         count: logs.length,
@@ -140,6 +174,7 @@ export function getLogs(
 }
 
 // Search logs with formatting
+// Plain text is a case-insensitive substring; with regex=true it is a regular expression
 export function searchLogs(
     logBuffer: LogBuffer,
     text: string,
@@ -147,10 +182,20 @@ export function searchLogs(
         maxResults?: number;
         maxMessageLength?: number;
         verbose?: boolean;
-    } = {}
-): { logs: LogEntry[]; count: number; formatted: string } {
-    const { maxResults = 50, maxMessageLength, verbose } = options;
-    const logs = logBuffer.search(text, maxResults);
+        regex?: boolean;
+    } & Omit<LogQuery, "text" | "pattern"> = {}
+): { logs: LogEntry[]; count: number; formatted: string; error?: string } {
+    const { maxResults = 50, maxMessageLength, verbose, regex = false, ...query } = options;
+
+    const compiled = compileLogQuery(regex ? { ...query, pattern: text } : { ...query, text });
+    if (!compiled.matches) {
+        return { logs: [], count: 0, formatted: "", error: compiled.error };
+    }
+
+    let logs = logBuffer.getAll().filter(compiled.matches);
+    if (maxResults > 0) {
+        logs = logs.slice(0, maxResults);
+    }
     return {
         logs,
         count: logs.length,
@@ -164,10 +209,11 @@ export function getLogSummary(
     options: {
         lastN?: number;
         maxMessageLength?: number;
+        appKey?: string;
     } = {}
 ): string {
-    const { lastN = 5, maxMessageLength = 100 } = options;
-    const allLogs = logBuffer.getAll();
+    const { lastN = 5, maxMessageLength = 100, appKey } = options;
+    const allLogs = appKey ? logBuffer.getAll().filter((log) => log.appKey === appKey) : logBuffer.getAll();
 
     if (allLogs.length === 0) {
         return "No logs captured yet.";
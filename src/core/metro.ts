@@ -86,6 +86,35 @@ export function selectMainDevice(devices: DeviceInfo[]): DeviceInfo | null {
     );
 }
 
+// Select the main debug target of each physical device.
+// Several apps (e.g. iOS simulator and Android emulator) can share one Metro server.
+export function selectMainDevices(devices: DeviceInfo[]): DeviceInfo[] {
+    const byDevice: Map<string, DeviceInfo[]> = new Map();
+    for (const device of devices) {
+        const key = device.deviceName || device.id;
+        const group = byDevice.get(key) ?? [];
+        group.push(device);
+        byDevice.set(key, group);
+    }
+
+    const selected: DeviceInfo[] = [];
+    for (const group of byDevice.values()) {
+        const main = selectMainDevice(group);
+        if (main) selected.push(main);
+    }
+    return selected;
+}
+
+// Select the target to reconnect to: the same target if it still exists,
+// else the main target on the same physical device, else the main target overall
+export function selectReconnectDevice(devices: DeviceInfo[], previous: DeviceInfo): DeviceInfo | null {
+    return (
+        devices.find((d) => d.id === previous.id) ||
+        selectMainDevice(devices.filter((d) => d.deviceName === previous.deviceName)) ||
+        selectMainDevice(devices)
+    );
+}
+
 // Scan for Metro and return all devices grouped by port
 export async function discoverMetroDevices(
     startPort: number = 8081,
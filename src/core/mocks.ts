@@ -0,0 +1,465 @@
+import { AppTarget, DeviceInfo, NetworkMockMatchType, NetworkMockRule, NetworkRequest } from "./types.js";
+import { networkBuffer } from "./state.js";
+import { executeInApp } from "./executor.js";
+import { getConnectedApps } from "./connection.js";
+import { RUNTIME_EMIT_SNIPPET, registerRuntimeEventHandler, addContextCreatedListener, toAsciiJson } from "./runtimeEvents.js";
+
+// ============================================================================
+// Network Mocking
+// ============================================================================
+//
+// Rules live on the server and are pushed into the app, where a fetch and
+// XMLHttpRequest interceptor serves matching requests without touching the
+// network. Mocked requests never reach the CDP Network domain, so the
+// interceptor reports each hit back and we add a tagged entry to the buffer.
+
+const MOCK_HIT_EVENT = "network_mock_hit";
+
+const mockRules: Map<string, NetworkMockRule> = new Map();
+let nextRuleId = 1;
+let nextHitId = 1;
+
+// Options accepted by addNetworkMock
+export interface AddNetworkMockOptions {
+    urlPattern: string;
+    matchType?: NetworkMockMatchType;
+    method?: string;
+    requestHeaders?: Record<string, string>;
+    status?: number;
+    statusText?: string;
+    responseHeaders?: Record<string, string>;
+    body?: unknown;
+    delayMs?: number;
+    networkError?: string;
+}
+
+// Result of mock operations
+export interface NetworkMockResult {
+    success: boolean;
+    rule?: NetworkMockRule;
+    removed?: number;
+    installed?: boolean;
+    error?: string;
+}
+
+// Shape of a mock hit reported by the in-app interceptor
+interface MockHitPayload {
+    ruleId: string;
+    method: string;
+    url: string;
+    headers?: Record<string, string>;
+    postData?: string;
+    timestamp?: number;
+    duration?: number;
+}
+
+// Convert a URL glob (where * matches any characters) into a regex source
+function globToRegexSource(glob: string): string {
+    return glob
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+}
+
+// Regex source and flags used by the interceptor to match a rule's URL
+function compileUrlPattern(rule: NetworkMockRule): { source: string; flags: string } {
+    if (rule.matchType === "regex") {
+        return { source: rule.urlPattern, flags: "" };
+    }
+    return { source: globToRegexSource(rule.urlPattern), flags: "i" };
+}
+
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === lower) return value;
+    }
+    return undefined;
+}
+
+// Serialize the rules into the form the interceptor consumes
+function buildRuntimeRules(): unknown[] {
+    return Array.from(mockRules.values()).map((rule) => {
+        const { source, flags } = compileUrlPattern(rule);
+        return {
+            id: rule.id,
+            method: rule.method,
+            source,
+            flags,
+            requestHeaders: rule.requestHeaders,
+            status: rule.status,
+            statusText: rule.statusText || "",
+            headers: rule.responseHeaders,
+            body: rule.body,
+            delayMs: rule.delayMs,
+            networkError: rule.networkError
+        };
+    });
+}
+
+// Interceptor installed once per JS context; later syncs only replace the rules
+function buildSyncExpression(): string {
+    return `(function() {
+        ${RUNTIME_EMIT_SNIPPET}
+        var state = globalThis.__RN_AI_DEBUGGER_MOCKS__;
+        if (!state) {
+            state = { installed: false, rules: [] };
+            globalThis.__RN_AI_DEBUGGER_MOCKS__ = state;
+        }
+        state.rules = ${toAsciiJson(buildRuntimeRules())};
+
+        if (state.installed) {
+            return JSON.stringify({ installed: true, rules: state.rules.length });
+        }
+
+        function normalizeHeaders(headers) {
+            var result = {};
+            if (!headers) return result;
+            if (typeof headers.forEach === 'function' && !Array.isArray(headers)) {
+                headers.forEach(function(value, name) { result[String(name).toLowerCase()] = String(value); });
+            } else if (Array.isArray(headers)) {
+                headers.forEach(function(pair) { result[String(pair[0]).toLowerCase()] = String(pair[1]); });
+            } else {
+                Object.keys(headers).forEach(function(name) { result[name.toLowerCase()] = String(headers[name]); });
+            }
+            return result;
+        }
+
+        function findRule(method, url, headers) {
+            for (var i = 0; i < state.rules.length; i++) {
+                var rule = state.rules[i];
+                if (rule.method && rule.method !== method) continue;
+                try {
+                    if (!new RegExp(rule.source, rule.flags).test(url)) continue;
+                } catch (e) {
+                    continue;
+                }
+                var headersMatch = true;
+                if (rule.requestHeaders) {
+                    Object.keys(rule.requestHeaders).forEach(function(name) {
+                        var actual = headers[name];
+                        if (actual === undefined || actual.indexOf(rule.requestHeaders[name]) === -1) headersMatch = false;
+                    });
+                }
+                if (headersMatch) return rule;
+            }
+            return null;
+        }
+
+        function reportHit(rule, method, url, headers, body, startedAt) {
+            __rnAiDebuggerEmit('${MOCK_HIT_EVENT}', {
+                ruleId: rule.id,
+                method: method,
+                url: url,
+                headers: headers,
+                postData: typeof body === 'string' ? body : undefined,
+                timestamp: startedAt,
+                duration: Date.now() - startedAt
+            });
+        }
+
+        var originalFetch = globalThis.fetch;
+        if (typeof originalFetch === 'function') {
+            globalThis.fetch = function(input, init) {
+                var url = typeof input === 'string' ? input : (input && input.url) || String(input);
+                var method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+                var headers = normalizeHeaders((init && init.headers) || (input && input.headers));
+                var rule = findRule(method, url, headers);
+                if (!rule) {
+                    return originalFetch.apply(this, arguments);
+                }
+                var startedAt = Date.now();
+                return new Promise(function(resolve, reject) {
+                    setTimeout(function() {
+                        reportHit(rule, method, url, headers, init && init.body, startedAt);
+                        if (rule.networkError) {
+                            reject(new TypeError(rule.networkError));
+                            return;
+                        }
+                        var noBody = rule.status === 204 || rule.status === 205 || rule.status === 304;
+                        resolve(new Response(noBody ? null : rule.body, {
+                            status: rule.status,
+                            statusText: rule.statusText,
+                            headers: rule.headers
+                        }));
+                    }, rule.delayMs);
+                });
+            };
+        }
+
+        var XHR = globalThis.XMLHttpRequest;
+        if (XHR && XHR.prototype) {
+            var proto = XHR.prototype;
+            var originalOpen = proto.open;
+            var originalSetRequestHeader = proto.setRequestHeader;
+            var originalSend = proto.send;
+
+            proto.open = function(method, url) {
+                this.__rnAiDebuggerMock = { method: String(method || 'GET').toUpperCase(), url: String(url), headers: {} };
+                return originalOpen.apply(this, arguments);
+            };
+
+            proto.setRequestHeader = function(name, value) {
+                if (this.__rnAiDebuggerMock) {
+                    this.__rnAiDebuggerMock.headers[String(name).toLowerCase()] = String(value);
+                }
+                return originalSetRequestHeader.apply(this, arguments);
+            };
+
+            proto.send = function(body) {
+                var info = this.__rnAiDebuggerMock;
+                var rule = info ? findRule(info.method, info.url, info.headers) : null;
+                if (!rule) {
+                    return originalSend.apply(this, arguments);
+                }
+                var xhr = this;
+                var startedAt = Date.now();
+
+                function define(name, value) {
+                    try {
+                        Object.defineProperty(xhr, name, { value: value, configurable: true, writable: true });
+                    } catch (e) {}
+                }
+
+                function fire(type) {
+                    var event = { type: type, target: xhr };
+                    if (typeof xhr.dispatchEvent === 'function') {
+                        try { xhr.dispatchEvent(event); } catch (e) {}
+                    } else if (typeof xhr['on' + type] === 'function') {
+                        try { xhr['on' + type](event); } catch (e) {}
+                    }
+                }
+
+                setTimeout(function() {
+                    reportHit(rule, info.method, info.url, info.headers, body, startedAt);
+                    define('readyState', 4);
+                    if (rule.networkError) {
+                        define('status', 0);
+                        fire('readystatechange');
+                        fire('error');
+                        fire('loadend');
+                        return;
+                    }
+                    var headerLines = Object.keys(rule.headers).map(function(name) {
+                        return name + ': ' + rule.headers[name];
+                    }).join('\\r\\n');
+                    var response = rule.body;
+                    if (xhr.responseType === 'json') {
+                        try { response = JSON.parse(rule.body); } catch (e) { response = null; }
+                    }
+                    define('status', rule.status);
+                    define('statusText', rule.statusText);
+                    define('responseURL', info.url);
+                    define('responseText', rule.body);
+                    define('response', response);
+                    define('getAllResponseHeaders', function() { return headerLines; });
+                    define('getResponseHeader', function(name) {
+                        var lower = String(name).toLowerCase();
+                        for (var key in rule.headers) {
+                            if (key.toLowerCase() === lower) return rule.headers[key];
+                        }
+                        return null;
+                    });
+                    fire('readystatechange');
+                    fire('load');
+                    fire('loadend');
+                }, rule.delayMs);
+            };
+        }
+
+        state.installed = true;
+        return JSON.stringify({ installed: true, rules: state.rules.length });
+    })()`;
+}
+
+/**
+ * Push the current rules into the target app, or into every connected app when no
+ * target is given, installing the interceptor if needed
+ */
+export async function syncNetworkMocks(target?: AppTarget): Promise<{ success: boolean; error?: string }> {
+    const targets: AppTarget[] = target
+        ? [target]
+        : getConnectedApps().filter(({ isConnected }) => isConnected).map(({ key }) => ({ appKey: key }));
+
+    // No app connected: let executeInApp attempt its usual reconnect
+    if (targets.length === 0) {
+        targets.push({});
+    }
+
+    for (const appTarget of targets) {
+        const result = await executeInApp(buildSyncExpression(), false, { target: appTarget });
+        if (!result.success) {
+            return { success: false, error: result.error };
+        }
+    }
+    return { success: true };
+}
+
+/**
+ * Add a mock rule and install it in the connected app.
+ * The rule is kept even if no app is connected; it is installed on the next connection.
+ */
+export async function addNetworkMock(options: AddNetworkMockOptions): Promise<NetworkMockResult> {
+    const matchType = options.matchType ?? "glob";
+
+    if (matchType === "regex") {
+        try {
+            new RegExp(options.urlPattern);
+        } catch (error) {
+            return {
+                success: false,
+                error: `Invalid regex: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    const responseHeaders = { ...(options.responseHeaders ?? {}) };
+    let body: string;
+    if (options.body === undefined || options.body === null) {
+        body = "";
+    } else if (typeof options.body === "string") {
+        body = options.body;
+    } else {
+        body = JSON.stringify(options.body);
+        if (!findHeader(responseHeaders, "content-type")) {
+            responseHeaders["Content-Type"] = "application/json";
+        }
+    }
+
+    let requestHeaders: Record<string, string> | undefined;
+    if (options.requestHeaders && Object.keys(options.requestHeaders).length > 0) {
+        requestHeaders = {};
+        for (const [name, value] of Object.entries(options.requestHeaders)) {
+            requestHeaders[name.toLowerCase()] = value;
+        }
+    }
+
+    const rule: NetworkMockRule = {
+        id: `mock-${nextRuleId++}`,
+        method: options.method ? options.method.toUpperCase() : undefined,
+        urlPattern: options.urlPattern,
+        matchType,
+        requestHeaders,
+        status: options.status ?? 200,
+        statusText: options.statusText,
+        responseHeaders,
+        body,
+        delayMs: options.delayMs ?? 0,
+        networkError: options.networkError,
+        hitCount: 0,
+        createdAt: new Date()
+    };
+
+    mockRules.set(rule.id, rule);
+
+    const sync = await syncNetworkMocks();
+    return {
+        success: true,
+        rule,
+        installed: sync.success,
+        error: sync.success ? undefined : sync.error
+    };
+}
+
+/**
+ * List all mock rules in match order
+ */
+export function listNetworkMocks(): NetworkMockRule[] {
+    return Array.from(mockRules.values());
+}
+
+/**
+ * Remove a mock rule by ID, or all rules when no ID is given
+ */
+export async function removeNetworkMock(id?: string): Promise<NetworkMockResult> {
+    let removed: number;
+    if (id) {
+        if (!mockRules.delete(id)) {
+            return { success: false, error: `Mock rule '${id}' not found. Use list_network_mocks to see active rules.` };
+        }
+        removed = 1;
+    } else {
+        removed = mockRules.size;
+        mockRules.clear();
+    }
+
+    const sync = await syncNetworkMocks();
+    return {
+        success: true,
+        removed,
+        installed: sync.success,
+        error: sync.success ? undefined : sync.error
+    };
+}
+
+// Format a rule as a single line for text output
+export function formatNetworkMock(rule: NetworkMockRule): string {
+    const method = rule.method ?? "*";
+    const response = rule.networkError ? `network error "${rule.networkError}"` : `${rule.status}`;
+    let line = `[${rule.id}] ${method} ${rule.urlPattern} (${rule.matchType}) -> ${response}`;
+    if (rule.delayMs > 0) {
+        line += ` after ${rule.delayMs}ms`;
+    }
+    if (rule.requestHeaders) {
+        const headers = Object.entries(rule.requestHeaders).map(([name, value]) => `${name}~${value}`).join(", ");
+        line += ` [headers: ${headers}]`;
+    }
+    line += ` hits: ${rule.hitCount}`;
+    return line;
+}
+
+// Record mock hits reported by the interceptor as tagged network entries
+registerRuntimeEventHandler(MOCK_HIT_EVENT, (payload: unknown, device: DeviceInfo) => {
+    const hit = payload as MockHitPayload;
+    if (!hit?.ruleId || !hit.url) {
+        return;
+    }
+
+    const rule = mockRules.get(hit.ruleId);
+    if (rule) {
+        rule.hitCount++;
+    }
+
+    const responseHeaders = rule?.responseHeaders ?? {};
+    const request: NetworkRequest = {
+        requestId: `mocked-${nextHitId++}`,
+        timestamp: typeof hit.timestamp === "number" ? new Date(hit.timestamp) : new Date(),
+        method: hit.method || "GET",
+        url: hit.url,
+        headers: hit.headers ?? {},
+        postData: hit.postData,
+        timing: {
+            duration: typeof hit.duration === "number" ? hit.duration : undefined
+        },
+        completed: true,
+        mocked: true,
+        mockRuleId: hit.ruleId,
+        appKey: getConnectedApps().find(({ app }) => app.deviceInfo.id === device.id)?.key,
+        deviceName: device.deviceName
+    };
+
+    if (rule?.networkError) {
+        request.error = rule.networkError;
+    } else if (rule) {
+        request.status = rule.status;
+        request.statusText = rule.statusText;
+        request.responseHeaders = responseHeaders;
+        request.mimeType = findHeader(responseHeaders, "content-type")?.split(";")[0].trim();
+        request.contentLength = Buffer.byteLength(rule.body);
+        request.responseBody = rule.body;
+    }
+
+    networkBuffer.set(request.requestId, request);
+});
+
+// A new JS context (reload) loses the interceptor, so reinstall active rules
+addContextCreatedListener((appKey) => {
+    if (mockRules.size === 0) {
+        return;
+    }
+    syncNetworkMocks({ appKey }).then((result) => {
+        if (!result.success) {
+            console.error(`[rn-ai-debugger] Failed to reinstall network mocks: ${result.error}`);
+        }
+    });
+});
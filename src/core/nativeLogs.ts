@@ -0,0 +1,406 @@
+import { spawn, exec, ChildProcess } from "child_process";
+import { promisify } from "util";
+import { createInterface } from "readline";
+import { AppTarget, AppCrash, LogEntry } from "./types.js";
+import { connectedApps, logBuffer, nativeLogBuffer } from "./state.js";
+import { resolveTargetApp } from "./connection.js";
+import { getAllConnectionMetadata, getConnectionMetadata, recordAppCrash, formatDuration } from "./connectionState.js";
+import { isAdbAvailable, getDefaultAndroidDevice, getReadyAndroidDevices } from "./android.js";
+import { addContextCreatedListener } from "./runtimeEvents.js";
+import { compileLogQuery } from "./logQuery.js";
+import { CrashDetector, DetectedCrash, formatCrashReason } from "./crashDetector.js";
+import {
+    NativeLogEntry,
+    NativeLogPriority,
+    NativeLogQuery,
+    parseLogcatLine,
+    formatNativeLogs,
+    formatMergedLogs
+} from "./logcat.js";
+
+const execAsync = promisify(exec);
+
+// ============================================================================
+// Logcat Streams
+// ============================================================================
+//
+// One `adb logcat` process per device, started at the current end of the log.
+// Lines are kept when they come from one of the app's processes: the PID is
+// resolved with pidof when the stream starts, taken from ActivityManager's
+// "Start proc" line when the app restarts, and re-resolved periodically in
+// case that line was missed. Logcat timestamps come from the device clock,
+// so they are shifted by the device-to-host offset measured when the stream
+// starts, which keeps them comparable with JS log times (stamped on the host
+// when CDP delivers them). Every parsed line (any process) also goes
+// through the stream's crash detector, since ANRs and tombstones are logged
+// by system processes.
+//
+// A connected Android app gets a detection-only stream (no entries kept) on
+// the device running its package, so crashes are reported without
+// start_native_logs; starting a stream for the same package turns it into a
+// capturing one.
+
+// How often the app PID is re-resolved
+const PID_POLL_INTERVAL_MS = 5000;
+
+// PIDs kept per stream: the current process and the previous ones, whose last lines may still arrive
+const MAX_TRACKED_PIDS = 5;
+
+// JS logs kept with a crash
+const MAX_CRASH_JS_LOGS = 20;
+
+const PACKAGE_NAME_PATTERN = /^[A-Za-z][\w]*(\.[A-Za-z_][\w]*)+$/;
+
+// A logcat stream of one device
+export interface NativeLogStream {
+    deviceId: string;
+    packageName: string;
+    pids: number[];           // App processes seen, newest last
+    startedAt: Date;
+    entries: number;          // Entries captured for the app
+    clockOffsetMs: number;    // Added to logcat timestamps (host clock minus device clock)
+    crashes: number;          // Crashes and ANRs detected
+    capture: boolean;         // App entries are kept (false: crash detection only)
+    running: boolean;
+    error?: string;           // Why the stream ended
+}
+
+interface StreamState extends NativeLogStream {
+    process: ChildProcess;
+    pidTimer: NodeJS.Timeout;
+    detector: CrashDetector;
+}
+
+const streams = new Map<string, StreamState>();
+
+// Why crash detection is off for an app (appKey -> reason)
+const detectionOff = new Map<string, string>();
+
+// Packages whose detection stream is being started
+const pendingDetection = new Set<string>();
+
+function toInfo(state: StreamState): NativeLogStream {
+    const { deviceId, packageName, pids, startedAt, entries, clockOffsetMs, crashes, capture, running, error } = state;
+    return { deviceId, packageName, pids: [...pids], startedAt, entries, clockOffsetMs, crashes, capture, running, error };
+}
+
+function trackPid(state: StreamState, pid: number): void {
+    if (state.pids[state.pids.length - 1] === pid) return;
+    state.pids = state.pids.filter((existing) => existing !== pid);
+    state.pids.push(pid);
+    if (state.pids.length > MAX_TRACKED_PIDS) {
+        state.pids.shift();
+    }
+}
+
+// Attribute a detected crash to the package's connections, with their last JS logs
+function reportCrash(state: StreamState, detected: DetectedCrash, detectedAt: Date): void {
+    const appKeys = Array.from(getAllConnectionMetadata())
+        .filter(([, metadata]) => metadata.deviceInfo.appId === state.packageName)
+        .map(([appKey]) => appKey);
+    const jsLogs = logBuffer.getAll()
+        .filter((entry) => entry.appKey !== undefined && appKeys.includes(entry.appKey))
+        .slice(-MAX_CRASH_JS_LOGS);
+
+    const crash: AppCrash = { ...detected, detectedAt, deviceId: state.deviceId, packageName: state.packageName, jsLogs, appKeys };
+    state.crashes++;
+    recordAppCrash(crash);
+    console.error(`[rn-ai-debugger] ${formatCrashReason(crash)} (${state.packageName} on ${state.deviceId})`);
+}
+
+// PID of the running app, or null when it is not running
+async function resolvePid(deviceId: string, packageName: string): Promise<number | null> {
+    try {
+        const { stdout } = await execAsync(`adb -s ${deviceId} shell pidof ${packageName}`, { timeout: 10000 });
+        const pid = parseInt(stdout.trim().split(/\s+/)[0], 10);
+        return Number.isFinite(pid) ? pid : null;
+    } catch {
+        // pidof exits with 1 when no process matches
+        return null;
+    }
+}
+
+// Host clock minus device clock in ms, from `date` on the device timed
+// against the host clock (accurate to about half the adb round trip).
+// 0 when it cannot be measured.
+async function measureClockOffset(deviceId: string): Promise<number> {
+    try {
+        const before = Date.now();
+        const { stdout } = await execAsync(`adb -s ${deviceId} shell date +%s.%N`, { timeout: 10000 });
+        const hostMs = (before + Date.now()) / 2;
+
+        const precise = stdout.trim().match(/^(\d+)\.(\d+)$/);
+        if (precise) {
+            return Math.round(hostMs - (parseInt(precise[1], 10) * 1000 + parseInt(precise[2].padEnd(3, "0").slice(0, 3), 10)));
+        }
+        // Older toybox date has no %N: whole seconds, only worth correcting beyond that resolution
+        const seconds = stdout.trim().match(/^(\d+)/);
+        if (seconds) {
+            const offset = Math.round(hostMs - (parseInt(seconds[1], 10) * 1000 + 500));
+            return Math.abs(offset) > 1000 ? offset : 0;
+        }
+    } catch {
+        // Fall through: compare timestamps as they are
+    }
+    return 0;
+}
+
+/**
+ * Start streaming logcat for an app. The package defaults to the connected
+ * app's id; the device to the first connected one. Restarts the device's
+ * stream when it follows another package. With detectOnly, only crashes are
+ * detected and a running stream is never replaced.
+ */
+export async function startNativeLogs(options: {
+    packageName?: string;
+    deviceId?: string;
+    target?: AppTarget;
+    detectOnly?: boolean;
+} = {}): Promise<{ success: boolean; stream?: NativeLogStream; alreadyRunning?: boolean; error?: string }> {
+    if (!(await isAdbAvailable())) {
+        return { success: false, error: "ADB is not installed or not in PATH. Install Android SDK Platform Tools." };
+    }
+
+    const packageName = options.packageName || resolveTargetApp(options.target ?? {}).app?.deviceInfo.appId;
+    if (!packageName) {
+        return { success: false, error: "packageName is required (the connected app does not report its package name)" };
+    }
+    if (!PACKAGE_NAME_PATTERN.test(packageName)) {
+        return { success: false, error: `Invalid package name "${packageName}"` };
+    }
+
+    const deviceId = options.deviceId || (await getDefaultAndroidDevice());
+    if (!deviceId) {
+        return { success: false, error: "No Android device connected. Connect a device or start an emulator." };
+    }
+
+    const existing = streams.get(deviceId);
+    if (existing?.running && existing.packageName === packageName) {
+        if (!options.detectOnly && !existing.capture) {
+            existing.capture = true;
+            return { success: true, stream: toInfo(existing) };
+        }
+        return { success: true, stream: toInfo(existing), alreadyRunning: true };
+    }
+    if (existing?.running && options.detectOnly) {
+        return { success: false, error: `${deviceId} already streams logcat for ${existing.packageName}` };
+    }
+    stopNativeLogs(deviceId);
+
+    const pid = await resolvePid(deviceId, packageName);
+    const clockOffsetMs = await measureClockOffset(deviceId);
+    const child = spawn("adb", ["-s", deviceId, "logcat", "-v", "epoch", "-T", "1"], { stdio: ["ignore", "pipe", "pipe"] });
+    const state: StreamState = {
+        deviceId,
+        packageName,
+        pids: pid ? [pid] : [],
+        startedAt: new Date(),
+        entries: 0,
+        clockOffsetMs,
+        crashes: 0,
+        capture: !options.detectOnly,
+        running: true,
+        process: child,
+        pidTimer: setInterval(async () => {
+            const current = await resolvePid(deviceId, packageName);
+            if (current) trackPid(state, current);
+        }, PID_POLL_INTERVAL_MS),
+        detector: new CrashDetector(packageName, (crash, detectedAt) => reportCrash(state, crash, detectedAt))
+    };
+    state.pidTimer.unref();
+    streams.set(deviceId, state);
+
+    // "Start proc 4242:com.example.app/u0a190 for ..." (the main process, not ":remote" ones)
+    const startProcPattern = new RegExp(`Start proc (\\d+):${packageName.replace(/\./g, "\\.")}/`);
+
+    createInterface({ input: child.stdout! }).on("line", (raw) => {
+        const line = parseLogcatLine(raw);
+        if (!line) return;
+        if (clockOffsetMs !== 0) {
+            line.timestamp = new Date(line.timestamp.getTime() + clockOffsetMs);
+        }
+
+        if (line.tag === "ActivityManager") {
+            const started = line.message.match(startProcPattern);
+            if (started) trackPid(state, parseInt(started[1], 10));
+        }
+        if (state.capture && state.pids.includes(line.pid)) {
+            nativeLogBuffer.add({ ...line, deviceId, packageName });
+            state.entries++;
+        }
+
+        state.detector.process(line, state.pids);
+    });
+
+    let stderr = "";
+    child.stderr?.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+    });
+    const onEnd = (reason: string) => {
+        state.running = false;
+        state.error = state.error ?? (stderr.trim() || reason);
+        clearInterval(state.pidTimer);
+        state.detector.flush();
+    };
+    child.on("exit", (code) => onEnd(`logcat exited with code ${code}`));
+    child.on("error", (error) => onEnd(error.message));
+
+    return { success: true, stream: toInfo(state) };
+}
+
+/**
+ * Stop the logcat stream of a device, or all streams. Captured entries are kept.
+ */
+export function stopNativeLogs(deviceId?: string): NativeLogStream[] {
+    const stopped: NativeLogStream[] = [];
+    for (const [id, state] of streams) {
+        if (deviceId && id !== deviceId) continue;
+        clearInterval(state.pidTimer);
+        state.detector.flush();
+        if (state.running) {
+            state.error = "stopped";
+            state.process.kill();
+        }
+        state.running = false;
+        streams.delete(id);
+        stopped.push(toInfo(state));
+    }
+    return stopped;
+}
+
+// Start a detection-only stream on the device running the app's package
+async function startCrashDetection(appKey: string): Promise<void> {
+    const packageName = connectedApps.get(appKey)?.deviceInfo.appId;
+    if (!packageName || !PACKAGE_NAME_PATTERN.test(packageName)) {
+        detectionOff.set(appKey, "the app does not report an Android package name");
+        return;
+    }
+    if (Array.from(streams.values()).some((state) => state.running && state.packageName === packageName)) {
+        detectionOff.delete(appKey);
+        return;
+    }
+    if (pendingDetection.has(packageName)) {
+        return;
+    }
+
+    pendingDetection.add(packageName);
+    try {
+        if (!(await isAdbAvailable())) {
+            detectionOff.set(appKey, "adb is not installed or not in PATH");
+            return;
+        }
+        for (const deviceId of await getReadyAndroidDevices()) {
+            if (!(await resolvePid(deviceId, packageName))) continue;
+            const result = await startNativeLogs({ packageName, deviceId, detectOnly: true });
+            if (result.success) {
+                detectionOff.delete(appKey);
+            } else {
+                detectionOff.set(appKey, result.error ?? "the logcat stream failed to start");
+            }
+            return;
+        }
+        detectionOff.set(appKey, `${packageName} is not running on a connected Android device`);
+    } finally {
+        pendingDetection.delete(packageName);
+    }
+}
+
+// Watch every connected Android app for crashes (again after reloads, in case the stream ended)
+addContextCreatedListener((appKey) => {
+    startCrashDetection(appKey).catch((error) => {
+        detectionOff.set(appKey, error instanceof Error ? error.message : String(error));
+    });
+});
+
+/**
+ * Whether crashes of an app are detected: the device whose logcat stream
+ * follows its package, or why detection is off
+ */
+export function getCrashDetectionStatus(appKey: string): { active: boolean; deviceId?: string; reason?: string } {
+    const packageName = connectedApps.get(appKey)?.deviceInfo.appId ?? getConnectionMetadata(appKey)?.deviceInfo.appId;
+    const stream = Array.from(streams.values()).find((state) => state.packageName === packageName);
+    if (stream?.running) {
+        return { active: true, deviceId: stream.deviceId };
+    }
+    if (stream) {
+        return { active: false, reason: `the logcat stream on ${stream.deviceId} ended: ${stream.error}` };
+    }
+    if (packageName && pendingDetection.has(packageName)) {
+        return { active: false, reason: "starting" };
+    }
+    return { active: false, reason: detectionOff.get(appKey) ?? "no logcat stream (start_native_logs starts one)" };
+}
+
+/**
+ * Current logcat streams (running, or ended on their own)
+ */
+export function getNativeLogStreams(): NativeLogStream[] {
+    return Array.from(streams.values()).map(toInfo);
+}
+
+/**
+ * Describe streams for tool output
+ */
+export function formatNativeLogStreams(list: NativeLogStream[]): string {
+    if (list.length === 0) {
+        return "No logcat streams. Start one with start_native_logs.";
+    }
+    return list.map((stream) => {
+        const pid = stream.pids.length > 0 ? `pid ${stream.pids[stream.pids.length - 1]}` : "app not running yet";
+        const status = stream.running ? "streaming" : `ended: ${stream.error}`;
+        const crashes = stream.crashes > 0 ? `, ${stream.crashes} crash(es)` : "";
+        // Offsets within the measurement error are not worth mentioning
+        const clock = Math.abs(stream.clockOffsetMs) >= 100
+            ? `, device clock ${stream.clockOffsetMs > 0 ? "behind" : "ahead"} by ${formatDuration(Math.abs(stream.clockOffsetMs))} (corrected)`
+            : "";
+        const captured = stream.capture ? `${stream.entries} entries` : "crash detection only";
+        return `${stream.deviceId}: ${stream.packageName} (${pid}), ${captured}${crashes} since ${stream.startedAt.toLocaleTimeString()}${clock}, ${status}`;
+    }).join("\n");
+}
+
+// JS levels shown in the merged view for a minimum native priority
+const JS_LEVELS_BY_PRIORITY: Record<NativeLogPriority, Array<LogEntry["level"]>> = {
+    V: ["debug", "log", "info", "warn", "error"],
+    D: ["debug", "log", "info", "warn", "error"],
+    I: ["log", "info", "warn", "error"],
+    W: ["warn", "error"],
+    E: ["error"],
+    F: ["error"]
+};
+
+/**
+ * Native log entries matching a query, optionally interleaved with JS logs
+ * (same text, pattern, since and priority filters; the tag filter only
+ * applies to native entries). Merged results return all matching entries and
+ * limit only the formatted timeline.
+ */
+export function getNativeLogs(options: NativeLogQuery & {
+    maxLogs?: number;
+    maxMessageLength?: number;
+    includeJs?: boolean;
+    appKey?: string;          // JS logs of this app only (merged view)
+} = {}): { entries: NativeLogEntry[]; jsEntries?: LogEntry[]; formatted: string; error?: string } {
+    const { maxLogs = 100, maxMessageLength = 500, includeJs = false, appKey, ...query } = options;
+
+    const result = nativeLogBuffer.query(query);
+    if (result.error) {
+        return { entries: [], formatted: "", error: result.error };
+    }
+    const entries = maxLogs > 0 ? result.entries.slice(-maxLogs) : result.entries;
+
+    if (!includeJs) {
+        return { entries, formatted: formatNativeLogs(entries, { maxMessageLength }) };
+    }
+
+    const compiled = compileLogQuery({ text: query.text, pattern: query.pattern, since: query.since, appKey });
+    if (!compiled.matches) {
+        return { entries: [], formatted: "", error: compiled.error };
+    }
+    const levels = query.priority ? JS_LEVELS_BY_PRIORITY[query.priority] : null;
+    const jsEntries = logBuffer.getAll().filter((entry) => compiled.matches!(entry) && (!levels || levels.includes(entry.level)));
+    return {
+        entries: result.entries,
+        jsEntries,
+        formatted: formatMergedLogs(result.entries, jsEntries, { maxEntries: maxLogs > 0 ? maxLogs : Infinity, maxMessageLength })
+    };
+}
@@ -0,0 +1,283 @@
+import { AppTarget, DeviceInfo } from "./types.js";
+import { routeChangeBuffer } from "./state.js";
+import { executeInApp } from "./executor.js";
+import { getConnectedApps, resolveTargetApp } from "./connection.js";
+import { registerRuntimeEventHandler, addContextCreatedListener, addAppKeyChangedListener, REINSTALL_DELAYS_MS } from "./runtimeEvents.js";
+import {
+    ROUTE_CHANGE_EVENT,
+    NAVIGATION_TRACK_SCRIPT,
+    NAVIGATION_UNTRACK_SCRIPT,
+    NavigationStateInfo,
+    buildNavigationStateScript,
+    buildListRoutesScript,
+    buildNavigateScript
+} from "./navigationTimeline.js";
+
+// ============================================================================
+// Navigation
+// ============================================================================
+//
+// Reads and drives the app's React Navigation container (Expo Router included)
+// and records a timeline of focused route changes. Like Redux tracking, the
+// state listener is kept per app and re-installed after a reload.
+
+// Wait for a navigation action to be applied before reading the new route
+const SETTLE_MS = 500;
+
+// Navigation tracked in an app
+export interface NavigationTracking {
+    appKey: string;
+    startedAt: Date;
+    subscribed: boolean;     // False after a reload until the listener is re-installed
+}
+
+// Result of navigation operations
+export interface NavigationResult<T = unknown> {
+    success: boolean;
+    appKey?: string;
+    data?: T;
+    error?: string;
+}
+
+// Registered routes
+export interface NavigationRoutes {
+    navigators: Array<{ path: string[]; type: string; routeNames: string[] }>;
+    files: Array<{ url: string; file: string }> | null;   // Expo Router file routes, null without Expo Router
+}
+
+// Shape of a change reported by the state listener
+interface RouteChangePayload {
+    timestamp?: number;
+    name: string;
+    path?: string[];
+    params?: unknown;
+    routeKey?: string;
+    trigger?: string;
+}
+
+const trackedApps: Map<string, NavigationTracking> = new Map();
+
+// Run a navigation script and parse its JSON reply
+async function runNavigationScript<T>(appKey: string, script: string): Promise<NavigationResult<T>> {
+    const result = await executeInApp(script, false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+    let reply: T & { error?: string };
+    try {
+        reply = JSON.parse(result.result || "{}");
+    } catch {
+        return { success: false, appKey, error: `Unexpected response: ${result.result}` };
+    }
+    if (reply.error) {
+        return { success: false, appKey, error: reply.error };
+    }
+    return { success: true, appKey, data: reply };
+}
+
+function resolveApp(target: AppTarget): { appKey?: string; error?: string } {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+    return { appKey };
+}
+
+/**
+ * Focused route, its params and the stack history of every navigator on the
+ * focused path. With full, the whole navigation state tree is included.
+ */
+export async function getNavigationState(
+    target: AppTarget,
+    options: { full?: boolean } = {}
+): Promise<NavigationResult<NavigationStateInfo>> {
+    const { appKey, error } = resolveApp(target);
+    if (!appKey) {
+        return { success: false, error };
+    }
+    return runNavigationScript<NavigationStateInfo>(appKey, buildNavigationStateScript(options.full === true));
+}
+
+/**
+ * Route names registered in each navigator of the current state tree, and
+ * Expo Router's file routes when the app uses Expo Router
+ */
+export async function listRoutes(target: AppTarget): Promise<NavigationResult<NavigationRoutes>> {
+    const { appKey, error } = resolveApp(target);
+    if (!appKey) {
+        return { success: false, error };
+    }
+    return runNavigationScript<NavigationRoutes>(appKey, buildListRoutesScript());
+}
+
+// Run a navigation action, then read the route it led to
+async function performAction(
+    target: AppTarget,
+    action: "navigate" | "reset" | "goBack",
+    options: { name?: string; params?: unknown; href?: string; state?: unknown } = {}
+): Promise<NavigationResult<NavigationStateInfo>> {
+    const { appKey, error } = resolveApp(target);
+    if (!appKey) {
+        return { success: false, error };
+    }
+    const result = await runNavigationScript(appKey, buildNavigateScript(action, options));
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+    return runNavigationScript<NavigationStateInfo>(appKey, buildNavigationStateScript(false));
+}
+
+/**
+ * Navigate to a route by name ("Profile", or a nested path such as
+ * "HomeTabs/Feed") with params, or to an Expo Router href ("/user/42")
+ */
+export async function navigateTo(
+    target: AppTarget,
+    options: { name?: string; params?: unknown; href?: string }
+): Promise<NavigationResult<NavigationStateInfo>> {
+    if (!options.name && !options.href) {
+        return { success: false, error: "Either name or href is required." };
+    }
+    return performAction(target, "navigate", options);
+}
+
+/**
+ * Reset the navigation state to a single route (or a full state object), or
+ * replace the current Expo Router href
+ */
+export async function resetNavigation(
+    target: AppTarget,
+    options: { name?: string; params?: unknown; href?: string; state?: unknown }
+): Promise<NavigationResult<NavigationStateInfo>> {
+    if (!options.name && !options.href && options.state === undefined) {
+        return { success: false, error: "One of name, href or state is required." };
+    }
+    return performAction(target, "reset", options);
+}
+
+/**
+ * Go back in the focused navigator
+ */
+export async function goBack(target: AppTarget): Promise<NavigationResult<NavigationStateInfo>> {
+    return performAction(target, "goBack");
+}
+
+// Install the state listener
+async function subscribe(appKey: string): Promise<NavigationResult<{ tracking?: boolean; alreadyTracking?: boolean }>> {
+    return runNavigationScript(appKey, NAVIGATION_TRACK_SCRIPT);
+}
+
+/**
+ * Record every change of the focused route in the route timeline
+ */
+export async function startNavigationTracking(
+    target: AppTarget
+): Promise<{ success: boolean; appKey?: string; tracking?: NavigationTracking; alreadyTracking?: boolean; error?: string }> {
+    const { appKey, error } = resolveApp(target);
+    if (!appKey) {
+        return { success: false, error };
+    }
+
+    const result = await subscribe(appKey);
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    const alreadyTracking = result.data?.alreadyTracking === true;
+    const existing = trackedApps.get(appKey);
+    const tracking: NavigationTracking = existing && alreadyTracking ? existing : { appKey, startedAt: new Date(), subscribed: true };
+    tracking.subscribed = true;
+    trackedApps.set(appKey, tracking);
+    return { success: true, appKey, tracking, alreadyTracking };
+}
+
+/**
+ * Remove the state listener and stop re-subscribing after reloads
+ */
+export async function stopNavigationTracking(
+    target: AppTarget
+): Promise<{ success: boolean; appKey?: string; tracking?: NavigationTracking; error?: string }> {
+    const { appKey, error } = resolveApp(target);
+    if (!appKey) {
+        return { success: false, error };
+    }
+
+    const tracking = trackedApps.get(appKey);
+    trackedApps.delete(appKey);
+
+    const result = await executeInApp(NAVIGATION_UNTRACK_SCRIPT, false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, appKey, tracking, error: result.error };
+    }
+    let untracked = false;
+    try {
+        untracked = JSON.parse(result.result || "{}").untracked === true;
+    } catch {
+        // Treated as not tracked
+    }
+    if (!tracking && !untracked) {
+        return { success: false, appKey, error: "Navigation is not being tracked in this app." };
+    }
+    return { success: true, appKey, tracking };
+}
+
+/**
+ * Tracking state of an app, if tracked
+ */
+export function getNavigationTracking(appKey: string): NavigationTracking | null {
+    return trackedApps.get(appKey) ?? null;
+}
+
+// Record route changes reported by the state listener
+registerRuntimeEventHandler(ROUTE_CHANGE_EVENT, (payload: unknown, device: DeviceInfo) => {
+    const report = payload as RouteChangePayload;
+    if (typeof report?.name !== "string") {
+        return;
+    }
+
+    routeChangeBuffer.add({
+        timestamp: typeof report.timestamp === "number" ? new Date(report.timestamp) : new Date(),
+        name: report.name,
+        path: Array.isArray(report.path) ? report.path : [report.name],
+        params: report.params,
+        routeKey: report.routeKey ?? "",
+        trigger: report.trigger === "initial" ? "initial" : "state",
+        appKey: getConnectedApps().find(({ app }) => app.deviceInfo.id === device.id)?.key,
+        deviceName: device.deviceName
+    });
+});
+
+// Keep tracking an app whose key changed on reload
+addAppKeyChangedListener((previousKey, appKey) => {
+    const tracking = trackedApps.get(previousKey);
+    if (tracking) {
+        trackedApps.delete(previousKey);
+        tracking.appKey = appKey;
+        trackedApps.set(appKey, tracking);
+    }
+});
+
+// A reload mounts a new navigation container; subscribe to it once it exists
+addContextCreatedListener((appKey) => {
+    const tracking = trackedApps.get(appKey);
+    if (!tracking) {
+        return;
+    }
+    tracking.subscribed = false;
+
+    const attempt = (index: number) => {
+        if (trackedApps.get(appKey) !== tracking) return;
+        subscribe(appKey).then((result) => {
+            if (result.success) {
+                tracking.subscribed = true;
+            } else if (index + 1 < REINSTALL_DELAYS_MS.length) {
+                setTimeout(() => attempt(index + 1), REINSTALL_DELAYS_MS[index + 1] - REINSTALL_DELAYS_MS[index]).unref();
+            } else {
+                console.error(`[rn-ai-debugger] Failed to re-subscribe to navigation state after reload: ${result.error}`);
+            }
+        });
+    };
+    setTimeout(() => attempt(0), REINSTALL_DELAYS_MS[0]).unref();
+});
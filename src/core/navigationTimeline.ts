@@ -0,0 +1,473 @@
+import { LogEntry, NetworkRequest } from "./types.js";
+import { RUNTIME_EMIT_SNIPPET, SAFE_VALUE_SNIPPET, METRO_MODULES_SNIPPET, toAsciiJson } from "./runtimeEvents.js";
+import { parseTimeBound } from "./logQuery.js";
+
+// ============================================================================
+// Navigation State and Route Timeline
+// ============================================================================
+//
+// React Navigation (and Expo Router, which is built on it) renders a
+// NavigationContainerRefContext provider whose value is the container's
+// navigation object (getRootState, dispatch, navigate, addListener). The
+// scripts below find it in the fiber tree, read the state tree from it and
+// subscribe to its "state" event to report every change of the focused route.
+
+// Runtime event reported by the state listener
+export const ROUTE_CHANGE_EVENT = "route_change";
+
+// A change of the focused route
+export interface RouteChange {
+    id: number;
+    timestamp: Date;
+    name: string;             // Focused route name ("Feed")
+    path: string[];           // Route names from the root navigator ("HomeTabs", "Feed")
+    params?: unknown;         // Params of the focused route (size-capped)
+    routeKey: string;         // Route key; a new key means a new visit even with the same name
+    trigger: "initial" | "state";
+    appKey?: string;
+    deviceName?: string;
+}
+
+/**
+ * Circular buffer of route changes
+ */
+export class RouteChangeBuffer {
+    private changes: RouteChange[] = [];
+    private maxSize: number;
+    private nextId = 1;
+
+    constructor(maxSize: number = 300) {
+        this.maxSize = maxSize;
+    }
+
+    add(change: Omit<RouteChange, "id">): RouteChange {
+        const stored: RouteChange = { ...change, id: this.nextId++ };
+        this.changes.push(stored);
+        if (this.changes.length > this.maxSize) {
+            this.changes.shift();
+        }
+        return stored;
+    }
+
+    getAll(): RouteChange[] {
+        return [...this.changes];
+    }
+
+    // Last route change of an app
+    getLast(appKey: string): RouteChange | null {
+        for (let i = this.changes.length - 1; i >= 0; i--) {
+            if (this.changes[i].appKey === appKey) return this.changes[i];
+        }
+        return null;
+    }
+
+    clear(): number {
+        const count = this.changes.length;
+        this.changes = [];
+        return count;
+    }
+
+    get size(): number {
+        return this.changes.length;
+    }
+}
+
+/**
+ * JS helpers shared by the navigation scripts: findNavigation() returns the
+ * container navigation object and describeState(state) the focused route path.
+ * The shared safe-value and Metro module helpers are included.
+ */
+const NAVIGATION_HELPERS = `
+    ${SAFE_VALUE_SNIPPET}
+    ${METRO_MODULES_SNIPPET}
+    function isContainerNavigation(value) {
+        return !!value && typeof value === 'object' && typeof value.getRootState === 'function'
+            && typeof value.dispatch === 'function' && typeof value.navigate === 'function';
+    }
+
+    function findNavigation() {
+        var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+        if (!hook || !hook.getFiberRoots) return null;
+        var roots = [];
+        try {
+            if (hook.renderers) {
+                hook.renderers.forEach(function(renderer, id) {
+                    roots = roots.concat(Array.from(hook.getFiberRoots(id) || []));
+                });
+            } else {
+                roots = Array.from(hook.getFiberRoots(1) || []);
+            }
+        } catch (e) {}
+        // Breadth-first: the outermost container wins over independent nested ones
+        var queue = roots.map(function(root) { return root.current; });
+        for (var visited = 0; queue.length > 0 && visited < 5000; visited++) {
+            var fiber = queue.shift();
+            if (!fiber) continue;
+            var props = fiber.memoizedProps;
+            if (props && typeof props === 'object' && isContainerNavigation(props.value)) return props.value;
+            for (var child = fiber.child; child; child = child.sibling) queue.push(child);
+        }
+        return null;
+    }
+
+    function describeState(state) {
+        var path = [];
+        var route = null;
+        var navigators = [];
+        while (state && state.routes && state.routes.length > 0) {
+            var index = typeof state.index === 'number' ? state.index : state.routes.length - 1;
+            route = state.routes[index];
+            navigators.push({
+                type: state.type || 'unknown',
+                routeNames: state.routeNames || [],
+                history: state.routes.map(function(item) { return item.name; }),
+                index: index
+            });
+            path.push(route.name);
+            state = route.state;
+        }
+        return { path: path, route: route, navigators: navigators };
+    }
+`;
+
+// Wrap a body that returns an object into a script returning JSON
+function buildNavigationScript(body: string): string {
+    return `(function() {
+        ${NAVIGATION_HELPERS}
+        try {
+            var navigation = findNavigation();
+            if (!navigation) {
+                return JSON.stringify({ error: 'No React Navigation container found in the component tree (React Navigation or Expo Router, development build).' });
+            }
+            if (typeof navigation.isReady === 'function' && !navigation.isReady()) {
+                return JSON.stringify({ error: 'The navigation container is not ready yet.' });
+            }
+            return JSON.stringify((function() {
+                ${body}
+            })());
+        } catch (e) {
+            return JSON.stringify({ error: e && e.message ? e.message : String(e) });
+        }
+    })()`;
+}
+
+/**
+ * Script returning the focused route, its params, the history of each
+ * navigator on the focused path and, with full, the whole state tree
+ */
+export function buildNavigationStateScript(full: boolean): string {
+    return buildNavigationScript(`
+                var state = navigation.getRootState();
+                var described = describeState(state);
+                return {
+                    path: described.path,
+                    params: described.route ? __rnAiDebuggerToSafe(described.route.params, 3, 200) : undefined,
+                    routeKey: described.route ? described.route.key : undefined,
+                    navigators: described.navigators,
+                    state: ${full} ? __rnAiDebuggerToSafe(state, 12, 200) : undefined
+                };`);
+}
+
+/**
+ * Script listing route names: every navigator in the state tree with its
+ * registered routeNames, plus Expo Router's file routes when the router store
+ * is loaded
+ */
+export function buildListRoutesScript(): string {
+    return buildNavigationScript(`
+                var navigators = [];
+                function collect(state, parentPath) {
+                    if (!state || !state.routes) return;
+                    navigators.push({ path: parentPath, type: state.type || 'unknown', routeNames: state.routeNames || [] });
+                    state.routes.forEach(function(route) {
+                        if (route.state) collect(route.state, parentPath.concat([route.name]));
+                    });
+                }
+                collect(navigation.getRootState(), []);
+
+                var files = null;
+                var entries = __rnAiDebuggerModules() || [];
+                for (var m = 0; m < entries.length && !files; m++) {
+                    var mod = entries[m];
+                    if (!mod || !mod.isInitialized || !mod.publicModule || !mod.verboseName) continue;
+                    if (String(mod.verboseName).indexOf('expo-router') === -1) continue;
+                    var exported = mod.publicModule.exports;
+                    var descriptor = exported && Object.getOwnPropertyDescriptor(exported, 'store');
+                    var store = descriptor && 'value' in descriptor ? descriptor.value : null;
+                    if (!store || !store.routeNode || !store.routeNode.children) continue;
+                    files = [];
+                    (function walk(node, segments) {
+                        var route = node.route || '';
+                        var next = segments;
+                        if (route && route !== '_layout' && route !== 'index' && !/^\\(.*\\)$/.test(route)) {
+                            next = segments.concat([route]);
+                        }
+                        if (!node.children || node.children.length === 0) {
+                            files.push({ url: '/' + next.join('/'), file: node.contextKey || route });
+                        } else {
+                            node.children.forEach(function(child) { walk(child, next); });
+                        }
+                    })(store.routeNode, []);
+                }
+                return { navigators: navigators, files: files };`);
+}
+
+/**
+ * Script performing a navigation action. name may be a nested path
+ * ("HomeTabs/Feed"), which React Navigation expects as nested screen params.
+ * href navigates with Expo Router's router instead.
+ */
+export function buildNavigateScript(
+    action: "navigate" | "reset" | "goBack",
+    options: { name?: string; params?: unknown; href?: string; state?: unknown } = {}
+): string {
+    return buildNavigationScript(`
+                var action = ${toAsciiJson(action)};
+                var name = ${toAsciiJson(options.name ?? null)};
+                var params = ${toAsciiJson(options.params ?? null)};
+                var href = ${toAsciiJson(options.href ?? null)};
+                var resetState = ${toAsciiJson(options.state ?? null)};
+
+                // "A/B/C" + params -> route A with nested screen params
+                function nestedRoute(segments, routeParams) {
+                    var route = { name: segments[segments.length - 1], params: routeParams || undefined };
+                    for (var i = segments.length - 2; i >= 0; i--) {
+                        route = { name: segments[i], params: { screen: route.name, params: route.params } };
+                    }
+                    return route;
+                }
+
+                if (action === 'goBack') {
+                    if (typeof navigation.canGoBack === 'function' && !navigation.canGoBack()) {
+                        return { error: 'Nothing to go back to: the focused navigator is at its first route.' };
+                    }
+                    navigation.goBack();
+                    return { done: true };
+                }
+
+                if (href) {
+                    var entries = __rnAiDebuggerModules() || [];
+                    var router = null;
+                    for (var m = 0; m < entries.length && !router; m++) {
+                        var mod = entries[m];
+                        if (!mod || !mod.isInitialized || !mod.publicModule || String(mod.verboseName || '').indexOf('expo-router') === -1) continue;
+                        var descriptor = mod.publicModule.exports && Object.getOwnPropertyDescriptor(mod.publicModule.exports, 'router');
+                        var candidate = descriptor && 'value' in descriptor ? descriptor.value : null;
+                        if (candidate && typeof candidate.navigate === 'function' && typeof candidate.replace === 'function') router = candidate;
+                    }
+                    if (!router) return { error: 'Expo Router is not loaded in this app; navigate by name instead.' };
+                    if (action === 'reset') router.replace(href);
+                    else router.navigate(href);
+                    return { done: true };
+                }
+
+                if (action === 'reset') {
+                    if (resetState) {
+                        navigation.resetRoot(resetState);
+                        return { done: true };
+                    }
+                    if (!name) return { error: 'name or state is required' };
+                    navigation.resetRoot({ index: 0, routes: [nestedRoute(name.split('/'), params)] });
+                    return { done: true };
+                }
+
+                if (!name) return { error: 'name or href is required' };
+                var target = nestedRoute(name.split('/'), params);
+                navigation.navigate(target.name, target.params);
+                return { done: true };`);
+}
+
+/**
+ * Script subscribing to the container's state event. Every change of the
+ * focused route (by key) is reported as a route_change runtime event.
+ * Idempotent per JS context.
+ */
+export const NAVIGATION_TRACK_SCRIPT = `(function() {
+    ${RUNTIME_EMIT_SNIPPET}
+    ${NAVIGATION_HELPERS}
+    var tracked = globalThis.__RN_AI_DEBUGGER_NAVIGATION__;
+    if (tracked && tracked.unsubscribe) {
+        return JSON.stringify({ tracking: true, alreadyTracking: true });
+    }
+    var navigation = findNavigation();
+    if (!navigation || typeof navigation.addListener !== 'function') {
+        return JSON.stringify({ error: 'No React Navigation container found in the component tree (React Navigation or Expo Router, development build).' });
+    }
+
+    var lastKey = null;
+    function report(trigger) {
+        try {
+            var described = describeState(navigation.getRootState());
+            if (!described.route || described.route.key === lastKey) return;
+            lastKey = described.route.key;
+            __rnAiDebuggerEmit('${ROUTE_CHANGE_EVENT}', {
+                timestamp: Date.now(),
+                name: described.route.name,
+                path: described.path,
+                params: __rnAiDebuggerToSafe(described.route.params, 3, 200),
+                routeKey: described.route.key,
+                trigger: trigger
+            });
+        } catch (e) {}
+    }
+
+    var unsubscribe = navigation.addListener('state', function() { report('state'); });
+    globalThis.__RN_AI_DEBUGGER_NAVIGATION__ = { unsubscribe: unsubscribe };
+    report('initial');
+    return JSON.stringify({ tracking: true });
+})()`;
+
+// Script removing the state listener
+export const NAVIGATION_UNTRACK_SCRIPT = `(function() {
+    var tracked = globalThis.__RN_AI_DEBUGGER_NAVIGATION__;
+    if (!tracked) return JSON.stringify({ untracked: false });
+    try { tracked.unsubscribe(); } catch (e) {}
+    delete globalThis.__RN_AI_DEBUGGER_NAVIGATION__;
+    return JSON.stringify({ untracked: true });
+})()`;
+
+// A stay on a screen: from a route change to the next one of the same app
+export interface ScreenVisit {
+    change: RouteChange;
+    endedAt?: Date;           // Undefined for the current screen
+    logs: LogEntry[];
+    requests: NetworkRequest[];
+}
+
+/**
+ * Split an app's route changes into screen visits and attribute the logs and
+ * network requests of that app to the visit they happened in
+ */
+export function getScreenVisits(
+    buffer: RouteChangeBuffer,
+    logs: LogEntry[],
+    requests: NetworkRequest[],
+    options: { appKey?: string; screen?: string; since?: string; maxVisits?: number } = {}
+): { visits: ScreenVisit[]; error?: string } {
+    const { appKey, screen, since, maxVisits = 30 } = options;
+    const changes = buffer.getAll().filter((change) => !appKey || change.appKey === appKey);
+
+    // Visits are built per app, so entries of one device never land on another's screen
+    const visits: ScreenVisit[] = [];
+    const lastVisitByApp: Map<string | undefined, ScreenVisit> = new Map();
+    for (const change of changes) {
+        const previous = lastVisitByApp.get(change.appKey);
+        if (previous) previous.endedAt = change.timestamp;
+        const visit: ScreenVisit = { change, logs: [], requests: [] };
+        visits.push(visit);
+        lastVisitByApp.set(change.appKey, visit);
+    }
+
+    const findVisit = (entryAppKey: string | undefined, time: number): ScreenVisit | undefined => {
+        for (let i = visits.length - 1; i >= 0; i--) {
+            const visit = visits[i];
+            if (visit.change.appKey !== entryAppKey) continue;
+            if (visit.change.timestamp.getTime() <= time) {
+                return visit.endedAt === undefined || time < visit.endedAt.getTime() ? visit : undefined;
+            }
+        }
+        return undefined;
+    };
+    for (const log of logs) {
+        findVisit(log.appKey, log.timestamp.getTime())?.logs.push(log);
+    }
+    for (const request of requests) {
+        findVisit(request.appKey, request.timestamp.getTime())?.requests.push(request);
+    }
+
+    let result = visits;
+    if (since) {
+        const bound = parseTimeBound(since);
+        if (!bound) {
+            return { visits: [], error: `Invalid since value "${since}"` };
+        }
+        result = result.filter((visit) => (visit.endedAt ?? new Date()).getTime() >= bound.getTime());
+    }
+    if (screen) {
+        const needle = screen.toLowerCase();
+        result = result.filter((visit) => visit.change.path.some((name) => name.toLowerCase().includes(needle)));
+    }
+    if (maxVisits > 0) {
+        result = result.slice(-maxVisits);
+    }
+    return { visits: result };
+}
+
+function formatDurationShort(ms: number): string {
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max) + "..." : text;
+}
+
+/**
+ * Format screen visits, one line per visit with attributed log and request
+ * counts. With details, the attributed entries are listed under each visit.
+ */
+export function formatScreenVisits(visits: ScreenVisit[], options: { details?: boolean; maxEntries?: number } = {}): string {
+    const { details = false, maxEntries = 20 } = options;
+    if (visits.length === 0) {
+        return "No route changes recorded. Use start_navigation_tracking, then navigate in the app.";
+    }
+
+    const lines: string[] = [];
+    for (const visit of visits) {
+        const { change } = visit;
+        const duration = (visit.endedAt ?? new Date()).getTime() - change.timestamp.getTime();
+        const params = change.params !== undefined && change.params !== null ? ` ${truncate(JSON.stringify(change.params), 120)}` : "";
+        const errors = visit.logs.filter((log) => log.level === "error").length;
+        const failed = visit.requests.filter((request) => request.error || (request.status !== undefined && request.status >= 400)).length;
+        const counts = [
+            `${visit.logs.length} log(s)${errors > 0 ? ` (${errors} error(s))` : ""}`,
+            `${visit.requests.length} request(s)${failed > 0 ? ` (${failed} failed)` : ""}`
+        ].join(", ");
+        const current = visit.endedAt ? "" : " (current)";
+        lines.push(`[#${change.id}] ${change.timestamp.toLocaleTimeString()} ${change.path.join(" > ")}${params} - ${formatDurationShort(duration)}${current}, ${counts}`);
+
+        if (details) {
+            for (const log of visit.logs.slice(-maxEntries)) {
+                lines.push(`    ${log.timestamp.toLocaleTimeString()} [${log.level.toUpperCase()}] ${truncate(log.message.replace(/\s+/g, " "), 150)}`);
+            }
+            if (visit.logs.length > maxEntries) {
+                lines.push(`    (${visit.logs.length - maxEntries} earlier log(s) not shown)`);
+            }
+            for (const request of visit.requests.slice(-maxEntries)) {
+                const status = request.error ? `ERR ${request.error}` : request.status ?? "pending";
+                lines.push(`    ${request.timestamp.toLocaleTimeString()} ${request.method} ${status} ${truncate(request.url, 150)}`);
+            }
+            if (visit.requests.length > maxEntries) {
+                lines.push(`    (${visit.requests.length - maxEntries} earlier request(s) not shown)`);
+            }
+        }
+    }
+    return lines.join("\n");
+}
+
+// Navigation state returned by the state script
+export interface NavigationStateInfo {
+    path: string[];
+    params?: unknown;
+    routeKey?: string;
+    navigators: Array<{ type: string; routeNames: string[]; history: string[]; index: number }>;
+    state?: unknown;
+}
+
+// Format the focused route and the history of each navigator on its path
+export function formatNavigationState(info: NavigationStateInfo): string {
+    const lines = [`Focused route: ${info.path.join(" > ") || "(none)"}`];
+    if (info.params !== undefined && info.params !== null) {
+        lines.push(`Params: ${JSON.stringify(info.params)}`);
+    }
+    lines.push("", "Navigators on the focused path:");
+    info.navigators.forEach((navigator, depth) => {
+        const history = navigator.history.map((name, index) => (index === navigator.index ? `[${name}]` : name)).join(", ");
+        lines.push(`${"  ".repeat(depth + 1)}${navigator.type}: ${history}`);
+    });
+    if (info.state !== undefined) {
+        lines.push("", "State:", JSON.stringify(info.state, null, 2));
+    }
+    return lines.join("\n");
+}
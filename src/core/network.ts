@@ -1,10 +1,58 @@
-import { NetworkRequest } from "./types.js";
+import { NetworkRequest, ResponseBodyCaptureConfig } from "./types.js";
+
+// Default response body capture configuration
+export const DEFAULT_RESPONSE_BODY_CONFIG: ResponseBodyCaptureConfig = {
+    enabled: true,
+    maxBodySize: 100_000, // 100KB per response
+    mimeTypes: [
+        "application/json",
+        "application/graphql",
+        "application/xml",
+        "application/x-www-form-urlencoded",
+        "application/javascript",
+        "text/",
+        "+json",
+        "+xml"
+    ]
+};
+
+let responseBodyConfig: ResponseBodyCaptureConfig = { ...DEFAULT_RESPONSE_BODY_CONFIG };
+
+// Get current response body capture configuration
+export function getResponseBodyCaptureConfig(): ResponseBodyCaptureConfig {
+    return { ...responseBodyConfig, mimeTypes: [...responseBodyConfig.mimeTypes] };
+}
+
+// Update response body capture configuration with partial updates
+export function updateResponseBodyCaptureConfig(updates: Partial<ResponseBodyCaptureConfig>): ResponseBodyCaptureConfig {
+    responseBodyConfig = { ...responseBodyConfig, ...updates };
+    return getResponseBodyCaptureConfig();
+}
+
+// Check whether a response mime type is in the capture allowlist
+// Entries ending with "/" match as prefixes, entries starting with "+" match structured suffixes
+export function isCapturableMimeType(mimeType: string | undefined): boolean {
+    if (!mimeType) return false;
+    const type = mimeType.split(";")[0].trim().toLowerCase();
+    return responseBodyConfig.mimeTypes.some((allowed) => {
+        const entry = allowed.toLowerCase();
+        if (entry.endsWith("/")) return type.startsWith(entry);
+        if (entry.startsWith("+")) return type.endsWith(entry);
+        return type === entry;
+    });
+}
+
+// CDP request IDs are only unique per app, so entries are keyed by app and request ID
+function bufferKey(requestId: string, appKey?: string): string {
+    return appKey ? `${appKey}|${requestId}` : requestId;
+}
 
 // Circular buffer for storing network requests
 export class NetworkBuffer {
     private requests: Map<string, NetworkRequest> = new Map();
     private order: string[] = [];
     private maxSize: number;
+    private listeners: Array<(request: NetworkRequest) => void> = [];
 
     constructor(maxSize: number = 500) {
         this.maxSize = maxSize;
@@ -12,21 +60,43 @@ export class NetworkBuffer {
 
     // Add or update a request
     set(requestId: string, request: NetworkRequest): void {
-        if (!this.requests.has(requestId)) {
-            this.order.push(requestId);
+        const key = bufferKey(requestId, request.appKey);
+        if (!this.requests.has(key)) {
+            this.order.push(key);
             if (this.order.length > this.maxSize) {
-                const oldestId = this.order.shift();
-                if (oldestId) {
-                    this.requests.delete(oldestId);
+                const oldestKey = this.order.shift();
+                if (oldestKey) {
+                    this.requests.delete(oldestKey);
                 }
             }
         }
-        this.requests.set(requestId, request);
+        this.requests.set(key, request);
+        for (const listener of this.listeners) {
+            listener(request);
+        }
+    }
+
+    // Register a callback invoked for every added or updated request
+    subscribe(listener: (request: NetworkRequest) => void): void {
+        this.listeners.push(listener);
     }
 
-    // Get a request by ID
-    get(requestId: string): NetworkRequest | undefined {
-        return this.requests.get(requestId);
+    // Get a request by ID. Without an appKey, the most recent request with that ID from any app is returned.
+    get(requestId: string, appKey?: string): NetworkRequest | undefined {
+        if (appKey) {
+            return this.requests.get(bufferKey(requestId, appKey));
+        }
+        const direct = this.requests.get(requestId);
+        if (direct) {
+            return direct;
+        }
+        for (let i = this.order.length - 1; i >= 0; i--) {
+            const request = this.requests.get(this.order[i]);
+            if (request?.requestId === requestId) {
+                return request;
+            }
+        }
+        return undefined;
     }
 
     // Get all requests (optionally filtered)
@@ -36,8 +106,9 @@ export class NetworkBuffer {
         urlPattern?: string;
         status?: number;
         completedOnly?: boolean;
+        appKey?: string;
     } = {}): NetworkRequest[] {
-        const { count, method, urlPattern, status, completedOnly } = options;
+        const { count, method, urlPattern, status, completedOnly, appKey } = options;
 
         let results = Array.from(this.requests.values());
 
@@ -61,6 +132,10 @@ export class NetworkBuffer {
             results = results.filter((r) => r.completed);
         }
 
+        if (appKey) {
+            results = results.filter((r) => r.appKey === appKey);
+        }
+
         if (count != null && count > 0) {
             results = results.slice(-count);
         }
@@ -69,10 +144,10 @@ export class NetworkBuffer {
     }
 
     // Search requests by URL
-    search(urlPattern: string, maxResults: number = 50): NetworkRequest[] {
+    search(urlPattern: string, maxResults: number = 50, appKey?: string): NetworkRequest[] {
         const pattern = urlPattern.toLowerCase();
         const results = Array.from(this.requests.values())
-            .filter((r) => r.url.toLowerCase().includes(pattern))
+            .filter((r) => r.url.toLowerCase().includes(pattern) && (!appKey || r.appKey === appKey))
             .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
         if (maxResults > 0) {
@@ -94,13 +169,21 @@ export class NetworkBuffer {
 }
 
 // Format a single request for display
-export function formatRequest(request: NetworkRequest): string {
+export function formatRequest(request: NetworkRequest, showApp: boolean = false): string {
     const time = request.timestamp.toLocaleTimeString();
     const status = request.status ?? "pending";
     const duration = request.timing?.duration ? `${request.timing.duration}ms` : "-";
 
     let line = `[${request.requestId}] ${time} ${request.method} ${status} ${duration} ${request.url}`;
 
+    if (showApp && request.deviceName) {
+        line += ` [APP: ${request.deviceName}]`;
+    }
+
+    if (request.mocked) {
+        line += ` [MOCKED: ${request.mockRuleId}]`;
+    }
+
     if (request.error) {
         line += ` [ERROR: ${request.error}]`;
     }
@@ -114,7 +197,9 @@ export function formatRequests(requests: NetworkRequest[]): string {
         return "No network requests captured yet.";
     }
 
-    return requests.map(formatRequest).join("\n");
+    // Label each request with its device when requests from several apps are mixed
+    const showApp = new Set(requests.map((request) => request.appKey)).size > 1;
+    return requests.map((request) => formatRequest(request, showApp)).join("\n");
 }
 
 // Options for formatting request details
@@ -136,6 +221,14 @@ export function formatRequestDetails(
     lines.push(`Time: ${request.timestamp.toISOString()}`);
     lines.push(`Status: ${request.status ?? "pending"} ${request.statusText ?? ""}`);
 
+    if (request.appKey) {
+        lines.push(`App: ${request.deviceName ?? "unknown device"} (${request.appKey})`);
+    }
+
+    if (request.mocked) {
+        lines.push(`Mocked: yes (rule ${request.mockRuleId})`);
+    }
+
     if (request.timing?.duration) {
         lines.push(`Duration: ${request.timing.duration}ms`);
     }
@@ -178,6 +271,21 @@ export function formatRequestDetails(
         }
     }
 
+    // Response body (with optional truncation)
+    if (request.responseBody !== undefined) {
+        const encoding = request.responseBodyBase64 ? " (base64)" : "";
+        const captureNote = request.responseBodyTruncated ? " [capture truncated at size cap]" : "";
+        lines.push(`\n--- Response Body${encoding}${captureNote} ---`);
+        let body = request.responseBody;
+        if (!verbose && maxBodyLength > 0 && body.length > maxBodyLength) {
+            body = body.slice(0, maxBodyLength) + `... [truncated: ${request.responseBody.length} chars]`;
+        }
+        lines.push(body);
+    } else if (request.responseBodySkipped) {
+        lines.push(`\n--- Response Body ---`);
+        lines.push(`(not captured: ${request.responseBodySkipped})`);
+    }
+
     return lines.join("\n");
 }
 
@@ -189,15 +297,17 @@ export function getNetworkRequests(
         method?: string;
         urlPattern?: string;
         status?: number;
+        appKey?: string;
     } = {}
 ): { requests: NetworkRequest[]; count: number; formatted: string } {
-    const { maxRequests = 50, method, urlPattern, status } = options;
+    const { maxRequests = 50, method, urlPattern, status, appKey } = options;
     const requests = networkBuffer.getAll({
         count: maxRequests,
         method,
         urlPattern,
         status,
-        completedOnly: false
+        completedOnly: false,
+        appKey
     });
 
     return {
@@ -211,9 +321,10 @@ export function getNetworkRequests(
 export function searchNetworkRequests(
     networkBuffer: NetworkBuffer,
     urlPattern: string,
-    maxResults: number = 50
+    maxResults: number = 50,
+    appKey?: string
 ): { requests: NetworkRequest[]; count: number; formatted: string } {
-    const requests = networkBuffer.search(urlPattern, maxResults);
+    const requests = networkBuffer.search(urlPattern, maxResults, appKey);
     return {
         requests,
         count: requests.length,
@@ -222,8 +333,8 @@ export function searchNetworkRequests(
 }
 
 // Get network stats
-export function getNetworkStats(networkBuffer: NetworkBuffer): string {
-    const requests = networkBuffer.getAll({});
+export function getNetworkStats(networkBuffer: NetworkBuffer, appKey?: string): string {
+    const requests = networkBuffer.getAll({ appKey });
 
     if (requests.length === 0) {
         return "No network requests captured yet.";
@@ -0,0 +1,379 @@
+import { mkdir, writeFile } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { AppTarget, CDPCallFrame, StackFrame } from "./types.js";
+import { resolveTargetApp, sendCDPCommand } from "./connection.js";
+import { formatFrameLocation, symbolicateFrames } from "./symbolicate.js";
+
+// ============================================================================
+// CPU Profiling
+// ============================================================================
+//
+// Drives the CDP Profiler domain on the connected (Hermes) target. The raw
+// profile is saved as a .cpuprofile file that Chrome DevTools can open, and
+// summarized into the functions and call paths that used the most CPU time.
+
+export const PROFILES_DIR = path.join(homedir(), ".rn-ai-debugger", "profiles");
+
+// Profiler.stop can take a while for long recordings on device
+const PROFILER_STOP_TIMEOUT_MS = 60000;
+
+// Max frames shown per hot call path (innermost frames are kept)
+const MAX_PATH_DEPTH = 8;
+
+// CDP Profiler.ProfileNode
+interface CDPProfileNode {
+    id: number;
+    callFrame: CDPCallFrame;
+    hitCount?: number;
+    children?: number[];
+}
+
+// CDP Profiler.Profile (times in microseconds)
+export interface CDPProfile {
+    nodes: CDPProfileNode[];
+    startTime: number;
+    endTime: number;
+    samples?: number[];
+    timeDeltas?: number[];
+}
+
+// Function ranked by CPU time
+export interface CpuProfileFunction {
+    functionName: string;
+    location: string;        // file:line:column, source-mapped when possible
+    selfMs: number;
+    totalMs: number;
+    selfPercent: number;
+    totalPercent: number;
+}
+
+// Call path ending in a hot function (outermost first)
+export interface CpuProfilePath {
+    frames: string[];
+    selfMs: number;
+    selfPercent: number;
+}
+
+// Token-efficient profile summary
+export interface CpuProfileSummary {
+    durationMs: number;
+    sampleCount: number;
+    idleMs: number;
+    gcMs: number;
+    topFunctions: CpuProfileFunction[];
+    hotPaths: CpuProfilePath[];
+    symbolicated: boolean;
+}
+
+// Result of profiler operations
+export interface CpuProfileResult {
+    success: boolean;
+    appKey?: string;
+    path?: string;
+    summary?: CpuProfileSummary;
+    error?: string;
+}
+
+// Active profiles by app key
+const activeProfiles: Map<string, { startedAt: Date }> = new Map();
+
+export function isCpuProfiling(appKey: string): boolean {
+    return activeProfiles.has(appKey);
+}
+
+export function getCpuProfileStartTime(appKey: string): Date | null {
+    return activeProfiles.get(appKey)?.startedAt ?? null;
+}
+
+/**
+ * Start sampling the JS thread of the target app
+ */
+export async function startCpuProfile(
+    target: AppTarget = {},
+    options: { samplingIntervalUs?: number } = {}
+): Promise<CpuProfileResult> {
+    const { app, appKey, error } = resolveTargetApp(target);
+    if (!app || !appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    if (activeProfiles.has(appKey)) {
+        return { success: false, appKey, error: "A CPU profile is already being recorded for this app. Call stop_cpu_profile first." };
+    }
+
+    const enabled = await sendCDPCommand(app, "Profiler.enable");
+    if (!enabled.success) {
+        return { success: false, appKey, error: `Profiler.enable failed: ${enabled.error}` };
+    }
+
+    if (options.samplingIntervalUs) {
+        // Not every runtime supports a custom interval; sample at the default rate if rejected
+        await sendCDPCommand(app, "Profiler.setSamplingInterval", { interval: options.samplingIntervalUs });
+    }
+
+    const started = await sendCDPCommand(app, "Profiler.start");
+    if (!started.success) {
+        return { success: false, appKey, error: `Profiler.start failed: ${started.error}` };
+    }
+
+    activeProfiles.set(appKey, { startedAt: new Date() });
+    return { success: true, appKey };
+}
+
+/**
+ * Stop sampling, save the .cpuprofile file and summarize it
+ */
+export async function stopCpuProfile(
+    target: AppTarget = {},
+    options: { outputPath?: string; topN?: number; maxPaths?: number } = {}
+): Promise<CpuProfileResult> {
+    const { app, appKey, error } = resolveTargetApp(target);
+    if (!app || !appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    // Stop even without a recorded start: the profile may predate a server restart
+    const stopped = await sendCDPCommand<{ profile?: CDPProfile }>(app, "Profiler.stop", {}, PROFILER_STOP_TIMEOUT_MS);
+    activeProfiles.delete(appKey);
+    if (!stopped.success) {
+        return { success: false, appKey, error: `Profiler.stop failed: ${stopped.error}` };
+    }
+
+    const profile = stopped.result?.profile;
+    if (!profile || !Array.isArray(profile.nodes)) {
+        return { success: false, appKey, error: "Profiler.stop returned no profile. Was start_cpu_profile called?" };
+    }
+
+    const filePath =
+        options.outputPath ??
+        path.join(PROFILES_DIR, `cpu-${new Date().toISOString().replace(/[:.]/g, "-")}.cpuprofile`);
+    try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, JSON.stringify(profile));
+    } catch (err) {
+        return {
+            success: false,
+            appKey,
+            error: `Failed to save profile: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+
+    const summary = await summarizeCpuProfile(profile, {
+        topN: options.topN,
+        maxPaths: options.maxPaths,
+        metroPort: app.port
+    });
+
+    return { success: true, appKey, path: filePath, summary };
+}
+
+// Nodes named "(root)", "(idle)", "(program)", "(garbage collector)" are not JS functions
+function isMetaNode(node: CDPProfileNode): boolean {
+    return /^\(.*\)$/.test(node.callFrame.functionName);
+}
+
+function functionKey(frame: CDPCallFrame): string {
+    return `${frame.functionName}|${frame.url}|${frame.lineNumber}|${frame.columnNumber}`;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Summarize a CDP profile: self/total time per function and the hottest call paths.
+ * Time is attributed per sample (hit count x average sampling interval).
+ * Bundle positions are source-mapped via Metro when metroPort is given.
+ */
+export async function summarizeCpuProfile(
+    profile: CDPProfile,
+    options: { topN?: number; maxPaths?: number; metroPort?: number } = {}
+): Promise<CpuProfileSummary> {
+    const { topN = 15, maxPaths = 5, metroPort } = options;
+
+    const nodes = new Map(profile.nodes.map((node) => [node.id, node]));
+    const parents: Map<number, number> = new Map();
+    for (const node of profile.nodes) {
+        for (const child of node.children ?? []) {
+            parents.set(child, node.id);
+        }
+    }
+
+    // Self hits per node
+    const hits: Map<number, number> = new Map();
+    if (profile.samples && profile.samples.length > 0) {
+        for (const id of profile.samples) {
+            hits.set(id, (hits.get(id) ?? 0) + 1);
+        }
+    } else {
+        for (const node of profile.nodes) {
+            if (node.hitCount) hits.set(node.id, node.hitCount);
+        }
+    }
+
+    let sampleCount = 0;
+    for (const count of hits.values()) sampleCount += count;
+    const durationMs = Math.max(0, (profile.endTime - profile.startTime) / 1000);
+    const msPerSample = sampleCount > 0 ? durationMs / sampleCount : 0;
+    const percent = (ms: number) => (durationMs > 0 ? round((ms / durationMs) * 100) : 0);
+
+    // Inclusive hits per node (children are listed after parents in DFS order)
+    const order: number[] = [];
+    const roots = profile.nodes.filter((node) => !parents.has(node.id)).map((node) => node.id);
+    const stack = [...roots].reverse();
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        order.push(id);
+        const children = nodes.get(id)?.children ?? [];
+        for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+    }
+    const inclusive: Map<number, number> = new Map();
+    for (let i = order.length - 1; i >= 0; i--) {
+        const id = order[i];
+        let total = hits.get(id) ?? 0;
+        for (const child of nodes.get(id)?.children ?? []) total += inclusive.get(child) ?? 0;
+        inclusive.set(id, total);
+    }
+
+    // Aggregate by function; recursive calls count towards total time once
+    const functions: Map<string, { frame: CDPCallFrame; selfHits: number; totalHits: number }> = new Map();
+    let idleHits = 0;
+    let gcHits = 0;
+    for (const id of order) {
+        const node = nodes.get(id)!;
+        const self = hits.get(id) ?? 0;
+        if (isMetaNode(node)) {
+            const name = node.callFrame.functionName;
+            if (name === "(idle)") idleHits += self;
+            else if (name === "(garbage collector)") gcHits += self;
+            continue;
+        }
+
+        const key = functionKey(node.callFrame);
+        const entry = functions.get(key) ?? { frame: node.callFrame, selfHits: 0, totalHits: 0 };
+        entry.selfHits += self;
+
+        let recursive = false;
+        for (let parent = parents.get(id); parent !== undefined; parent = parents.get(parent)) {
+            const parentNode = nodes.get(parent);
+            if (parentNode && functionKey(parentNode.callFrame) === key) {
+                recursive = true;
+                break;
+            }
+        }
+        if (!recursive) entry.totalHits += inclusive.get(id) ?? 0;
+        functions.set(key, entry);
+    }
+
+    const ranked = Array.from(functions.values())
+        .filter((entry) => entry.selfHits > 0)
+        .sort((a, b) => b.selfHits - a.selfHits)
+        .slice(0, topN);
+
+    // Hottest leaf nodes and their call paths
+    const hotNodes = profile.nodes
+        .filter((node) => !isMetaNode(node) && (hits.get(node.id) ?? 0) > 0)
+        .sort((a, b) => (hits.get(b.id) ?? 0) - (hits.get(a.id) ?? 0))
+        .slice(0, maxPaths);
+    const hotPathNodes = hotNodes.map((node) => {
+        const chain: CDPProfileNode[] = [];
+        for (let id: number | undefined = node.id; id !== undefined; id = parents.get(id)) {
+            const current = nodes.get(id);
+            if (current && !isMetaNode(current)) chain.unshift(current);
+        }
+        return { node, chain };
+    });
+
+    // Source-map every frame that appears in the output
+    const frames: Map<string, StackFrame> = new Map();
+    const addFrame = (callFrame: CDPCallFrame) => {
+        const key = functionKey(callFrame);
+        if (!frames.has(key)) {
+            frames.set(key, {
+                functionName: callFrame.functionName || "<anonymous>",
+                file: callFrame.url,
+                lineNumber: callFrame.lineNumber + 1,
+                column: callFrame.columnNumber + 1
+            });
+        }
+    };
+    ranked.forEach((entry) => addFrame(entry.frame));
+    hotPathNodes.forEach(({ chain }) => chain.forEach((node) => addFrame(node.callFrame)));
+
+    let symbolicated = false;
+    if (metroPort !== undefined && frames.size > 0) {
+        const keys = Array.from(frames.keys());
+        const result = await symbolicateFrames(metroPort, Array.from(frames.values()));
+        if (result.success) {
+            keys.forEach((key, index) => frames.set(key, result.frames[index]));
+            symbolicated = result.frames.some((frame) => frame.symbolicated);
+        }
+    }
+
+    const describe = (callFrame: CDPCallFrame): StackFrame => frames.get(functionKey(callFrame))!;
+    const location = (frame: StackFrame): string => (frame.file ? formatFrameLocation(frame) : "(native)");
+
+    const topFunctions: CpuProfileFunction[] = ranked.map((entry) => {
+        const frame = describe(entry.frame);
+        const selfMs = entry.selfHits * msPerSample;
+        const totalMs = entry.totalHits * msPerSample;
+        return {
+            functionName: frame.functionName,
+            location: location(frame),
+            selfMs: round(selfMs),
+            totalMs: round(totalMs),
+            selfPercent: percent(selfMs),
+            totalPercent: percent(totalMs)
+        };
+    });
+
+    const hotPaths: CpuProfilePath[] = hotPathNodes.map(({ node, chain }) => {
+        const names = chain.map((current) => describe(current.callFrame).functionName);
+        const leaf = describe(node.callFrame);
+        names[names.length - 1] = `${leaf.functionName} (${location(leaf)})`;
+        const shown = names.length > MAX_PATH_DEPTH ? ["...", ...names.slice(-MAX_PATH_DEPTH)] : names;
+        const selfMs = (hits.get(node.id) ?? 0) * msPerSample;
+        return { frames: shown, selfMs: round(selfMs), selfPercent: percent(selfMs) };
+    });
+
+    return {
+        durationMs: round(durationMs),
+        sampleCount,
+        idleMs: round(idleHits * msPerSample),
+        gcMs: round(gcHits * msPerSample),
+        topFunctions,
+        hotPaths,
+        symbolicated
+    };
+}
+
+/**
+ * Format a profile summary for text output
+ */
+export function formatCpuProfileSummary(summary: CpuProfileSummary): string {
+    const lines: string[] = [];
+    lines.push(`Duration: ${summary.durationMs}ms (${summary.sampleCount} samples)`);
+    lines.push(`Idle: ${summary.idleMs}ms | GC: ${summary.gcMs}ms`);
+    lines.push(`Source-mapped: ${summary.symbolicated ? "yes" : "no"}`);
+
+    lines.push("", "Top functions by self time:");
+    if (summary.topFunctions.length === 0) {
+        lines.push("  (no JS samples recorded)");
+    }
+    summary.topFunctions.forEach((fn, index) => {
+        lines.push(
+            `${index + 1}. ${fn.functionName} - self ${fn.selfMs}ms (${fn.selfPercent}%), total ${fn.totalMs}ms (${fn.totalPercent}%)`
+        );
+        lines.push(`   ${fn.location}`);
+    });
+
+    if (summary.hotPaths.length > 0) {
+        lines.push("", "Hottest call paths:");
+        summary.hotPaths.forEach((hotPath, index) => {
+            lines.push(`${index + 1}. ${hotPath.selfMs}ms (${hotPath.selfPercent}%): ${hotPath.frames.join(" > ")}`);
+        });
+    }
+
+    return lines.join("\n");
+}
@@ -0,0 +1,188 @@
+import { AppTarget, DeviceInfo } from "./types.js";
+import { reduxActionBuffer } from "./state.js";
+import { executeInApp } from "./executor.js";
+import { getConnectedApps, resolveTargetApp } from "./connection.js";
+import { registerRuntimeEventHandler, addContextCreatedListener, addAppKeyChangedListener, REINSTALL_DELAYS_MS } from "./runtimeEvents.js";
+import {
+    REDUX_ACTION_EVENT,
+    REDUX_UNHOOK_SCRIPT,
+    ReduxActionSource,
+    ReduxStateChange,
+    buildReduxHookScript
+} from "./reduxActions.js";
+
+// ============================================================================
+// Redux Action Tracking
+// ============================================================================
+//
+// The store's dispatch is wrapped in the app and every action is reported with
+// a diff of the state it produced. Tracking is kept per app and the hook is
+// re-installed after a reload, once the new bundle has created its store.
+
+// Store tracked in an app
+export interface ReduxTracking {
+    appKey: string;
+    storePath?: string;      // As requested; otherwise the store was discovered
+    source?: string;         // Where the store was found ("react-redux Provider", "global store", ...)
+    startedAt: Date;
+    hooked: boolean;         // False after a reload until the hook is re-installed
+}
+
+// Result of tracking operations
+export interface ReduxTrackingResult {
+    success: boolean;
+    appKey?: string;
+    tracking?: ReduxTracking;
+    alreadyTracking?: boolean;
+    error?: string;
+}
+
+// Shape of an action reported by the dispatch hook
+interface ReduxActionPayload {
+    type: string;
+    action?: unknown;
+    payloadSize?: number;
+    changes?: ReduxStateChange[];
+    changesTruncated?: boolean;
+    durationMs?: number;
+    source?: ReduxActionSource;
+    timestamp?: number;
+}
+
+const trackedApps: Map<string, ReduxTracking> = new Map();
+
+// Install the dispatch hook and parse its reply
+async function installHook(
+    appKey: string,
+    storePath?: string
+): Promise<{ success: boolean; source?: string; alreadyHooked?: boolean; error?: string }> {
+    const result = await executeInApp(buildReduxHookScript(storePath), false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+
+    let reply: { hooked?: boolean; alreadyHooked?: boolean; source?: string; error?: string };
+    try {
+        reply = JSON.parse(result.result || "{}");
+    } catch {
+        return { success: false, error: `Unexpected response: ${result.result}` };
+    }
+    if (reply.error || !reply.hooked) {
+        return { success: false, error: reply.error ?? "Failed to hook the store" };
+    }
+    return { success: true, source: reply.source, alreadyHooked: reply.alreadyHooked };
+}
+
+/**
+ * Find the app's Redux store and start recording its actions
+ */
+export async function startReduxTracking(target: AppTarget, options: { storePath?: string } = {}): Promise<ReduxTrackingResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const hook = await installHook(appKey, options.storePath);
+    if (!hook.success) {
+        return { success: false, appKey, error: hook.error };
+    }
+
+    const existing = trackedApps.get(appKey);
+    const tracking: ReduxTracking = existing && hook.alreadyHooked
+        ? existing
+        : { appKey, storePath: options.storePath, source: hook.source, startedAt: new Date(), hooked: true };
+    tracking.hooked = true;
+    trackedApps.set(appKey, tracking);
+    return { success: true, appKey, tracking, alreadyTracking: hook.alreadyHooked };
+}
+
+/**
+ * Restore the store's original dispatch and stop re-hooking after reloads
+ */
+export async function stopReduxTracking(target: AppTarget): Promise<ReduxTrackingResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const tracking = trackedApps.get(appKey);
+    trackedApps.delete(appKey);
+
+    const result = await executeInApp(REDUX_UNHOOK_SCRIPT, false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, appKey, tracking, error: result.error };
+    }
+    let unhooked = false;
+    try {
+        unhooked = JSON.parse(result.result || "{}").unhooked === true;
+    } catch {
+        // Treated as not hooked
+    }
+    if (!tracking && !unhooked) {
+        return { success: false, appKey, error: "Redux actions are not being tracked in this app." };
+    }
+    return { success: true, appKey, tracking };
+}
+
+/**
+ * Tracking state of an app, if tracked
+ */
+export function getReduxTracking(appKey: string): ReduxTracking | null {
+    return trackedApps.get(appKey) ?? null;
+}
+
+// Record actions reported by the dispatch hook
+registerRuntimeEventHandler(REDUX_ACTION_EVENT, (payload: unknown, device: DeviceInfo) => {
+    const report = payload as ReduxActionPayload;
+    if (typeof report?.type !== "string") {
+        return;
+    }
+
+    reduxActionBuffer.add({
+        timestamp: typeof report.timestamp === "number" ? new Date(report.timestamp) : new Date(),
+        type: report.type,
+        action: report.action,
+        payloadSize: report.payloadSize ?? 0,
+        changes: Array.isArray(report.changes) ? report.changes : [],
+        changesTruncated: report.changesTruncated === true,
+        durationMs: report.durationMs,
+        source: report.source === "middleware" ? "middleware" : "dispatch",
+        appKey: getConnectedApps().find(({ app }) => app.deviceInfo.id === device.id)?.key,
+        deviceName: device.deviceName
+    });
+});
+
+// Keep tracking an app whose key changed on reload
+addAppKeyChangedListener((previousKey, appKey) => {
+    const tracking = trackedApps.get(previousKey);
+    if (tracking) {
+        trackedApps.delete(previousKey);
+        tracking.appKey = appKey;
+        trackedApps.set(appKey, tracking);
+    }
+});
+
+// A reload creates a new store; hook it once the bundle has created it
+addContextCreatedListener((appKey) => {
+    const tracking = trackedApps.get(appKey);
+    if (!tracking) {
+        return;
+    }
+    tracking.hooked = false;
+
+    const attempt = (index: number) => {
+        if (trackedApps.get(appKey) !== tracking) return;
+        installHook(appKey, tracking.storePath).then((result) => {
+            if (result.success) {
+                tracking.hooked = true;
+                tracking.source = result.source;
+            } else if (index + 1 < REINSTALL_DELAYS_MS.length) {
+                setTimeout(() => attempt(index + 1), REINSTALL_DELAYS_MS[index + 1] - REINSTALL_DELAYS_MS[index]).unref();
+            } else {
+                tracking.hooked = false;
+                console.error(`[rn-ai-debugger] Failed to re-hook the Redux store after reload: ${result.error}`);
+            }
+        });
+    };
+    setTimeout(() => attempt(0), REINSTALL_DELAYS_MS[0]).unref();
+});
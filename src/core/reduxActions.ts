@@ -0,0 +1,389 @@
+import { RUNTIME_EMIT_SNIPPET, SAFE_VALUE_SNIPPET, toAsciiJson } from "./runtimeEvents.js";
+import { parseTimeBound } from "./logQuery.js";
+
+// One path of the state that differs after an action
+export interface ReduxStateChange {
+    path: string;                          // "cart.items[2]", "(root)" when the whole state was replaced
+    op: "added" | "removed" | "changed";
+    before?: unknown;
+    after?: unknown;
+}
+
+// Where an action was observed
+// - dispatch: passed through store.dispatch
+// - middleware: the state changed outside store.dispatch (e.g. a thunk dispatching
+//   through the middleware API); the action itself is not visible
+export type ReduxActionSource = "dispatch" | "middleware";
+
+// Redux action entry
+export interface ReduxActionEntry {
+    id: number;
+    timestamp: Date;
+    type: string;
+    action?: unknown;                      // Serialized action, size-capped
+    payloadSize: number;                   // Characters of the full JSON action
+    changes: ReduxStateChange[];
+    changesTruncated: boolean;
+    durationMs?: number;                   // Time spent in dispatch (reducers and middleware)
+    source: ReduxActionSource;
+    appKey?: string;
+    deviceName?: string;
+}
+
+// Event name used by the in-app dispatch hook
+export const REDUX_ACTION_EVENT = "redux_action";
+
+// Type recorded for state changes made outside store.dispatch
+export const UNATTRIBUTED_ACTION_TYPE = "(dispatched inside middleware)";
+
+// Caps applied in the app before an action is sent
+const MAX_ACTION_LENGTH = 2000;
+const MAX_CHANGES = 50;
+const MAX_DIFF_DEPTH = 8;
+
+// Circular buffer for Redux actions
+export class ReduxActionBuffer {
+    private actions: ReduxActionEntry[] = [];
+    private maxSize: number;
+    private nextId = 1;
+    private listeners: Array<(entry: ReduxActionEntry) => void> = [];
+
+    constructor(maxSize: number = 300) {
+        this.maxSize = maxSize;
+    }
+
+    add(entry: Omit<ReduxActionEntry, "id">): ReduxActionEntry {
+        const stored: ReduxActionEntry = { ...entry, id: this.nextId++ };
+        this.actions.push(stored);
+        if (this.actions.length > this.maxSize) {
+            this.actions.shift();
+        }
+        for (const listener of this.listeners) {
+            listener(stored);
+        }
+        return stored;
+    }
+
+    // Register a callback invoked for every added action
+    subscribe(listener: (entry: ReduxActionEntry) => void): void {
+        this.listeners.push(listener);
+    }
+
+    getAll(): ReduxActionEntry[] {
+        return [...this.actions];
+    }
+
+    clear(): number {
+        const count = this.actions.length;
+        this.actions = [];
+        return count;
+    }
+
+    get size(): number {
+        return this.actions.length;
+    }
+}
+
+/**
+ * Script that finds the app's Redux store and wraps its dispatch. The store is
+ * taken from storePath when given, else from a react-redux <Provider> in the
+ * fiber tree, else from a global that looks like a store. Each dispatched action
+ * is reported with a structural diff of the state before and after; reference
+ * equality prunes unchanged subtrees, so immutable updates diff cheaply.
+ * Idempotent per JS context.
+ */
+export function buildReduxHookScript(storePath?: string): string {
+    return `(function() {
+        ${RUNTIME_EMIT_SNIPPET}
+        ${SAFE_VALUE_SNIPPET}
+        var hooked = globalThis.__RN_AI_DEBUGGER_REDUX__;
+        if (hooked && hooked.store) {
+            return JSON.stringify({ hooked: true, alreadyHooked: true, source: hooked.source });
+        }
+
+        function isStore(value) {
+            return !!value && typeof value.dispatch === 'function'
+                && typeof value.getState === 'function' && typeof value.subscribe === 'function';
+        }
+
+        function fromPath(path) {
+            var value = globalThis;
+            var segments = path.split('.');
+            if (segments[0] === 'globalThis' || segments[0] === 'global' || segments[0] === 'window') segments.shift();
+            for (var i = 0; i < segments.length && value !== null && value !== undefined; i++) {
+                value = value[segments[i]];
+            }
+            return value;
+        }
+
+        function fromProvider() {
+            var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+            if (!hook || !hook.getFiberRoots) return null;
+            var roots = [];
+            try {
+                if (hook.renderers) {
+                    hook.renderers.forEach(function(renderer, id) {
+                        roots = roots.concat(Array.from(hook.getFiberRoots(id) || []));
+                    });
+                } else {
+                    roots = Array.from(hook.getFiberRoots(1) || []);
+                }
+            } catch (e) {}
+            // Breadth-first: Providers sit near the top of the tree
+            var queue = roots.map(function(root) { return root.current; });
+            for (var visited = 0; queue.length > 0 && visited < 5000; visited++) {
+                var fiber = queue.shift();
+                if (!fiber) continue;
+                var props = fiber.memoizedProps;
+                if (props && typeof props === 'object' && isStore(props.store)) return props.store;
+                for (var child = fiber.child; child; child = child.sibling) queue.push(child);
+            }
+            return null;
+        }
+
+        function fromGlobals() {
+            var names = ['store', '__store__', '__REDUX_STORE__', 'reduxStore', 'appStore'];
+            for (var i = 0; i < names.length; i++) {
+                if (isStore(globalThis[names[i]])) return { store: globalThis[names[i]], name: names[i] };
+            }
+            var keys = Object.keys(globalThis);
+            for (var j = 0; j < keys.length; j++) {
+                try {
+                    if (isStore(globalThis[keys[j]])) return { store: globalThis[keys[j]], name: keys[j] };
+                } catch (e) {}
+            }
+            return null;
+        }
+
+        var store = null;
+        var source = null;
+        var storePath = ${toAsciiJson(storePath ?? null)};
+        if (storePath) {
+            store = fromPath(storePath);
+            if (!isStore(store)) {
+                return JSON.stringify({ error: '"' + storePath + '" is not a Redux store (needs dispatch, getState and subscribe)' });
+            }
+            source = storePath;
+        } else {
+            store = fromProvider();
+            source = store ? 'react-redux Provider' : null;
+            if (!store) {
+                var found = fromGlobals();
+                if (found) {
+                    store = found.store;
+                    source = 'global ' + found.name;
+                }
+            }
+        }
+        if (!store) {
+            return JSON.stringify({ error: 'No Redux store found (no react-redux Provider in the component tree and no store-like global). Pass storePath, e.g. "store".' });
+        }
+
+        function isContainer(value) {
+            return !!value && typeof value === 'object';
+        }
+
+        function childPath(path, key, isArray) {
+            if (isArray) return path + '[' + key + ']';
+            return path ? path + '.' + key : key;
+        }
+
+        function diff(before, after, path, changes, depth) {
+            if (before === after || changes.length > ${MAX_CHANGES}) return;
+            var bothArrays = Array.isArray(before) && Array.isArray(after);
+            var comparable = isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after);
+            if (!comparable || depth >= ${MAX_DIFF_DEPTH}) {
+                changes.push({ path: path || '(root)', op: 'changed', before: __rnAiDebuggerToSafe(before, 3, 200), after: __rnAiDebuggerToSafe(after, 3, 200) });
+                return;
+            }
+            var keys = Object.keys(before);
+            for (var i = 0; i < keys.length; i++) {
+                var key = keys[i];
+                if (!Object.prototype.hasOwnProperty.call(after, key)) {
+                    changes.push({ path: childPath(path, key, bothArrays), op: 'removed', before: __rnAiDebuggerToSafe(before[key], 3, 200) });
+                } else {
+                    diff(before[key], after[key], childPath(path, key, bothArrays), changes, depth + 1);
+                }
+            }
+            var added = Object.keys(after);
+            for (var j = 0; j < added.length; j++) {
+                if (!Object.prototype.hasOwnProperty.call(before, added[j])) {
+                    changes.push({ path: childPath(path, added[j], bothArrays), op: 'added', after: __rnAiDebuggerToSafe(after[added[j]], 3, 200) });
+                }
+            }
+        }
+
+        function report(type, action, before, after, durationMs, actionSource) {
+            try {
+                var changes = [];
+                diff(before, after, '', changes, 0);
+                var text = '';
+                if (action !== undefined) {
+                    try { text = JSON.stringify(action) || ''; } catch (e) { text = String(action); }
+                }
+                __rnAiDebuggerEmit('${REDUX_ACTION_EVENT}', {
+                    type: type,
+                    action: action === undefined ? undefined
+                        : text.length <= ${MAX_ACTION_LENGTH} ? __rnAiDebuggerToSafe(action, 6, 200) : text.slice(0, ${MAX_ACTION_LENGTH}) + '...',
+                    payloadSize: text.length,
+                    changes: changes.slice(0, ${MAX_CHANGES}),
+                    changesTruncated: changes.length > ${MAX_CHANGES},
+                    durationMs: durationMs,
+                    source: actionSource,
+                    timestamp: Date.now()
+                });
+            } catch (e) {}
+        }
+
+        var state = { store: store, source: source, original: store.dispatch, depth: 0, lastState: store.getState() };
+
+        store.dispatch = function(action) {
+            // Thunks and other non-plain actions are not reported; the state changes
+            // of what they dispatch are picked up by the subscriber below
+            if (!action || typeof action !== 'object' || action.type === undefined) {
+                return state.original.apply(this, arguments);
+            }
+            var before = store.getState();
+            var start = Date.now();
+            state.depth++;
+            try {
+                return state.original.apply(this, arguments);
+            } finally {
+                state.depth--;
+                var after = store.getState();
+                state.lastState = after;
+                report(String(action.type), action, before, after, Date.now() - start, 'dispatch');
+            }
+        };
+
+        state.unsubscribe = store.subscribe(function() {
+            var next = store.getState();
+            if (state.depth === 0 && next !== state.lastState) {
+                report('${UNATTRIBUTED_ACTION_TYPE}', undefined, state.lastState, next, undefined, 'middleware');
+            }
+            state.lastState = next;
+        });
+
+        globalThis.__RN_AI_DEBUGGER_REDUX__ = state;
+        return JSON.stringify({ hooked: true, source: source });
+    })()`;
+}
+
+// Script that restores the original dispatch
+export const REDUX_UNHOOK_SCRIPT = `(function() {
+    var state = globalThis.__RN_AI_DEBUGGER_REDUX__;
+    if (!state || !state.store) return JSON.stringify({ unhooked: false });
+    state.store.dispatch = state.original;
+    if (typeof state.unsubscribe === 'function') state.unsubscribe();
+    delete globalThis.__RN_AI_DEBUGGER_REDUX__;
+    return JSON.stringify({ unhooked: true });
+})()`;
+
+// Compact JSON for text output
+function preview(value: unknown, maxLength: number): string {
+    let text: string;
+    try {
+        text = value === undefined ? "undefined" : JSON.stringify(value);
+    } catch {
+        text = String(value);
+    }
+    return maxLength > 0 && text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
+}
+
+// Format one state change ("+ path: value", "- path", "~ path: before -> after")
+export function formatStateChange(change: ReduxStateChange, maxValueLength: number = 120): string {
+    switch (change.op) {
+        case "added":
+            return `+ ${change.path}: ${preview(change.after, maxValueLength)}`;
+        case "removed":
+            return `- ${change.path} (was ${preview(change.before, maxValueLength)})`;
+        default:
+            return `~ ${change.path}: ${preview(change.before, maxValueLength)} -> ${preview(change.after, maxValueLength)}`;
+    }
+}
+
+// Format Redux actions for text output
+export function formatReduxActions(
+    actions: ReduxActionEntry[],
+    options: { includeDiff?: boolean; includePayload?: boolean; maxChanges?: number } = {}
+): string {
+    if (actions.length === 0) {
+        return "No Redux actions captured. Use start_redux_tracking to hook the store, then interact with the app.";
+    }
+
+    const { includeDiff = true, includePayload = true, maxChanges = 10 } = options;
+    const showApp = new Set(actions.map((entry) => entry.appKey)).size > 1;
+
+    return actions
+        .map((entry) => {
+            const appTag = showApp && entry.deviceName ? ` [${entry.deviceName}]` : "";
+            const duration = entry.durationMs !== undefined ? `, ${entry.durationMs}ms` : "";
+            const changeCount = `${entry.changes.length}${entry.changesTruncated ? "+" : ""} change(s)`;
+            const lines = [`[#${entry.id}] ${entry.timestamp.toLocaleTimeString()}${appTag} ${entry.type} (${changeCount}${duration})`];
+
+            if (includePayload && entry.action !== undefined) {
+                lines.push(`  action: ${preview(entry.action, 500)}`);
+            }
+            if (includeDiff) {
+                const shown = maxChanges > 0 ? entry.changes.slice(0, maxChanges) : entry.changes;
+                for (const change of shown) {
+                    lines.push(`  ${formatStateChange(change)}`);
+                }
+                const hidden = entry.changes.length - shown.length;
+                if (hidden > 0 || entry.changesTruncated) {
+                    lines.push(`  ... ${hidden > 0 ? `${hidden} more` : "more"} change(s)`);
+                }
+            }
+            return lines.join("\n");
+        })
+        .join("\n\n");
+}
+
+// Get Redux actions with filtering
+export function getReduxActions(
+    buffer: ReduxActionBuffer,
+    options: {
+        maxActions?: number;
+        type?: string;
+        path?: string;
+        since?: string;
+        until?: string;
+        appKey?: string;
+    } = {}
+): { actions: ReduxActionEntry[]; error?: string } {
+    const { maxActions = 30, type, path, since, until, appKey } = options;
+
+    let actions = buffer.getAll();
+
+    if (appKey) {
+        actions = actions.filter((entry) => entry.appKey === appKey);
+    }
+
+    if (type) {
+        const needle = type.toLowerCase();
+        actions = actions.filter((entry) => entry.type.toLowerCase().includes(needle));
+    }
+
+    if (path) {
+        actions = actions.filter((entry) =>
+            entry.changes.some((change) => change.path === path || change.path.startsWith(`${path}.`) || change.path.startsWith(`${path}[`))
+        );
+    }
+
+    for (const [name, value] of [["since", since], ["until", until]] as const) {
+        if (!value) continue;
+        const bound = parseTimeBound(value);
+        if (!bound) {
+            return { actions: [], error: `Invalid ${name} value "${value}"` };
+        }
+        actions = actions.filter((entry) =>
+            name === "since" ? entry.timestamp.getTime() >= bound.getTime() : entry.timestamp.getTime() <= bound.getTime()
+        );
+    }
+
+    if (maxActions > 0) {
+        actions = actions.slice(-maxActions);
+    }
+
+    return { actions };
+}
@@ -0,0 +1,354 @@
+import { AppTarget } from "./types.js";
+import { executeInApp } from "./executor.js";
+import { resolveTargetApp } from "./connection.js";
+
+// ============================================================================
+// React Render Profiling
+// ============================================================================
+//
+// Wraps __REACT_DEVTOOLS_GLOBAL_HOOK__.onCommitFiberRoot, which the renderer
+// calls after every commit. Each commit is walked like React DevTools does:
+// subtrees whose child fibers were reused are skipped, and a component counts
+// as rendered when it mounted or has the PerformedWork flag. For each render
+// the changed props, state and hooks are recorded. Aggregation happens in the
+// app so only the per-component totals cross the bridge when profiling stops.
+
+const RENDER_PROFILE_GLOBAL = "__RN_AI_DEBUGGER_RENDER_PROFILE__";
+
+// Components tracked per recording (the rest are counted as dropped)
+const MAX_COMPONENTS = 2000;
+
+// Per-component totals of a recording
+export interface ComponentRenderStats {
+    name: string;
+    renders: number;                  // Re-renders (mounts excluded)
+    mounts: number;
+    actualMs: number;                 // Sum of actualDuration (component and its subtree)
+    selfMs: number;                   // Sum of selfBaseDuration (component only)
+    maxActualMs: number;
+    unchangedRenders: number;         // Re-renders with no prop, state or hook change (parent or context re-render)
+    reasons: Record<string, number>;  // "props.onPress", "state.count", "hook #2", "context", "parent render"
+}
+
+// Render profile report
+export interface RenderProfileReport {
+    durationMs: number;
+    commits: number;
+    timingAvailable: boolean;         // actualDuration is only tracked by development/profiling builds
+    components: ComponentRenderStats[];
+    droppedComponents: number;        // Renders of components beyond MAX_COMPONENTS
+}
+
+// Result of render profiler operations
+export interface RenderProfileResult {
+    success: boolean;
+    appKey?: string;
+    report?: RenderProfileReport;
+    error?: string;
+}
+
+// Active recordings by app key
+const activeRenderProfiles: Map<string, { startedAt: Date }> = new Map();
+
+export function getRenderProfileStartTime(appKey: string): Date | null {
+    return activeRenderProfiles.get(appKey)?.startedAt ?? null;
+}
+
+const START_SCRIPT = `(function() {
+    var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    if (!hook || typeof hook.onCommitFiberRoot !== 'function') {
+        return JSON.stringify({ error: 'React DevTools hook not available. Make sure you are running a development build.' });
+    }
+    if (globalThis.${RENDER_PROFILE_GLOBAL}) {
+        return JSON.stringify({ error: 'A render profile is already being recorded. Call stop_render_profile first.' });
+    }
+
+    var PERFORMED_WORK = 1;
+    // Function, class, forwardRef and simple memo components. A MemoComponent (14)
+    // renders through an inner component fiber, which is counted instead.
+    var COMPOSITE_TAGS = { 0: true, 1: true, 11: true, 15: true };
+
+    var profile = {
+        startedAt: Date.now(),
+        commits: 0,
+        timingAvailable: false,
+        // Keyed by display name: no prototype, so "constructor" or "toString" start empty
+        components: Object.create(null),
+        componentCount: 0,
+        droppedComponents: 0,
+        original: hook.onCommitFiberRoot
+    };
+
+    function displayName(fiber) {
+        var type = fiber.type;
+        if (!type) return 'Anonymous';
+        if (typeof type === 'string') return type;
+        if (type.displayName) return type.displayName;
+        if (type.name) return type.name;
+        if (type.render) return type.render.displayName || type.render.name || 'ForwardRef';
+        if (type.type) return type.type.displayName || type.type.name || 'Memo';
+        return 'Anonymous';
+    }
+
+    function changedKeys(prev, next, prefix, out) {
+        if (prev === next || !prev || !next || typeof prev !== 'object' || typeof next !== 'object') {
+            if (prev !== next) out.push(prefix);
+            return;
+        }
+        var keys = Object.keys(next);
+        for (var i = 0; i < keys.length; i++) {
+            if (prev[keys[i]] !== next[keys[i]]) out.push(prefix + '.' + keys[i]);
+        }
+        var prevKeys = Object.keys(prev);
+        for (var j = 0; j < prevKeys.length; j++) {
+            if (!(prevKeys[j] in next)) out.push(prefix + '.' + prevKeys[j]);
+        }
+    }
+
+    // Stateful hooks (useState/useReducer) have an update queue
+    function changedHooks(prev, next, out) {
+        var index = 0;
+        while (prev && next) {
+            if (next.queue && prev.memoizedState !== next.memoizedState) out.push('hook #' + index);
+            prev = prev.next;
+            next = next.next;
+            index++;
+        }
+    }
+
+    function contextChanged(prev, next) {
+        var prevDep = prev.dependencies && prev.dependencies.firstContext;
+        var nextDep = next.dependencies && next.dependencies.firstContext;
+        while (prevDep && nextDep) {
+            if (prevDep.memoizedValue !== nextDep.memoizedValue) return true;
+            prevDep = prevDep.next;
+            nextDep = nextDep.next;
+        }
+        return false;
+    }
+
+    function record(fiber, prev) {
+        var name = displayName(fiber);
+        var stats = profile.components[name];
+        if (!stats) {
+            if (profile.componentCount >= ${MAX_COMPONENTS}) {
+                profile.droppedComponents++;
+                return;
+            }
+            stats = { renders: 0, mounts: 0, actualMs: 0, selfMs: 0, maxActualMs: 0, unchangedRenders: 0, reasons: Object.create(null) };
+            profile.components[name] = stats;
+            profile.componentCount++;
+        }
+        if (typeof fiber.actualDuration === 'number') {
+            profile.timingAvailable = true;
+            stats.actualMs += fiber.actualDuration;
+            stats.selfMs += fiber.selfBaseDuration || 0;
+            if (fiber.actualDuration > stats.maxActualMs) stats.maxActualMs = fiber.actualDuration;
+        }
+        if (!prev) {
+            stats.mounts++;
+            return;
+        }
+        stats.renders++;
+
+        var reasons = [];
+        if (prev.memoizedProps !== fiber.memoizedProps) changedKeys(prev.memoizedProps, fiber.memoizedProps, 'props', reasons);
+        if (fiber.tag === 1) {
+            if (prev.memoizedState !== fiber.memoizedState) changedKeys(prev.memoizedState, fiber.memoizedState, 'state', reasons);
+        } else {
+            changedHooks(prev.memoizedState, fiber.memoizedState, reasons);
+        }
+        if (contextChanged(prev, fiber)) reasons.push('context');
+        if (reasons.length === 0) {
+            stats.unchangedRenders++;
+            reasons.push('parent render');
+        }
+        for (var i = 0; i < reasons.length; i++) {
+            stats.reasons[reasons[i]] = (stats.reasons[reasons[i]] || 0) + 1;
+        }
+    }
+
+    function walkCommit(root) {
+        var stack = [root.current];
+        while (stack.length > 0) {
+            var fiber = stack.pop();
+            var prev = fiber.alternate;
+            if (COMPOSITE_TAGS[fiber.tag]) {
+                var flags = fiber.flags !== undefined ? fiber.flags : fiber.effectTag;
+                if (!prev || (flags & PERFORMED_WORK) === PERFORMED_WORK) record(fiber, prev);
+            }
+            // Reused children were not rendered in this commit
+            if (prev && fiber.child === prev.child) continue;
+            for (var child = fiber.child; child; child = child.sibling) stack.push(child);
+        }
+    }
+
+    hook.onCommitFiberRoot = function(rendererID, root) {
+        try {
+            profile.commits++;
+            walkCommit(root);
+        } catch (e) {}
+        return profile.original.apply(this, arguments);
+    };
+
+    globalThis.${RENDER_PROFILE_GLOBAL} = profile;
+    return JSON.stringify({ started: true });
+})()`;
+
+const STOP_SCRIPT = `(function() {
+    var profile = globalThis.${RENDER_PROFILE_GLOBAL};
+    if (!profile) {
+        return JSON.stringify({ error: 'No render profile is being recorded in the app (it may have been reloaded). Call start_render_profile first.' });
+    }
+    var hook = globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+    if (hook) hook.onCommitFiberRoot = profile.original;
+    delete globalThis.${RENDER_PROFILE_GLOBAL};
+
+    var components = Object.keys(profile.components).map(function(name) {
+        var stats = profile.components[name];
+        stats.name = name;
+        return stats;
+    });
+    return JSON.stringify({
+        durationMs: Date.now() - profile.startedAt,
+        commits: profile.commits,
+        timingAvailable: profile.timingAvailable,
+        components: components,
+        droppedComponents: profile.droppedComponents
+    });
+})()`;
+
+/**
+ * Start counting React commits and component renders in the target app
+ */
+export async function startRenderProfile(target: AppTarget = {}): Promise<RenderProfileResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const result = await executeInApp(START_SCRIPT, false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    let reply: { started?: boolean; error?: string };
+    try {
+        reply = JSON.parse(result.result || "{}");
+    } catch {
+        return { success: false, appKey, error: `Unexpected response: ${result.result}` };
+    }
+    if (!reply.started) {
+        return { success: false, appKey, error: reply.error ?? "Failed to start the render profile" };
+    }
+
+    activeRenderProfiles.set(appKey, { startedAt: new Date() });
+    return { success: true, appKey };
+}
+
+/**
+ * Stop recording and collect the per-component render totals
+ */
+export async function stopRenderProfile(target: AppTarget = {}): Promise<RenderProfileResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    // Collect even without a recorded start: the recording may predate a server restart
+    const result = await executeInApp(STOP_SCRIPT, false, { target: { appKey }, timeoutMs: 30000 });
+    activeRenderProfiles.delete(appKey);
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    let reply: Partial<RenderProfileReport> & { error?: string };
+    try {
+        reply = JSON.parse(result.result || "{}");
+    } catch {
+        return { success: false, appKey, error: `Unexpected response: ${result.result}` };
+    }
+    if (reply.error || !reply.components) {
+        return { success: false, appKey, error: reply.error ?? "Failed to read the render profile" };
+    }
+
+    return {
+        success: true,
+        appKey,
+        report: {
+            durationMs: reply.durationMs ?? 0,
+            commits: reply.commits ?? 0,
+            timingAvailable: reply.timingAvailable === true,
+            components: reply.components,
+            droppedComponents: reply.droppedComponents ?? 0
+        }
+    };
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 10) / 10;
+}
+
+// Most frequent reasons of a component's re-renders ("props.items x12, hook #0 x3")
+function formatReasons(stats: ComponentRenderStats, max: number = 4): string {
+    const reasons = Object.entries(stats.reasons).sort((a, b) => b[1] - a[1]);
+    const shown = reasons.slice(0, max).map(([reason, count]) => `${reason} x${count}`);
+    if (reasons.length > max) {
+        shown.push(`+${reasons.length - max} more`);
+    }
+    return shown.join(", ");
+}
+
+/**
+ * Format a ranked report: most expensive components, most frequent re-renders,
+ * and re-renders where nothing the component reads changed (React.memo candidates)
+ */
+export function formatRenderProfileReport(report: RenderProfileReport, options: { topN?: number } = {}): string {
+    const { topN = 10 } = options;
+    const lines: string[] = [];
+
+    const totalRenders = report.components.reduce((sum, stats) => sum + stats.renders, 0);
+    const totalMounts = report.components.reduce((sum, stats) => sum + stats.mounts, 0);
+    lines.push(`Render profile: ${(report.durationMs / 1000).toFixed(1)}s, ${report.commits} commit(s), ${totalRenders} re-render(s), ${totalMounts} mount(s) across ${report.components.length} component(s)`);
+    if (report.droppedComponents > 0) {
+        lines.push(`(${report.droppedComponents} render(s) of further components were not tracked)`);
+    }
+
+    if (report.commits === 0) {
+        lines.push("", "No commits recorded. Interact with the app while recording.");
+        return lines.join("\n");
+    }
+
+    if (report.timingAvailable) {
+        const expensive = [...report.components].filter((stats) => stats.selfMs > 0).sort((a, b) => b.selfMs - a.selfMs).slice(0, topN);
+        lines.push("", "Most expensive (self render time):");
+        expensive.forEach((stats, index) => {
+            const count = stats.renders + stats.mounts;
+            lines.push(`  ${index + 1}. ${stats.name} - self ${round(stats.selfMs)}ms, with children ${round(stats.actualMs)}ms over ${count} render(s), max ${round(stats.maxActualMs)}ms`);
+        });
+    } else {
+        lines.push("", "Render durations are not available in this build (no actualDuration on fibers).");
+    }
+
+    const frequent = [...report.components].filter((stats) => stats.renders > 0).sort((a, b) => b.renders - a.renders).slice(0, topN);
+    lines.push("", "Most frequent re-renders:");
+    if (frequent.length === 0) {
+        lines.push("  (none)");
+    }
+    frequent.forEach((stats, index) => {
+        lines.push(`  ${index + 1}. ${stats.name} - ${stats.renders} re-render(s): ${formatReasons(stats)}`);
+    });
+
+    const unchanged = [...report.components]
+        .filter((stats) => stats.unchangedRenders > 0)
+        .sort((a, b) => b.unchangedRenders - a.unchangedRenders)
+        .slice(0, topN);
+    if (unchanged.length > 0) {
+        lines.push("", "Re-rendered with unchanged props, state and context (only because the parent rendered):");
+        unchanged.forEach((stats, index) => {
+            lines.push(`  ${index + 1}. ${stats.name} - ${stats.unchangedRenders} of ${stats.renders} re-render(s)`);
+        });
+    }
+
+    return lines.join("\n");
+}
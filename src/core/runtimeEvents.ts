@@ -0,0 +1,193 @@
+import { DeviceInfo } from "./types.js";
+
+// ============================================================================
+// Runtime Event Channel
+// ============================================================================
+//
+// Helpers injected into the app (network mocks, tracers, store hooks) report
+// back to the server through a CDP binding (Runtime.addBinding) when the
+// runtime supports it, or through a marked console.debug call otherwise.
+// Both paths end up in dispatchRuntimeEvent().
+
+// Name of the CDP binding installed on connect
+export const RUNTIME_EVENT_BINDING = "__RN_AI_DEBUGGER_BINDING__";
+
+// First console argument that marks a runtime event (console fallback)
+export const RUNTIME_EVENT_MARKER = "__RN_AI_DEBUGGER_EVENT__";
+
+/**
+ * JS snippet that defines `__rnAiDebuggerEmit(type, payload)` inside injected code.
+ * Include it at the top of any injected function that needs to report events.
+ */
+export const RUNTIME_EMIT_SNIPPET = `
+    function __rnAiDebuggerEmit(type, payload) {
+        try {
+            var msg = JSON.stringify({ type: type, payload: payload });
+            if (typeof globalThis.${RUNTIME_EVENT_BINDING} === 'function') {
+                globalThis.${RUNTIME_EVENT_BINDING}(msg);
+            } else {
+                console.debug('${RUNTIME_EVENT_MARKER}', msg);
+            }
+        } catch (e) {}
+    }
+`;
+
+/**
+ * JS snippet that defines `__rnAiDebuggerToSafe(value, depth, maxString)`: a
+ * bounded, JSON-safe copy of an app value (depth levels, 20 items per level,
+ * strings cut at maxString, circular references and throwing getters marked),
+ * so large app objects cannot stall the runtime when they are emitted.
+ */
+export const SAFE_VALUE_SNIPPET = `
+    function __rnAiDebuggerToSafe(value, depth, maxString, seen) {
+        seen = seen || [];
+        if (value === null || value === undefined) return value;
+        var type = typeof value;
+        if (type === 'number' || type === 'boolean') return value;
+        if (type === 'string') {
+            return value.length > maxString ? value.slice(0, maxString) + '...[' + value.length + 'ch]' : value;
+        }
+        if (type === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+        if (type !== 'object') return String(value);
+        if (value instanceof Error) return (value.name || 'Error') + ': ' + value.message;
+        if (seen.indexOf(value) !== -1) return '[Circular]';
+        if (depth <= 0) return Array.isArray(value) ? '[Array(' + value.length + ')]' : '[Object]';
+        seen.push(value);
+        var result;
+        if (Array.isArray(value)) {
+            result = [];
+            for (var i = 0; i < value.length && i < 20; i++) {
+                result.push(__rnAiDebuggerToSafe(value[i], depth - 1, maxString, seen));
+            }
+            if (value.length > 20) result.push('... ' + (value.length - 20) + ' more');
+        } else {
+            result = {};
+            var keys = Object.keys(value);
+            for (var j = 0; j < keys.length && j < 20; j++) {
+                try {
+                    result[keys[j]] = __rnAiDebuggerToSafe(value[keys[j]], depth - 1, maxString, seen);
+                } catch (e) {
+                    result[keys[j]] = '[Getter threw]';
+                }
+            }
+            if (keys.length > 20) result['...'] = (keys.length - 20) + ' more keys';
+        }
+        seen.pop();
+        return result;
+    }
+`;
+
+/**
+ * JS snippet that defines `__rnAiDebuggerModules()`: the module records of
+ * Metro's registry (verboseName, isInitialized, publicModule.exports), or null
+ * when the registry is not exposed (release builds).
+ */
+export const METRO_MODULES_SNIPPET = `
+    function __rnAiDebuggerModules() {
+        var getModules = globalThis.__r && globalThis.__r.getModules;
+        if (typeof getModules !== 'function') return null;
+        var modules = getModules();
+        return typeof modules.forEach === 'function' && typeof modules.get === 'function'
+            ? Array.from(modules.values())
+            : Object.keys(modules).map(function(id) { return modules[id]; });
+    }
+`;
+
+/**
+ * JSON literal for embedding values in injected code, with non-ASCII
+ * characters escaped: executeInApp rejects expressions containing surrogate
+ * pairs, which Hermes fails to decode
+ */
+export function toAsciiJson(value: unknown): string {
+    return JSON.stringify(value).replace(/[\u0080-\uffff]/g, (c) => "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0"));
+}
+
+// Delays after a new JS context before re-installing a hook on something the
+// bundle creates late (a Redux store, a navigation container)
+export const REINSTALL_DELAYS_MS = [1500, 5000, 15000];
+
+export type RuntimeEventHandler = (payload: unknown, device: DeviceInfo) => void;
+export type ContextCreatedListener = (appKey: string, contextId: number) => void;
+export type AppKeyChangedListener = (previousKey: string, appKey: string) => void;
+
+const runtimeEventHandlers: Map<string, RuntimeEventHandler> = new Map();
+const contextCreatedListeners: Set<ContextCreatedListener> = new Set();
+const appKeyChangedListeners: Set<AppKeyChangedListener> = new Set();
+
+/**
+ * Register a handler for a runtime event type (one handler per type)
+ */
+export function registerRuntimeEventHandler(type: string, handler: RuntimeEventHandler): void {
+    runtimeEventHandlers.set(type, handler);
+}
+
+/**
+ * Dispatch a serialized runtime event to its handler.
+ * Returns false if the message is not a valid runtime event.
+ */
+export function dispatchRuntimeEvent(raw: string, device: DeviceInfo): boolean {
+    let parsed: { type?: unknown; payload?: unknown };
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return false;
+    }
+
+    if (typeof parsed?.type !== "string") {
+        return false;
+    }
+
+    const handler = runtimeEventHandlers.get(parsed.type);
+    if (handler) {
+        try {
+            handler(parsed.payload, device);
+        } catch (error) {
+            console.error(`[rn-ai-debugger] Runtime event handler for ${parsed.type} failed: ${error}`);
+        }
+    }
+    return true;
+}
+
+/**
+ * Register a listener that runs after every Runtime.executionContextCreated
+ * (initial connect, reload, Fast Refresh full reload). Use it to re-inject
+ * runtime helpers that are lost when the JS context is recreated.
+ */
+export function addContextCreatedListener(listener: ContextCreatedListener): void {
+    contextCreatedListeners.add(listener);
+}
+
+/**
+ * Notify all context-created listeners
+ */
+export function notifyContextCreated(appKey: string, contextId: number): void {
+    for (const listener of contextCreatedListeners) {
+        try {
+            listener(appKey, contextId);
+        } catch (error) {
+            console.error(`[rn-ai-debugger] Context listener failed: ${error}`);
+        }
+    }
+}
+
+/**
+ * Register a listener that runs when an app comes back under a new key (a
+ * reload that changed its target ID), before the new connection's
+ * context-created listeners. Use it to move per-app state kept by key.
+ */
+export function addAppKeyChangedListener(listener: AppKeyChangedListener): void {
+    appKeyChangedListeners.add(listener);
+}
+
+/**
+ * Notify all app-key-changed listeners
+ */
+export function notifyAppKeyChanged(previousKey: string, appKey: string): void {
+    for (const listener of appKeyChangedListeners) {
+        try {
+            listener(previousKey, appKey);
+        } catch (error) {
+            console.error(`[rn-ai-debugger] App key listener failed: ${error}`);
+        }
+    }
+}
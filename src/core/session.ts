@@ -0,0 +1,393 @@
+import { createReadStream, createWriteStream, WriteStream } from "fs";
+import { mkdir, readdir, readFile, stat } from "fs/promises";
+import { homedir } from "os";
+import path from "path";
+import { createInterface } from "readline";
+import { ConnectionGap, LogEntry, NetworkRequest } from "./types.js";
+import { BundleError } from "./bundle.js";
+import { ExceptionEntry } from "./exceptions.js";
+import { logBuffer, networkBuffer, bundleErrorBuffer, exceptionBuffer } from "./state.js";
+import { getServerVersion } from "./telemetry.js";
+
+// ============================================================================
+// Session Recording
+// ============================================================================
+//
+// Opt-in recorder that appends every log entry, network request update,
+// bundle error, exception and connection gap to one NDJSON file per session.
+// Saved sessions can be loaded back into the in-memory buffers so the regular
+// log/network tools work against historic data. Error and warning logs are
+// written again once their stacks are symbolicated (a "logUpdate" of the
+// session's n-th log record); exceptions are written as first reported,
+// before their frames are symbolicated.
+
+export const SESSIONS_DIR = path.join(homedir(), ".rn-ai-debugger", "sessions");
+
+// One line of a session file
+type SessionRecord =
+    | { type: "session"; id: string; startedAt: string; version: string }
+    | { type: "log"; data: LogEntry }
+    | { type: "logUpdate"; log: number; data: LogEntry }
+    | { type: "network"; data: NetworkRequest }
+    | { type: "bundleError"; data: BundleError }
+    | { type: "exception"; data: ExceptionEntry }
+    | { type: "gap"; appKey: string; data: ConnectionGap };
+
+// Saved session summary (list_sessions)
+export interface SessionInfo {
+    id: string;
+    path: string;
+    startedAt: Date;
+    sizeBytes: number;
+    logs: number;
+    networkRequests: number;
+    bundleErrors: number;
+    exceptions: number;
+    connectionGaps: number;
+    active: boolean;
+}
+
+// Result of recorder and load operations
+export interface SessionResult {
+    success: boolean;
+    id?: string;
+    path?: string;
+    logs?: number;
+    networkRequests?: number;
+    bundleErrors?: number;
+    exceptions?: number;
+    connectionGaps?: ConnectionGap[];
+    skipped?: number;
+    error?: string;
+}
+
+let activeStream: WriteStream | null = null;
+let activeSessionId: string | null = null;
+let activeSessionPath: string | null = null;
+let rehydrating = false;
+
+// Index of each log entry among the active session's log records, to write updates
+let loggedEntries: WeakMap<LogEntry, number> = new WeakMap();
+let loggedCount = 0;
+
+function writeRecord(record: SessionRecord): void {
+    if (!activeStream || rehydrating) {
+        return;
+    }
+    activeStream.write(JSON.stringify(record) + "\n");
+}
+
+// Resolve a session ID (or file name) to its path inside the sessions directory
+function resolveSessionPath(sessionId: string): string {
+    const fileName = path.basename(sessionId).replace(/\.ndjson$/, "") + ".ndjson";
+    return path.join(SESSIONS_DIR, fileName);
+}
+
+// Parse a session file into its records, skipping corrupt lines (e.g. a partial last write)
+async function readSessionRecords(filePath: string): Promise<{ records: SessionRecord[]; skipped: number }> {
+    const content = await readFile(filePath, "utf-8");
+    const records: SessionRecord[] = [];
+    let skipped = 0;
+
+    for (const line of content.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line) as SessionRecord);
+        } catch {
+            skipped++;
+        }
+    }
+
+    return { records, skipped };
+}
+
+// Count the records of a session file line by line, without holding it in memory.
+// Only header, network and gap lines are parsed; the others are told apart by
+// their leading type, which writeRecord always puts first.
+async function countSessionRecords(filePath: string): Promise<
+    Pick<SessionInfo, "logs" | "networkRequests" | "bundleErrors" | "exceptions" | "connectionGaps"> & { startedAt?: Date }
+> {
+    const networkIds = new Set<string>();
+    const counts = { logs: 0, networkRequests: 0, bundleErrors: 0, exceptions: 0, connectionGaps: 0, startedAt: undefined as Date | undefined };
+
+    const lines = createInterface({ input: createReadStream(filePath, { encoding: "utf-8" }), crlfDelay: Infinity });
+    for await (const line of lines) {
+        const type = line.match(/^\{"type":"(\w+)"/)?.[1];
+        if (type === "log") {
+            counts.logs++;
+        } else if (type === "bundleError") {
+            counts.bundleErrors++;
+        } else if (type === "exception") {
+            counts.exceptions++;
+        } else if (type === "session" || type === "network" || type === "gap") {
+            let record: SessionRecord;
+            try {
+                record = JSON.parse(line) as SessionRecord;
+            } catch {
+                continue;
+            }
+            if (record.type === "session") counts.startedAt = reviveDate(record.startedAt);
+            else if (record.type === "network") networkIds.add(record.data.requestId);
+            else if (record.type === "gap" && !record.data.reconnectedAt) counts.connectionGaps++;
+        }
+    }
+
+    counts.networkRequests = networkIds.size;
+    return counts;
+}
+
+function reviveDate(value: unknown): Date {
+    const date = new Date(value as string);
+    return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Check if a session is currently being recorded
+ */
+export function isSessionRecording(): boolean {
+    return activeStream !== null;
+}
+
+/**
+ * Get the ID of the session being recorded, if any
+ */
+export function getActiveSessionId(): string | null {
+    return activeSessionId;
+}
+
+/**
+ * Start recording to a new session file. Does nothing if a session is already active.
+ */
+export async function startSessionRecording(): Promise<SessionResult> {
+    if (activeStream && activeSessionId && activeSessionPath) {
+        return { success: true, id: activeSessionId, path: activeSessionPath };
+    }
+
+    const startedAt = new Date();
+    const id = `session-${startedAt.toISOString().replace(/[:.]/g, "-")}`;
+    const filePath = resolveSessionPath(id);
+
+    try {
+        await mkdir(SESSIONS_DIR, { recursive: true });
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to create sessions directory: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+
+    const stream = createWriteStream(filePath, { flags: "a" });
+    stream.on("error", (error) => {
+        console.error(`[rn-ai-debugger] Session recording failed: ${error.message}`);
+        if (activeStream === stream) {
+            activeStream = null;
+            activeSessionId = null;
+            activeSessionPath = null;
+        }
+    });
+
+    activeStream = stream;
+    activeSessionId = id;
+    activeSessionPath = filePath;
+    loggedEntries = new WeakMap();
+    loggedCount = 0;
+    writeRecord({ type: "session", id, startedAt: startedAt.toISOString(), version: getServerVersion() });
+
+    console.error(`[rn-ai-debugger] Recording session to ${filePath}`);
+    return { success: true, id, path: filePath };
+}
+
+/**
+ * Stop recording and close the session file
+ */
+export async function stopSessionRecording(): Promise<SessionResult> {
+    if (!activeStream || !activeSessionId) {
+        return { success: false, error: "No session is being recorded." };
+    }
+
+    const stream = activeStream;
+    const result: SessionResult = { success: true, id: activeSessionId, path: activeSessionPath ?? undefined };
+
+    activeStream = null;
+    activeSessionId = null;
+    activeSessionPath = null;
+
+    await new Promise<void>((resolve) => stream.end(resolve));
+    return result;
+}
+
+/**
+ * Start recording automatically when RN_DEBUGGER_RECORD_SESSION is enabled
+ */
+export async function initSessionRecorder(): Promise<void> {
+    const envValue = process.env.RN_DEBUGGER_RECORD_SESSION;
+    if (envValue === "true" || envValue === "1" || envValue === "on") {
+        const result = await startSessionRecording();
+        if (!result.success) {
+            console.error(`[rn-ai-debugger] ${result.error}`);
+        }
+    }
+}
+
+/**
+ * Run fn without recording the buffer updates it makes (data loaded from
+ * files rather than captured from the app)
+ */
+export function withoutSessionRecording<T>(fn: () => T): T {
+    const previous = rehydrating;
+    rehydrating = true;
+    try {
+        return fn();
+    } finally {
+        rehydrating = previous;
+    }
+}
+
+/**
+ * Record a connection gap (opened or closed) for the given app
+ */
+export function recordSessionGap(appKey: string, gap: ConnectionGap): void {
+    writeRecord({ type: "gap", appKey, data: gap });
+}
+
+/**
+ * List saved sessions, newest first
+ */
+export async function listSessions(): Promise<SessionInfo[]> {
+    let files: string[];
+    try {
+        files = (await readdir(SESSIONS_DIR)).filter((file) => file.endsWith(".ndjson"));
+    } catch {
+        return [];
+    }
+
+    const sessions: SessionInfo[] = [];
+    for (const file of files) {
+        const filePath = path.join(SESSIONS_DIR, file);
+        try {
+            const [fileStat, counts] = await Promise.all([stat(filePath), countSessionRecords(filePath)]);
+            const id = file.replace(/\.ndjson$/, "");
+            sessions.push({
+                ...counts,
+                id,
+                path: filePath,
+                startedAt: counts.startedAt ?? fileStat.birthtime,
+                sizeBytes: fileStat.size,
+                active: id === activeSessionId
+            });
+        } catch {
+            // Unreadable file - skip it
+        }
+    }
+
+    return sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+/**
+ * Replace the log, network, bundle error and exception buffers with the contents of a saved session.
+ * Buffers keep their normal size limits, so only the most recent entries are retained.
+ */
+export async function loadSession(sessionId: string): Promise<SessionResult> {
+    const filePath = resolveSessionPath(sessionId);
+
+    let parsed: { records: SessionRecord[]; skipped: number };
+    try {
+        parsed = await readSessionRecords(filePath);
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to read session '${sessionId}': ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+
+    // Gaps are recorded when opened and again when closed; keep the latest state
+    const gaps: Map<string, ConnectionGap> = new Map();
+    const networkIds = new Set<string>();
+    const loadedLogs: LogEntry[] = [];
+    let bundleErrors = 0;
+    let exceptions = 0;
+
+    withoutSessionRecording(() => {
+        logBuffer.clear();
+        networkBuffer.clear();
+        bundleErrorBuffer.clear();
+        exceptionBuffer.clear();
+
+        for (const record of parsed.records) {
+            switch (record.type) {
+                case "log": {
+                    const entry = { ...record.data, timestamp: reviveDate(record.data.timestamp) };
+                    logBuffer.add(entry);
+                    loadedLogs.push(entry);
+                    break;
+                }
+                case "logUpdate": {
+                    // The buffer holds the same object, so updating it in place is enough
+                    const entry = loadedLogs[record.log];
+                    if (entry) {
+                        Object.assign(entry, record.data, { timestamp: reviveDate(record.data.timestamp) });
+                    }
+                    break;
+                }
+                case "network":
+                    networkBuffer.set(record.data.requestId, {
+                        ...record.data,
+                        timestamp: reviveDate(record.data.timestamp)
+                    });
+                    networkIds.add(record.data.requestId);
+                    break;
+                case "bundleError":
+                    bundleErrorBuffer.add({ ...record.data, timestamp: reviveDate(record.data.timestamp) });
+                    bundleErrors++;
+                    break;
+                case "exception":
+                    exceptionBuffer.add({ ...record.data, timestamp: reviveDate(record.data.timestamp) });
+                    exceptions++;
+                    break;
+                case "gap": {
+                    const gap: ConnectionGap = {
+                        ...record.data,
+                        disconnectedAt: reviveDate(record.data.disconnectedAt),
+                        reconnectedAt: record.data.reconnectedAt ? reviveDate(record.data.reconnectedAt) : null
+                    };
+                    gaps.set(`${record.appKey}@${gap.disconnectedAt.getTime()}`, gap);
+                    break;
+                }
+            }
+        }
+    });
+
+    return {
+        success: true,
+        id: path.basename(filePath, ".ndjson"),
+        path: filePath,
+        logs: loadedLogs.length,
+        networkRequests: networkIds.size,
+        bundleErrors,
+        exceptions,
+        connectionGaps: Array.from(gaps.values()),
+        skipped: parsed.skipped
+    };
+}
+
+// Stream buffer updates into the active session. In-flight network requests
+// are written once they complete (and again if updated later, e.g. body capture).
+logBuffer.subscribe((entry) => {
+    if (!activeStream || rehydrating) {
+        return;
+    }
+    const index = loggedEntries.get(entry);
+    if (index === undefined) {
+        loggedEntries.set(entry, loggedCount++);
+        writeRecord({ type: "log", data: entry });
+    } else {
+        writeRecord({ type: "logUpdate", log: index, data: entry });
+    }
+});
+networkBuffer.subscribe((request) => {
+    if (request.completed) {
+        writeRecord({ type: "network", data: request });
+    }
+});
+bundleErrorBuffer.subscribe((error) => writeRecord({ type: "bundleError", data: error }));
+exceptionBuffer.subscribe((entry) => writeRecord({ type: "exception", data: entry }));
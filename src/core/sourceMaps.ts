@@ -0,0 +1,226 @@
+// ============================================================================
+// Source Map Lookup (original -> generated)
+// ============================================================================
+//
+// Metro's /symbolicate endpoint only maps bundle positions to original files.
+// Breakpoints need the reverse: an original file:line mapped to a position in
+// the served bundle. The bundle's source map is fetched once per URL and its
+// mappings are indexed by original source and line.
+
+// Source maps of dev bundles are large; allow time to build them
+const SOURCE_MAP_TIMEOUT_MS = 30000;
+
+// Keep only a few bundles' maps in memory (one per platform is typical)
+const MAX_CACHED_MAPS = 3;
+
+// Position in the generated bundle (0-based, as used by CDP)
+export interface GeneratedPosition {
+    lineNumber: number;
+    columnNumber: number;
+}
+
+// Indexed source map: original line (0-based) -> first generated position, per source
+export interface SourceMapIndex {
+    sources: string[];
+    lines: Array<Map<number, GeneratedPosition>>;
+}
+
+// Result of resolving an original position
+export interface OriginalPositionLookup {
+    success: boolean;
+    source?: string;              // Full source path as listed in the map
+    line?: number;                // 1-based original line actually used (may move to the next mapped line)
+    position?: GeneratedPosition;
+    error?: string;
+}
+
+interface RawSourceMap {
+    sources?: string[];
+    mappings?: string;
+    sections?: unknown[];
+}
+
+const mapCache: Map<string, Promise<SourceMapIndex>> = new Map();
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES: Map<string, number> = new Map(Array.from(BASE64_CHARS).map((char, index) => [char, index]));
+
+/**
+ * Decode a "mappings" string and index the first generated position of every original line
+ */
+export function indexSourceMap(map: RawSourceMap): SourceMapIndex {
+    if (map.sections) {
+        throw new Error("Indexed source maps (sections) are not supported");
+    }
+
+    const sources = map.sources ?? [];
+    const lines: Array<Map<number, GeneratedPosition>> = sources.map(() => new Map());
+    const mappings = map.mappings ?? "";
+
+    let generatedLine = 0;
+    let generatedColumn = 0;
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    const segment: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    const flushSegment = () => {
+        if (segment.length === 0) return;
+        generatedColumn += segment[0];
+        if (segment.length >= 4) {
+            sourceIndex += segment[1];
+            originalLine += segment[2];
+            originalColumn += segment[3];
+            const sourceLines = lines[sourceIndex];
+            if (sourceLines && !sourceLines.has(originalLine)) {
+                sourceLines.set(originalLine, { lineNumber: generatedLine, columnNumber: generatedColumn });
+            }
+        }
+        segment.length = 0;
+    };
+
+    for (let i = 0; i < mappings.length; i++) {
+        const char = mappings[i];
+        if (char === ";") {
+            flushSegment();
+            generatedLine++;
+            generatedColumn = 0;
+            continue;
+        }
+        if (char === ",") {
+            flushSegment();
+            continue;
+        }
+
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) {
+            throw new Error(`Invalid base64 character '${char}' in mappings`);
+        }
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+        segment.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+    }
+    flushSegment();
+
+    return { sources, lines };
+}
+
+// Source maps referenced by the runtime may use a device-facing host (e.g. 10.0.2.2 on Android)
+function toLocalUrl(url: string, metroPort: number): string {
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+            return `http://localhost:${metroPort}${parsed.pathname}${parsed.search}`;
+        }
+    } catch {
+        // Not an absolute URL
+    }
+    return url;
+}
+
+/**
+ * Derive the source map URL of a Metro bundle URL (index.bundle?... -> index.map?...)
+ */
+export function bundleUrlToSourceMapUrl(bundleUrl: string): string | null {
+    const match = bundleUrl.match(/^(https?:\/\/[^?#]+)\.bundle(\?[^#]*)?/);
+    return match ? `${match[1]}.map${match[2] ?? ""}` : null;
+}
+
+/**
+ * Fetch and index a source map (cached per URL)
+ */
+export function loadSourceMap(sourceMapUrl: string, metroPort: number): Promise<SourceMapIndex> {
+    const url = toLocalUrl(sourceMapUrl, metroPort);
+    const cached = mapCache.get(url);
+    if (cached) {
+        return cached;
+    }
+
+    const loading = (async () => {
+        if (url.startsWith("data:")) {
+            const [, data = ""] = url.split(",", 2);
+            const json = url.includes(";base64,") ? Buffer.from(data, "base64").toString("utf8") : decodeURIComponent(data);
+            return indexSourceMap(JSON.parse(json) as RawSourceMap);
+        }
+
+        const response = await fetch(url, { signal: AbortSignal.timeout(SOURCE_MAP_TIMEOUT_MS) });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status} fetching ${url}`);
+        }
+        return indexSourceMap((await response.json()) as RawSourceMap);
+    })();
+
+    // Failed loads are not cached so the next breakpoint can retry
+    loading.catch(() => mapCache.delete(url));
+
+    if (mapCache.size >= MAX_CACHED_MAPS) {
+        const oldest = mapCache.keys().next().value;
+        if (oldest !== undefined) mapCache.delete(oldest);
+    }
+    mapCache.set(url, loading);
+    return loading;
+}
+
+// Drop cached maps (bundle rebuilt)
+export function clearSourceMapCache(): void {
+    mapCache.clear();
+}
+
+/**
+ * Find sources whose path ends with the given file ("src/App.tsx", "App.tsx", absolute path)
+ */
+export function findSources(index: SourceMapIndex, file: string): number[] {
+    const wanted = file.replace(/\\/g, "/").replace(/^\.\//, "");
+    const matches: number[] = [];
+    index.sources.forEach((source, sourceIndex) => {
+        const normalized = source.replace(/\\/g, "/");
+        if (normalized === wanted || normalized.endsWith(`/${wanted}`)) {
+            matches.push(sourceIndex);
+        }
+    });
+    return matches;
+}
+
+/**
+ * Map an original file:line (1-based) to a generated bundle position.
+ * Lines without code move to the next mapped line within maxLineShift, like DevTools does.
+ */
+export function lookupGeneratedPosition(
+    index: SourceMapIndex,
+    file: string,
+    line: number,
+    maxLineShift: number = 5
+): OriginalPositionLookup {
+    const matches = findSources(index, file);
+    if (matches.length === 0) {
+        return { success: false, error: `No source matching "${file}" in the bundle's source map` };
+    }
+    if (matches.length > 1) {
+        const candidates = matches.slice(0, 5).map((sourceIndex) => `  ${index.sources[sourceIndex]}`);
+        return {
+            success: false,
+            error: `"${file}" matches ${matches.length} sources. Use a longer path:\n${candidates.join("\n")}`
+        };
+    }
+
+    const sourceIndex = matches[0];
+    for (let shift = 0; shift <= maxLineShift; shift++) {
+        const position = index.lines[sourceIndex].get(line - 1 + shift);
+        if (position) {
+            return { success: true, source: index.sources[sourceIndex], line: line + shift, position };
+        }
+    }
+
+    return {
+        success: false,
+        source: index.sources[sourceIndex],
+        error: `No code at ${file}:${line} (checked ${maxLineShift} following lines)`
+    };
+}
@@ -1,7 +1,13 @@
-import { ConnectedApp, PendingExecution } from "./types.js";
+import { ConnectedApp, PendingExecution, PendingCommand, DebuggerPause } from "./types.js";
 import { LogBuffer } from "./logs.js";
 import { NetworkBuffer } from "./network.js";
 import { BundleErrorBuffer, initBundleErrorBuffer } from "./bundle.js";
+import { ExceptionBuffer } from "./exceptions.js";
+import { TraceBuffer } from "./trace.js";
+import { ReduxActionBuffer } from "./reduxActions.js";
+import { RouteChangeBuffer } from "./navigationTimeline.js";
+import { TestReportBuffer } from "./testReport.js";
+import { NativeLogBuffer } from "./logcat.js";
 
 // Global log buffer
 export const logBuffer = new LogBuffer(500);
@@ -15,12 +21,37 @@ export const bundleErrorBuffer = new BundleErrorBuffer(100);
 // Initialize bundle error buffer reference in bundle.ts
 initBundleErrorBuffer(bundleErrorBuffer);
 
+// Global exception buffer (uncaught JS exceptions and unhandled rejections)
+export const exceptionBuffer = new ExceptionBuffer(100);
+
+// Global trace buffer (traced function calls and logpoint hits)
+export const traceBuffer = new TraceBuffer(500);
+
+// Global Redux action buffer (actions with state diffs, see redux.ts)
+export const reduxActionBuffer = new ReduxActionBuffer(300);
+
+// Global route change buffer (focused route timeline, see navigation.ts)
+export const routeChangeBuffer = new RouteChangeBuffer(300);
+
+// Global test report (results of the assert_* tools, see assertions.ts)
+export const testReportBuffer = new TestReportBuffer(1000);
+
+// Global native log buffer (Android logcat entries of the app, see nativeLogs.ts)
+export const nativeLogBuffer = new NativeLogBuffer(2000);
+
 // Connected apps
 export const connectedApps: Map<string, ConnectedApp> = new Map();
 
 // Pending code executions (for executeInApp)
 export const pendingExecutions: Map<number, PendingExecution> = new Map();
 
+// Pending raw CDP commands (for sendCDPCommand)
+export const pendingCommands: Map<number, PendingCommand> = new Map();
+
+// Apps currently paused in the debugger, by app key.
+// A paused runtime cannot run Runtime.evaluate until it is resumed.
+export const debuggerPauses: Map<string, DebuggerPause> = new Map();
+
 // CDP message ID counter
 let _messageId = 1;
 
@@ -28,6 +59,17 @@ export function getNextMessageId(): number {
     return _messageId++;
 }
 
+// Default target for runtime tools (select_app). Null means the first connected app.
+let _selectedAppKey: string | null = null;
+
+export function getSelectedAppKey(): string | null {
+    return _selectedAppKey;
+}
+
+export function setSelectedAppKey(appKey: string | null): void {
+    _selectedAppKey = appKey;
+}
+
 // Active iOS simulator UDID (resolved from Metro connection)
 // This links the Metro-connected device to its iOS simulator
 let _activeSimulatorUdid: string | null = null;
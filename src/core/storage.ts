@@ -0,0 +1,545 @@
+import { readFile, writeFile } from "fs/promises";
+import { AppTarget } from "./types.js";
+import { executeInApp } from "./executor.js";
+import { METRO_MODULES_SNIPPET, toAsciiJson } from "./runtimeEvents.js";
+import { formatBytes } from "./heapSnapshot.js";
+
+// ============================================================================
+// Persisted Storage (AsyncStorage / MMKV)
+// ============================================================================
+//
+// Storage instances are discovered in the running app: globals and the exports
+// of loaded Metro modules are scanned for objects shaped like AsyncStorage
+// (getAllKeys/multiGet/setItem/removeItem) or an MMKV instance
+// (getAllKeys/getString/set/delete). Export getters are never invoked, so the
+// scan does not load lazy modules. Every operation re-runs discovery, so
+// storages created after startup or after a reload are found without state
+// on the server side.
+
+// Keys listed per storage by default
+const DEFAULT_MAX_KEYS = 200;
+
+export type StorageKind = "asyncStorage" | "mmkv";
+
+// A key and the size of its value
+export interface StorageKeyInfo {
+    key: string;
+    size: number;             // UTF-8 bytes of the value (byte length for MMKV buffers)
+    type: "string" | "number" | "boolean" | "buffer" | "unknown";
+}
+
+// A storage found in the app
+export interface StorageInfo {
+    id: string;               // "asyncStorage", "mmkv:mmkv.default", ...
+    kind: StorageKind;
+    source: string;           // Where it was found ("global storage", "src/storage.ts (storage)")
+    keyCount: number;
+    matchingKeyCount: number; // Keys matching keyPattern (all keys without one)
+    totalSize: number;
+    keys: StorageKeyInfo[];   // Sorted by key, capped by maxKeys
+    error?: string;           // Listing the keys failed
+}
+
+// Result of storage operations
+export interface StorageResult {
+    success: boolean;
+    storages?: StorageInfo[];
+    storage?: string;         // Id of the storage operated on
+    key?: string;
+    value?: string | number | boolean | null;
+    type?: StorageKeyInfo["type"];
+    found?: boolean;
+    data?: Record<string, unknown>;
+    written?: number;
+    skipped?: string[];       // Keys left out: values JSON cannot carry (export) or null values (import)
+    removed?: number;
+    path?: string;
+    error?: string;
+}
+
+// Discovery and value helpers shared by every storage script
+const STORAGE_HELPERS = `
+    ${METRO_MODULES_SNIPPET}
+    function isAsyncStorage(value) {
+        return typeof value.getAllKeys === 'function' && typeof value.multiGet === 'function'
+            && typeof value.setItem === 'function' && typeof value.removeItem === 'function';
+    }
+
+    function isMmkv(value) {
+        return typeof value.getAllKeys === 'function' && typeof value.getString === 'function'
+            && typeof value.set === 'function' && typeof value.delete === 'function';
+    }
+
+    function findStorages() {
+        var found = [];
+        var seen = [];
+        var asyncCount = 0;
+        var mmkvCount = 0;
+
+        function consider(value, source) {
+            if (!value || (typeof value !== 'object' && typeof value !== 'function')) return;
+            if (seen.indexOf(value) !== -1) return;
+            var kind = null;
+            try {
+                kind = isAsyncStorage(value) ? 'asyncStorage' : isMmkv(value) ? 'mmkv' : null;
+            } catch (e) {}
+            if (!kind) return;
+            seen.push(value);
+            var id;
+            if (kind === 'asyncStorage') {
+                asyncCount++;
+                id = asyncCount === 1 ? 'asyncStorage' : 'asyncStorage-' + asyncCount;
+            } else {
+                id = 'mmkv:' + (typeof value.id === 'string' && value.id ? value.id : 'instance-' + (mmkvCount + 1));
+                // Instances opened with the same id share their data
+                for (var i = 0; i < found.length; i++) {
+                    if (found[i].id === id) return;
+                }
+                mmkvCount++;
+            }
+            found.push({ id: id, kind: kind, source: source, api: value });
+        }
+
+        // Data properties only: getters may load lazy modules or log deprecations
+        function considerExports(exports, source) {
+            consider(exports, source);
+            var names;
+            try { names = Object.getOwnPropertyNames(exports); } catch (e) { return; }
+            for (var i = 0; i < names.length && i < 100; i++) {
+                var descriptor;
+                try { descriptor = Object.getOwnPropertyDescriptor(exports, names[i]); } catch (e) { continue; }
+                if (descriptor && 'value' in descriptor) consider(descriptor.value, source + ' (' + names[i] + ')');
+            }
+        }
+
+        var globalNames = Object.getOwnPropertyNames(globalThis);
+        for (var g = 0; g < globalNames.length; g++) {
+            var globalDescriptor;
+            try { globalDescriptor = Object.getOwnPropertyDescriptor(globalThis, globalNames[g]); } catch (e) { continue; }
+            if (globalDescriptor && 'value' in globalDescriptor) consider(globalDescriptor.value, 'global ' + globalNames[g]);
+        }
+
+        var entries = __rnAiDebuggerModules() || [];
+        for (var m = 0; m < entries.length; m++) {
+            var mod = entries[m];
+            if (!mod || !mod.isInitialized || !mod.publicModule) continue;
+            var exports = mod.publicModule.exports;
+            if (!exports || (typeof exports !== 'object' && typeof exports !== 'function')) continue;
+            considerExports(exports, String(mod.verboseName || 'module ' + m).replace(/\\\\/g, '/'));
+        }
+
+        found.sort(function(a, b) {
+            return a.kind === b.kind ? 0 : a.kind === 'asyncStorage' ? -1 : 1;
+        });
+        return found;
+    }
+
+    function describeStorages(storages) {
+        return storages.map(function(storage) { return storage.id; }).join(', ');
+    }
+
+    // Pick a storage by id or kind; without one, the only storage found
+    function selectStorage(requested) {
+        var storages = findStorages();
+        if (storages.length === 0) {
+            return { error: 'No AsyncStorage or MMKV instance found in the app. The storage module may not be loaded yet.' };
+        }
+        if (!requested) {
+            if (storages.length === 1) return { storage: storages[0] };
+            return { error: 'Several storages found, pass storage: ' + describeStorages(storages) };
+        }
+        var matches = storages.filter(function(storage) { return storage.id === requested; });
+        if (matches.length === 0) {
+            matches = storages.filter(function(storage) { return storage.kind === requested; });
+        }
+        if (matches.length === 1) return { storage: matches[0] };
+        if (matches.length === 0) return { error: 'Storage "' + requested + '" not found. Storages: ' + describeStorages(storages) };
+        return { error: 'Several ' + requested + ' storages found, pass one of: ' + describeStorages(matches) };
+    }
+
+    function utf8Length(text) {
+        var length = 0;
+        for (var i = 0; i < text.length; i++) {
+            var code = text.charCodeAt(i);
+            if (code < 0x80) length += 1;
+            else if (code < 0x800) length += 2;
+            else if (code >= 0xd800 && code <= 0xdbff) { length += 4; i++; }
+            else length += 3;
+        }
+        return length;
+    }
+
+    // Typed value of an MMKV key (MMKV does not record types; strings are tried first)
+    function readMmkv(api, key) {
+        if (typeof api.contains === 'function' && !api.contains(key)) return { found: false };
+        var text = api.getString(key);
+        if (typeof text === 'string') return { found: true, value: text, type: 'string', size: utf8Length(text) };
+        var buffer = typeof api.getBuffer === 'function' ? api.getBuffer(key) : undefined;
+        var size = buffer ? (buffer.byteLength !== undefined ? buffer.byteLength : buffer.length || 0) : 0;
+        var number = typeof api.getNumber === 'function' ? api.getNumber(key) : undefined;
+        if (size === 8 && typeof number === 'number') return { found: true, value: number, type: 'number', size: size };
+        var flag = typeof api.getBoolean === 'function' ? api.getBoolean(key) : undefined;
+        if (size === 1 && typeof flag === 'boolean') return { found: true, value: flag, type: 'boolean', size: size };
+        if (buffer) return { found: true, value: null, type: 'buffer', size: size };
+        return { found: false };
+    }
+
+    // Map of key -> { value, type, size } for all keys
+    function readAll(storage) {
+        var api = storage.api;
+        if (storage.kind === 'asyncStorage') {
+            return Promise.resolve(api.getAllKeys()).then(function(keys) {
+                return Promise.resolve(keys && keys.length > 0 ? api.multiGet(keys) : []);
+            }).then(function(pairs) {
+                var items = {};
+                (pairs || []).forEach(function(pair) {
+                    var value = pair[1];
+                    items[pair[0]] = { value: value, type: typeof value === 'string' ? 'string' : 'unknown', size: typeof value === 'string' ? utf8Length(value) : 0 };
+                });
+                return items;
+            });
+        }
+        var items = {};
+        var keys = api.getAllKeys() || [];
+        for (var i = 0; i < keys.length; i++) {
+            var read = readMmkv(api, keys[i]);
+            items[keys[i]] = read.found ? read : { value: null, type: 'unknown', size: 0 };
+        }
+        return Promise.resolve(items);
+    }
+
+    function errorMessage(e) {
+        return e && e.message !== undefined ? e.message : String(e);
+    }
+`;
+
+// Wrap an operation body (which returns a value or promise) into a script that resolves to JSON
+function buildStorageScript(body: string): string {
+    return `(function() {
+    ${STORAGE_HELPERS}
+    try {
+        return Promise.resolve((function() {
+            ${body}
+        })()).then(function(result) {
+            return JSON.stringify(result);
+        }, function(e) {
+            return JSON.stringify({ error: errorMessage(e) });
+        });
+    } catch (e) {
+        return JSON.stringify({ error: errorMessage(e) });
+    }
+})()`;
+}
+
+// Run a storage script and parse its reply
+async function runStorageScript(
+    target: AppTarget,
+    body: string,
+    timeoutMs?: number
+): Promise<Record<string, unknown> & { error?: string }> {
+    const result = await executeInApp(buildStorageScript(body), true, { target, timeoutMs });
+    if (!result.success) {
+        return { error: result.error ?? "Failed to run the storage script" };
+    }
+    try {
+        return JSON.parse(result.result || "{}");
+    } catch {
+        return { error: `Unexpected response: ${result.result}` };
+    }
+}
+
+/**
+ * Find the app's storages and list their keys with value sizes.
+ * With storage (id or kind), only that storage is listed.
+ */
+export async function listStorages(
+    target: AppTarget,
+    options: { storage?: string; keyPattern?: string; maxKeys?: number } = {}
+): Promise<StorageResult> {
+    const { storage, keyPattern, maxKeys = DEFAULT_MAX_KEYS } = options;
+    const reply = await runStorageScript(target, `
+            var requested = ${toAsciiJson(storage ?? null)};
+            var pattern = ${toAsciiJson(keyPattern ?? null)};
+            var storages;
+            if (requested) {
+                var selected = selectStorage(requested);
+                if (selected.error) return { error: selected.error };
+                storages = [selected.storage];
+            } else {
+                storages = findStorages();
+            }
+            return Promise.all(storages.map(function(storage) {
+                return readAll(storage).then(function(items) {
+                    var keys = Object.keys(items).sort();
+                    var totalSize = 0;
+                    for (var i = 0; i < keys.length; i++) totalSize += items[keys[i]].size;
+                    var filtered = pattern
+                        ? keys.filter(function(key) { return key.toLowerCase().indexOf(pattern.toLowerCase()) !== -1; })
+                        : keys;
+                    return {
+                        id: storage.id,
+                        kind: storage.kind,
+                        source: storage.source,
+                        keyCount: keys.length,
+                        matchingKeyCount: filtered.length,
+                        totalSize: totalSize,
+                        keys: filtered.slice(0, ${maxKeys}).map(function(key) {
+                            return { key: key, size: items[key].size, type: items[key].type };
+                        })
+                    };
+                }, function(e) {
+                    return { id: storage.id, kind: storage.kind, source: storage.source, keyCount: 0, matchingKeyCount: 0, totalSize: 0, keys: [], error: errorMessage(e) };
+                });
+            })).then(function(list) {
+                return { storages: list };
+            });`, 30000);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+    return { success: true, storages: (reply.storages as StorageInfo[]) ?? [] };
+}
+
+/**
+ * Read the value of a key
+ */
+export async function getStorageItem(target: AppTarget, key: string, options: { storage?: string } = {}): Promise<StorageResult> {
+    const reply = await runStorageScript(target, `
+            var selected = selectStorage(${toAsciiJson(options.storage ?? null)});
+            if (selected.error) return { error: selected.error };
+            var storage = selected.storage;
+            var key = ${toAsciiJson(key)};
+            if (storage.kind === 'asyncStorage') {
+                return Promise.resolve(storage.api.getItem(key)).then(function(value) {
+                    return { storage: storage.id, found: value !== null && value !== undefined, value: value, type: 'string' };
+                });
+            }
+            var read = readMmkv(storage.api, key);
+            return { storage: storage.id, found: read.found, value: read.value, type: read.type };`);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+    return {
+        success: true,
+        storage: reply.storage as string,
+        key,
+        found: reply.found === true,
+        value: (reply.value as StorageResult["value"]) ?? null,
+        type: reply.type as StorageKeyInfo["type"]
+    };
+}
+
+/**
+ * Write a key. AsyncStorage stores strings; MMKV values can be typed.
+ */
+export async function setStorageItem(
+    target: AppTarget,
+    key: string,
+    value: string,
+    options: { storage?: string; valueType?: "string" | "number" | "boolean" } = {}
+): Promise<StorageResult> {
+    const { valueType = "string" } = options;
+    let typed: string | number | boolean = value;
+    if (valueType === "number") {
+        typed = Number(value);
+        if (value.trim() === "" || Number.isNaN(typed)) {
+            return { success: false, error: `"${value}" is not a number` };
+        }
+    } else if (valueType === "boolean") {
+        if (value !== "true" && value !== "false") {
+            return { success: false, error: `"${value}" is not a boolean (use true or false)` };
+        }
+        typed = value === "true";
+    }
+
+    const reply = await runStorageScript(target, `
+            var selected = selectStorage(${toAsciiJson(options.storage ?? null)});
+            if (selected.error) return { error: selected.error };
+            var storage = selected.storage;
+            var key = ${toAsciiJson(key)};
+            var value = ${toAsciiJson(typed)};
+            if (storage.kind === 'asyncStorage') {
+                if (typeof value !== 'string') return { error: 'AsyncStorage only stores strings. Omit valueType.' };
+                return Promise.resolve(storage.api.setItem(key, value)).then(function() {
+                    return { storage: storage.id };
+                });
+            }
+            storage.api.set(key, value);
+            return { storage: storage.id };`);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+    return { success: true, storage: reply.storage as string, key, value: typed };
+}
+
+/**
+ * Delete a key
+ */
+export async function removeStorageItem(target: AppTarget, key: string, options: { storage?: string } = {}): Promise<StorageResult> {
+    const reply = await runStorageScript(target, `
+            var selected = selectStorage(${toAsciiJson(options.storage ?? null)});
+            if (selected.error) return { error: selected.error };
+            var storage = selected.storage;
+            var key = ${toAsciiJson(key)};
+            if (storage.kind === 'asyncStorage') {
+                return Promise.resolve(storage.api.getItem(key)).then(function(value) {
+                    if (value === null || value === undefined) return { storage: storage.id, removed: 0 };
+                    return Promise.resolve(storage.api.removeItem(key)).then(function() {
+                        return { storage: storage.id, removed: 1 };
+                    });
+                });
+            }
+            var exists = typeof storage.api.contains === 'function' ? storage.api.contains(key) : true;
+            storage.api.delete(key);
+            return { storage: storage.id, removed: exists ? 1 : 0 };`);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+    return { success: true, storage: reply.storage as string, key, removed: (reply.removed as number) ?? 0 };
+}
+
+/**
+ * Export all keys of a storage as a JSON object (key -> value), optionally to a file.
+ * Values JSON cannot carry (MMKV buffers, unreadable values) are left out and
+ * listed in skipped.
+ */
+export async function exportStorage(
+    target: AppTarget,
+    options: { storage?: string; outputPath?: string } = {}
+): Promise<StorageResult> {
+    const reply = await runStorageScript(target, `
+            var selected = selectStorage(${toAsciiJson(options.storage ?? null)});
+            if (selected.error) return { error: selected.error };
+            var storage = selected.storage;
+            return readAll(storage).then(function(items) {
+                var data = {};
+                var skipped = [];
+                Object.keys(items).sort().forEach(function(key) {
+                    if (items[key].type === 'buffer' || items[key].type === 'unknown') {
+                        skipped.push(key);
+                    } else {
+                        data[key] = items[key].value;
+                    }
+                });
+                return { storage: storage.id, data: data, skipped: skipped };
+            });`, 30000);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+
+    const data = (reply.data as Record<string, unknown>) ?? {};
+    const result: StorageResult = { success: true, storage: reply.storage as string, data, skipped: (reply.skipped as string[]) ?? [] };
+    if (options.outputPath) {
+        try {
+            await writeFile(options.outputPath, JSON.stringify(data, null, 2), "utf-8");
+        } catch (error) {
+            return { success: false, error: `Failed to write ${options.outputPath}: ${error instanceof Error ? error.message : String(error)}` };
+        }
+        result.path = options.outputPath;
+    }
+    return result;
+}
+
+/**
+ * Import a JSON object (key -> value) into a storage. Non-string values are
+ * stored as JSON strings in AsyncStorage. Null values are not written and are
+ * listed in skipped. With clear, existing keys are removed first.
+ */
+export async function importStorage(
+    target: AppTarget,
+    options: { storage?: string; data?: string; inputPath?: string; clear?: boolean }
+): Promise<StorageResult> {
+    let raw = options.data;
+    if (raw === undefined && options.inputPath) {
+        try {
+            raw = await readFile(options.inputPath, "utf-8");
+        } catch (error) {
+            return { success: false, error: `Failed to read ${options.inputPath}: ${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+    if (raw === undefined) {
+        return { success: false, error: "Provide data (a JSON object) or inputPath." };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch (error) {
+        return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+        return { success: false, error: "Import data must be a JSON object of key -> value." };
+    }
+
+    const reply = await runStorageScript(target, `
+            var selected = selectStorage(${toAsciiJson(options.storage ?? null)});
+            if (selected.error) return { error: selected.error };
+            var storage = selected.storage;
+            var api = storage.api;
+            var data = ${toAsciiJson(data)};
+            // A null has no stored form (export leaves out values it cannot carry)
+            var keys = Object.keys(data).filter(function(key) { return data[key] !== null; });
+            var skipped = Object.keys(data).filter(function(key) { return data[key] === null; });
+            var clear = ${options.clear === true};
+
+            function toStored(value, allowTyped) {
+                if (typeof value === 'string') return value;
+                if (allowTyped && (typeof value === 'number' || typeof value === 'boolean')) return value;
+                return JSON.stringify(value);
+            }
+
+            if (storage.kind === 'asyncStorage') {
+                var pairs = keys.map(function(key) { return [key, toStored(data[key], false)]; });
+                return Promise.resolve(clear ? api.getAllKeys() : []).then(function(existing) {
+                    return existing && existing.length > 0 ? api.multiRemove(existing) : null;
+                }).then(function() {
+                    return pairs.length > 0 ? api.multiSet(pairs) : null;
+                }).then(function() {
+                    return { storage: storage.id, written: pairs.length, skipped: skipped };
+                });
+            }
+            if (clear) {
+                if (typeof api.clearAll === 'function') {
+                    api.clearAll();
+                } else {
+                    (api.getAllKeys() || []).forEach(function(key) { api.delete(key); });
+                }
+            }
+            keys.forEach(function(key) { api.set(key, toStored(data[key], true)); });
+            return { storage: storage.id, written: keys.length, skipped: skipped };`, 30000);
+
+    if (reply.error) {
+        return { success: false, error: reply.error };
+    }
+    return { success: true, storage: reply.storage as string, written: (reply.written as number) ?? 0, skipped: (reply.skipped as string[]) ?? [] };
+}
+
+// Format storages and their keys for text output
+export function formatStorages(storages: StorageInfo[]): string {
+    if (storages.length === 0) {
+        return "No AsyncStorage or MMKV instance found in the app. The storage module may not be loaded yet.";
+    }
+
+    const lines: string[] = [];
+    for (const storage of storages) {
+        if (lines.length > 0) lines.push("");
+        const matching = storage.matchingKeyCount < storage.keyCount ? ` (${storage.matchingKeyCount} matching)` : "";
+        lines.push(`${storage.id} (${storage.kind}, ${storage.source}): ${storage.keyCount} key(s)${matching}, ${formatBytes(storage.totalSize)}`);
+        if (storage.error) {
+            lines.push(`  Failed to list keys: ${storage.error}`);
+            continue;
+        }
+        for (const info of storage.keys) {
+            const type = info.type === "string" ? "" : ` ${info.type}`;
+            lines.push(`  ${info.key} - ${formatBytes(info.size)}${type}`);
+        }
+        if (storage.keys.length < storage.matchingKeyCount) {
+            lines.push(`  ... ${storage.matchingKeyCount - storage.keys.length} more key(s) (use keyPattern or maxKeys)`);
+        }
+    }
+    return lines.join("\n");
+}
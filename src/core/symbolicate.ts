@@ -0,0 +1,223 @@
+import path from "path";
+import { CDPCallFrame, StackFrame } from "./types.js";
+
+// ============================================================================
+// Source Map Symbolication
+// ============================================================================
+//
+// Stack positions reported by the runtime point into the served bundle
+// (index.bundle?platform=...:line:column). Metro's /symbolicate endpoint maps
+// them back to original source files using the bundle's source map, and marks
+// framework frames as collapsible.
+
+// Timeout for a single /symbolicate request
+const SYMBOLICATE_TIMEOUT_MS = 5000;
+
+// Cache of symbolicated positions (bundle position -> original frame)
+const MAX_CACHE_SIZE = 2000;
+const frameCache: Map<string, StackFrame> = new Map();
+
+// Code frames by stack (bundle positions of all its frames). Metro picks the
+// frame to excerpt from the whole stack, so a code frame is only valid for
+// the stack it was returned for; null when Metro returned none.
+const MAX_CODE_FRAME_CACHE_SIZE = 200;
+const codeFrameCache: Map<string, string | null> = new Map();
+
+// Result of symbolication
+export interface SymbolicationResult {
+    success: boolean;
+    frames: StackFrame[];
+    codeFrame?: string;
+    error?: string;
+}
+
+// Metro /symbolicate response
+interface MetroSymbolicateResponse {
+    stack?: Array<{
+        file?: string;
+        lineNumber?: number;
+        column?: number;
+        methodName?: string;
+        collapse?: boolean;
+    }>;
+    codeFrame?: {
+        content?: string;
+        location?: { row: number; column: number };
+        fileName?: string;
+    } | null;
+}
+
+function cacheKey(frame: StackFrame): string {
+    return `${frame.file}:${frame.lineNumber}:${frame.column}`;
+}
+
+// Add to a cache, evicting the oldest entry when it is full
+function remember<T>(cache: Map<string, T>, key: string, value: T, maxSize: number): void {
+    if (cache.size >= maxSize && !cache.has(key)) {
+        const oldest = cache.keys().next().value;
+        if (oldest !== undefined) cache.delete(oldest);
+    }
+    cache.set(key, value);
+}
+
+// Frames served by Metro (http URLs); native and eval frames cannot be symbolicated
+export function isBundleFrame(frame: StackFrame): boolean {
+    return /^https?:\/\//.test(frame.file);
+}
+
+/**
+ * Convert CDP call frames (0-based) to stack frames (1-based, as in stack strings)
+ */
+export function fromCDPCallFrames(callFrames: CDPCallFrame[]): StackFrame[] {
+    return callFrames.map((frame) => ({
+        functionName: frame.functionName || "<anonymous>",
+        file: frame.url,
+        lineNumber: frame.lineNumber + 1,
+        column: frame.columnNumber + 1
+    }));
+}
+
+/**
+ * Parse stack frames out of an error stack string.
+ * Handles V8/Hermes ("at fn (url:line:col)", "at url:line:col") and JSC ("fn@url:line:col") formats.
+ */
+export function parseStackFrames(stack: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+
+    for (const line of stack.split("\n")) {
+        const trimmed = line.trim();
+
+        const v8 = trimmed.match(/^at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/);
+        if (v8) {
+            frames.push({
+                functionName: v8[1] || "<anonymous>",
+                // Hermes reports bytecode frames as "address at <url>"
+                file: v8[2].replace(/^address at /, ""),
+                lineNumber: parseInt(v8[3], 10),
+                column: parseInt(v8[4], 10)
+            });
+            continue;
+        }
+
+        const jsc = trimmed.match(/^(.*?)@(.+?):(\d+):(\d+)$/);
+        if (jsc) {
+            frames.push({
+                functionName: jsc[1] || "<anonymous>",
+                file: jsc[2],
+                lineNumber: parseInt(jsc[3], 10),
+                column: parseInt(jsc[4], 10)
+            });
+        }
+    }
+
+    return frames;
+}
+
+/**
+ * Map bundle positions to original source positions via Metro's /symbolicate endpoint.
+ * Frames that cannot be symbolicated are returned unchanged. The whole stack
+ * is sent unless all its frames and its code frame are cached.
+ */
+export async function symbolicateFrames(port: number, frames: StackFrame[]): Promise<SymbolicationResult> {
+    const bundleFrames = frames.filter(isBundleFrame);
+    const stackKey = bundleFrames.map(cacheKey).join("\n");
+    const cached = codeFrameCache.has(stackKey) && bundleFrames.every((frame) => frameCache.has(cacheKey(frame)));
+    const pending = cached ? [] : bundleFrames;
+
+    if (pending.length > 0) {
+        try {
+            const response = await fetch(`http://localhost:${port}/symbolicate`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    stack: pending.map((frame) => ({
+                        file: frame.file,
+                        lineNumber: frame.lineNumber,
+                        column: frame.column,
+                        methodName: frame.functionName
+                    }))
+                }),
+                signal: AbortSignal.timeout(SYMBOLICATE_TIMEOUT_MS)
+            });
+
+            if (!response.ok) {
+                return { success: false, frames, error: `Metro /symbolicate returned HTTP ${response.status}` };
+            }
+
+            const data = (await response.json()) as MetroSymbolicateResponse;
+            const stack = data.stack ?? [];
+            pending.forEach((frame, index) => {
+                const mapped = stack[index];
+                if (!mapped?.file || mapped.file === frame.file) return;
+                remember(frameCache, cacheKey(frame), {
+                    functionName: mapped.methodName || frame.functionName,
+                    file: mapped.file,
+                    lineNumber: mapped.lineNumber ?? frame.lineNumber,
+                    column: mapped.column ?? frame.column,
+                    symbolicated: true,
+                    collapse: mapped.collapse === true
+                }, MAX_CACHE_SIZE);
+            });
+            remember(codeFrameCache, stackKey, data.codeFrame?.content || null, MAX_CODE_FRAME_CACHE_SIZE);
+        } catch (error) {
+            return {
+                success: false,
+                frames,
+                error: `Symbolication failed: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    return {
+        success: true,
+        frames: frames.map((frame) => frameCache.get(cacheKey(frame)) ?? frame),
+        codeFrame: codeFrameCache.get(stackKey) ?? undefined
+    };
+}
+
+// Shorten absolute source paths: node_modules packages and files under the working directory
+function shortenPath(file: string): string {
+    const nodeModules = file.lastIndexOf("/node_modules/");
+    if (nodeModules !== -1) {
+        return file.slice(nodeModules + 1);
+    }
+    const cwd = process.cwd() + path.sep;
+    return file.startsWith(cwd) ? file.slice(cwd.length) : file;
+}
+
+/**
+ * Format the position of a frame as "file:line:column"
+ */
+export function formatFrameLocation(frame: StackFrame): string {
+    const file = frame.symbolicated ? shortenPath(frame.file) : frame.file;
+    return `${file}:${frame.lineNumber}:${frame.column}`;
+}
+
+/**
+ * Format a single frame as "functionName (file:line:column)"
+ */
+export function formatStackFrame(frame: StackFrame): string {
+    return `${frame.functionName} (${formatFrameLocation(frame)})`;
+}
+
+/**
+ * Format frames as indented "at ..." lines, skipping collapsed framework frames
+ */
+export function formatStackFrames(frames: StackFrame[], maxFrames: number = 5): string {
+    const visible = frames.filter((frame) => !frame.collapse);
+    const shown = (visible.length > 0 ? visible : frames).slice(0, maxFrames);
+    const lines = shown.map((frame) => `    at ${formatStackFrame(frame)}`);
+    const hidden = frames.length - shown.length;
+    if (hidden > 0) {
+        lines.push(`    ... ${hidden} more frame(s)`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Get the first application frame (not collapsed) of a stack
+ */
+export function getTopFrame(frames: StackFrame[] | undefined): StackFrame | undefined {
+    if (!frames || frames.length === 0) return undefined;
+    return frames.find((frame) => !frame.collapse) ?? frames[0];
+}
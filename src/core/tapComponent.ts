@@ -0,0 +1,134 @@
+import { AppTarget } from "./types.js";
+import { resolveTargetApp } from "./connection.js";
+import { findComponentOnScreen } from "./executor.js";
+import { androidTap, androidGetDensity, androidGetStatusBarHeight } from "./android.js";
+import { iosTap } from "./ios.js";
+
+// ============================================================================
+// Tap by Component
+// ============================================================================
+//
+// The component is found in the fiber tree and measured in the app, then the
+// tap is sent through adb or idb. Android taps take device pixels measured
+// from the top of the screen, while measureInWindow reports dp below the
+// status bar; iOS taps take the same points measureInWindow reports.
+
+// What was tapped
+export interface TappedComponent {
+    component: string;
+    nativeElement: string;
+    testID?: string;
+    text?: string;
+    path: string;
+    frame: { x: number; y: number; width: number; height: number };
+    matches: number;          // Mounted matches
+    visibleMatches: number;   // Matches visible on screen (index refers to these)
+}
+
+// Result of tapComponent
+export interface TapComponentResult {
+    success: boolean;
+    tapped?: TappedComponent;
+    platform?: "ios" | "android";
+    tap?: { x: number; y: number };   // Coordinates sent to the device
+    error?: string;
+}
+
+// Platform of the connected app, from its device info when the app did not report it
+function guessPlatform(target: AppTarget): "ios" | "android" {
+    const { app } = resolveTargetApp(target);
+    if (!app) {
+        return "android";
+    }
+    const { title, deviceName, description } = app.deviceInfo;
+    const isIOS = title?.toLowerCase().includes("iphone") ||
+        title?.toLowerCase().includes("ipad") ||
+        deviceName?.toLowerCase().includes("simulator") ||
+        description?.toLowerCase().includes("ios");
+    return isIOS ? "ios" : "android";
+}
+
+/**
+ * Tap a component found by name, testID or text in the connected app.
+ * Only matches visible on screen are considered; index picks among them.
+ */
+export async function tapComponent(options: {
+    componentName?: string;
+    testID?: string;
+    text?: string;
+    index?: number;
+    platform?: "ios" | "android";
+    deviceId?: string;          // adb device id or simulator UDID
+    target?: AppTarget;
+}): Promise<TapComponentResult> {
+    const { componentName, testID, text, index = 0, deviceId, target = {} } = options;
+
+    const found = await findComponentOnScreen({ componentName, testID, text, index, target });
+    if (!found.success) {
+        return { success: false, error: found.error };
+    }
+
+    let tapped: TappedComponent & { platform?: "ios" | "android" | null };
+    try {
+        const parsed = JSON.parse(found.result || "{}");
+        if (parsed.error) {
+            return { success: false, error: parsed.error };
+        }
+        tapped = parsed;
+    } catch {
+        return { success: false, error: `Unexpected response: ${found.result}` };
+    }
+
+    const platform = options.platform ?? tapped.platform ?? guessPlatform(target);
+    delete tapped.platform;
+    const centerX = tapped.frame.x + tapped.frame.width / 2;
+    const centerY = tapped.frame.y + tapped.frame.height / 2;
+
+    if (platform === "ios") {
+        const tapResult = await iosTap(centerX, centerY, { udid: deviceId });
+        if (!tapResult.success) {
+            return { success: false, tapped, platform, error: tapResult.error };
+        }
+        return { success: true, tapped, platform, tap: { x: Math.round(centerX), y: Math.round(centerY) } };
+    }
+
+    const densityResult = await androidGetDensity(deviceId);
+    if (!densityResult.success || !densityResult.density) {
+        return { success: false, tapped, platform, error: densityResult.error ?? "Could not read the display density" };
+    }
+    const scale = densityResult.density / 160;
+    const statusBar = await androidGetStatusBarHeight(deviceId);
+    const tap = {
+        x: Math.round(centerX * scale),
+        y: Math.round(centerY * scale + (statusBar.heightPixels ?? 0))
+    };
+
+    const tapResult = await androidTap(tap.x, tap.y, deviceId);
+    if (!tapResult.success) {
+        return { success: false, tapped, platform, error: tapResult.error };
+    }
+    return { success: true, tapped, platform, tap };
+}
+
+/**
+ * Describe a tap for tool output
+ */
+export function formatTappedComponent(result: TapComponentResult): string {
+    const { tapped, tap, platform } = result;
+    if (!tapped) {
+        return "Nothing tapped.";
+    }
+    const lines = [`Tapped ${tapped.component}${tapped.nativeElement !== tapped.component ? ` (${tapped.nativeElement})` : ""}`];
+    if (tapped.testID) lines.push(`  testID: ${tapped.testID}`);
+    if (tapped.text) lines.push(`  text: "${tapped.text}"`);
+    lines.push(`  path: ${tapped.path}`);
+    const { x, y, width, height } = tapped.frame;
+    lines.push(`  frame: (${Math.round(x)}, ${Math.round(y)}) ${Math.round(width)}x${Math.round(height)}`);
+    if (tap) {
+        lines.push(`  tap: (${tap.x}, ${tap.y}) ${platform === "android" ? "px" : "pt"} on ${platform}`);
+    }
+    if (tapped.visibleMatches > 1 || tapped.matches > tapped.visibleMatches) {
+        lines.push(`  ${tapped.visibleMatches} visible of ${tapped.matches} mounted match(es); use index to pick another`);
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,239 @@
+import { writeFile } from "fs/promises";
+
+// ============================================================================
+// Test Report
+// ============================================================================
+//
+// Results of the assert_* tools, grouped into suites. The report is kept in
+// memory until cleared and exported as JSON or JUnit XML, the format CI
+// systems archive and render, so a headless verification run can be scored
+// like a test run.
+
+export type AssertionKind = "log" | "network" | "element" | "expression";
+
+// A recorded assertion
+export interface AssertionResult {
+    id: number;
+    timestamp: Date;
+    suite: string;
+    kind: AssertionKind;
+    name: string;              // Test case name
+    passed: boolean;
+    message: string;           // What was checked, or why it failed
+    details?: string;          // Offending entries (logs, requests) on failure
+    durationMs: number;
+    appKey?: string;
+}
+
+export const DEFAULT_TEST_SUITE = "default";
+
+/**
+ * Assertion results in the order they were recorded
+ */
+export class TestReportBuffer {
+    private results: AssertionResult[] = [];
+    private maxSize: number;
+    private nextId = 1;
+    private _startedAt = new Date();
+
+    constructor(maxSize: number = 1000) {
+        this.maxSize = maxSize;
+    }
+
+    add(result: Omit<AssertionResult, "id">): AssertionResult {
+        const stored: AssertionResult = { ...result, id: this.nextId++ };
+        this.results.push(stored);
+        if (this.results.length > this.maxSize) {
+            this.results.shift();
+        }
+        return stored;
+    }
+
+    getAll(suite?: string): AssertionResult[] {
+        return suite ? this.results.filter((result) => result.suite === suite) : [...this.results];
+    }
+
+    // When the report was started (server start or last clear)
+    get startedAt(): Date {
+        return this._startedAt;
+    }
+
+    clear(): number {
+        const count = this.results.length;
+        this.results = [];
+        this._startedAt = new Date();
+        return count;
+    }
+
+    get size(): number {
+        return this.results.length;
+    }
+}
+
+export interface TestSuiteSummary {
+    name: string;
+    tests: number;
+    passed: number;
+    failed: number;
+    durationMs: number;
+    assertions: AssertionResult[];
+}
+
+export interface TestReport {
+    name: string;
+    startedAt: string;
+    generatedAt: string;
+    tests: number;
+    passed: number;
+    failed: number;
+    durationMs: number;
+    suites: TestSuiteSummary[];
+}
+
+/**
+ * Group results into suites (in order of first appearance) with totals
+ */
+export function buildTestReport(results: AssertionResult[], options: { name?: string; startedAt?: Date } = {}): TestReport {
+    const suites = new Map<string, TestSuiteSummary>();
+    for (const result of results) {
+        let suite = suites.get(result.suite);
+        if (!suite) {
+            suite = { name: result.suite, tests: 0, passed: 0, failed: 0, durationMs: 0, assertions: [] };
+            suites.set(result.suite, suite);
+        }
+        suite.tests++;
+        if (result.passed) suite.passed++;
+        else suite.failed++;
+        suite.durationMs += result.durationMs;
+        suite.assertions.push(result);
+    }
+
+    const summaries = Array.from(suites.values());
+    return {
+        name: options.name ?? "rn-ai-debugger",
+        startedAt: (options.startedAt ?? results[0]?.timestamp ?? new Date()).toISOString(),
+        generatedAt: new Date().toISOString(),
+        tests: results.length,
+        passed: results.filter((result) => result.passed).length,
+        failed: results.filter((result) => !result.passed).length,
+        durationMs: summaries.reduce((sum, suite) => sum + suite.durationMs, 0),
+        suites: summaries
+    };
+}
+
+/**
+ * Single assertion result for tool output
+ */
+export function formatAssertionResult(result: AssertionResult): string {
+    const lines = [`${result.passed ? "PASSED" : "FAILED"}: ${result.name}`, `  ${result.message}`];
+    if (result.details) {
+        lines.push(...result.details.split("\n").map((line) => `    ${line}`));
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Human-readable report for tool output
+ */
+export function formatTestReport(report: TestReport): string {
+    if (report.tests === 0) {
+        return "No assertions recorded. Use assert_log, assert_network, assert_element_visible or assert_expression.";
+    }
+
+    const status = report.failed === 0 ? "PASSED" : "FAILED";
+    const lines = [`Test report: ${status} (${report.passed}/${report.tests} passed, ${report.failed} failed)`];
+    for (const suite of report.suites) {
+        lines.push("");
+        if (report.suites.length > 1 || suite.name !== DEFAULT_TEST_SUITE) {
+            lines.push(`${suite.name} (${suite.passed}/${suite.tests} passed)`);
+        }
+        for (const result of suite.assertions) {
+            lines.push(`${result.passed ? "✓" : "✗"} [${result.kind}] ${result.name} (${result.durationMs}ms)`);
+            if (!result.passed) {
+                lines.push(`    ${result.message}`);
+                if (result.details) {
+                    lines.push(...result.details.split("\n").map((line) => `      ${line}`));
+                }
+            }
+        }
+    }
+    return lines.join("\n");
+}
+
+// Escape text for XML content and attributes, dropping characters XML 1.0 does not allow
+function escapeXml(value: string): string {
+    return value
+        .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+/**
+ * JUnit XML (testsuites > testsuite > testcase), one test case per assertion
+ */
+export function formatJUnitReport(report: TestReport): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${escapeXml(report.name)}" tests="${report.tests}" failures="${report.failed}" errors="0" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`
+    ];
+    for (const suite of report.suites) {
+        const timestamp = suite.assertions[0]?.timestamp.toISOString() ?? report.startedAt;
+        lines.push(`  <testsuite name="${escapeXml(suite.name)}" tests="${suite.tests}" failures="${suite.failed}" errors="0" skipped="0" time="${seconds(suite.durationMs)}" timestamp="${timestamp}">`);
+        for (const result of suite.assertions) {
+            const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(`${suite.name}.${result.kind}`)}" time="${seconds(result.durationMs)}"`;
+            if (result.passed) {
+                lines.push(`    <testcase ${attributes}/>`);
+                continue;
+            }
+            const body = result.details ? `${result.message}\n${result.details}` : result.message;
+            lines.push(`    <testcase ${attributes}>`);
+            lines.push(`      <failure message="${escapeXml(result.message)}" type="AssertionError">${escapeXml(body)}</failure>`);
+            lines.push("    </testcase>");
+        }
+        lines.push("  </testsuite>");
+    }
+    lines.push("</testsuites>");
+    return lines.join("\n") + "\n";
+}
+
+export type TestReportFormat = "text" | "json" | "junit";
+
+/**
+ * Render the report of a buffer (optionally one suite) in a format
+ */
+export function renderTestReport(buffer: TestReportBuffer, options: { format?: TestReportFormat; suite?: string } = {}): string {
+    const report = buildTestReport(buffer.getAll(options.suite), { startedAt: buffer.startedAt });
+    switch (options.format) {
+        case "json":
+            return JSON.stringify(report, null, 2);
+        case "junit":
+            return formatJUnitReport(report);
+        default:
+            return formatTestReport(report);
+    }
+}
+
+/**
+ * Write the report to a file for archiving (e.g. as a CI artifact)
+ */
+export async function exportTestReport(
+    buffer: TestReportBuffer,
+    options: { format: "json" | "junit"; suite?: string; outputPath: string }
+): Promise<{ success: boolean; path?: string; count?: number; error?: string }> {
+    try {
+        await writeFile(options.outputPath, renderTestReport(buffer, options), "utf-8");
+        return { success: true, path: options.outputPath, count: buffer.getAll(options.suite).length };
+    } catch (error) {
+        return {
+            success: false,
+            error: `Failed to write test report: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+}
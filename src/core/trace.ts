@@ -0,0 +1,352 @@
+import { RUNTIME_EMIT_SNIPPET, SAFE_VALUE_SNIPPET, METRO_MODULES_SNIPPET, toAsciiJson } from "./runtimeEvents.js";
+import { LogQuery, compileLogQuery } from "./logQuery.js";
+
+// Where a trace entry came from
+// - call: a function wrapped by trace_function returned or threw
+// - logpoint: a logpoint's expression was evaluated (the app did not pause)
+export type TraceKind = "call" | "logpoint";
+
+// Trace entry
+export interface TraceEntry {
+    id: number;
+    timestamp: Date;
+    kind: TraceKind;
+    name: string;            // Traced function path or logpoint label ("bp-3 src/Cart.tsx:42")
+    level: "log" | "error";  // "error" when the call threw or its promise rejected
+    message: string;         // One-line summary used for text matching
+    args?: unknown[];        // Call arguments or logpoint expression values (safely serialized)
+    returnValue?: unknown;
+    error?: string;
+    durationMs?: number;
+    async?: boolean;         // Result came from a returned promise
+    appKey?: string;         // Connection that reported the entry
+    deviceName?: string;
+}
+
+// Event name used by the in-app trace helper
+export const TRACE_EVENT = "trace";
+
+// Global installed by TRACE_HELPER_SCRIPT
+const TRACE_HELPER = "__rnAiDebuggerTrace";
+
+// Circular buffer for trace entries
+export class TraceBuffer {
+    private entries: TraceEntry[] = [];
+    private maxSize: number;
+    private nextId = 1;
+    private listeners: Array<(entry: TraceEntry) => void> = [];
+
+    constructor(maxSize: number = 500) {
+        this.maxSize = maxSize;
+    }
+
+    add(entry: Omit<TraceEntry, "id">): TraceEntry {
+        const stored: TraceEntry = { ...entry, id: this.nextId++ };
+        this.entries.push(stored);
+        if (this.entries.length > this.maxSize) {
+            this.entries.shift();
+        }
+        for (const listener of this.listeners) {
+            listener(stored);
+        }
+        return stored;
+    }
+
+    // Register a callback invoked for every added entry
+    subscribe(listener: (entry: TraceEntry) => void): void {
+        this.listeners.push(listener);
+    }
+
+    getAll(): TraceEntry[] {
+        return [...this.entries];
+    }
+
+    clear(): number {
+        const count = this.entries.length;
+        this.entries = [];
+        return count;
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+}
+
+/**
+ * Script that installs the trace helper used by traced functions and logpoints.
+ * Values are copied into a bounded, JSON-safe shape before they are emitted so
+ * large or circular app objects cannot stall the runtime. Idempotent per JS context.
+ */
+export const TRACE_HELPER_SCRIPT = `(function() {
+    ${RUNTIME_EMIT_SNIPPET}
+    ${SAFE_VALUE_SNIPPET}
+    if (typeof globalThis.${TRACE_HELPER} === 'function') return true;
+
+    var MAX_DEPTH = 4;
+    var MAX_STRING = 500;
+
+    function describeError(error) {
+        return error && error.message !== undefined
+            ? (error.name ? error.name + ': ' : '') + error.message
+            : String(error);
+    }
+
+    // Always returns false so it can be used inside a breakpoint condition
+    globalThis.${TRACE_HELPER} = function(entry) {
+        try {
+            var payload = {
+                kind: entry.kind,
+                name: entry.name,
+                timestamp: Date.now(),
+                args: __rnAiDebuggerToSafe(entry.args || [], MAX_DEPTH, MAX_STRING)
+            };
+            if ('error' in entry) {
+                payload.error = describeError(entry.error);
+            } else if ('returnValue' in entry) {
+                payload.hasReturnValue = true;
+                payload.returnValue = __rnAiDebuggerToSafe(entry.returnValue, MAX_DEPTH - 1, MAX_STRING);
+            }
+            if (typeof entry.durationMs === 'number') payload.durationMs = entry.durationMs;
+            if (entry.async) payload.async = true;
+            __rnAiDebuggerEmit('${TRACE_EVENT}', payload);
+        } catch (e) {}
+        return false;
+    };
+    return true;
+})()`;
+
+/**
+ * Script that resolves a function path and wraps it with the trace helper.
+ * Paths are either global ("store.dispatch", "globalThis.api.fetchUser") or
+ * module-scoped ("src/api/user.ts:fetchUser"), the latter looked up in Metro's
+ * module registry (development builds only).
+ */
+export function buildTraceFunctionScript(path: string, action: "trace" | "untrace"): string {
+    return `(function() {
+        ${METRO_MODULES_SNIPPET}
+        var path = ${toAsciiJson(path)};
+        var owner;
+        var segments;
+        var separator = path.lastIndexOf(':');
+
+        if (separator > 0) {
+            var modulePath = path.slice(0, separator).replace(/\\\\/g, '/').replace(/^\\.\\//, '');
+            segments = path.slice(separator + 1).split('.');
+            var entries = __rnAiDebuggerModules();
+            if (!entries) {
+                return JSON.stringify({ error: 'Metro module registry not available (requires a development build)' });
+            }
+            var stripped = modulePath.replace(/\\.[jt]sx?$/, '');
+            var matches = entries.filter(function(mod) {
+                var name = mod && mod.verboseName;
+                if (!name) return false;
+                name = String(name).replace(/\\\\/g, '/');
+                var bare = name.replace(/\\.[jt]sx?$/, '');
+                return name === modulePath || bare === stripped
+                    || name.slice(-modulePath.length - 1) === '/' + modulePath
+                    || bare.slice(-stripped.length - 1) === '/' + stripped;
+            });
+            if (matches.length === 0) {
+                return JSON.stringify({ error: 'No module matching "' + modulePath + '" in the bundle' });
+            }
+            if (matches.length > 1) {
+                return JSON.stringify({
+                    error: '"' + modulePath + '" matches ' + matches.length + ' modules: '
+                        + matches.slice(0, 5).map(function(mod) { return mod.verboseName; }).join(', ')
+                });
+            }
+            if (!matches[0].isInitialized) {
+                return JSON.stringify({ error: 'Module "' + matches[0].verboseName + '" has not been loaded yet' });
+            }
+            owner = matches[0].publicModule.exports;
+        } else {
+            owner = globalThis;
+            segments = path.split('.');
+            if (segments[0] === 'globalThis' || segments[0] === 'global' || segments[0] === 'window') {
+                segments.shift();
+            }
+        }
+
+        for (var i = 0; i < segments.length - 1; i++) {
+            if (owner === null || owner === undefined) break;
+            owner = owner[segments[i]];
+        }
+        var key = segments[segments.length - 1];
+        if (owner === null || owner === undefined || !key) {
+            return JSON.stringify({ error: 'Cannot resolve "' + path + '"' });
+        }
+
+        var current = owner[key];
+        if (typeof current !== 'function') {
+            return JSON.stringify({ error: '"' + path + '" is not a function (' + typeof current + ')' });
+        }
+
+        ${action === "untrace" ? buildUnwrapBody() : buildWrapBody()}
+    })()`;
+}
+
+function buildWrapBody(): string {
+    return `if (current.__rnAiDebuggerOriginal) {
+            return JSON.stringify({ traced: true, alreadyTraced: true });
+        }
+        if (typeof globalThis.${TRACE_HELPER} !== 'function') {
+            return JSON.stringify({ error: 'Trace helper is not installed' });
+        }
+
+        var original = current;
+        var record = function(entry) {
+            entry.kind = 'call';
+            entry.name = path;
+            globalThis.${TRACE_HELPER}(entry);
+        };
+        var wrapped = function() {
+            var args = Array.prototype.slice.call(arguments);
+            var start = Date.now();
+            var result;
+            try {
+                result = original.apply(this, arguments);
+            } catch (error) {
+                record({ args: args, error: error, durationMs: Date.now() - start });
+                throw error;
+            }
+            if (result && typeof result.then === 'function') {
+                // Return the chained promise so the caller still sees the value or
+                // rejection, and an unhandled rejection is still reported as one
+                return result.then(function(value) {
+                    record({ args: args, returnValue: value, durationMs: Date.now() - start, async: true });
+                    return value;
+                }, function(error) {
+                    record({ args: args, error: error, durationMs: Date.now() - start, async: true });
+                    throw error;
+                });
+            }
+            record({ args: args, returnValue: result, durationMs: Date.now() - start });
+            return result;
+        };
+        Object.keys(original).forEach(function(name) { wrapped[name] = original[name]; });
+        wrapped.__rnAiDebuggerOriginal = original;
+
+        try {
+            owner[key] = wrapped;
+        } catch (e) {}
+        if (owner[key] !== wrapped) {
+            return JSON.stringify({ error: '"' + path + '" is read-only and cannot be wrapped' });
+        }
+        return JSON.stringify({ traced: true });`;
+}
+
+function buildUnwrapBody(): string {
+    return `if (!current.__rnAiDebuggerOriginal) {
+            return JSON.stringify({ untraced: false });
+        }
+        try {
+            owner[key] = current.__rnAiDebuggerOriginal;
+        } catch (e) {}
+        return JSON.stringify({ untraced: owner[key] !== current });`;
+}
+
+/**
+ * Build a breakpoint condition that records the expression's values and never pauses.
+ * The user condition (if any) gates logging; the whole condition always evaluates to false.
+ */
+export function buildLogpointCondition(label: string, expression: string, condition?: string): string {
+    const log = `typeof globalThis.${TRACE_HELPER} === 'function' && globalThis.${TRACE_HELPER}({ kind: 'logpoint', name: ${toAsciiJson(label)}, args: [${expression}] })`;
+    return condition ? `((${condition}) && ${log}, false)` : `(${log}, false)`;
+}
+
+// Compact JSON for one-line summaries
+function preview(value: unknown, maxLength: number = 200): string {
+    let text: string;
+    try {
+        text = value === undefined ? "undefined" : JSON.stringify(value);
+    } catch {
+        text = String(value);
+    }
+    return text.length > maxLength ? text.slice(0, maxLength) + "..." : text;
+}
+
+/**
+ * Build the one-line summary of a trace entry
+ * - call:     store.dispatch({"type":"cart/add"}) -> undefined (2ms)
+ * - logpoint: bp-3 src/Cart.tsx:42: 3, "abc"
+ */
+export function describeTrace(entry: Omit<TraceEntry, "id" | "message">): string {
+    const args = (entry.args ?? []).map((arg) => preview(arg)).join(", ");
+    if (entry.kind === "logpoint") {
+        return `${entry.name}: ${args}`;
+    }
+
+    const outcome = entry.error !== undefined
+        ? `${entry.async ? "rejected" : "threw"} ${entry.error}`
+        : `${entry.async ? "resolved " : "-> "}${preview(entry.returnValue)}`;
+    const duration = entry.durationMs !== undefined ? ` (${entry.durationMs}ms)` : "";
+    return `${entry.name}(${args}) ${outcome}${duration}`;
+}
+
+// Format trace entries for text output
+export function formatTraces(entries: TraceEntry[], options: { maxMessageLength?: number } = {}): string {
+    if (entries.length === 0) {
+        return "No traces captured. Use trace_function or set_logpoint to start recording.";
+    }
+
+    const { maxMessageLength = 500 } = options;
+    const showApp = new Set(entries.map((entry) => entry.appKey)).size > 1;
+
+    return entries
+        .map((entry) => {
+            const time = entry.timestamp.toLocaleTimeString();
+            const tag = entry.kind === "logpoint" ? "[LOGPOINT]" : entry.level === "error" ? "[CALL ERROR]" : "[CALL]";
+            const appTag = showApp && entry.deviceName ? ` [${entry.deviceName}]` : "";
+            let message = entry.message;
+            if (maxMessageLength > 0 && message.length > maxMessageLength) {
+                message = message.slice(0, maxMessageLength) + `... [truncated: ${entry.message.length} chars]`;
+            }
+            return `[#${entry.id}] ${time}${appTag} ${tag} ${message}`;
+        })
+        .join("\n");
+}
+
+// Get trace entries with filtering (same query syntax as get_logs)
+export function getTraces(
+    buffer: TraceBuffer,
+    options: {
+        maxEntries?: number;
+        kind?: TraceKind | "all";
+        name?: string;
+        errorsOnly?: boolean;
+        maxMessageLength?: number;
+    } & Omit<LogQuery, "level"> = {}
+): { traces: TraceEntry[]; count: number; formatted: string; error?: string } {
+    const { maxEntries = 50, kind = "all", name, errorsOnly = false, maxMessageLength, ...query } = options;
+
+    const compiled = compileLogQuery(query);
+    if (!compiled.matches) {
+        return { traces: [], count: 0, formatted: "", error: compiled.error };
+    }
+
+    let traces = buffer.getAll().filter(compiled.matches);
+
+    if (kind !== "all") {
+        traces = traces.filter((entry) => entry.kind === kind);
+    }
+
+    if (name) {
+        const needle = name.toLowerCase();
+        traces = traces.filter((entry) => entry.name.toLowerCase().includes(needle));
+    }
+
+    if (errorsOnly) {
+        traces = traces.filter((entry) => entry.level === "error");
+    }
+
+    // Most recent entries
+    if (maxEntries > 0) {
+        traces = traces.slice(-maxEntries);
+    }
+
+    return {
+        traces,
+        count: traces.length,
+        formatted: formatTraces(traces, { maxMessageLength })
+    };
+}
@@ -0,0 +1,192 @@
+import { AppTarget, DeviceInfo } from "./types.js";
+import { traceBuffer } from "./state.js";
+import { executeInApp } from "./executor.js";
+import { addCDPEventListener, getConnectedApps, resolveTargetApp } from "./connection.js";
+import { registerRuntimeEventHandler, addAppKeyChangedListener } from "./runtimeEvents.js";
+import { TRACE_EVENT, TRACE_HELPER_SCRIPT, TraceKind, buildTraceFunctionScript, describeTrace } from "./trace.js";
+
+// ============================================================================
+// Function Tracing
+// ============================================================================
+//
+// trace_function replaces a function in the app with a wrapper that reports
+// every call (arguments, return value or error, duration) through the trace
+// helper. Logpoints (see debugger.ts) report through the same helper, and both
+// end up in the trace buffer. Wrappers live in the JS context, so a reload
+// drops them; they are not re-applied because the traced object usually does
+// not exist yet when the new context is created.
+
+// Function currently wrapped in an app
+export interface TracedFunction {
+    path: string;
+    appKey: string;
+    tracedAt: Date;
+}
+
+// Result of trace operations
+export interface TraceResult {
+    success: boolean;
+    appKey?: string;
+    traced?: TracedFunction;
+    alreadyTraced?: boolean;
+    removed?: number;
+    error?: string;
+}
+
+// Shape of an entry reported by the in-app trace helper
+interface TracePayload {
+    kind: TraceKind;
+    name: string;
+    timestamp?: number;
+    args?: unknown[];
+    hasReturnValue?: boolean;
+    returnValue?: unknown;
+    error?: string;
+    durationMs?: number;
+    async?: boolean;
+}
+
+const tracedFunctions: Map<string, TracedFunction> = new Map();
+
+function tracedKey(appKey: string, path: string): string {
+    return `${appKey} ${path}`;
+}
+
+/**
+ * Install the trace helper in the target app (idempotent per JS context)
+ */
+export async function installTraceHelper(target: AppTarget): Promise<{ success: boolean; error?: string }> {
+    const result = await executeInApp(TRACE_HELPER_SCRIPT, false, { target });
+    return result.success ? { success: true } : { success: false, error: result.error };
+}
+
+// Run the wrap/unwrap script and parse its JSON reply
+async function runTraceScript(
+    appKey: string,
+    path: string,
+    action: "trace" | "untrace"
+): Promise<{ success: boolean; reply?: Record<string, unknown>; error?: string }> {
+    const result = await executeInApp(buildTraceFunctionScript(path, action), false, { target: { appKey } });
+    if (!result.success) {
+        return { success: false, error: result.error };
+    }
+
+    let reply: Record<string, unknown>;
+    try {
+        reply = JSON.parse(result.result || "{}");
+    } catch {
+        return { success: false, error: `Unexpected response: ${result.result}` };
+    }
+    if (typeof reply.error === "string") {
+        return { success: false, error: reply.error };
+    }
+    return { success: true, reply };
+}
+
+/**
+ * Wrap a function so its calls are recorded in the trace buffer.
+ * path is global ("store.dispatch") or module-scoped ("src/api/user.ts:fetchUser").
+ */
+export async function traceFunction(target: AppTarget, path: string): Promise<TraceResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const helper = await installTraceHelper({ appKey });
+    if (!helper.success) {
+        return { success: false, appKey, error: helper.error };
+    }
+
+    const result = await runTraceScript(appKey, path, "trace");
+    if (!result.success) {
+        return { success: false, appKey, error: result.error };
+    }
+
+    const key = tracedKey(appKey, path);
+    const traced = tracedFunctions.get(key) ?? { path, appKey, tracedAt: new Date() };
+    tracedFunctions.set(key, traced);
+    return { success: true, appKey, traced, alreadyTraced: result.reply?.alreadyTraced === true };
+}
+
+/**
+ * Restore a traced function, or every traced function of the app when no path is given
+ */
+export async function untraceFunction(target: AppTarget, path?: string): Promise<TraceResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const paths = path ? [path] : listTracedFunctions(appKey).map((traced) => traced.path);
+    if (path && !tracedFunctions.has(tracedKey(appKey, path))) {
+        return { success: false, appKey, error: `"${path}" is not traced. Use list_traced_functions to see traced functions.` };
+    }
+
+    let removed = 0;
+    for (const tracedPath of paths) {
+        tracedFunctions.delete(tracedKey(appKey, tracedPath));
+        const result = await runTraceScript(appKey, tracedPath, "untrace");
+        if (!result.success) {
+            return { success: false, appKey, removed, error: `Failed to restore "${tracedPath}": ${result.error}` };
+        }
+        removed++;
+    }
+
+    return { success: true, appKey, removed };
+}
+
+/**
+ * List traced functions, optionally for one app
+ */
+export function listTracedFunctions(appKey?: string): TracedFunction[] {
+    return Array.from(tracedFunctions.values()).filter((traced) => !appKey || traced.appKey === appKey);
+}
+
+// Format traced functions for text output
+export function formatTracedFunctions(list: TracedFunction[]): string {
+    if (list.length === 0) {
+        return "No functions traced.";
+    }
+
+    return list
+        .map((traced) => `${traced.path} [${traced.appKey}] since ${traced.tracedAt.toLocaleTimeString()}`)
+        .join("\n");
+}
+
+// Record entries reported by traced functions and logpoints
+registerRuntimeEventHandler(TRACE_EVENT, (payload: unknown, device: DeviceInfo) => {
+    const report = payload as TracePayload;
+    if (!report?.name || (report.kind !== "call" && report.kind !== "logpoint")) {
+        return;
+    }
+
+    const entry = {
+        timestamp: typeof report.timestamp === "number" ? new Date(report.timestamp) : new Date(),
+        kind: report.kind,
+        name: report.name,
+        level: report.error !== undefined ? "error" as const : "log" as const,
+        args: Array.isArray(report.args) ? report.args : [],
+        returnValue: report.hasReturnValue ? report.returnValue : undefined,
+        error: report.error,
+        durationMs: report.durationMs,
+        async: report.async,
+        appKey: getConnectedApps().find(({ app }) => app.deviceInfo.id === device.id)?.key,
+        deviceName: device.deviceName
+    };
+    traceBuffer.add({ ...entry, message: describeTrace(entry) });
+});
+
+// A reload discards the JS context and with it every wrapper
+addCDPEventListener("Runtime.executionContextsCleared", (_params, appKey) => {
+    for (const traced of listTracedFunctions(appKey)) {
+        tracedFunctions.delete(tracedKey(appKey, traced.path));
+    }
+});
+
+// Also when the reloaded app comes back under a new key
+addAppKeyChangedListener((previousKey) => {
+    for (const traced of listTracedFunctions(previousKey)) {
+        tracedFunctions.delete(tracedKey(previousKey, traced.path));
+    }
+});
@@ -6,6 +6,9 @@ export interface LogEntry {
     level: "log" | "warn" | "error" | "info" | "debug";
     message: string;
     args?: unknown[];
+    stack?: StackFrame[];    // Source-mapped call stack (errors and warnings)
+    appKey?: string;         // Connection that produced the entry ("port-deviceId")
+    deviceName?: string;
 }
 
 // Device info from /json endpoint
@@ -60,15 +63,91 @@ export interface ExceptionDetails {
     text: string;
     lineNumber: number;
     columnNumber: number;
+    url?: string;
+    stackTrace?: CDPStackTrace;
     exception?: RemoteObject;
 }
 
+// CDP call frame (Runtime.CallFrame) - 0-based line and column
+export interface CDPCallFrame {
+    functionName: string;
+    scriptId?: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+}
+
+// CDP stack trace (Runtime.StackTrace)
+export interface CDPStackTrace {
+    description?: string;
+    callFrames: CDPCallFrame[];
+}
+
+// Stack frame in JS stack-string coordinates (1-based line and column).
+// After symbolication, file/lineNumber/column point at the original source.
+export interface StackFrame {
+    functionName: string;
+    file: string;
+    lineNumber: number;
+    column: number;
+    symbolicated?: boolean;
+    collapse?: boolean;      // Metro marks framework/node_modules frames as collapsible
+}
+
+// CDP call frame of a paused debugger (Debugger.CallFrame) - 0-based line and column
+export interface CDPPausedCallFrame {
+    callFrameId: string;
+    functionName: string;
+    location: { scriptId: string; lineNumber: number; columnNumber?: number };
+    url?: string;
+    scopeChain: Array<{
+        type: string;        // "local", "closure", "block", "catch", "script", "global", ...
+        name?: string;
+        object: RemoteObject;
+    }>;
+}
+
+// Debugger pause (Debugger.paused), kept until Debugger.resumed
+export interface DebuggerPause {
+    pausedAt: Date;
+    reason: string;
+    hitBreakpoints: string[];
+    callFrames: CDPPausedCallFrame[];
+    frames: StackFrame[];    // One per call frame, source-mapped once symbolication completes
+}
+
+// Selects which connected app a runtime tool targets.
+// With neither field set, the app chosen via select_app (or the first connected app) is used.
+export interface AppTarget {
+    appKey?: string;         // Exact connection key ("port-deviceId")
+    device?: string;         // Case-insensitive substring of the device name, title or id
+}
+
 // Pending execution tracker
 export interface PendingExecution {
     resolve: (result: ExecutionResult) => void;
     timeoutId: NodeJS.Timeout;
 }
 
+// Raw response to a CDP command (used for methods other than Runtime.evaluate)
+export interface CDPCommandResponse {
+    result?: Record<string, unknown>;
+    error?: { message?: string; code?: number; data?: string };
+}
+
+// Pending raw CDP command tracker
+export interface PendingCommand {
+    resolve: (response: CDPCommandResponse) => void;
+    timeoutId: NodeJS.Timeout;
+}
+
+// Result of a raw CDP command
+export interface CDPCommandResult<T = Record<string, unknown>> {
+    success: boolean;
+    result?: T;
+    error?: string;
+}
+
 // Result of code execution
 export interface ExecutionResult {
     success: boolean;
@@ -92,6 +171,10 @@ export interface NetworkRequest {
     responseHeaders?: Record<string, string>;
     mimeType?: string;
     contentLength?: number;
+    responseBody?: string;
+    responseBodyBase64?: boolean;
+    responseBodyTruncated?: boolean;
+    responseBodySkipped?: string;
     timing?: {
         requestTime?: number;
         responseTime?: number;
@@ -99,6 +182,37 @@ export interface NetworkRequest {
     };
     error?: string;
     completed: boolean;
+    mocked?: boolean;        // Served by a network mock rule instead of the real network
+    mockRuleId?: string;
+    appKey?: string;         // Connection that produced the request ("port-deviceId")
+    deviceName?: string;
+}
+
+// Configuration for capturing response bodies via Network.getResponseBody
+export interface ResponseBodyCaptureConfig {
+    enabled: boolean;
+    maxBodySize: number;     // Bytes; larger bodies are truncated (or skipped when size is known upfront)
+    mimeTypes: string[];     // Allowlist of mime type prefixes (e.g. "application/json", "text/")
+}
+
+// How a network mock rule's urlPattern is interpreted
+export type NetworkMockMatchType = "glob" | "regex";
+
+// Network mock rule (matched and served by the in-app fetch/XHR interceptor)
+export interface NetworkMockRule {
+    id: string;
+    method?: string;                   // Uppercase HTTP method; any method when omitted
+    urlPattern: string;
+    matchType: NetworkMockMatchType;
+    requestHeaders?: Record<string, string>;  // Lowercase name -> substring the request header must contain
+    status: number;
+    statusText?: string;
+    responseHeaders: Record<string, string>;
+    body: string;
+    delayMs: number;
+    networkError?: string;             // Fail the request with this message instead of responding
+    hitCount: number;
+    createdAt: Date;
 }
 
 // Connection state tracking for auto-reconnection
@@ -116,6 +230,24 @@ export interface ConnectionGap {
     reconnectedAt: Date | null;
     durationMs: number | null;
     reason: string;
+    crash?: AppCrash;         // Crash or ANR of the app detected around the disconnect
+}
+
+// How an Android app stopped: Java/Kotlin exception, ANR, or native signal (tombstone)
+export type AppCrashKind = "crash" | "anr" | "native-crash";
+
+// A crash or ANR of an Android app, detected from logcat
+export interface AppCrash {
+    kind: AppCrashKind;
+    timestamp: Date;          // Logcat time of the first report line
+    detectedAt: Date;         // Local time the report was seen (compared with connection gaps)
+    deviceId: string;
+    packageName: string;
+    pid: number;
+    summary: string;          // Exception, ANR reason or signal
+    nativeStack: string[];    // Lines of the logcat report
+    jsLogs: LogEntry[];       // Last JS logs of the app before the crash
+    appKeys: string[];        // Connections of the app's package
 }
 
 // Metadata stored for reconnection attempts
@@ -156,6 +288,7 @@ export interface ExecuteOptions {
     retryDelayMs?: number;    // Default: 1000
     autoReconnect?: boolean;  // Default: true
     timeoutMs?: number;       // Default: 10000
+    target?: AppTarget;       // Default: selected app, else first connected app
 }
 
 // Result of ensure_connection
@@ -164,7 +297,9 @@ export interface EnsureConnectionResult {
     wasReconnected: boolean;
     healthCheckPassed: boolean;
     connectionInfo: {
+        appKey: string;
         deviceTitle: string;
+        deviceName: string;
         port: number;
         uptime: string;
         contextId: number | null;
@@ -0,0 +1,314 @@
+import { AppTarget } from "./types.js";
+import { executeInApp, trimExpressionEnd } from "./executor.js";
+import { connectedApps } from "./state.js";
+import { resolveTargetApp } from "./connection.js";
+import { addContextCreatedListener, addAppKeyChangedListener } from "./runtimeEvents.js";
+import { parseTimeBound } from "./logQuery.js";
+
+// ============================================================================
+// Watch Expressions
+// ============================================================================
+//
+// A watch re-evaluates an expression in the app on an interval and after every
+// new JS context (reload). Only changes are kept: the history holds one entry
+// per distinct consecutive value, so it answers "when did X become null".
+// Evaluation failures caused by the connection are not part of the history;
+// errors thrown by the expression itself are (e.g. a store not created yet).
+
+const DEFAULT_INTERVAL_MS = 5000;
+const MIN_INTERVAL_MS = 1000;
+
+// Changes kept per watch (oldest dropped first)
+const MAX_HISTORY = 100;
+
+// Max characters of a serialized value
+const MAX_VALUE_LENGTH = 2000;
+
+// After a reload the bundle needs a moment to create the app's objects
+const RELOAD_SETTLE_MS = 1500;
+
+// What caused an evaluation
+export type WatchTrigger = "added" | "interval" | "reload" | "manual";
+
+// A distinct value observed by a watch
+export interface WatchChange {
+    timestamp: Date;
+    value?: string;          // Serialized value (JSON, or "undefined")
+    error?: string;          // The expression threw
+    trigger: WatchTrigger;
+}
+
+// Watch expression
+export interface Watch {
+    id: string;              // "watch-1"
+    expression: string;
+    appKey: string;
+    intervalMs: number;
+    createdAt: Date;
+    evaluations: number;
+    lastEvaluatedAt?: Date;
+    lastError?: string;      // Last failure to evaluate (connection, paused debugger, ...)
+    history: WatchChange[];
+    droppedChanges: number;  // Changes dropped from the start of the history
+}
+
+// Result of watch operations
+export interface WatchResult {
+    success: boolean;
+    watch?: Watch;
+    removed?: number;
+    error?: string;
+}
+
+const watches: Map<string, Watch> = new Map();
+const timers: Map<string, ReturnType<typeof setInterval>> = new Map();
+const evaluating: Set<string> = new Set();
+let nextWatchId = 1;
+
+// Evaluate the expression and serialize its value in the app, so that thrown
+// errors are told apart from failures to reach the app. Trailing semicolons
+// and comments are dropped so they cannot end the parentheses early.
+function buildWatchExpression(expression: string): string {
+    return `(function() {
+        var value;
+        try {
+            value = (${trimExpressionEnd(expression)});
+        } catch (e) {
+            return JSON.stringify({ error: e && e.message !== undefined ? (e.name ? e.name + ': ' : '') + e.message : String(e) });
+        }
+        if (value === undefined) return JSON.stringify({ value: 'undefined' });
+        if (typeof value === 'function') return JSON.stringify({ value: '[Function ' + (value.name || 'anonymous') + ']' });
+        var seen = [];
+        var text;
+        try {
+            text = JSON.stringify(value, function(key, item) {
+                if (typeof item === 'function') return '[Function]';
+                if (typeof item === 'bigint') return String(item);
+                if (item && typeof item === 'object') {
+                    if (seen.indexOf(item) !== -1) return '[Circular]';
+                    seen.push(item);
+                }
+                return item;
+            });
+        } catch (e) {
+            text = String(value);
+        }
+        if (text === undefined) text = String(value);
+        if (text.length > ${MAX_VALUE_LENGTH}) text = text.slice(0, ${MAX_VALUE_LENGTH}) + '...[' + text.length + 'ch]';
+        return JSON.stringify({ value: text });
+    })()`;
+}
+
+/**
+ * Evaluate a watch once and record its value if it changed
+ */
+async function evaluateWatch(watch: Watch, trigger: WatchTrigger): Promise<void> {
+    if (evaluating.has(watch.id)) return;
+    evaluating.add(watch.id);
+
+    try {
+        // Periodic evaluations must not trigger reconnects; the connection manager handles those
+        const result = await executeInApp(buildWatchExpression(watch.expression), false, {
+            target: { appKey: watch.appKey },
+            autoReconnect: false,
+            maxRetries: 0
+        });
+        if (!watches.has(watch.id)) return;
+
+        watch.evaluations++;
+        watch.lastEvaluatedAt = new Date();
+        if (!result.success) {
+            watch.lastError = result.error;
+            return;
+        }
+
+        let parsed: { value?: string; error?: string };
+        try {
+            parsed = JSON.parse(result.result || "{}");
+        } catch {
+            watch.lastError = `Unexpected response: ${result.result}`;
+            return;
+        }
+        watch.lastError = undefined;
+
+        const last = watch.history[watch.history.length - 1];
+        if (last && last.value === parsed.value && last.error === parsed.error) {
+            return;
+        }
+
+        watch.history.push({ timestamp: new Date(), value: parsed.value, error: parsed.error, trigger });
+        if (watch.history.length > MAX_HISTORY) {
+            watch.history.shift();
+            watch.droppedChanges++;
+        }
+    } finally {
+        evaluating.delete(watch.id);
+    }
+}
+
+/**
+ * Add a watch expression and evaluate it right away
+ */
+export async function addWatch(
+    target: AppTarget,
+    expression: string,
+    options: { intervalMs?: number } = {}
+): Promise<WatchResult> {
+    const { appKey, error } = resolveTargetApp(target);
+    if (!appKey) {
+        return { success: false, error: error ?? "No apps connected. Run 'scan_metro' first." };
+    }
+
+    const watch: Watch = {
+        id: `watch-${nextWatchId++}`,
+        expression,
+        appKey,
+        intervalMs: Math.max(MIN_INTERVAL_MS, options.intervalMs ?? DEFAULT_INTERVAL_MS),
+        createdAt: new Date(),
+        evaluations: 0,
+        history: [],
+        droppedChanges: 0
+    };
+    watches.set(watch.id, watch);
+
+    await evaluateWatch(watch, "added");
+
+    const timer = setInterval(() => {
+        if (connectedApps.has(watch.appKey)) {
+            evaluateWatch(watch, "interval");
+        }
+    }, watch.intervalMs);
+    timer.unref();
+    timers.set(watch.id, timer);
+
+    return { success: true, watch };
+}
+
+/**
+ * Remove a watch by id, or all watches when no id is given
+ */
+export function removeWatch(watchId?: string): WatchResult {
+    const ids = watchId ? [watchId] : Array.from(watches.keys());
+    if (watchId && !watches.has(watchId)) {
+        return { success: false, error: `Watch ${watchId} not found. Use list_watches to see ids.` };
+    }
+
+    for (const id of ids) {
+        clearInterval(timers.get(id));
+        timers.delete(id);
+        watches.delete(id);
+    }
+    return { success: true, removed: ids.length };
+}
+
+/**
+ * Re-evaluate a watch now (used before reading its history)
+ */
+export async function refreshWatch(watchId: string): Promise<WatchResult> {
+    const watch = watches.get(watchId);
+    if (!watch) {
+        return { success: false, error: `Watch ${watchId} not found. Use list_watches to see ids.` };
+    }
+    await evaluateWatch(watch, "manual");
+    return { success: true, watch };
+}
+
+/**
+ * List watches, optionally for one app
+ */
+export function listWatches(appKey?: string): Watch[] {
+    return Array.from(watches.values()).filter((watch) => !appKey || watch.appKey === appKey);
+}
+
+/**
+ * Get a watch by id
+ */
+export function getWatch(watchId: string): Watch | null {
+    return watches.get(watchId) ?? null;
+}
+
+function describeChange(change: WatchChange): string {
+    return change.error !== undefined ? `threw ${change.error}` : change.value ?? "undefined";
+}
+
+// Format a watch as a summary line with its current value
+export function formatWatch(watch: Watch): string {
+    const current = watch.history[watch.history.length - 1];
+    const value = current ? describeChange(current) : "(not evaluated yet)";
+    const since = current ? ` since ${current.timestamp.toLocaleTimeString()}` : "";
+    const changes = watch.history.length + watch.droppedChanges;
+    const failing = watch.lastError ? ` [last evaluation failed: ${watch.lastError}]` : "";
+    return `${watch.id} ${watch.expression} = ${value}${since} (${changes} value(s), every ${watch.intervalMs / 1000}s) [${watch.appKey}]${failing}`;
+}
+
+// Format watches for text output
+export function formatWatches(list: Watch[]): string {
+    if (list.length === 0) {
+        return "No watches. Use add_watch to watch an expression.";
+    }
+    return list.map(formatWatch).join("\n");
+}
+
+/**
+ * Format the change history of a watch.
+ * value keeps only changes whose value contains the text (e.g. "null");
+ * since keeps changes at or after a time bound (same formats as get_logs).
+ */
+export function formatWatchHistory(
+    watch: Watch,
+    options: { value?: string; since?: string; maxChanges?: number } = {}
+): { formatted: string; error?: string } {
+    const { value, since, maxChanges = 50 } = options;
+    let history = watch.history;
+
+    if (since) {
+        const bound = parseTimeBound(since);
+        if (!bound) {
+            return { formatted: "", error: `Invalid since value "${since}"` };
+        }
+        history = history.filter((change) => change.timestamp.getTime() >= bound.getTime());
+    }
+
+    if (value !== undefined) {
+        const needle = value.toLowerCase();
+        history = history.filter((change) => describeChange(change).toLowerCase().includes(needle));
+    }
+
+    if (maxChanges > 0) {
+        history = history.slice(-maxChanges);
+    }
+
+    const lines = [formatWatch(watch), ""];
+    if (watch.droppedChanges > 0) {
+        lines.push(`(${watch.droppedChanges} older change(s) dropped)`);
+    }
+    if (history.length === 0) {
+        lines.push("No matching changes.");
+    }
+    for (const change of history) {
+        lines.push(`${change.timestamp.toLocaleTimeString()} (${change.trigger}) ${describeChange(change)}`);
+    }
+    return { formatted: lines.join("\n") };
+}
+
+// Keep watches on an app whose key changed on reload
+addAppKeyChangedListener((previousKey, appKey) => {
+    for (const watch of listWatches(previousKey)) {
+        watch.appKey = appKey;
+    }
+});
+
+// Re-evaluate an app's watches once a reloaded bundle has had time to start
+addContextCreatedListener((appKey) => {
+    const appWatches = listWatches(appKey);
+    if (appWatches.length === 0) {
+        return;
+    }
+    setTimeout(() => {
+        for (const watch of appWatches) {
+            if (watches.has(watch.id)) {
+                evaluateWatch(watch, "reload");
+            }
+        }
+    }, RELOAD_SETTLE_MS).unref();
+});
@@ -8,11 +8,12 @@ import {
     logBuffer,
     networkBuffer,
     bundleErrorBuffer,
+    exceptionBuffer,
     connectedApps,
     getActiveSimulatorUdid,
     scanMetroPorts,
     fetchDevices,
-    selectMainDevice,
+    selectMainDevices,
     connectToDevice,
     getConnectedApps,
     executeInApp,
@@ -28,20 +29,71 @@ import {
     toggleElementInspector,
     isInspectorActive,
     getInspectorSelection,
-    getFirstConnectedApp,
+    updateComponentState,
+    tapComponent,
+    formatTappedComponent,
+    parseFlow,
+    loadFlowFile,
+    runFlow,
+    formatFlowReport,
+    assertLog,
+    assertNetwork,
+    assertElementVisible,
+    assertExpression,
+    testReportBuffer,
+    nativeLogBuffer,
+    startNativeLogs,
+    stopNativeLogs,
+    getNativeLogStreams,
+    formatNativeLogStreams,
+    getCrashDetectionStatus,
+    getNativeLogs,
+    formatAssertionResult,
+    renderTestReport,
+    exportTestReport,
+    resolveTargetApp,
+    resolveKnownAppKey,
+    getSelectedAppKey,
+    setSelectedAppKey,
     getLogs,
     searchLogs,
     getLogSummary,
+    describeLogQuery,
+    // Symbolication
+    parseStackFrames,
+    symbolicateFrames,
+    formatStackFrame,
     getNetworkRequests,
     searchNetworkRequests,
     getNetworkStats,
     formatRequestDetails,
+    getResponseBodyCaptureConfig,
+    updateResponseBodyCaptureConfig,
+    // HAR export/import
+    exportNetworkHar,
+    importNetworkHar,
+    // Network mocking
+    addNetworkMock,
+    listNetworkMocks,
+    removeNetworkMock,
+    formatNetworkMock,
+    // Session recording
+    SESSIONS_DIR,
+    isSessionRecording,
+    startSessionRecording,
+    stopSessionRecording,
+    initSessionRecorder,
+    listSessions,
+    loadSession,
     // Connection state
     getAllConnectionStates,
     getAllConnectionMetadata,
     getRecentGaps,
     formatDuration,
     ConnectionGap,
+    // Crashes and ANRs detected from logcat
+    getRecentAppCrashes,
+    formatAppCrash,
     // Context health tracking
     getContextHealth,
     // Connection resilience
@@ -51,6 +103,82 @@ import {
     getBundleErrors,
     getBundleStatusWithErrors,
     checkMetroState,
+    // Exceptions
+    getExceptions,
+    // Debugger
+    setBreakpoint,
+    removeBreakpoint,
+    listBreakpoints,
+    getDebuggerPause,
+    getPauseState,
+    evaluateOnCallFrame,
+    debuggerStep,
+    formatDebuggerPause,
+    formatScopes,
+    formatBreakpoints,
+    // Tracing
+    traceBuffer,
+    getTraces,
+    traceFunction,
+    untraceFunction,
+    listTracedFunctions,
+    formatTracedFunctions,
+    formatTracesAsTonl,
+    // Watch expressions
+    addWatch,
+    removeWatch,
+    refreshWatch,
+    listWatches,
+    getWatch,
+    formatWatches,
+    formatWatchHistory,
+    // Redux
+    reduxActionBuffer,
+    startReduxTracking,
+    stopReduxTracking,
+    getReduxTracking,
+    getReduxActions,
+    formatReduxActions,
+    formatReduxActionsAsTonl,
+    // Navigation
+    routeChangeBuffer,
+    getNavigationState,
+    listRoutes,
+    navigateTo,
+    resetNavigation,
+    goBack,
+    startNavigationTracking,
+    stopNavigationTracking,
+    getNavigationTracking,
+    getScreenVisits,
+    formatScreenVisits,
+    formatNavigationState,
+    // Persisted storage
+    listStorages,
+    getStorageItem,
+    setStorageItem,
+    removeStorageItem,
+    exportStorage,
+    importStorage,
+    formatStorages,
+    // CPU profiling
+    getCpuProfileStartTime,
+    startCpuProfile,
+    stopCpuProfile,
+    formatCpuProfileSummary,
+    // React render profiling
+    getRenderProfileStartTime,
+    startRenderProfile,
+    stopRenderProfile,
+    formatRenderProfileReport,
+    // Heap snapshots
+    takeHeapSnapshot,
+    listHeapSnapshots,
+    summarizeHeapSnapshot,
+    compareHeapSnapshots,
+    formatBytes,
+    formatHeapSnapshotSummary,
+    formatHeapSnapshotDiff,
     // Error screen parsing (OCR fallback)
     parseErrorScreenText,
     formatParsedError,
@@ -60,6 +188,9 @@ import {
     // Android
     listAndroidDevices,
     androidScreenshot,
+    androidStartRecording,
+    androidStopRecording,
+    MAX_RECORDING_FRAMES,
     androidInstallApp,
     androidLaunchApp,
     androidListPackages,
@@ -110,8 +241,10 @@ import {
     trackToolInvocation,
     // Format utilities (TONL)
     formatLogsAsTonl,
-    formatNetworkAsTonl
+    formatNetworkAsTonl,
+    formatCpuProfileAsTonl
 } from "./core/index.js";
+import type { AssertResult } from "./core/index.js";
 
 // Create MCP server
 const server = new McpServer({
@@ -240,6 +373,27 @@ function registerToolWithTelemetry(
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
+// Shared parameters for tools that run code in a specific app
+const appTargetSchema = {
+    appKey: z.string().optional().describe("Target app key from get_apps (e.g. '8081-abc123'). Default: app chosen with select_app, else the first connected app"),
+    device: z.string().optional().describe("Target app by device name (case-insensitive substring, e.g. 'iPhone' or 'Pixel')")
+};
+
+// Shared parameters for tools that read buffered data (logs, network, exceptions)
+const appFilterSchema = {
+    appKey: z.string().optional().describe("Only include entries from this app (key from get_apps). Default: all apps"),
+    device: z.string().optional().describe("Only include entries from the app on this device (case-insensitive substring)")
+};
+
+// Resolve appKey/device filter parameters to a single app key (undefined = all apps)
+function resolveAppFilter(appKey?: string, device?: string): { appKey?: string; error?: string } {
+    if (appKey || !device) {
+        return { appKey };
+    }
+    const resolution = resolveTargetApp({ device });
+    return resolution.error ? { error: resolution.error } : { appKey: resolution.appKey ?? undefined };
+}
+
 // Tool: Scan for Metro servers
 registerToolWithTelemetry(
     "scan_metro",
@@ -275,23 +429,23 @@ registerToolWithTelemetry(
 
             results.push(`Port ${port}: Found ${devices.length} device(s)`);
 
-            const mainDevice = selectMainDevice(devices);
-            if (mainDevice) {
+            // Connect to the main target of every device (apps can share a Metro server)
+            for (const mainDevice of selectMainDevices(devices)) {
                 try {
                     const connectionResult = await connectToDevice(mainDevice, port);
                     results.push(`  - ${connectionResult}`);
-
-                    // Also connect to Metro build events for this port
-                    try {
-                        await connectMetroBuildEvents(port);
-                        results.push(`  - Connected to Metro build events`);
-                    } catch {
-                        // Build events connection is optional, don't fail the scan
-                    }
                 } catch (error) {
-                    results.push(`  - Failed: ${error}`);
+                    results.push(`  - Failed (${mainDevice.deviceName}): ${error}`);
                 }
             }
+
+            // Also connect to Metro build events for this port
+            try {
+                await connectMetroBuildEvents(port);
+                results.push(`  - Connected to Metro build events`);
+            } catch {
+                // Build events connection is optional, don't fail the scan
+            }
         }
 
         return {
@@ -326,10 +480,16 @@ registerToolWithTelemetry(
             };
         }
 
-        const status = connections.map(({ app, isConnected }) => {
+        const selectedKey = getSelectedAppKey();
+        const status = connections.map(({ key, app, isConnected }) => {
             const state = isConnected ? "Connected" : "Disconnected";
-            return `${app.deviceInfo.title} (${app.deviceInfo.deviceName}): ${state}`;
+            const selected = key === selectedKey ? " (selected)" : "";
+            return `[${key}] ${app.deviceInfo.title} (${app.deviceInfo.deviceName}): ${state}${selected}`;
         });
+        const targetHint =
+            connections.length > 1
+                ? "\n\nMultiple apps connected. Pass appKey/device to runtime tools, or use select_app to set a default target."
+                : "";
 
         // Include active iOS simulator info if available
         const activeSimulatorUdid = getActiveSimulatorUdid();
@@ -341,7 +501,54 @@ registerToolWithTelemetry(
             content: [
                 {
                     type: "text",
-                    text: `Connected apps:\n${status.join("\n")}${simulatorInfo}\n\nTotal logs in buffer: ${logBuffer.size}`
+                    text: `Connected apps:\n${status.join("\n")}${simulatorInfo}\n\nTotal logs in buffer: ${logBuffer.size}${targetHint}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Select the default target app
+registerToolWithTelemetry(
+    "select_app",
+    {
+        description:
+            "Set the default app for runtime tools (execute_in_app, get_component_tree, reload_app, ...) when several apps are connected, e.g. an iOS simulator and an Android emulator sharing one Metro server. Tools still accept an explicit appKey/device parameter. Use get_apps to list app keys.",
+        inputSchema: {
+            ...appTargetSchema,
+            clear: z.boolean().optional().default(false).describe("Clear the selection and go back to the first connected app")
+        }
+    },
+    async ({ appKey, device, clear }) => {
+        if (clear) {
+            setSelectedAppKey(null);
+            return {
+                content: [{ type: "text", text: "App selection cleared. Runtime tools will use the first connected app." }]
+            };
+        }
+
+        if (!appKey && !device) {
+            return {
+                content: [{ type: "text", text: "Error: Provide appKey or device (or clear=true)." }],
+                isError: true
+            };
+        }
+
+        const resolution = resolveTargetApp({ appKey, device });
+        if (!resolution.app || !resolution.appKey) {
+            return {
+                content: [{ type: "text", text: `Error: ${resolution.error ?? "No matching app connected."}` }],
+                isError: true
+            };
+        }
+
+        setSelectedAppKey(resolution.appKey);
+        const { title, deviceName } = resolution.app.deviceInfo;
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Selected app [${resolution.appKey}] ${title} (${deviceName}). Runtime tools will target it by default.`
                 }
             ]
         };
@@ -353,7 +560,7 @@ registerToolWithTelemetry(
     "get_connection_status",
     {
         description:
-            "Get detailed connection health status including uptime, recent disconnects/reconnects, and connection gaps that may indicate missing data.",
+            "Get detailed connection health status including uptime, recent disconnects/reconnects, and connection gaps that may indicate missing data. Reports Android app crashes and ANRs (with the native stack and last JS logs), detected from logcat: connected Android apps are watched automatically, and each app shows whether crash detection is on.",
         inputSchema: {}
     },
     async () => {
@@ -379,6 +586,52 @@ registerToolWithTelemetry(
             lines.push(`--- ${app.deviceInfo.title} (Port ${app.port}) ---`);
             lines.push(`  Status: ${isConnected ? "CONNECTED" : "DISCONNECTED"}`);
 
+            // Crash or ANR in the last 5 minutes
+            const crash = getRecentAppCrashes(300000, key)[0];
+            if (crash) {
+                lines.push(...formatAppCrash(crash, { maxStackLines: 10, maxJsLogs: 5 }).split("\n").map((line) => `  ${line}`));
+            }
+            const crashDetection = getCrashDetectionStatus(key);
+            lines.push(`  Crash detection: ${crashDetection.active ? `on (logcat on ${crashDetection.deviceId})` : `off - ${crashDetection.reason}`}`);
+
+            const pause = getDebuggerPause(key);
+            if (pause) {
+                const top = pause.frames.find((frame) => !frame.collapse) ?? pause.frames[0];
+                const where = top ? ` at ${top.functionName} (${top.file.split("/").pop()}:${top.lineNumber})` : "";
+                lines.push(`  Debugger: PAUSED (${pause.reason})${where} - use get_pause_state, debugger_step to resume`);
+            }
+            const breakpointCount = listBreakpoints(key).length;
+            if (breakpointCount > 0) {
+                lines.push(`  Breakpoints: ${breakpointCount}`);
+            }
+            const tracedCount = listTracedFunctions(key).length;
+            if (tracedCount > 0) {
+                lines.push(`  Traced functions: ${tracedCount}`);
+            }
+            const watchCount = listWatches(key).length;
+            if (watchCount > 0) {
+                lines.push(`  Watches: ${watchCount}`);
+            }
+            const reduxTracking = getReduxTracking(key);
+            if (reduxTracking) {
+                lines.push(`  Redux: ${reduxTracking.hooked ? `tracking actions (${reduxTracking.source})` : "waiting to re-hook the store after reload"}`);
+            }
+            const navigationTracking = getNavigationTracking(key);
+            if (navigationTracking) {
+                const lastRoute = routeChangeBuffer.getLast(key);
+                const current = lastRoute ? ` (current: ${lastRoute.path.join(" > ")})` : "";
+                lines.push(`  Navigation: ${navigationTracking.subscribed ? `tracking route changes${current}` : "waiting to re-subscribe after reload"}`);
+            }
+
+            const profileStartedAt = getCpuProfileStartTime(key);
+            if (profileStartedAt) {
+                lines.push(`  CPU Profile: recording since ${profileStartedAt.toLocaleTimeString()} (stop_cpu_profile to finish)`);
+            }
+            const renderProfileStartedAt = getRenderProfileStartTime(key);
+            if (renderProfileStartedAt) {
+                lines.push(`  Render Profile: recording since ${renderProfileStartedAt.toLocaleTimeString()} (stop_render_profile to finish)`);
+            }
+
             if (state) {
                 if (state.lastConnectedTime) {
                     const uptime = Date.now() - state.lastConnectedTime.getTime();
@@ -438,10 +691,32 @@ registerToolWithTelemetry(
                 if (state.reconnectionAttempts > 0) {
                     lines.push(`  Reconnection attempts: ${state.reconnectionAttempts}`);
                 }
+                const crash = getRecentAppCrashes(300000, key)[0];
+                if (crash) {
+                    lines.push(...formatAppCrash(crash, { maxStackLines: 10, maxJsLogs: 5 }).split("\n").map((line) => `  ${line}`));
+                }
                 lines.push("");
             }
         }
 
+        // Exceptions captured across all apps
+        const exceptionCounts = exceptionBuffer.getCounts();
+        if (exceptionCounts.total > 0) {
+            const latest = exceptionBuffer.getLatest();
+            lines.push(`Exceptions: ${exceptionCounts.total} captured (${exceptionCounts.fatal} fatal)`);
+            if (latest) {
+                lines.push(`  Latest: ${latest.timestamp.toLocaleTimeString()} ${latest.message.split("\n")[0]}`);
+            }
+            lines.push(`  Use get_exceptions for stacks.`);
+        }
+
+        // Android logcat streams
+        const nativeStreams = getNativeLogStreams();
+        if (nativeStreams.length > 0) {
+            lines.push(`Native logs:`);
+            lines.push(...formatNativeLogStreams(nativeStreams).split("\n").map((line) => `  ${line}`));
+        }
+
         return {
             content: [{ type: "text", text: lines.join("\n") }]
         };
@@ -453,7 +728,7 @@ registerToolWithTelemetry(
     "ensure_connection",
     {
         description:
-            "Verify or establish a healthy connection to a React Native app. Use before running commands if connection may be stale, or after navigation/reload. This tool runs a health check and will auto-reconnect if needed.",
+            "Verify or establish a healthy connection to a React Native app. Use before running commands if connection may be stale, or after navigation/reload. This tool runs a health check and will auto-reconnect if needed. Reports a recent Android crash or ANR of the app when one was detected from logcat (connected Android apps are watched automatically).",
         inputSchema: {
             port: z.coerce.number().optional().describe("Metro port (default: auto-detect)"),
             healthCheck: z
@@ -465,18 +740,25 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(false)
-                .describe("Force close existing connection and reconnect (default: false)")
+                .describe("Force close existing connection and reconnect (default: false)"),
+            ...appTargetSchema
         }
     },
-    async ({ port, healthCheck, forceRefresh }) => {
-        const result = await ensureConnection({ port, healthCheck, forceRefresh });
+    async ({ port, healthCheck, forceRefresh, appKey, device }) => {
+        const result = await ensureConnection({ port, healthCheck, forceRefresh, target: { appKey, device } });
 
         if (!result.connected) {
+            // A crashed app cannot be reconnected to until it is relaunched
+            const crashedAppKey = resolveKnownAppKey({ appKey, device });
+            const crash = crashedAppKey ? getRecentAppCrashes(300000, crashedAppKey)[0] : undefined;
+            const crashNote = crash
+                ? `\n\n${formatAppCrash(crash, { maxStackLines: 10, maxJsLogs: 5 })}\n\n${crash.kind === "anr" ? "The app is frozen: wait for it to respond or restart it" : "Relaunch the app"} (android_launch_app) before reconnecting.`
+                : "";
             return {
                 content: [
                     {
                         type: "text",
-                        text: result.error || "Connection failed: Unknown error"
+                        text: (result.error || "Connection failed: Unknown error") + crashNote
                     }
                 ],
                 isError: true
@@ -487,7 +769,8 @@ registerToolWithTelemetry(
         lines.push("=== Connection Ensured ===\n");
 
         if (result.connectionInfo) {
-            lines.push(`Device: ${result.connectionInfo.deviceTitle}`);
+            lines.push(`Device: ${result.connectionInfo.deviceTitle} (${result.connectionInfo.deviceName})`);
+            lines.push(`App Key: ${result.connectionInfo.appKey}`);
             lines.push(`Port: ${result.connectionInfo.port}`);
             lines.push(`Uptime: ${result.connectionInfo.uptime}`);
             if (result.connectionInfo.contextId !== null) {
@@ -505,6 +788,12 @@ registerToolWithTelemetry(
             lines.push("Consider using forceRefresh=true or reload_app to get a fresh context.");
         }
 
+        const crash = result.connectionInfo ? getRecentAppCrashes(300000, result.connectionInfo.appKey)[0] : undefined;
+        if (crash) {
+            lines.push("");
+            lines.push(formatAppCrash(crash, { maxStackLines: 10, maxJsLogs: 5 }));
+        }
+
         return {
             content: [{ type: "text", text: lines.join("\n") }]
         };
@@ -515,7 +804,7 @@ registerToolWithTelemetry(
 registerToolWithTelemetry(
     "get_logs",
     {
-        description: "Retrieve console logs from connected React Native app. Tip: Use summary=true first for a quick overview (counts by level + last 5 messages), then fetch specific logs as needed.",
+        description: "Retrieve console logs from connected React Native app. Supports time ranges (since/until), regex include/exclude patterns, and predicates over structured console arguments (where). Tip: Use summary=true first for a quick overview (counts by level + last 5 messages), then fetch specific logs as needed.",
         inputSchema: {
             maxLogs: z.coerce.number().optional().default(50).describe("Maximum number of logs to return (default: 50)"),
             level: z
@@ -524,6 +813,20 @@ registerToolWithTelemetry(
                 .default("all")
                 .describe("Filter by log level (default: all)"),
             startFromText: z.string().optional().describe("Start from the first log line containing this text"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only logs at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m', '2h ago')"),
+            until: z.string().optional().describe("Only logs at or before this time (same formats as since)"),
+            pattern: z
+                .string()
+                .optional()
+                .describe("Regex the message must match (case-insensitive; use /regex/flags for explicit flags)"),
+            exclude: z.string().optional().describe("Regex; messages matching it are dropped (e.g. 'Warning:|VirtualizedList')"),
+            where: z
+                .string()
+                .optional()
+                .describe("Predicates over console.log arguments joined with &&. Operators: == != > >= < <= contains matches. Example: args[0].userId == 42 && args[1] contains 'cart'"),
             maxMessageLength: z
                 .coerce.number()
                 .optional()
@@ -543,13 +846,22 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(false)
-                .describe("Return summary statistics instead of full logs (count by level + last 5 messages). Use for quick overview.")
+                .describe("Return summary statistics instead of full logs (count by level + last 5 messages). Use for quick overview."),
+            ...appFilterSchema
         }
     },
-    async ({ maxLogs, level, startFromText, maxMessageLength, verbose, format, summary }) => {
+    async ({ maxLogs, level, startFromText, since, until, pattern, exclude, where, maxMessageLength, verbose, format, summary, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
         // Return summary if requested
         if (summary) {
-            const summaryText = getLogSummary(logBuffer, { lastN: 5, maxMessageLength: 100 });
+            const summaryText = getLogSummary(logBuffer, { lastN: 5, maxMessageLength: 100, appKey: filter.appKey });
             return {
                 content: [
                     {
@@ -560,7 +872,15 @@ registerToolWithTelemetry(
             };
         }
 
-        const { logs, count, formatted } = getLogs(logBuffer, { maxLogs, level, startFromText, maxMessageLength, verbose });
+        const query = { since, until, pattern, exclude, where, appKey: filter.appKey };
+        const { logs, count, formatted, error } = getLogs(logBuffer, { maxLogs, level, startFromText, maxMessageLength, verbose, ...query });
+
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
 
         // Check for recent connection gaps
         const warningThresholdMs = 30000; // 30 seconds
@@ -579,7 +899,8 @@ registerToolWithTelemetry(
             }
         }
 
-        const startNote = startFromText ? ` (starting from "${startFromText}")` : "";
+        const filterNotes = [startFromText ? `starting from "${startFromText}"` : "", describeLogQuery(query)].filter(Boolean);
+        const startNote = filterNotes.length > 0 ? ` (${filterNotes.join(", ")})` : "";
 
         // Use TONL format if requested
         if (format === "tonl") {
@@ -609,9 +930,26 @@ registerToolWithTelemetry(
 registerToolWithTelemetry(
     "search_logs",
     {
-        description: "Search console logs for text (case-insensitive)",
+        description: "Search console logs for text (case-insensitive), or for a regular expression with regex=true. Accepts the same since/until/exclude/where filters as get_logs.",
         inputSchema: {
             text: z.string().describe("Text to search for in log messages"),
+            regex: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Treat text as a regular expression (case-insensitive; use /regex/flags for explicit flags)"),
+            level: z
+                .enum(["all", "log", "warn", "error", "info", "debug"])
+                .optional()
+                .default("all")
+                .describe("Filter by log level (default: all)"),
+            since: z.string().optional().describe("Only logs at or after this time (ISO, '14:32:05', or relative like 'last 30s')"),
+            until: z.string().optional().describe("Only logs at or before this time"),
+            exclude: z.string().optional().describe("Regex; messages matching it are dropped"),
+            where: z
+                .string()
+                .optional()
+                .describe("Predicates over console.log arguments, e.g. args[0].userId == 42"),
             maxResults: z.coerce.number().optional().default(50).describe("Maximum number of results to return (default: 50)"),
             maxMessageLength: z
                 .coerce.number()
@@ -627,11 +965,38 @@ registerToolWithTelemetry(
                 .enum(["text", "tonl"])
                 .optional()
                 .default("tonl")
-                .describe("Output format: 'text' or 'tonl' (default, compact token-optimized format)")
+                .describe("Output format: 'text' or 'tonl' (default, compact token-optimized format)"),
+            ...appFilterSchema
         }
     },
-    async ({ text, maxResults, maxMessageLength, verbose, format }) => {
-        const { logs, count, formatted } = searchLogs(logBuffer, text, { maxResults, maxMessageLength, verbose });
+    async ({ text, regex, level, since, until, exclude, where, maxResults, maxMessageLength, verbose, format, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const { logs, count, formatted, error } = searchLogs(logBuffer, text, {
+            maxResults,
+            maxMessageLength,
+            verbose,
+            regex,
+            level,
+            since,
+            until,
+            exclude,
+            where,
+            appKey: filter.appKey
+        });
+
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
 
         // Use TONL format if requested
         if (format === "tonl") {
@@ -767,11 +1132,12 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(false)
-                .describe("Disable result truncation. Tip: Be cautious - Redux stores or large state can return 10KB+.")
+                .describe("Disable result truncation. Tip: Be cautious - Redux stores or large state can return 10KB+."),
+            ...appTargetSchema
         }
     },
-    async ({ expression, awaitPromise, maxResultLength, verbose }) => {
-        const result = await executeInApp(expression, awaitPromise);
+    async ({ expression, awaitPromise, maxResultLength, verbose, appKey, device }) => {
+        const result = await executeInApp(expression, awaitPromise, { target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -805,16 +1171,75 @@ registerToolWithTelemetry(
     }
 );
 
+// Tool: Symbolicate a stack trace
+registerToolWithTelemetry(
+    "symbolicate_stack",
+    {
+        description:
+            "Map a JavaScript stack trace from bundle positions (index.bundle:line:column) back to original source files using Metro's source maps. Paste an error stack from logs, crash reports or the app. Errors and warnings in get_logs and execute_in_app errors are symbolicated automatically.",
+        inputSchema: {
+            stack: z.string().describe("Stack trace text (V8/Hermes 'at fn (url:line:col)' or JSC 'fn@url:line:col' format)"),
+            port: z.coerce.number().optional().describe("Metro port (default: port of the connected app, or 8081)"),
+            includeFramework: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Include framework/node_modules frames that Metro marks as collapsible (default: false)")
+        }
+    },
+    async ({ stack, port, includeFramework }) => {
+        const frames = parseStackFrames(stack);
+        if (frames.length === 0) {
+            return {
+                content: [{ type: "text", text: "Error: No stack frames found in the given text." }],
+                isError: true
+            };
+        }
+
+        const metroPort = port ?? resolveTargetApp().app?.port ?? 8081;
+        const result = await symbolicateFrames(metroPort, frames);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const shown = includeFramework ? result.frames : result.frames.filter((frame) => !frame.collapse);
+        const symbolicatedCount = result.frames.filter((frame) => frame.symbolicated).length;
+        const lines = shown.map((frame) => `at ${formatStackFrame(frame)}`);
+        const hidden = result.frames.length - shown.length;
+        if (hidden > 0) {
+            lines.push(`(${hidden} framework frame(s) hidden, use includeFramework=true to show)`);
+        }
+        if (result.codeFrame) {
+            lines.push("", result.codeFrame);
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Symbolicated ${symbolicatedCount}/${result.frames.length} frame(s):\n\n${lines.join("\n")}`
+                }
+            ]
+        };
+    }
+);
+
 // Tool: List debug globals available in the app
 registerToolWithTelemetry(
     "list_debug_globals",
     {
         description:
             "List globally available debugging objects in the connected React Native app (Apollo Client, Redux store, React DevTools, etc.). Use this to discover what state management and debugging tools are available.",
-        inputSchema: {}
+        inputSchema: {
+            ...appTargetSchema
+        }
     },
-    async () => {
-        const result = await listDebugGlobals();
+    async ({ appKey, device }) => {
+        const result = await listDebugGlobals({ appKey, device });
 
         if (!result.success) {
             return {
@@ -848,11 +1273,12 @@ registerToolWithTelemetry(
         inputSchema: {
             objectName: z
                 .string()
-                .describe("Name of the global object to inspect (e.g., '__EXPO_ROUTER__', '__APOLLO_CLIENT__')")
+                .describe("Name of the global object to inspect (e.g., '__EXPO_ROUTER__', '__APOLLO_CLIENT__')"),
+            ...appTargetSchema
         }
     },
-    async ({ objectName }) => {
-        const result = await inspectGlobal(objectName);
+    async ({ objectName, appKey, device }) => {
+        const result = await inspectGlobal(objectName, { appKey, device });
 
         if (!result.success) {
             return {
@@ -921,11 +1347,12 @@ registerToolWithTelemetry(
                 .enum(["json", "tonl"])
                 .optional()
                 .default("tonl")
-                .describe("Output format: 'json' or 'tonl' (default, compact indented tree). Ignored if structureOnly=true.")
+                .describe("Output format: 'json' or 'tonl' (default, compact indented tree). Ignored if structureOnly=true."),
+            ...appTargetSchema
         }
     },
-    async ({ focusedOnly, structureOnly, maxDepth, includeProps, includeStyles, hideInternals, format }) => {
-        const result = await getComponentTree({ focusedOnly, structureOnly, maxDepth, includeProps, includeStyles, hideInternals, format });
+    async ({ focusedOnly, structureOnly, maxDepth, includeProps, includeStyles, hideInternals, format, appKey, device }) => {
+        const result = await getComponentTree({ focusedOnly, structureOnly, maxDepth, includeProps, includeStyles, hideInternals, format, target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -981,11 +1408,12 @@ registerToolWithTelemetry(
                 .enum(["json", "tonl"])
                 .optional()
                 .default("tonl")
-                .describe("Output format: 'json' or 'tonl' (default, pipe-delimited rows, ~40% smaller)")
+                .describe("Output format: 'json' or 'tonl' (default, pipe-delimited rows, ~40% smaller)"),
+            ...appTargetSchema
         }
     },
-    async ({ maxDepth, componentsOnly, shortPath, summary, format }) => {
-        const result = await getScreenLayout({ maxDepth, componentsOnly, shortPath, summary, format });
+    async ({ maxDepth, componentsOnly, shortPath, summary, format, appKey, device }) => {
+        const result = await getScreenLayout({ maxDepth, componentsOnly, shortPath, summary, format, target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -1049,11 +1477,12 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(true)
-                .describe("Simplify hooks output by hiding effects and reducing depth (default: true)")
+                .describe("Simplify hooks output by hiding effects and reducing depth (default: true)"),
+            ...appTargetSchema
         }
     },
-    async ({ componentName, index, includeState, includeChildren, childrenDepth, shortPath, simplifyHooks }) => {
-        const result = await inspectComponent(componentName, { index, includeState, includeChildren, childrenDepth, shortPath, simplifyHooks });
+    async ({ componentName, index, includeState, includeChildren, childrenDepth, shortPath, simplifyHooks, appKey, device }) => {
+        const result = await inspectComponent(componentName, { index, includeState, includeChildren, childrenDepth, shortPath, simplifyHooks, target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -1112,11 +1541,12 @@ registerToolWithTelemetry(
                 .enum(["json", "tonl"])
                 .optional()
                 .default("tonl")
-                .describe("Output format: 'json' or 'tonl' (default, pipe-delimited rows, ~40% smaller)")
+                .describe("Output format: 'json' or 'tonl' (default, pipe-delimited rows, ~40% smaller)"),
+            ...appTargetSchema
         }
     },
-    async ({ pattern, maxResults, includeLayout, shortPath, summary, format }) => {
-        const result = await findComponents(pattern, { maxResults, includeLayout, shortPath, summary, format });
+    async ({ pattern, maxResults, includeLayout, shortPath, summary, format, appKey, device }) => {
+        const result = await findComponents(pattern, { maxResults, includeLayout, shortPath, summary, format, target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -1147,10 +1577,12 @@ registerToolWithTelemetry(
     {
         description:
             "Toggle React Native's Element Inspector overlay programmatically. This is the same as manually doing: Dev Menu > Toggle Element Inspector. Useful for enabling inspector features without user interaction.",
-        inputSchema: {}
+        inputSchema: {
+            ...appTargetSchema
+        }
     },
-    async () => {
-        const result = await toggleElementInspector();
+    async ({ appKey, device }) => {
+        const result = await toggleElementInspector({ appKey, device });
 
         if (!result.success) {
             return {
@@ -1212,27 +1644,30 @@ registerToolWithTelemetry(
             y: z
                 .number()
                 .optional()
-                .describe("Y coordinate (in points). If provided with x, auto-taps at this location.")
+                .describe("Y coordinate (in points). If provided with x, auto-taps at this location."),
+            ...appTargetSchema
         }
     },
-    async ({ x, y }) => {
+    async ({ x, y, appKey, device }) => {
+        const target = { appKey, device };
+
         // If coordinates provided, do the full flow: enable inspector -> tap -> read
         if (x !== undefined && y !== undefined) {
             // Check if inspector is active
-            const inspectorActive = await isInspectorActive();
+            const inspectorActive = await isInspectorActive(target);
 
             // Enable inspector if not active
             if (!inspectorActive) {
-                await toggleElementInspector();
+                await toggleElementInspector(target);
                 // Wait for inspector to initialize
                 await new Promise(resolve => setTimeout(resolve, 300));
             }
 
-            // Detect platform from connected app
-            const app = getFirstConnectedApp();
+            // Detect platform from the target app
+            const { app, error } = resolveTargetApp(target);
             if (!app) {
                 return {
-                    content: [{ type: "text", text: "No app connected. Run scan_metro first." }],
+                    content: [{ type: "text", text: error ?? "No app connected. Run scan_metro first." }],
                     isError: true
                 };
             }
@@ -1264,7 +1699,7 @@ registerToolWithTelemetry(
         }
 
         // Read the current selection
-        const result = await getInspectorSelection();
+        const result = await getInspectorSelection(target);
 
         if (!result.success) {
             return {
@@ -1326,11 +1761,12 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(true)
-                .describe("Include position/dimensions (frame) in the output (default: true)")
+                .describe("Include position/dimensions (frame) in the output (default: true)"),
+            ...appTargetSchema
         }
     },
-    async ({ x, y, includeProps, includeFrame }) => {
-        const result = await inspectAtPoint(x, y, { includeProps, includeFrame });
+    async ({ x, y, includeProps, includeFrame, appKey, device }) => {
+        const result = await inspectAtPoint(x, y, { includeProps, includeFrame, target: { appKey, device } });
 
         if (!result.success) {
             return {
@@ -1375,6 +1811,139 @@ registerToolWithTelemetry(
     }
 );
 
+// Tool: Override component props or state
+registerToolWithTelemetry(
+    "update_component_state",
+    {
+        description:
+            "Override a prop or a state value of a mounted React component at runtime (like editing values in React DevTools), to test UI states such as empty lists, error banners or loading spinners without changing code. Target the component by componentName (+ index) or by the (x, y) point it renders at. For function components, state means a useState/useReducer hook: pass its hookIndex from inspect_component. For class components, path is a key of this.state. Prop overrides last until the parent re-renders the component. Requires a development build.",
+        inputSchema: {
+            componentName: z
+                .string()
+                .optional()
+                .describe("Name of the component (e.g., 'TodoList'). Alternative to x/y"),
+            index: z
+                .number()
+                .optional()
+                .default(0)
+                .describe("If multiple instances exist, which one to update (0-based index, default: 0)"),
+            x: z.number().optional().describe("X coordinate in dp: update the nearest custom component rendered at this point"),
+            y: z.number().optional().describe("Y coordinate in dp"),
+            kind: z.enum(["props", "state"]).describe("What to override: a prop, or state (a useState/useReducer hook or class state)"),
+            hookIndex: z
+                .number()
+                .optional()
+                .describe("Hook index of the useState/useReducer hook, as shown by inspect_component (function components, kind='state')"),
+            path: z
+                .string()
+                .optional()
+                .describe("Dot-separated path of the value: prop name for props (e.g. 'items', 'user.name'), state key for class components, nested path inside a hook value (optional)"),
+            value: z
+                .string()
+                .describe("New value as JSON, e.g. '[]', 'null', 'true', '\"Network error\"', '{\"count\":0}'"),
+            ...appTargetSchema
+        }
+    },
+    async ({ componentName, index, x, y, kind, hookIndex, path, value, appKey, device }) => {
+        let parsedValue: unknown;
+        try {
+            parsedValue = JSON.parse(value);
+        } catch {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error: value must be JSON (quote strings, e.g. '"${value}"')`
+                    }
+                ],
+                isError: true
+            };
+        }
+
+        const result = await updateComponentState({
+            componentName,
+            index,
+            x,
+            y,
+            kind,
+            hookIndex,
+            path,
+            value: parsedValue,
+            target: { appKey, device }
+        });
+
+        if (!result.success) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error: ${result.error}`
+                    }
+                ],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Component Update:\n\n${result.result}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Tap a component by name, testID or text
+registerToolWithTelemetry(
+    "tap_component",
+    {
+        description:
+            "Tap a React component found by testID, component name or visible text, on Android or iOS. The component is located in the fiber tree and measured on screen (no accessibility tree needed, so testIDs work even when android_tap_element cannot see them), then tapped at its center. Only matches visible on screen are considered. Returns what was tapped and the device coordinates used.",
+        inputSchema: {
+            testID: z.string().optional().describe("testID prop of the element (exact match)"),
+            componentName: z.string().optional().describe("Component name (exact match, e.g. 'SubmitButton')"),
+            text: z.string().optional().describe("Text shown by the element (case-insensitive substring, e.g. 'Sign in')"),
+            index: z.coerce
+                .number()
+                .optional()
+                .default(0)
+                .describe("Which visible match to tap when several match (0-based, in tree order, default: 0)"),
+            platform: z
+                .enum(["ios", "android"])
+                .optional()
+                .describe("Platform to tap on. Detected from the app by default."),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("adb device ID or simulator UDID. Uses the first device (or the Metro-connected simulator) if not specified."),
+            ...appTargetSchema
+        }
+    },
+    async ({ testID, componentName, text, index, platform, deviceId, appKey, device }) => {
+        if (!testID && !componentName && !text) {
+            return {
+                content: [{ type: "text", text: "Error: One of testID, componentName or text is required" }],
+                isError: true
+            };
+        }
+
+        const result = await tapComponent({ testID, componentName, text, index, platform, deviceId, target: { appKey, device } });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatTappedComponent(result) }]
+        };
+    }
+);
+
 // Tool: Get network requests
 registerToolWithTelemetry(
     "get_network_requests",
@@ -1408,13 +1977,22 @@ registerToolWithTelemetry(
                 .boolean()
                 .optional()
                 .default(false)
-                .describe("Return statistics only (count, methods, domains, status codes). Use for quick overview.")
+                .describe("Return statistics only (count, methods, domains, status codes). Use for quick overview."),
+            ...appFilterSchema
         }
     },
-    async ({ maxRequests, method, urlPattern, status, format, summary }) => {
+    async ({ maxRequests, method, urlPattern, status, format, summary, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
         // Return summary if requested
         if (summary) {
-            const stats = getNetworkStats(networkBuffer);
+            const stats = getNetworkStats(networkBuffer, filter.appKey);
             return {
                 content: [
                     {
@@ -1429,7 +2007,8 @@ registerToolWithTelemetry(
             maxRequests,
             method,
             urlPattern,
-            status
+            status,
+            appKey: filter.appKey
         });
 
         // Check for recent connection gaps
@@ -1489,11 +2068,20 @@ registerToolWithTelemetry(
                 .enum(["text", "tonl"])
                 .optional()
                 .default("tonl")
-                .describe("Output format: 'text' or 'tonl' (default, compact token-optimized format)")
+                .describe("Output format: 'text' or 'tonl' (default, compact token-optimized format)"),
+            ...appFilterSchema
         }
     },
-    async ({ urlPattern, maxResults, format }) => {
-        const { requests, count, formatted } = searchNetworkRequests(networkBuffer, urlPattern, maxResults);
+    async ({ urlPattern, maxResults, format, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const { requests, count, formatted } = searchNetworkRequests(networkBuffer, urlPattern, maxResults, filter.appKey);
 
         // Use TONL format if requested
         if (format === "tonl") {
@@ -1524,23 +2112,32 @@ registerToolWithTelemetry(
     "get_request_details",
     {
         description:
-            "Get full details of a specific network request including headers, body, and timing. Use get_network_requests first to find the request ID.",
+            "Get full details of a specific network request including headers, request body, response body, and timing. Use get_network_requests first to find the request ID. Response bodies are captured for text/JSON responses up to the size cap (see configure_network_capture).",
         inputSchema: {
             requestId: z.string().describe("The request ID to get details for"),
             maxBodyLength: z
                 .coerce.number()
                 .optional()
                 .default(500)
-                .describe("Max characters for request body (default: 500, set to 0 for unlimited). Tip: Large POST bodies (file uploads, base64) can be 10KB+."),
+                .describe("Max characters for request and response bodies (default: 500, set to 0 for unlimited). Tip: Large POST bodies (file uploads, base64) can be 10KB+."),
             verbose: z
                 .boolean()
                 .optional()
                 .default(false)
-                .describe("Disable body truncation. Tip: Use when you need to inspect full JSON payloads.")
+                .describe("Disable body truncation. Tip: Use when you need to inspect full JSON payloads."),
+            ...appFilterSchema
         }
     },
-    async ({ requestId, maxBodyLength, verbose }) => {
-        const request = networkBuffer.get(requestId);
+    async ({ requestId, maxBodyLength, verbose, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const request = networkBuffer.get(requestId, filter.appKey);
 
         if (!request) {
             return {
@@ -1571,13 +2168,23 @@ registerToolWithTelemetry(
     {
         description:
             "Get statistics about captured network requests: counts by method, status code, and domain.",
-        inputSchema: {}
+        inputSchema: {
+            ...appFilterSchema
+        }
     },
-    async () => {
-        const stats = getNetworkStats(networkBuffer);
-
-        return {
-            content: [
+    async ({ appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const stats = getNetworkStats(networkBuffer, filter.appKey);
+
+        return {
+            content: [
                 {
                     type: "text",
                     text: `Network Statistics:\n\n${stats}`
@@ -1608,238 +2215,2678 @@ registerToolWithTelemetry(
     }
 );
 
-// Tool: Reload the app
+// Tool: Export network requests as HAR
+registerToolWithTelemetry(
+    "export_network_har",
+    {
+        description:
+            "Export captured network requests to a HAR 1.2 file (request/response headers, timings, and bodies where captured). Share the file with backend teammates or open it in browser DevTools / Charles / Proxyman.",
+        inputSchema: {
+            outputPath: z
+                .string()
+                .optional()
+                .describe("Path to write the .har file (default: temp directory)"),
+            urlPattern: z
+                .string()
+                .optional()
+                .describe("Only export requests whose URL contains this pattern (case-insensitive)")
+        }
+    },
+    async ({ outputPath, urlPattern }) => {
+        const result = await exportNetworkHar(networkBuffer, { outputPath, urlPattern });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Exported ${result.count} request(s) to HAR file:\n${result.path}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Import network requests from HAR
+registerToolWithTelemetry(
+    "import_network_har",
+    {
+        description:
+            "Load a HAR file into the network buffer so get_network_requests, search_network, get_request_details and get_network_stats can analyze a recorded session offline. Note: the buffer keeps the most recent 200 requests.",
+        inputSchema: {
+            filePath: z.string().describe("Path to the .har file to import"),
+            clearExisting: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Clear the current network buffer before importing (default: false)")
+        }
+    },
+    async ({ filePath, clearExisting }) => {
+        const result = await importNetworkHar(networkBuffer, filePath, { clearExisting });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const skippedNote = result.skipped ? ` (${result.skipped} invalid entries skipped)` : "";
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Imported ${result.count} request(s) from ${result.path}${skippedNote}.\nNetwork buffer now holds ${networkBuffer.size} request(s).`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Configure response body capture
+registerToolWithTelemetry(
+    "configure_network_capture",
+    {
+        description:
+            "Configure response body capture for network requests. Bodies are fetched via CDP after each request finishes, limited by a size cap and a mime-type allowlist. Call with no arguments to view the current configuration.",
+        inputSchema: {
+            enabled: z.boolean().optional().describe("Enable or disable response body capture"),
+            maxBodySize: z
+                .coerce.number()
+                .int()
+                .min(1)
+                .optional()
+                .describe("Maximum captured body size in bytes (default: 100000). Larger bodies are truncated."),
+            mimeTypes: z
+                .array(z.string())
+                .optional()
+                .describe("Mime-type allowlist. Entries ending in '/' match prefixes (e.g. 'text/'), entries starting with '+' match suffixes (e.g. '+json').")
+        }
+    },
+    async ({ enabled, maxBodySize, mimeTypes }) => {
+        const updates: { enabled?: boolean; maxBodySize?: number; mimeTypes?: string[] } = {};
+        if (enabled !== undefined) updates.enabled = enabled;
+        if (maxBodySize !== undefined) updates.maxBodySize = maxBodySize;
+        if (mimeTypes !== undefined) updates.mimeTypes = mimeTypes;
+
+        const config = Object.keys(updates).length > 0
+            ? updateResponseBodyCaptureConfig(updates)
+            : getResponseBodyCaptureConfig();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Response body capture:\n\n${JSON.stringify(config, null, 2)}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Add a network mock rule
+registerToolWithTelemetry(
+    "add_network_mock",
+    {
+        description:
+            "Stub a network endpoint without editing app code. Installs a fetch/XMLHttpRequest interceptor in the app that serves matching requests with a canned status, body and optional delay (or a simulated network failure). Rules are matched in the order they were added and are reinstalled automatically after reloads. Mocked requests appear in get_network_requests tagged with [MOCKED: <rule id>].",
+        inputSchema: {
+            urlPattern: z
+                .string()
+                .describe("URL pattern to match. Glob by default: '*' matches any characters and the pattern may match anywhere in the URL (e.g. '/api/users/*')"),
+            matchType: z
+                .enum(["glob", "regex"])
+                .optional()
+                .default("glob")
+                .describe("How urlPattern is interpreted (default: glob, case-insensitive). 'regex' uses a case-sensitive JavaScript regular expression"),
+            method: z.string().optional().describe("HTTP method to match (e.g. GET, POST). Matches any method when omitted"),
+            requestHeaders: z
+                .record(z.string())
+                .optional()
+                .describe("Request headers that must be present; each value must be contained in the actual header value"),
+            status: z.coerce.number().int().min(200).max(599).optional().default(200).describe("Response status code (default: 200)"),
+            statusText: z.string().optional().describe("Response status text"),
+            responseHeaders: z.record(z.string()).optional().describe("Response headers"),
+            body: z
+                .union([z.string(), z.record(z.unknown()), z.array(z.unknown())])
+                .optional()
+                .describe("Response body. Objects and arrays are sent as JSON (Content-Type defaults to application/json)"),
+            delayMs: z.coerce.number().min(0).optional().default(0).describe("Delay before responding in milliseconds (default: 0)"),
+            networkError: z
+                .string()
+                .optional()
+                .describe("Fail the request with this error message instead of responding (simulates offline/timeout)")
+        }
+    },
+    async (options) => {
+        const result = await addNetworkMock(options);
+
+        if (!result.success || !result.rule) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const status = result.installed
+            ? "Installed in the connected app."
+            : `Not installed yet (${result.error}). The rule will be installed when an app connects.`;
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Added network mock:\n${formatNetworkMock(result.rule)}\n\n${status}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: List network mock rules
+registerToolWithTelemetry(
+    "list_network_mocks",
+    {
+        description: "List active network mock rules in match order, with how many requests each has served.",
+        inputSchema: {}
+    },
+    async () => {
+        const rules = listNetworkMocks();
+
+        if (rules.length === 0) {
+            return {
+                content: [{ type: "text", text: "No network mocks defined. Use add_network_mock to create one." }]
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Network mocks (${rules.length}):\n\n${rules.map(formatNetworkMock).join("\n")}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Remove network mock rules
+registerToolWithTelemetry(
+    "remove_network_mock",
+    {
+        description: "Remove a network mock rule by ID, or all rules when no ID is given. Matching requests go to the real network again.",
+        inputSchema: {
+            id: z.string().optional().describe("Rule ID from list_network_mocks (e.g. 'mock-1'). Omit to remove all rules")
+        }
+    },
+    async ({ id }) => {
+        const result = await removeNetworkMock(id);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const note = result.installed ? "" : `\nCould not update the app (${result.error}); changes apply on next connection.`;
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Removed ${result.removed} network mock(s). ${listNetworkMocks().length} remaining.${note}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Start recording the session to disk
+registerToolWithTelemetry(
+    "start_session_recording",
+    {
+        description:
+            "Start recording logs, network requests, bundle errors and connection gaps to an append-only NDJSON file so they survive buffer limits and server restarts. Recording can also be enabled at startup with RN_DEBUGGER_RECORD_SESSION=true. Use list_sessions and load_session to analyze saved sessions later.",
+        inputSchema: {}
+    },
+    async () => {
+        const alreadyRecording = isSessionRecording();
+        const result = await startSessionRecording();
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: alreadyRecording
+                        ? `Already recording session ${result.id}:\n${result.path}`
+                        : `Recording session ${result.id}:\n${result.path}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Stop recording the session
+registerToolWithTelemetry(
+    "stop_session_recording",
+    {
+        description: "Stop the active session recording and close its file.",
+        inputSchema: {}
+    },
+    async () => {
+        const result = await stopSessionRecording();
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Stopped recording session ${result.id}:\n${result.path}` }]
+        };
+    }
+);
+
+// Tool: List saved sessions
+registerToolWithTelemetry(
+    "list_sessions",
+    {
+        description: "List recorded sessions (newest first) with their size and how many logs, network requests, bundle errors and connection gaps each contains.",
+        inputSchema: {}
+    },
+    async () => {
+        const sessions = await listSessions();
+
+        if (sessions.length === 0) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `No recorded sessions found in ${SESSIONS_DIR}. Use start_session_recording to record one.`
+                    }
+                ]
+            };
+        }
+
+        const lines = sessions.map((session) => {
+            const sizeKb = (session.sizeBytes / 1024).toFixed(1);
+            const active = session.active ? " [RECORDING]" : "";
+            return `${session.id}${active}\n  Started: ${session.startedAt.toISOString()}, ${sizeKb} KB\n  Logs: ${session.logs}, Network: ${session.networkRequests}, Bundle errors: ${session.bundleErrors}, Exceptions: ${session.exceptions}, Connection gaps: ${session.connectionGaps}`;
+        });
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Recorded sessions (${sessions.length}) in ${SESSIONS_DIR}:\n\n${lines.join("\n\n")}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Load a saved session into the buffers
+registerToolWithTelemetry(
+    "load_session",
+    {
+        description:
+            "Load a recorded session into the log, network and bundle error buffers, replacing their current contents, so get_logs, search_logs, get_network_requests, get_request_details and get_bundle_errors work against historic data. Buffers keep their size limits (500 logs, 200 requests), so only the most recent entries are available. New live events are appended on top.",
+        inputSchema: {
+            sessionId: z.string().describe("Session ID from list_sessions")
+        }
+    },
+    async ({ sessionId }) => {
+        const result = await loadSession(sessionId);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const lines = [
+            `Loaded session ${result.id}`,
+            `Logs: ${result.logs} recorded, ${logBuffer.size} in buffer`,
+            `Network requests: ${result.networkRequests} recorded, ${networkBuffer.size} in buffer`,
+            `Bundle errors: ${result.bundleErrors}`,
+            `Exceptions: ${result.exceptions}`
+        ];
+
+        if (result.skipped) {
+            lines.push(`Skipped ${result.skipped} corrupt line(s)`);
+        }
+
+        const gaps = result.connectionGaps ?? [];
+        if (gaps.length > 0) {
+            lines.push("", `Connection gaps (${gaps.length}):`);
+            for (const gap of gaps) {
+                const duration = gap.durationMs !== null ? formatDuration(gap.durationMs) : "not reconnected";
+                lines.push(`  ${gap.disconnectedAt.toISOString()} - ${gap.reason} (${duration})`);
+            }
+        }
+
+        return {
+            content: [{ type: "text", text: lines.join("\n") }]
+        };
+    }
+);
+
+// Tool: Reload the app
+registerToolWithTelemetry(
+    "reload_app",
+    {
+        description:
+            "Reload the React Native app (triggers JavaScript bundle reload like pressing 'r' in Metro). Will auto-connect to Metro if no connection exists. Note: After reload, the app may take a few seconds to fully restart and become responsive — wait before running other tools. IMPORTANT: React Native has Fast Refresh enabled by default - code changes are automatically applied without needing reload. Only use when: (1) logs/behavior don't reflect code changes after a few seconds, (2) app is in broken/error state, or (3) need to reset app state completely (navigation stack, context, etc.).",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await reloadApp({ appKey, device });
+
+        if (!result.success) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Error: ${result.error}`
+                    }
+                ],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.result ?? "App reload triggered"
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Bundle/Build Error Tools
+// ============================================================================
+
+// Tool: Get bundle status
+registerToolWithTelemetry(
+    "get_bundle_status",
+    {
+        description:
+            "Get the current Metro bundler status including build state and any recent bundling errors. Use this to check if there are compilation/bundling errors that prevent the app from loading.",
+        inputSchema: {}
+    },
+    async () => {
+        // Get port from first connected app if available
+        const apps = Array.from(connectedApps.values());
+        const metroPort = apps.length > 0 ? apps[0].port : undefined;
+
+        const { formatted } = await getBundleStatusWithErrors(bundleErrorBuffer, metroPort);
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: formatted
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Get bundle errors
+registerToolWithTelemetry(
+    "get_bundle_errors",
+    {
+        description:
+            "Retrieve captured Metro bundling/compilation errors. These are errors that occur during the bundle build process (import resolution, syntax errors, transform errors) that prevent the app from loading. If no errors are captured but Metro is running without connected apps, automatically falls back to screenshot+OCR to capture the error from the device screen.",
+        inputSchema: {
+            maxErrors: z
+                .number()
+                .optional()
+                .default(10)
+                .describe("Maximum number of errors to return (default: 10)"),
+            platform: z
+                .enum(["ios", "android"])
+                .optional()
+                .describe("Platform for screenshot fallback when no errors are captured via CDP. Required to enable fallback."),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("Optional device ID for screenshot fallback. Uses first available device if not specified.")
+        }
+    },
+    async ({ maxErrors, platform, deviceId }) => {
+        // First, try to get errors from the buffer (captured via CDP/Metro WebSocket)
+        const { errors, formatted } = getBundleErrors(bundleErrorBuffer, { maxErrors });
+
+        if (errors.length > 0) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Bundle Errors (${errors.length} captured):\n\n${formatted}`
+                    }
+                ]
+            };
+        }
+
+        // No errors in buffer - check if we should try fallback
+        if (!platform) {
+            // No platform specified, return empty result with hint
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured.\n\nTip: If the app failed to load and you see a red error screen on the device, use the 'platform' parameter (ios/android) to enable screenshot+OCR fallback for error capture.`
+                    }
+                ]
+            };
+        }
+
+        // Check Metro state to see if fallback is warranted
+        const metroState = await checkMetroState(connectedApps.size);
+
+        if (!metroState.needsFallback) {
+            // Metro not running or apps are connected - fallback not needed
+            const statusMsg = metroState.metroRunning
+                ? "Metro is running and apps are connected."
+                : "Metro is not running.";
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured. ${statusMsg}`
+                    }
+                ]
+            };
+        }
+
+        // Metro is running but no apps connected - try screenshot fallback
+        try {
+            let screenshotResult: { success: boolean; error?: string; data?: Buffer; scaleFactor?: number; originalWidth?: number; originalHeight?: number };
+
+            if (platform === "android") {
+                screenshotResult = await androidScreenshot(undefined, deviceId);
+            } else {
+                screenshotResult = await iosScreenshot(undefined, deviceId);
+            }
+
+            if (!screenshotResult.success || !screenshotResult.data) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected (possible bundle error).\n\nScreenshot fallback failed: ${screenshotResult.error || "No image data"}`
+                        }
+                    ]
+                };
+            }
+
+            // Calculate device pixel ratio for iOS
+            const devicePixelRatio = platform === "ios" && screenshotResult.originalWidth && screenshotResult.originalHeight
+                ? inferIOSDevicePixelRatio(screenshotResult.originalWidth, screenshotResult.originalHeight)
+                : 1;
+
+            // Run OCR on the screenshot
+            const ocrResult = await recognizeText(screenshotResult.data, {
+                scaleFactor: screenshotResult.scaleFactor || 1,
+                platform,
+                devicePixelRatio
+            });
+
+            if (!ocrResult.success || !ocrResult.fullText) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot captured but OCR found no text. The screen may not show an error message.`
+                        }
+                    ]
+                };
+            }
+
+            // Parse the OCR text for error information
+            const parsedError = parseErrorScreenText(ocrResult.fullText);
+
+            if (!parsedError.found || !parsedError.error) {
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot OCR text:\n${ocrResult.fullText.substring(0, 1000)}${ocrResult.fullText.length > 1000 ? "..." : ""}\n\n(No error pattern detected in text)`
+                        }
+                    ]
+                };
+            }
+
+            // Add the parsed error to the buffer for future reference
+            bundleErrorBuffer.add(parsedError.error);
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Bundle Errors (1 captured via screenshot fallback):\n\n${formatParsedError(parsedError)}`
+                    }
+                ]
+            };
+        } catch (fallbackError) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot fallback error: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`
+                    }
+                ]
+            };
+        }
+    }
+);
+
+// Tool: Clear bundle errors
+registerToolWithTelemetry(
+    "clear_bundle_errors",
+    {
+        description: "Clear the bundle error buffer",
+        inputSchema: {}
+    },
+    async () => {
+        const count = bundleErrorBuffer.clear();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Cleared ${count} bundle errors from buffer.`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Exception Tools
+// ============================================================================
+
+// Tool: Get exceptions
+registerToolWithTelemetry(
+    "get_exceptions",
+    {
+        description:
+            "Retrieve uncaught JavaScript exceptions and unhandled promise rejections captured from the running app (Runtime.exceptionThrown, React Native's global error handler and rejection tracking). Each entry includes the message, source-mapped stack frames when Metro can symbolicate them, and whether RN treated it as fatal (red screen).",
+        inputSchema: {
+            maxExceptions: z
+                .number()
+                .optional()
+                .default(10)
+                .describe("Maximum number of exceptions to return, most recent last (default: 10)"),
+            fatalOnly: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Only return fatal exceptions"),
+            source: z
+                .enum(["all", "uncaught", "error-handler", "unhandled-rejection"])
+                .optional()
+                .default("all")
+                .describe("Filter by where the exception was observed (default: all)"),
+            since: z
+                .string()
+                .optional()
+                .describe('Only exceptions at or after this time: ISO timestamp, "14:32:05", or relative like "last 5m"'),
+            text: z
+                .string()
+                .optional()
+                .describe("Case-insensitive substring to match against message or stack"),
+            maxFrames: z
+                .number()
+                .optional()
+                .default(8)
+                .describe("Maximum stack frames shown per exception (default: 8)"),
+            ...appFilterSchema
+        }
+    },
+    async ({ maxExceptions, fatalOnly, source, since, text, maxFrames, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const { exceptions, formatted, error } = getExceptions(exceptionBuffer, {
+            maxExceptions,
+            fatalOnly,
+            source,
+            since,
+            text,
+            maxFrames,
+            appKey: filter.appKey
+        });
+
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
+
+        const { total, fatal } = exceptionBuffer.getCounts();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Exceptions (${exceptions.length} shown, ${total} captured, ${fatal} fatal):\n\n${formatted}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Clear exceptions
+registerToolWithTelemetry(
+    "clear_exceptions",
+    {
+        description: "Clear the exception buffer",
+        inputSchema: {}
+    },
+    async () => {
+        const count = exceptionBuffer.clear();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Cleared ${count} exceptions from buffer.`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Debugger Tools
+// ============================================================================
+
+// Tool: Set breakpoint
+registerToolWithTelemetry(
+    "set_breakpoint",
+    {
+        description:
+            "Set a breakpoint at an original source file and line (e.g. 'src/screens/Home.tsx', line 42). The position is mapped into the bundle through its source map; lines without code move to the next line with code. When hit, the app pauses: inspect it with get_pause_state and evaluate_on_frame, continue with debugger_step. While paused, execute_in_app and other runtime tools cannot run.",
+        inputSchema: {
+            file: z.string().describe("Original source file path or path suffix (e.g. 'Home.tsx' or 'src/screens/Home.tsx')"),
+            line: z.coerce.number().describe("1-based line number in the original file"),
+            condition: z.string().optional().describe("Only pause when this JS expression is truthy (e.g. 'item.id === 42')"),
+            ...appTargetSchema
+        }
+    },
+    async ({ file, line, condition, appKey, device }) => {
+        const result = await setBreakpoint({ appKey, device }, { file, line, condition });
+
+        if (!result.success || !result.breakpoint) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const bp = result.breakpoint;
+        const moved = bp.resolvedLine !== bp.line ? ` (moved to line ${bp.resolvedLine}, the next line with code)` : "";
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Breakpoint ${bp.id} set at ${bp.resolvedSource}:${bp.resolvedLine}${moved}${bp.condition ? ` if ${bp.condition}` : ""}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Remove breakpoint
+registerToolWithTelemetry(
+    "remove_breakpoint",
+    {
+        description: "Remove a breakpoint or logpoint by id (from set_breakpoint, set_logpoint or list_breakpoints), or all of them.",
+        inputSchema: {
+            breakpointId: z.string().optional().describe("Breakpoint id (e.g. 'bp-1')"),
+            all: z.boolean().optional().default(false).describe("Remove all breakpoints")
+        }
+    },
+    async ({ breakpointId, all }) => {
+        const ids = all ? listBreakpoints().map((bp) => bp.id) : breakpointId ? [breakpointId] : [];
+        if (ids.length === 0) {
+            return {
+                content: [{ type: "text", text: all ? "No breakpoints set." : "Error: Provide breakpointId or all=true." }],
+                isError: !all
+            };
+        }
+
+        const errors: string[] = [];
+        for (const id of ids) {
+            const result = await removeBreakpoint(id);
+            if (!result.success) errors.push(`${id}: ${result.error}`);
+        }
+
+        if (errors.length > 0) {
+            return {
+                content: [{ type: "text", text: `Error: ${errors.join("\n")}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Removed ${ids.length} breakpoint(s).` }]
+        };
+    }
+);
+
+// Tool: List breakpoints
+registerToolWithTelemetry(
+    "list_breakpoints",
+    {
+        description: "List breakpoints and logpoints with their ids, locations, conditions and logged expressions.",
+        inputSchema: {}
+    },
+    async () => {
+        return {
+            content: [{ type: "text", text: formatBreakpoints(listBreakpoints()) }]
+        };
+    }
+);
+
+// Tool: Get pause state
+registerToolWithTelemetry(
+    "get_pause_state",
+    {
+        description:
+            "Check whether the app is paused in the debugger. When paused, returns the reason, breakpoints hit, the source-mapped call stack (#0 = innermost frame) and the scope variables of the selected frame.",
+        inputSchema: {
+            frameIndex: z.coerce.number().optional().default(0).describe("Call frame whose scopes to show (default: 0, the innermost)"),
+            includeScopes: z.boolean().optional().default(true).describe("Include scope variables (default: true)"),
+            maxFrames: z.coerce.number().optional().default(10).describe("Max call frames to show (default: 10)"),
+            maxVariables: z.coerce.number().optional().default(30).describe("Max variables per scope (default: 30)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ frameIndex, includeScopes, maxFrames, maxVariables, appKey, device }) => {
+        const result = await getPauseState({ appKey, device }, { frameIndex, includeScopes, maxVariables });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        if (!result.pause) {
+            return {
+                content: [{ type: "text", text: "App is running (not paused)." }]
+            };
+        }
+
+        const sections = [formatDebuggerPause(result.pause, { maxFrames })];
+        if (result.scopes) {
+            sections.push(formatScopes(result.scopes, frameIndex));
+        }
+        sections.push("Use evaluate_on_frame to inspect values, debugger_step to step or resume.");
+
+        return {
+            content: [{ type: "text", text: sections.join("\n\n") }]
+        };
+    }
+);
+
+// Tool: Evaluate on call frame
+registerToolWithTelemetry(
+    "evaluate_on_frame",
+    {
+        description:
+            "Evaluate a JavaScript expression in the scope of a paused call frame, with access to its local and closure variables (e.g. 'props.item', 'state.items.length'). Only works while the app is paused.",
+        inputSchema: {
+            expression: z.string().describe("JavaScript expression to evaluate"),
+            frameIndex: z.coerce.number().optional().default(0).describe("Call frame index from get_pause_state (default: 0, the innermost)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ expression, frameIndex, appKey, device }) => {
+        const result = await evaluateOnCallFrame({ appKey, device }, expression, frameIndex);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: result.result ?? "undefined" }]
+        };
+    }
+);
+
+// Tool: Step / resume
+registerToolWithTelemetry(
+    "debugger_step",
+    {
+        description:
+            "Control a paused app: 'resume' continues execution, 'stepOver'/'stepInto'/'stepOut' move one step and return the new location, 'pause' pauses the running app.",
+        inputSchema: {
+            action: z.enum(["resume", "stepOver", "stepInto", "stepOut", "pause"]).describe("Debugger action"),
+            ...appTargetSchema
+        }
+    },
+    async ({ action, appKey, device }) => {
+        const result = await debuggerStep({ appKey, device }, action);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        if (action === "resume") {
+            return {
+                content: [{ type: "text", text: "Resumed." }]
+            };
+        }
+
+        if (!result.pause) {
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `${action} sent, but the app did not pause again yet. Check get_pause_state.`
+                    }
+                ]
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatDebuggerPause(result.pause, { maxFrames: 5 }) }]
+        };
+    }
+);
+
+// ============================================================================
+// Tracing Tools
+// ============================================================================
+
+// Tool: Set logpoint
+registerToolWithTelemetry(
+    "set_logpoint",
+    {
+        description:
+            "Set a logpoint at an original source file and line: each time the line runs, the expression is evaluated in that scope and its value is recorded in the trace buffer (read with get_traces). The app never pauses. Logpoints are listed and removed with list_breakpoints and remove_breakpoint.",
+        inputSchema: {
+            file: z.string().describe("Original source file path or path suffix (e.g. 'Home.tsx' or 'src/screens/Home.tsx')"),
+            line: z.coerce.number().describe("1-based line number in the original file"),
+            expression: z
+                .string()
+                .describe("JS expression to record; use commas to record several values (e.g. 'item.id, state.cart.length')"),
+            condition: z.string().optional().describe("Only record when this JS expression is truthy"),
+            ...appTargetSchema
+        }
+    },
+    async ({ file, line, expression, condition, appKey, device }) => {
+        const result = await setBreakpoint({ appKey, device }, { file, line, condition, logExpression: expression });
+
+        if (!result.success || !result.breakpoint) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const bp = result.breakpoint;
+        const moved = bp.resolvedLine !== bp.line ? ` (moved to line ${bp.resolvedLine}, the next line with code)` : "";
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Logpoint ${bp.id} set at ${bp.resolvedSource}:${bp.resolvedLine}${moved}${bp.condition ? ` if ${bp.condition}` : ""}, recording: ${expression}\nUse get_traces to read hits.`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Trace function
+registerToolWithTelemetry(
+    "trace_function",
+    {
+        description:
+            "Wrap a function in the app so every call is recorded in the trace buffer with its arguments, return value (or resolved promise value), thrown error and duration, without pausing. Path is global ('store.dispatch', 'api.fetchUser') or module-scoped ('src/api/user.ts:fetchUser', development builds only). Wrappers are lost on reload. Read calls with get_traces.",
+        inputSchema: {
+            path: z
+                .string()
+                .describe("Function path: global dotted path ('store.dispatch') or 'module/path.ts:exportName' ('src/api/user.ts:fetchUser', 'src/api/client.ts:default.get')"),
+            ...appTargetSchema
+        }
+    },
+    async ({ path, appKey, device }) => {
+        const result = await traceFunction({ appKey, device }, path);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.alreadyTraced
+                        ? `${path} is already traced.`
+                        : `Tracing ${path}. Calls are recorded in the trace buffer; use get_traces to read them and untrace_function to stop.`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Untrace function
+registerToolWithTelemetry(
+    "untrace_function",
+    {
+        description: "Restore a function wrapped by trace_function, or all traced functions of the app.",
+        inputSchema: {
+            path: z.string().optional().describe("Traced function path (as passed to trace_function)"),
+            all: z.boolean().optional().default(false).describe("Restore all traced functions"),
+            ...appTargetSchema
+        }
+    },
+    async ({ path, all, appKey, device }) => {
+        if (!path && !all) {
+            return {
+                content: [{ type: "text", text: "Error: Provide path or all=true." }],
+                isError: true
+            };
+        }
+
+        const result = await untraceFunction({ appKey, device }, all ? undefined : path);
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: all ? `Restored ${result.removed} traced function(s).` : `Stopped tracing ${path}.`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: List traced functions
+registerToolWithTelemetry(
+    "list_traced_functions",
+    {
+        description: "List functions currently wrapped by trace_function.",
+        inputSchema: {
+            ...appFilterSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatTracedFunctions(listTracedFunctions(filter.appKey)) }]
+        };
+    }
+);
+
+// Tool: Get traces
+registerToolWithTelemetry(
+    "get_traces",
+    {
+        description:
+            "Read the trace buffer: calls recorded by trace_function and hits recorded by set_logpoint (most recent last). Supports the same since/until, pattern/exclude and where filters as get_logs; where predicates apply to call arguments or logpoint values.",
+        inputSchema: {
+            maxEntries: z.coerce.number().optional().default(50).describe("Maximum number of entries to return (default: 50, most recent)"),
+            kind: z
+                .enum(["all", "call", "logpoint"])
+                .optional()
+                .default("all")
+                .describe("Only function calls or only logpoint hits (default: all)"),
+            name: z.string().optional().describe("Only entries whose function path or logpoint label contains this text (e.g. 'dispatch', 'bp-3')"),
+            errorsOnly: z.boolean().optional().default(false).describe("Only calls that threw or whose promise rejected"),
+            text: z.string().optional().describe("Case-insensitive substring the entry summary must contain"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only entries at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m', '2h ago')"),
+            until: z.string().optional().describe("Only entries at or before this time (same formats as since)"),
+            pattern: z
+                .string()
+                .optional()
+                .describe("Regex the entry summary must match (case-insensitive; use /regex/flags for explicit flags)"),
+            exclude: z.string().optional().describe("Regex; entries whose summary matches it are dropped"),
+            where: z
+                .string()
+                .optional()
+                .describe("Predicates over call arguments or logpoint values joined with &&. Example: args[0].type == 'cart/add'"),
+            maxMessageLength: z
+                .coerce.number()
+                .optional()
+                .default(500)
+                .describe("Max characters per entry summary (default: 500, set to 0 for unlimited)"),
+            format: z
+                .enum(["text", "tonl"])
+                .optional()
+                .default("tonl")
+                .describe("Output format: 'text' or 'tonl' (default, compact token-optimized format)"),
+            ...appFilterSchema
+        }
+    },
+    async ({ maxEntries, kind, name, errorsOnly, text, since, until, pattern, exclude, where, maxMessageLength, format, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const query = { text, since, until, pattern, exclude, where, appKey: filter.appKey };
+        const { traces, count, formatted, error } = getTraces(traceBuffer, { maxEntries, kind, name, errorsOnly, maxMessageLength, ...query });
+
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
+
+        const filterNotes = [name ? `name "${name}"` : "", errorsOnly ? "errors only" : "", describeLogQuery(query)].filter(Boolean);
+        const note = filterNotes.length > 0 ? ` (${filterNotes.join(", ")})` : "";
+        const output = format === "tonl" && count > 0 ? formatTracesAsTonl(traces, { maxMessageLength }) : formatted;
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Traces (${count} entries)${note}:\n\n${output}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Clear traces
+registerToolWithTelemetry(
+    "clear_traces",
+    {
+        description: "Clear the trace buffer (traced functions and logpoints stay active)",
+        inputSchema: {}
+    },
+    async () => {
+        const count = traceBuffer.clear();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Cleared ${count} trace entries from buffer.`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Watch Expression Tools
+// ============================================================================
+
+// Tool: Add watch
+registerToolWithTelemetry(
+    "add_watch",
+    {
+        description:
+            "Watch a JS expression: it is re-evaluated on an interval and after every reload, and each distinct value is recorded with its timestamp. Use list_watches with watchId to see when the value changed (e.g. when store.getState().auth.token became null). The expression must be synchronous.",
+        inputSchema: {
+            expression: z.string().describe("JS expression to watch (e.g. 'store.getState().auth.token')"),
+            intervalMs: z.coerce.number().optional().default(5000).describe("Re-evaluation interval in ms (default: 5000, minimum: 1000)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ expression, intervalMs, appKey, device }) => {
+        const result = await addWatch({ appKey, device }, expression, { intervalMs });
+
+        if (!result.success || !result.watch) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Watch added:\n${formatWatches([result.watch])}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: List watches
+registerToolWithTelemetry(
+    "list_watches",
+    {
+        description:
+            "List watch expressions with their current values. With watchId, show the watch's change history (one line per distinct value, with the time and what triggered the evaluation).",
+        inputSchema: {
+            watchId: z.string().optional().describe("Watch id (e.g. 'watch-1') to show its change history"),
+            value: z.string().optional().describe("With watchId: only changes whose value contains this text (e.g. 'null')"),
+            since: z
+                .string()
+                .optional()
+                .describe("With watchId: only changes at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m')"),
+            maxChanges: z.coerce.number().optional().default(50).describe("With watchId: maximum number of changes to return (default: 50, most recent)"),
+            refresh: z.boolean().optional().default(false).describe("With watchId: re-evaluate the expression before showing the history"),
+            ...appFilterSchema
+        }
+    },
+    async ({ watchId, value, since, maxChanges, refresh, appKey, device }) => {
+        if (!watchId) {
+            const filter = resolveAppFilter(appKey, device);
+            if (filter.error) {
+                return {
+                    content: [{ type: "text", text: `Error: ${filter.error}` }],
+                    isError: true
+                };
+            }
+            return {
+                content: [{ type: "text", text: formatWatches(listWatches(filter.appKey)) }]
+            };
+        }
+
+        const result = refresh ? await refreshWatch(watchId) : { success: true, watch: getWatch(watchId) ?? undefined };
+        if (!result.watch) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error ?? `Watch ${watchId} not found. Use list_watches to see ids.`}` }],
+                isError: true
+            };
+        }
+
+        const { formatted, error } = formatWatchHistory(result.watch, { value, since, maxChanges });
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatted }]
+        };
+    }
+);
+
+// Tool: Remove watch
+registerToolWithTelemetry(
+    "remove_watch",
+    {
+        description: "Stop a watch expression by id, or all watches. Its history is discarded.",
+        inputSchema: {
+            watchId: z.string().optional().describe("Watch id (e.g. 'watch-1')"),
+            all: z.boolean().optional().default(false).describe("Remove all watches")
+        }
+    },
+    async ({ watchId, all }) => {
+        if (!watchId && !all) {
+            return {
+                content: [{ type: "text", text: "Error: Provide watchId or all=true." }],
+                isError: true
+            };
+        }
+
+        const result = removeWatch(all ? undefined : watchId);
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: all ? `Removed ${result.removed} watch(es).` : `Removed ${watchId}.` }]
+        };
+    }
+);
+
+// ============================================================================
+// Redux Tools
+// ============================================================================
+
+// Tool: Start Redux tracking
+registerToolWithTelemetry(
+    "start_redux_tracking",
+    {
+        description:
+            "Hook the app's Redux store so every dispatched action is recorded with its type, payload (size-capped) and a structural diff of the state it produced. The store is found through the react-redux Provider in the component tree, or a store-like global; pass storePath to choose it. The hook is re-installed after reloads. Read actions with get_redux_actions.",
+        inputSchema: {
+            storePath: z.string().optional().describe("Global path of the store when it cannot be discovered (e.g. 'store' or 'app.store')"),
+            ...appTargetSchema
+        }
+    },
+    async ({ storePath, appKey, device }) => {
+        const result = await startReduxTracking({ appKey, device }, { storePath });
+
+        if (!result.success || !result.tracking) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.alreadyTracking
+                        ? `Redux actions are already tracked (store from ${result.tracking.source}).`
+                        : `Tracking Redux actions (store from ${result.tracking.source}). Interact with the app, then use get_redux_actions.`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Stop Redux tracking
+registerToolWithTelemetry(
+    "stop_redux_tracking",
+    {
+        description: "Restore the Redux store's original dispatch. Recorded actions stay in the buffer.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await stopReduxTracking({ appKey, device });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: "Stopped tracking Redux actions." }]
+        };
+    }
+);
+
+// Tool: Get Redux actions
+registerToolWithTelemetry(
+    "get_redux_actions",
+    {
+        description:
+            "Get the Redux action timeline recorded by start_redux_tracking: action type, payload and the state paths each action changed (+ added, - removed, ~ changed with before -> after). Filter by type, changed state path and time.",
+        inputSchema: {
+            maxActions: z.coerce.number().optional().default(30).describe("Maximum number of actions to return (default: 30, most recent)"),
+            type: z.string().optional().describe("Only actions whose type contains this text (case-insensitive, e.g. 'cart/' or 'fulfilled')"),
+            path: z.string().optional().describe("Only actions that changed this state path or anything below it (e.g. 'auth.token', 'cart.items')"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only actions at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m')"),
+            until: z.string().optional().describe("Only actions at or before this time (same formats as since)"),
+            includeDiff: z.boolean().optional().default(true).describe("Include the state changes of each action (text format)"),
+            maxChanges: z.coerce.number().optional().default(10).describe("Max state changes shown per action (default: 10, 0 for all)"),
+            format: z
+                .enum(["text", "tonl"])
+                .optional()
+                .default("text")
+                .describe("Output format: 'text' (default, with payloads and diffs) or 'tonl' (compact timeline with changed paths)"),
+            ...appFilterSchema
+        }
+    },
+    async ({ maxActions, type, path, since, until, includeDiff, maxChanges, format, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const { actions, error } = getReduxActions(reduxActionBuffer, { maxActions, type, path, since, until, appKey: filter.appKey });
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
+
+        const output = format === "tonl" && actions.length > 0
+            ? formatReduxActionsAsTonl(actions)
+            : formatReduxActions(actions, { includeDiff, maxChanges });
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Redux Actions (${actions.length}):\n\n${output}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Clear Redux actions
+registerToolWithTelemetry(
+    "clear_redux_actions",
+    {
+        description: "Clear the Redux action buffer (tracking stays active)",
+        inputSchema: {}
+    },
+    async () => {
+        const count = reduxActionBuffer.clear();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Cleared ${count} Redux actions from buffer.`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Navigation Tools
+// ============================================================================
+
+// Tool: Get navigation state
+registerToolWithTelemetry(
+    "get_navigation_state",
+    {
+        description:
+            "Read the app's React Navigation state (Expo Router included): the focused route path, its params and the stack history of every navigator on the focused path. Set full for the whole state tree.",
+        inputSchema: {
+            full: z.boolean().optional().default(false).describe("Include the full navigation state tree (default: false)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ full, appKey, device }) => {
+        const result = await getNavigationState({ appKey, device }, { full });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Navigation State:\n\n${formatNavigationState(result.data)}` }]
+        };
+    }
+);
+
+// Tool: List routes
+registerToolWithTelemetry(
+    "list_routes",
+    {
+        description:
+            "List the routes the app can navigate to: the route names registered in each mounted navigator and, for Expo Router apps, the file-based routes with their URL paths. Routes of navigators that are not mounted yet are not listed.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await listRoutes({ appKey, device });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const lines: string[] = ["Navigators:"];
+        for (const navigator of result.data.navigators) {
+            const location = navigator.path.length > 0 ? navigator.path.join(" > ") : "(root)";
+            lines.push(`  ${location} [${navigator.type}]: ${navigator.routeNames.join(", ")}`);
+        }
+        if (result.data.files) {
+            lines.push("", `Expo Router routes (${result.data.files.length}):`);
+            for (const file of result.data.files) {
+                lines.push(`  ${file.url}  (${file.file})`);
+            }
+        }
+
+        return {
+            content: [{ type: "text", text: lines.join("\n") }]
+        };
+    }
+);
+
+const navigationTargetSchema = {
+    name: z
+        .string()
+        .optional()
+        .describe("Route name, or a nested path through navigators (e.g. 'Profile' or 'HomeTabs/Feed')"),
+    params: z.string().optional().describe("Route params as JSON (e.g. '{\"id\": 42}')"),
+    href: z.string().optional().describe("Expo Router href instead of a name (e.g. '/user/42')")
+};
+
+// Parse the params argument of navigation tools
+function parseNavigationParams(params?: string): { params?: unknown; error?: string } {
+    if (params === undefined || params === "") {
+        return {};
+    }
+    try {
+        return { params: JSON.parse(params) };
+    } catch {
+        return { error: `params must be valid JSON, got: ${params}` };
+    }
+}
+
+// Tool: Navigate
+registerToolWithTelemetry(
+    "navigate",
+    {
+        description:
+            "Navigate the app to a route by name with params (React Navigation's navigate), or to an Expo Router href. Use list_routes to discover route names. Returns the route that is focused afterwards.",
+        inputSchema: {
+            ...navigationTargetSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ name, params, href, appKey, device }) => {
+        const parsed = parseNavigationParams(params);
+        if (parsed.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${parsed.error}` }],
+                isError: true
+            };
+        }
+
+        const result = await navigateTo({ appKey, device }, { name, params: parsed.params, href });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Navigated.\n\n${formatNavigationState(result.data)}` }]
+        };
+    }
+);
+
+// Tool: Go back
+registerToolWithTelemetry(
+    "go_back",
+    {
+        description: "Go back in the focused navigator (like the back button). Fails when there is nothing to go back to.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await goBack({ appKey, device });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Went back.\n\n${formatNavigationState(result.data)}` }]
+        };
+    }
+);
+
+// Tool: Reset navigation
+registerToolWithTelemetry(
+    "reset_navigation",
+    {
+        description:
+            "Reset the navigation state so the given route is the only one in the history (e.g. after a login flow), replace the current Expo Router href, or restore a full state object as returned by get_navigation_state with full.",
+        inputSchema: {
+            ...navigationTargetSchema,
+            state: z.string().optional().describe("Full navigation state as JSON, passed to resetRoot"),
+            ...appTargetSchema
+        }
+    },
+    async ({ name, params, href, state, appKey, device }) => {
+        const parsed = parseNavigationParams(params);
+        const parsedState = parseNavigationParams(state);
+        const parseError = parsed.error ?? parsedState.error;
+        if (parseError) {
+            return {
+                content: [{ type: "text", text: `Error: ${parseError}` }],
+                isError: true
+            };
+        }
+
+        const result = await resetNavigation({ appKey, device }, { name, params: parsed.params, href, state: parsedState.params });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Navigation reset.\n\n${formatNavigationState(result.data)}` }]
+        };
+    }
+);
+
+// Tool: Start navigation tracking
+registerToolWithTelemetry(
+    "start_navigation_tracking",
+    {
+        description:
+            "Record every change of the focused route in a route timeline, so logs and network requests can be attributed to the screen they happened on. The listener is re-installed after reloads. Read the timeline with get_route_timeline.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await startNavigationTracking({ appKey, device });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.alreadyTracking
+                        ? "Route changes are already tracked."
+                        : "Tracking route changes. Navigate in the app, then use get_route_timeline."
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Stop navigation tracking
+registerToolWithTelemetry(
+    "stop_navigation_tracking",
+    {
+        description: "Stop recording route changes. The recorded timeline stays in the buffer.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await stopNavigationTracking({ appKey, device });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: "Stopped tracking route changes." }]
+        };
+    }
+);
+
+// Tool: Get route timeline
+registerToolWithTelemetry(
+    "get_route_timeline",
+    {
+        description:
+            "Get the screens visited since start_navigation_tracking, with how long each stayed focused and how many logs, errors and network requests happened on it. Set details to list those entries under each screen.",
+        inputSchema: {
+            screen: z.string().optional().describe("Only visits whose route path contains this name (case-insensitive)"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only visits still active at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m')"),
+            details: z.boolean().optional().default(false).describe("List the logs and requests attributed to each visit"),
+            maxVisits: z.coerce.number().optional().default(30).describe("Maximum number of visits to return (default: 30, most recent)"),
+            maxEntries: z.coerce.number().optional().default(20).describe("Max logs and max requests listed per visit with details (default: 20)"),
+            ...appFilterSchema
+        }
+    },
+    async ({ screen, since, details, maxVisits, maxEntries, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+
+        const { visits, error } = getScreenVisits(routeChangeBuffer, logBuffer.getAll(), networkBuffer.getAll(), {
+            appKey: filter.appKey,
+            screen,
+            since,
+            maxVisits
+        });
+        if (error) {
+            return {
+                content: [{ type: "text", text: `Error: ${error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Route Timeline (${visits.length} visit(s)):\n\n${formatScreenVisits(visits, { details, maxEntries })}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Clear route timeline
+registerToolWithTelemetry(
+    "clear_route_timeline",
+    {
+        description: "Clear the route timeline (tracking stays active)",
+        inputSchema: {}
+    },
+    async () => {
+        const count = routeChangeBuffer.clear();
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Cleared ${count} route changes from buffer.`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Storage Tools
+// ============================================================================
+
+const storageSchema = {
+    storage: z
+        .string()
+        .optional()
+        .describe("Storage id from list_storage (e.g. 'asyncStorage', 'mmkv:mmkv.default') or kind ('asyncStorage', 'mmkv'). Optional when the app has a single storage")
+};
+
+// Tool: List storages and keys
+registerToolWithTelemetry(
+    "list_storage",
+    {
+        description:
+            "Find AsyncStorage and MMKV instances in the running app (globals and loaded module exports) and list their keys with value sizes. Use it to debug persisted state ('works after reinstall' bugs), then read or edit keys with get_storage_item / set_storage_item / remove_storage_item.",
+        inputSchema: {
+            ...storageSchema,
+            keyPattern: z.string().optional().describe("Only list keys containing this text (case-insensitive)"),
+            maxKeys: z.coerce.number().optional().default(200).describe("Maximum keys listed per storage (default: 200)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ storage, keyPattern, maxKeys, appKey, device }) => {
+        const result = await listStorages({ appKey, device }, { storage, keyPattern, maxKeys });
+
+        if (!result.success || !result.storages) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatStorages(result.storages) }]
+        };
+    }
+);
+
+// Tool: Read a storage key
+registerToolWithTelemetry(
+    "get_storage_item",
+    {
+        description: "Read the value of an AsyncStorage or MMKV key. JSON string values are pretty-printed.",
+        inputSchema: {
+            key: z.string().describe("Key to read"),
+            ...storageSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ key, storage, appKey, device }) => {
+        const result = await getStorageItem({ appKey, device }, key, { storage });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+        if (!result.found) {
+            return {
+                content: [{ type: "text", text: `Key "${key}" not found in ${result.storage}.` }]
+            };
+        }
+
+        let value = String(result.value);
+        if (typeof result.value === "string") {
+            try {
+                value = JSON.stringify(JSON.parse(result.value), null, 2);
+            } catch {
+                // Not JSON, shown as is
+            }
+        }
+
+        return {
+            content: [{ type: "text", text: `${result.storage} ${key} (${result.type}):\n${value}` }]
+        };
+    }
+);
+
+// Tool: Write a storage key
+registerToolWithTelemetry(
+    "set_storage_item",
+    {
+        description:
+            "Write an AsyncStorage or MMKV key in the running app. The value is stored as given (stringify objects yourself). The app reads the new value the next time it loads the key, which may require reload_app.",
+        inputSchema: {
+            key: z.string().describe("Key to write"),
+            value: z.string().describe("Value to store, e.g. '{\"onboarded\":true}'"),
+            valueType: z
+                .enum(["string", "number", "boolean"])
+                .optional()
+                .default("string")
+                .describe("MMKV only: store the value as a number or boolean (default: string)"),
+            ...storageSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ key, value, valueType, storage, appKey, device }) => {
+        const result = await setStorageItem({ appKey, device }, key, value, { storage, valueType });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: `Set "${key}" in ${result.storage}.` }]
+        };
+    }
+);
+
+// Tool: Delete a storage key
+registerToolWithTelemetry(
+    "remove_storage_item",
+    {
+        description: "Delete an AsyncStorage or MMKV key in the running app.",
+        inputSchema: {
+            key: z.string().describe("Key to delete"),
+            ...storageSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ key, storage, appKey, device }) => {
+        const result = await removeStorageItem({ appKey, device }, key, { storage });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.removed ? `Removed "${key}" from ${result.storage}.` : `Key "${key}" not found in ${result.storage}.`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Export a storage as JSON
+registerToolWithTelemetry(
+    "export_storage",
+    {
+        description:
+            "Export all keys of an AsyncStorage or MMKV storage as a JSON object (key -> value). Save it with outputPath to restore the same state later with import_storage. MMKV buffer values have no JSON form and are left out (listed as skipped).",
+        inputSchema: {
+            outputPath: z.string().optional().describe("File to write the JSON to. Without it the JSON is returned"),
+            ...storageSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ outputPath, storage, appKey, device }) => {
+        const result = await exportStorage({ appKey, device }, { storage, outputPath });
+
+        if (!result.success || !result.data) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const count = Object.keys(result.data).length;
+        const skipped = result.skipped?.length
+            ? `\nSkipped ${result.skipped.length} key(s) with values JSON cannot hold (MMKV buffers): ${result.skipped.join(", ")}`
+            : "";
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: result.path
+                        ? `Exported ${count} key(s) from ${result.storage} to ${result.path}${skipped}`
+                        : `${result.storage} (${count} key(s)):\n${JSON.stringify(result.data, null, 2)}${skipped}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Import a storage from JSON
+registerToolWithTelemetry(
+    "import_storage",
+    {
+        description:
+            "Write a JSON object of key -> value into an AsyncStorage or MMKV storage, e.g. a file saved by export_storage. Keys are merged into the storage unless clear=true. Non-string values are stored as JSON strings (MMKV keeps numbers and booleans); null values are skipped.",
+        inputSchema: {
+            data: z.string().optional().describe("JSON object to import, e.g. '{\"token\":\"abc\"}'"),
+            inputPath: z.string().optional().describe("JSON file to import (alternative to data)"),
+            clear: z.boolean().optional().default(false).describe("Remove all existing keys first (default: false)"),
+            ...storageSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ data, inputPath, clear, storage, appKey, device }) => {
+        const result = await importStorage({ appKey, device }, { storage, data, inputPath, clear });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const skipped = result.skipped?.length
+            ? `\nSkipped ${result.skipped.length} key(s) with null values: ${result.skipped.join(", ")}`
+            : "";
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Imported ${result.written} key(s) into ${result.storage}${clear ? " (existing keys cleared)" : ""}. Reload the app if it caches the values in memory.${skipped}`
+                }
+            ]
+        };
+    }
+);
+
+// ============================================================================
+// Performance Profiling Tools
+// ============================================================================
+
+// Tool: Start CPU profile
+registerToolWithTelemetry(
+    "start_cpu_profile",
+    {
+        description:
+            "Start recording a CPU profile of the app's JS thread (CDP Profiler domain, Hermes). Reproduce the slow interaction (scroll, navigation, typing), then call stop_cpu_profile to get the functions that used the most CPU time.",
+        inputSchema: {
+            samplingIntervalUs: z.coerce
+                .number()
+                .optional()
+                .describe("Sampling interval in microseconds (default: runtime default, typically 100-1000us). Lower = more detail, larger profile"),
+            ...appTargetSchema
+        }
+    },
+    async ({ samplingIntervalUs, appKey, device }) => {
+        const result = await startCpuProfile({ appKey, device }, { samplingIntervalUs });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: "CPU profiling started. Reproduce the slow interaction, then call stop_cpu_profile."
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Stop CPU profile
+registerToolWithTelemetry(
+    "stop_cpu_profile",
+    {
+        description:
+            "Stop the CPU profile started with start_cpu_profile. Saves a .cpuprofile file (open in Chrome DevTools > Performance) and returns a summary: top functions by self time and the hottest call paths, source-mapped to original files where possible.",
+        inputSchema: {
+            topN: z.coerce.number().optional().default(15).describe("Number of top functions by self time (default: 15)"),
+            maxPaths: z.coerce.number().optional().default(5).describe("Number of hottest call paths (default: 5)"),
+            outputPath: z
+                .string()
+                .optional()
+                .describe("Where to save the .cpuprofile file (default: ~/.rn-ai-debugger/profiles/)"),
+            format: z
+                .enum(["text", "tonl"])
+                .optional()
+                .default("tonl")
+                .describe("Output format: 'tonl' (default, token-optimized) or 'text'"),
+            ...appTargetSchema
+        }
+    },
+    async ({ topN, maxPaths, outputPath, format, appKey, device }) => {
+        const result = await stopCpuProfile({ appKey, device }, { topN, maxPaths, outputPath });
+
+        if (!result.success || !result.summary) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const summary =
+            format === "tonl" ? formatCpuProfileAsTonl(result.summary) : formatCpuProfileSummary(result.summary);
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `CPU profile saved to ${result.path}\n\n${summary}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Start render profile
+registerToolWithTelemetry(
+    "start_render_profile",
+    {
+        description:
+            "Start counting React commits and component renders (via the DevTools hook's onCommitFiberRoot). For each re-render it records which props, state or hooks changed. Reproduce the janky interaction, then call stop_render_profile to get the most expensive and most frequently re-rendered components. Requires a development build.",
+        inputSchema: {
+            ...appTargetSchema
+        }
+    },
+    async ({ appKey, device }) => {
+        const result = await startRenderProfile({ appKey, device });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: "Render profiling started. Reproduce the interaction, then call stop_render_profile."
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Stop render profile
+registerToolWithTelemetry(
+    "stop_render_profile",
+    {
+        description:
+            "Stop the render profile started with start_render_profile and return a ranked report: components by self render time (actualDuration/selfBaseDuration), components by re-render count with the props/state/hooks that changed, and components that re-rendered only because their parent did (React.memo candidates).",
+        inputSchema: {
+            topN: z.coerce.number().optional().default(10).describe("Number of components per ranking (default: 10)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ topN, appKey, device }) => {
+        const result = await stopRenderProfile({ appKey, device });
+
+        if (!result.success || !result.report) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: formatRenderProfileReport(result.report, { topN })
+                }
+            ]
+        };
+    }
+);
+
+// Tool: Take heap snapshot
+registerToolWithTelemetry(
+    "take_heap_snapshot",
+    {
+        description:
+            "Capture a heap snapshot of the app's JS runtime (CDP HeapProfiler), save it as a .heapsnapshot file and summarize the top constructors by retained size. To find a leak: take a baseline, repeat the suspect interaction (e.g. navigate to a screen and back 5 times), take another snapshot, then call compare_heap_snapshots.",
+        inputSchema: {
+            label: z.string().optional().describe("Label appended to the snapshot id (e.g. 'baseline', 'after-nav')"),
+            collectGarbage: z
+                .boolean()
+                .optional()
+                .default(true)
+                .describe("Run garbage collection before the snapshot so only live objects are counted (default: true)"),
+            topN: z.coerce.number().optional().default(20).describe("Number of constructors in the summary (default: 20)"),
+            ...appTargetSchema
+        }
+    },
+    async ({ label, collectGarbage, topN, appKey, device }) => {
+        const result = await takeHeapSnapshot({ appKey, device }, { label, collectGarbage, topN });
+
+        if (!result.success || !result.summary) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [
+                {
+                    type: "text",
+                    text: `Heap snapshot ${result.id} saved to ${result.path} (${formatBytes(result.sizeBytes ?? 0)})\n\n${formatHeapSnapshotSummary(result.summary)}`
+                }
+            ]
+        };
+    }
+);
+
+// Tool: List heap snapshots
+registerToolWithTelemetry(
+    "list_heap_snapshots",
+    {
+        description: "List saved heap snapshots (newest first) with their ids for compare_heap_snapshots.",
+        inputSchema: {
+            snapshotId: z
+                .string()
+                .optional()
+                .describe("Show the constructor summary of this snapshot instead of the list"),
+            topN: z.coerce.number().optional().default(20).describe("Number of constructors when summarizing (default: 20)")
+        }
+    },
+    async ({ snapshotId, topN }) => {
+        if (snapshotId) {
+            const result = await summarizeHeapSnapshot(snapshotId, topN);
+            if (!result.success || !result.summary) {
+                return {
+                    content: [{ type: "text", text: `Error: ${result.error}` }],
+                    isError: true
+                };
+            }
+            return {
+                content: [{ type: "text", text: `Heap snapshot ${snapshotId}\n\n${formatHeapSnapshotSummary(result.summary)}` }]
+            };
+        }
+
+        const snapshots = await listHeapSnapshots();
+        if (snapshots.length === 0) {
+            return {
+                content: [{ type: "text", text: "No heap snapshots saved. Use take_heap_snapshot to capture one." }]
+            };
+        }
+
+        const lines = snapshots.map(
+            (snapshot) => `${snapshot.id}  ${snapshot.createdAt.toLocaleString()}  ${formatBytes(snapshot.sizeBytes)}`
+        );
+        return {
+            content: [{ type: "text", text: `Heap snapshots (${snapshots.length}):\n${lines.join("\n")}` }]
+        };
+    }
+);
+
+// Tool: Compare heap snapshots
+registerToolWithTelemetry(
+    "compare_heap_snapshots",
+    {
+        description:
+            "Compare two heap snapshots and list the constructors that grew, largest retained size growth first: change in object count, self size and retained size, plus how many objects were allocated after the baseline and are still alive. Both snapshots must come from the same JS runtime (no reload in between) for new/freed object tracking.",
+        inputSchema: {
+            baseline: z.string().describe("Snapshot id (from take_heap_snapshot/list_heap_snapshots) or .heapsnapshot path taken first"),
+            current: z.string().describe("Snapshot id or .heapsnapshot path taken later"),
+            topN: z.coerce.number().optional().default(20).describe("Number of constructors to show (default: 20)")
+        }
+    },
+    async ({ baseline, current, topN }) => {
+        const result = await compareHeapSnapshots(baseline, current, topN);
+
+        if (!result.success || !result.diff) {
+            return {
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        return {
+            content: [{ type: "text", text: formatHeapSnapshotDiff(result.diff) }]
+        };
+    }
+);
+
+// ============================================================================
+// UI Flow Tools
+// ============================================================================
+
+// Tool: Run a UI flow
+registerToolWithTelemetry(
+    "run_flow",
+    {
+        description:
+            "Run a scripted UI flow (YAML or JSON) on an Android device in one call, instead of many individual tool calls. Each step is an object with one action: tap (element text/resourceId/contentDesc, or x/y), tapComponent (testID/componentName/text via the React tree), swipe (up/down/left/right or coordinates), inputText, pressKey, wait (ms), waitForElement, waitForLog, waitForNetwork (url, status), assertVisible (text, resourceId or testID), executeJs (expression, expect) and screenshot. Stops at the first failing step and returns a step-by-step report with a screenshot of the failure.\n\nExample:\nname: Login\nsteps:\n  - tapComponent: login-email\n  - inputText: \"user@example.com\"\n  - tap: { text: \"Sign in\" }\n  - waitForNetwork: { url: \"/api/login\", status: 200 }\n  - assertVisible: Welcome",
+        inputSchema: {
+            flow: z.string().optional().describe("Flow content as YAML or JSON: a list of steps, or { name, steps }"),
+            path: z.string().optional().describe("Path to a .yaml/.yml/.json flow file (instead of flow)"),
+            screenshotOnFailure: z
+                .boolean()
+                .optional()
+                .default(true)
+                .describe("Capture a screenshot when a step fails (default: true)"),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("Optional device ID (from list_android_devices). Uses first available device if not specified."),
+            ...appTargetSchema
+        }
+    },
+    async ({ flow, path: flowPath, screenshotOnFailure, deviceId, appKey, device }) => {
+        if (!flow && !flowPath) {
+            return {
+                content: [{ type: "text", text: "Error: Either flow or path is required" }],
+                isError: true
+            };
+        }
+
+        const parsed = flowPath ? await loadFlowFile(flowPath) : parseFlow(flow!);
+        if (!parsed.flow) {
+            return {
+                content: [{ type: "text", text: `Error: ${parsed.error}` }],
+                isError: true
+            };
+        }
+
+        const report = await runFlow(parsed.flow, { deviceId, target: { appKey, device }, screenshotOnFailure });
+
+        const content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }> = [
+            { type: "text", text: formatFlowReport(report) }
+        ];
+        if (report.failureScreenshot) {
+            content.push({ type: "image", data: report.failureScreenshot.toString("base64"), mimeType: "image/jpeg" });
+        }
+
+        return {
+            content,
+            isError: !report.success
+        };
+    }
+);
+
+// ============================================================================
+// Assertion Tools
+// ============================================================================
+
+// Tool response for an assertion: failed assertions are errors, so scripted runs stop on them
+function assertionResponse(result: AssertResult) {
+    if (!result.success || !result.assertion) {
+        return {
+            content: [{ type: "text" as const, text: `Error: ${result.error}` }],
+            isError: true
+        };
+    }
+    return {
+        content: [{ type: "text" as const, text: formatAssertionResult(result.assertion) }],
+        isError: !result.assertion.passed
+    };
+}
+
+const assertionSchema = {
+    name: z.string().optional().describe("Test case name in the report (default: a description of the check)"),
+    suite: z.string().optional().describe("Test suite to record the result in (default: 'default')")
+};
+
+// Tool: Assert on logs
+registerToolWithTelemetry(
+    "assert_log",
+    {
+        description:
+            "Assert on captured console logs and record the result in the test report (see get_test_report). By default passes when at least one log matches; use noErrors=true to assert that no errors were logged since a time, or minCount/maxCount for exact counts.",
+        inputSchema: {
+            noErrors: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Assert that no console errors were logged (combine with since, e.g. 'last 2m')"),
+            text: z.string().optional().describe("Case-insensitive substring the message must contain"),
+            pattern: z.string().optional().describe("Regex the message must match (use /regex/flags for explicit flags)"),
+            level: z.enum(["log", "warn", "error", "info", "debug"]).optional().describe("Only count logs at this level"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only count logs at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m')"),
+            until: z.string().optional().describe("Only count logs at or before this time (same formats as since)"),
+            where: z
+                .string()
+                .optional()
+                .describe("Predicates over console.log arguments joined with &&, as in get_logs. Example: args[0].userId == 42"),
+            minCount: z.coerce.number().optional().describe("Minimum number of matching logs (default: 1, or 0 with noErrors)"),
+            maxCount: z.coerce.number().optional().describe("Maximum number of matching logs (e.g. 0 to assert a log never appeared)"),
+            ...assertionSchema,
+            ...appFilterSchema
+        }
+    },
+    async ({ noErrors, text, pattern, level, since, until, where, minCount, maxCount, name, suite, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+        const result = await assertLog({ noErrors, text, pattern, level, since, until, where, minCount, maxCount, name, suite, appKey: filter.appKey });
+        return assertionResponse(result);
+    }
+);
+
+// Tool: Assert on network requests
+registerToolWithTelemetry(
+    "assert_network",
+    {
+        description:
+            "Assert on completed network requests matching a URL and record the result in the test report: how many were made (minCount/maxCount, default at least 1), that all returned a status (200 or a class like 2xx), and that none took longer than maxLatencyMs.",
+        inputSchema: {
+            url: z.string().optional().describe("Only requests whose URL contains this text (case-insensitive)"),
+            method: z.string().optional().describe("Only requests with this HTTP method"),
+            status: z
+                .union([z.number(), z.string()])
+                .optional()
+                .describe("Expected status of every matching request: a code (200) or a class ('2xx')"),
+            minCount: z.coerce.number().optional().describe("Minimum number of matching requests (default: 1)"),
+            maxCount: z.coerce.number().optional().describe("Maximum number of matching requests (e.g. 1 to catch duplicate calls)"),
+            maxLatencyMs: z.coerce.number().optional().describe("Maximum duration of any matching request in milliseconds"),
+            since: z
+                .string()
+                .optional()
+                .describe("Only requests started at or after this time: ISO timestamp, time of day, or relative ('last 30s')"),
+            ...assertionSchema,
+            ...appFilterSchema
+        }
+    },
+    async ({ url, method, status, minCount, maxCount, maxLatencyMs, since, name, suite, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
+            return {
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
+            };
+        }
+        const result = await assertNetwork({ url, method, status, minCount, maxCount, maxLatencyMs, since, name, suite, appKey: filter.appKey });
+        return assertionResponse(result);
+    }
+);
+
+// Tool: Assert an element is visible
+registerToolWithTelemetry(
+    "assert_element_visible",
+    {
+        description:
+            "Assert that an element is visible on screen and record the result in the test report. testID is resolved through the React component tree (any platform); text, resourceId and contentDesc through the device accessibility tree (Android via ADB, iOS simulators via IDB: text and textContains only). Set timeoutMs to wait for the element to appear.",
+        inputSchema: {
+            testID: z.string().optional().describe("testID of the component (checked in the React tree)"),
+            text: z.string().optional().describe("Exact element text (iOS: accessibility label)"),
+            textContains: z.string().optional().describe("Substring of the element text (case-insensitive)"),
+            resourceId: z.string().optional().describe("Android resource ID (React Native testID on Android)"),
+            contentDesc: z.string().optional().describe("Android content description (accessibilityLabel)"),
+            contentDescContains: z.string().optional().describe("Substring of the content description"),
+            index: z.coerce.number().optional().describe("Which match to check when several elements match (0-based)"),
+            timeoutMs: z.coerce.number().optional().default(0).describe("Wait up to this long for the element to appear (default: 0, check once)"),
+            platform: z.enum(["android", "ios"]).optional().default("android").describe("Device platform for accessibility lookups (default: android)"),
+            deviceId: z.string().optional().describe("Android device ID or iOS simulator UDID (default: first available)"),
+            ...assertionSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ testID, text, textContains, resourceId, contentDesc, contentDescContains, index, timeoutMs, platform, deviceId, name, suite, appKey, device }) => {
+        const result = await assertElementVisible({
+            testID,
+            text,
+            textContains,
+            resourceId,
+            contentDesc,
+            contentDescContains,
+            index,
+            timeoutMs,
+            platform,
+            deviceId,
+            name,
+            suite,
+            target: { appKey, device }
+        });
+        return assertionResponse(result);
+    }
+);
+
+// Tool: Assert on a JavaScript expression
+registerToolWithTelemetry(
+    "assert_expression",
+    {
+        description:
+            "Evaluate a JavaScript expression in the app and record the result in the test report. Passes when the value equals expect (compared as JSON), or when it is truthy if expect is omitted. Example: expression=\"store.getState().cart.items.length\" expect=\"3\"",
+        inputSchema: {
+            expression: z.string().describe("Expression to evaluate in the app"),
+            expect: z
+                .string()
+                .optional()
+                .describe("Expected value as JSON (42, true, null, {\"id\": 1}); anything that is not JSON is compared as a string"),
+            awaitPromise: z.boolean().optional().default(true).describe("Await the value if it is a Promise (default: true)"),
+            ...assertionSchema,
+            ...appTargetSchema
+        }
+    },
+    async ({ expression, expect, awaitPromise, name, suite, appKey, device }) => {
+        let expected: unknown = expect;
+        if (expect !== undefined) {
+            try {
+                expected = JSON.parse(expect);
+            } catch {
+                // Not JSON: compared as a string
+            }
+        }
+        const result = await assertExpression({ expression, expect: expected, awaitPromise, name, suite, target: { appKey, device } });
+        return assertionResponse(result);
+    }
+);
+
+// Tool: Get the test report
+registerToolWithTelemetry(
+    "get_test_report",
+    {
+        description:
+            "Get the results of all assertions (assert_log, assert_network, assert_element_visible, assert_expression) as a summary, JSON, or JUnit XML. Set outputPath to write the JSON/JUnit report to a file for archiving, e.g. as a CI artifact. Also served at /api/test-report on the debug dashboard.",
+        inputSchema: {
+            format: z
+                .enum(["text", "json", "junit"])
+                .optional()
+                .default("text")
+                .describe("Output format: 'text' summary (default), 'json', or 'junit' (JUnit XML)"),
+            suite: z.string().optional().describe("Only include this test suite"),
+            outputPath: z.string().optional().describe("Write the report to this file (json or junit format) instead of returning it"),
+            clear: z.boolean().optional().default(false).describe("Clear the report after reading it, to start a new run")
+        }
+    },
+    async ({ format, suite, outputPath, clear }) => {
+        let text: string;
+        if (outputPath) {
+            if (format === "text") {
+                return {
+                    content: [{ type: "text", text: "Error: outputPath requires format 'json' or 'junit'" }],
+                    isError: true
+                };
+            }
+            const result = await exportTestReport(testReportBuffer, { format, suite, outputPath });
+            if (!result.success) {
+                return {
+                    content: [{ type: "text", text: `Error: ${result.error}` }],
+                    isError: true
+                };
+            }
+            text = `Wrote ${result.count} assertion(s) to ${result.path}`;
+        } else {
+            text = renderTestReport(testReportBuffer, { format, suite });
+        }
+
+        if (clear) {
+            const count = testReportBuffer.clear();
+            text += `\n\nCleared ${count} assertion(s) from the report.`;
+        }
+        return {
+            content: [{ type: "text", text }]
+        };
+    }
+);
+
+// Tool: Clear the test report
+registerToolWithTelemetry(
+    "clear_test_report",
+    {
+        description: "Clear all recorded assertion results to start a new test run",
+        inputSchema: {}
+    },
+    async () => {
+        const count = testReportBuffer.clear();
+        return {
+            content: [{ type: "text", text: `Cleared ${count} assertion(s) from the test report.` }]
+        };
+    }
+);
+
+// ============================================================================
+// Native Log Tools (Android logcat)
+// ============================================================================
+
+// Tool: Start streaming native logs
 registerToolWithTelemetry(
-    "reload_app",
+    "start_native_logs",
     {
         description:
-            "Reload the React Native app (triggers JavaScript bundle reload like pressing 'r' in Metro). Will auto-connect to Metro if no connection exists. Note: After reload, the app may take a few seconds to fully restart and become responsive — wait before running other tools. IMPORTANT: React Native has Fast Refresh enabled by default - code changes are automatically applied without needing reload. Only use when: (1) logs/behavior don't reflect code changes after a few seconds, (2) app is in broken/error state, or (3) need to reset app state completely (navigation stack, context, etc.).",
-        inputSchema: {}
+            "Start streaming Android logcat for the app, so native warnings, errors and crashes (which never reach console logs) can be read with get_native_logs. Only lines from the app's processes are kept; the process id is followed across app restarts. While it runs, crashes (FATAL EXCEPTION, native tombstones) and ANRs of the app are detected and reported by get_connection_status and ensure_connection. One stream per device. Connected Android apps already get a crash-detection-only stream; starting one for the same package makes it keep the app's logs too.",
+        inputSchema: {
+            packageName: z
+                .string()
+                .optional()
+                .describe("Android package name, e.g. 'com.example.app' (default: the connected app's id)"),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("Optional device ID (from list_android_devices). Uses first available device if not specified."),
+            ...appTargetSchema
+        }
     },
-    async () => {
-        const result = await reloadApp();
-
-        if (!result.success) {
+    async ({ packageName, deviceId, appKey, device }) => {
+        const result = await startNativeLogs({ packageName, deviceId, target: { appKey, device } });
+        if (!result.success || !result.stream) {
             return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Error: ${result.error}`
-                    }
-                ],
+                content: [{ type: "text", text: `Error: ${result.error}` }],
                 isError: true
             };
         }
 
+        const { stream } = result;
+        const pid = stream.pids.length > 0
+            ? `pid ${stream.pids[stream.pids.length - 1]}`
+            : "the app is not running; its logs are captured once it starts";
         return {
             content: [
                 {
                     type: "text",
-                    text: result.result ?? "App reload triggered"
+                    text: result.alreadyRunning
+                        ? `Already streaming logcat for ${stream.packageName} on ${stream.deviceId} (${stream.entries} entries so far).`
+                        : `Streaming logcat for ${stream.packageName} on ${stream.deviceId} (${pid}). Use get_native_logs to read it.`
                 }
             ]
         };
     }
 );
 
-// ============================================================================
-// Bundle/Build Error Tools
-// ============================================================================
-
-// Tool: Get bundle status
+// Tool: Stop streaming native logs
 registerToolWithTelemetry(
-    "get_bundle_status",
+    "stop_native_logs",
     {
-        description:
-            "Get the current Metro bundler status including build state and any recent bundling errors. Use this to check if there are compilation/bundling errors that prevent the app from loading.",
-        inputSchema: {}
+        description: "Stop the logcat stream of a device (or all streams). Captured native logs are kept until clear_native_logs. Crash detection for the app stops too, until it reconnects.",
+        inputSchema: {
+            deviceId: z.string().optional().describe("Device to stop (default: all streams)")
+        }
     },
-    async () => {
-        // Get port from first connected app if available
-        const apps = Array.from(connectedApps.values());
-        const metroPort = apps.length > 0 ? apps[0].port : undefined;
-
-        const { formatted } = await getBundleStatusWithErrors(bundleErrorBuffer, metroPort);
-
+    async ({ deviceId }) => {
+        const stopped = stopNativeLogs(deviceId);
         return {
             content: [
                 {
                     type: "text",
-                    text: formatted
+                    text: stopped.length > 0
+                        ? `Stopped ${stopped.length} logcat stream(s):\n${formatNativeLogStreams(stopped)}`
+                        : "No logcat stream to stop."
                 }
             ]
         };
     }
 );
 
-// Tool: Get bundle errors
+// Tool: Get native logs
 registerToolWithTelemetry(
-    "get_bundle_errors",
+    "get_native_logs",
     {
         description:
-            "Retrieve captured Metro bundling/compilation errors. These are errors that occur during the bundle build process (import resolution, syntax errors, transform errors) that prevent the app from loading. If no errors are captured but Metro is running without connected apps, automatically falls back to screenshot+OCR to capture the error from the device screen.",
+            "Read Android logcat entries of the app captured by start_native_logs, filtered by tag, minimum priority, text or time. Set includeJs=true for a merged timeline that interleaves native entries with JS console logs by timestamp, e.g. to see what the JS side logged right before a native error.",
         inputSchema: {
-            maxErrors: z
-                .number()
-                .optional()
-                .default(10)
-                .describe("Maximum number of errors to return (default: 10)"),
-            platform: z
-                .enum(["ios", "android"])
+            tag: z.string().optional().describe("Logcat tag, or comma-separated tags (e.g. 'AndroidRuntime,ReactNative')"),
+            priority: z
+                .enum(["V", "D", "I", "W", "E", "F"])
                 .optional()
-                .describe("Platform for screenshot fallback when no errors are captured via CDP. Required to enable fallback."),
-            deviceId: z
+                .describe("Minimum priority: V(erbose), D(ebug), I(nfo), W(arn), E(rror), F(atal)"),
+            text: z.string().optional().describe("Case-insensitive substring of the message"),
+            pattern: z.string().optional().describe("Regex the message must match (use /regex/flags for explicit flags)"),
+            since: z
                 .string()
                 .optional()
-                .describe("Optional device ID for screenshot fallback. Uses first available device if not specified.")
+                .describe("Only entries at or after this time: ISO timestamp, time of day ('14:32:05'), or relative ('last 30s', '5m')"),
+            deviceId: z.string().optional().describe("Only entries from this device"),
+            maxLogs: z.coerce.number().optional().default(100).describe("Maximum number of entries, most recent last (default: 100)"),
+            maxMessageLength: z
+                .coerce.number()
+                .optional()
+                .default(500)
+                .describe("Max characters per message (default: 500, 0 for unlimited)"),
+            includeJs: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Interleave JS console logs by timestamp (text, pattern, since and priority also apply to them; ReactNativeJS native entries are dropped as duplicates)"),
+            ...appFilterSchema
         }
     },
-    async ({ maxErrors, platform, deviceId }) => {
-        // First, try to get errors from the buffer (captured via CDP/Metro WebSocket)
-        const { errors, formatted } = getBundleErrors(bundleErrorBuffer, { maxErrors });
-
-        if (errors.length > 0) {
+    async ({ tag, priority, text, pattern, since, deviceId, maxLogs, maxMessageLength, includeJs, appKey, device }) => {
+        const filter = resolveAppFilter(appKey, device);
+        if (filter.error) {
             return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Bundle Errors (${errors.length} captured):\n\n${formatted}`
-                    }
-                ]
+                content: [{ type: "text", text: `Error: ${filter.error}` }],
+                isError: true
             };
         }
 
-        // No errors in buffer - check if we should try fallback
-        if (!platform) {
-            // No platform specified, return empty result with hint
+        const result = getNativeLogs({ tag, priority, text, pattern, since, deviceId, maxLogs, maxMessageLength, includeJs, appKey: filter.appKey });
+        if (result.error) {
             return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured.\n\nTip: If the app failed to load and you see a red error screen on the device, use the 'platform' parameter (ios/android) to enable screenshot+OCR fallback for error capture.`
-                    }
-                ]
+                content: [{ type: "text", text: `Error: ${result.error}` }],
+                isError: true
             };
         }
 
-        // Check Metro state to see if fallback is warranted
-        const metroState = await checkMetroState(connectedApps.size);
-
-        if (!metroState.needsFallback) {
-            // Metro not running or apps are connected - fallback not needed
-            const statusMsg = metroState.metroRunning
-                ? "Metro is running and apps are connected."
-                : "Metro is not running.";
-
+        const streams = getNativeLogStreams();
+        if (!result.formatted) {
+            const hint = streams.length === 0 && nativeLogBuffer.size === 0
+                ? "No native logs captured. Start streaming with start_native_logs."
+                : "No native logs match the filters.";
             return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured. ${statusMsg}`
-                    }
-                ]
+                content: [{ type: "text", text: hint }]
             };
         }
 
-        // Metro is running but no apps connected - try screenshot fallback
-        try {
-            let screenshotResult: { success: boolean; error?: string; data?: Buffer; scaleFactor?: number; originalWidth?: number; originalHeight?: number };
-
-            if (platform === "android") {
-                screenshotResult = await androidScreenshot(undefined, deviceId);
-            } else {
-                screenshotResult = await iosScreenshot(undefined, deviceId);
-            }
-
-            if (!screenshotResult.success || !screenshotResult.data) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected (possible bundle error).\n\nScreenshot fallback failed: ${screenshotResult.error || "No image data"}`
-                        }
-                    ]
-                };
-            }
-
-            // Calculate device pixel ratio for iOS
-            const devicePixelRatio = platform === "ios" && screenshotResult.originalWidth && screenshotResult.originalHeight
-                ? inferIOSDevicePixelRatio(screenshotResult.originalWidth, screenshotResult.originalHeight)
-                : 1;
-
-            // Run OCR on the screenshot
-            const ocrResult = await recognizeText(screenshotResult.data, {
-                scaleFactor: screenshotResult.scaleFactor || 1,
-                platform,
-                devicePixelRatio
-            });
-
-            if (!ocrResult.success || !ocrResult.fullText) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot captured but OCR found no text. The screen may not show an error message.`
-                        }
-                    ]
-                };
-            }
-
-            // Parse the OCR text for error information
-            const parsedError = parseErrorScreenText(ocrResult.fullText);
-
-            if (!parsedError.found || !parsedError.error) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot OCR text:\n${ocrResult.fullText.substring(0, 1000)}${ocrResult.fullText.length > 1000 ? "..." : ""}\n\n(No error pattern detected in text)`
-                        }
-                    ]
-                };
-            }
-
-            // Add the parsed error to the buffer for future reference
-            bundleErrorBuffer.add(parsedError.error);
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Bundle Errors (1 captured via screenshot fallback):\n\n${formatParsedError(parsedError)}`
-                    }
-                ]
-            };
-        } catch (fallbackError) {
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: `Bundle Errors (0 captured):\n\nNo bundle errors captured via CDP.\n\nMetro is running on port(s) ${metroState.metroPorts.join(", ")} but no apps are connected.\n\nScreenshot fallback error: ${fallbackError instanceof Error ? fallbackError.message : String(fallbackError)}`
-                    }
-                ]
-            };
+        let count = `${result.entries.length} native entries`;
+        if (includeJs) {
+            const total = result.entries.length + (result.jsEntries?.length ?? 0);
+            count = `Native and JS logs by time: ${result.entries.length} native + ${result.jsEntries?.length ?? 0} JS entries${maxLogs > 0 && total > maxLogs ? `, last ${maxLogs} shown` : ""}`;
         }
+        const ended = streams.filter((stream) => !stream.running);
+        const warning = ended.length > 0 ? `\nStream ended: ${ended.map((stream) => `${stream.deviceId} (${stream.error})`).join(", ")}` : "";
+        return {
+            content: [{ type: "text", text: `${count}${warning}\n\n${result.formatted}` }]
+        };
     }
 );
 
-// Tool: Clear bundle errors
+// Tool: Clear native logs
 registerToolWithTelemetry(
-    "clear_bundle_errors",
+    "clear_native_logs",
     {
-        description: "Clear the bundle error buffer",
+        description: "Clear captured native (logcat) log entries. Running streams keep capturing.",
         inputSchema: {}
     },
     async () => {
-        const count = bundleErrorBuffer.clear();
-
+        const count = nativeLogBuffer.clear();
         return {
-            content: [
-                {
-                    type: "text",
-                    text: `Cleared ${count} bundle errors from buffer.`
-                }
-            ]
+            content: [{ type: "text", text: `Cleared ${count} native log entries.` }]
         };
     }
 );
@@ -1965,6 +5012,105 @@ registerToolWithTelemetry(
     }
 );
 
+// Tool: Start Android screen recording
+registerToolWithTelemetry(
+    "android_start_recording",
+    {
+        description:
+            "Start recording the screen of an Android device (adb screenrecord, up to 180 seconds). Screenshots miss transitions and animation glitches; record while performing a flow, then call android_stop_recording to get the MP4 and key frames to review.",
+        inputSchema: {
+            timeLimitSec: z
+                .coerce.number()
+                .optional()
+                .default(180)
+                .describe("Stop automatically after this many seconds (max and default: 180)"),
+            bitRateMbps: z.coerce.number().optional().describe("Video bit rate in Mbps (device default is around 20)"),
+            size: z.string().optional().describe("Video size as WIDTHxHEIGHT, e.g. '720x1280' (default: native resolution)"),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("Optional device ID (from list_android_devices). Uses first available device if not specified.")
+        }
+    },
+    async ({ timeLimitSec, bitRateMbps, size, deviceId }) => {
+        const result = await androidStartRecording({ timeLimitSec, bitRateMbps, size, deviceId });
+
+        return {
+            content: [
+                {
+                    type: "text" as const,
+                    text: result.success ? result.result! : `Error: ${result.error}`
+                }
+            ],
+            isError: !result.success
+        };
+    }
+);
+
+// Tool: Stop Android screen recording
+registerToolWithTelemetry(
+    "android_stop_recording",
+    {
+        description:
+            "Stop the screen recording started with android_start_recording, save the MP4 and return key frames evenly spaced over the recording (downscaled JPEGs, labelled with their time). Set grid=true to get all frames tiled into one image instead. Frame extraction requires ffmpeg; without it only the video path is returned.",
+        inputSchema: {
+            frameCount: z
+                .coerce.number()
+                .int()
+                .min(0)
+                .max(MAX_RECORDING_FRAMES)
+                .optional()
+                .default(6)
+                .describe(`Number of frames to extract (default: 6, max: ${MAX_RECORDING_FRAMES}, 0 to only save the video)`),
+            maxFrameDimension: z
+                .coerce.number()
+                .optional()
+                .default(720)
+                .describe("Longest side of each frame in pixels (default: 720)"),
+            grid: z
+                .boolean()
+                .optional()
+                .default(false)
+                .describe("Return one grid image of all frames instead of separate images (default: false)"),
+            outputPath: z.string().optional().describe("Path to save the MP4 (default: temp directory)"),
+            deviceId: z
+                .string()
+                .optional()
+                .describe("Device to stop (default: the only device being recorded)")
+        }
+    },
+    async ({ frameCount, maxFrameDimension, grid, outputPath, deviceId }) => {
+        const result = await androidStopRecording({ frameCount, maxFrameDimension, grid, outputPath, deviceId });
+
+        if (!result.success) {
+            return {
+                content: [{ type: "text" as const, text: `Error: ${result.error}` }],
+                isError: true
+            };
+        }
+
+        const lines = [result.result!];
+        if (result.warning) {
+            lines.push(`Frames not extracted: ${result.warning}`);
+        }
+        const content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }> = [];
+        if (result.frames) {
+            lines.push(`${result.frames.length} frame(s) at ${result.frames.map((frame) => `${frame.timeSec.toFixed(1)}s`).join(", ")}`);
+            if (result.grid) {
+                content.push({ type: "image", data: result.grid.toString("base64"), mimeType: "image/jpeg" });
+            } else {
+                for (const frame of result.frames) {
+                    content.push({ type: "image", data: frame.data.toString("base64"), mimeType: "image/jpeg" });
+                }
+            }
+        }
+
+        return {
+            content: [{ type: "text" as const, text: lines.join("\n") }, ...content]
+        };
+    }
+);
+
 // Tool: Android install app
 registerToolWithTelemetry(
     "android_install_app",
@@ -3452,7 +6598,9 @@ registerToolWithTelemetry(
                 status: `http://localhost:${port}/api/status`,
                 logs: `http://localhost:${port}/api/logs`,
                 network: `http://localhost:${port}/api/network`,
+                networkHar: `http://localhost:${port}/api/network.har`,
                 bundleErrors: `http://localhost:${port}/api/bundle-errors`,
+                exceptions: `http://localhost:${port}/api/exceptions`,
                 apps: `http://localhost:${port}/api/apps`
             }
         };
@@ -3507,12 +6655,14 @@ async function autoConnectToMetro(): Promise<void> {
         for (const port of openPorts) {
             try {
                 const devices = await fetchDevices(port);
-                const mainDevice = selectMainDevice(devices);
+                const mainDevices = selectMainDevices(devices);
 
-                if (mainDevice) {
+                for (const mainDevice of mainDevices) {
                     await connectToDevice(mainDevice, port);
-                    console.error(`[rn-ai-debugger] Auto-connected to ${mainDevice.title} on port ${port}`);
+                    console.error(`[rn-ai-debugger] Auto-connected to ${mainDevice.title} (${mainDevice.deviceName}) on port ${port}`);
+                }
 
+                if (mainDevices.length > 0) {
                     // Also connect to Metro build events
                     try {
                         await connectMetroBuildEvents(port);
@@ -3534,6 +6684,9 @@ async function main() {
     // Initialize telemetry (checks opt-out env var, loads/creates installation ID)
     initTelemetry();
 
+    // Start session recording if enabled via RN_DEBUGGER_RECORD_SESSION
+    await initSessionRecorder();
+
     // Start debug HTTP server in-process (shares state with MCP server)
     // Note: Child process mode doesn't work because state (logs, network, apps) isn't shared
     await startDebugHttpServer();